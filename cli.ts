@@ -1,6 +1,7 @@
 #!/usr/bin/env bun
 import { startOAuthFlow, exchangeCodeForTokens } from './server/oauth';
 import { saveTokens, clearTokens, isLoggedIn, getAnthropicTokens } from './server/tokenStorage';
+import { handleChat, handleAsk, handleSessions } from './server/cli/commands';
 import * as readline from 'readline';
 
 const args = process.argv.slice(2);
@@ -130,21 +131,39 @@ async function handleStatus() {
 
 function showHelp() {
   console.log(`
-🤖 Agent Llama - OAuth Authentication CLI
+🤖 Agent Llama - CLI
 
-Commands:
+Authentication:
   --login        Log in with Claude Pro/Max subscription (OAuth)
   --logout       Log out and clear OAuth tokens
   --status       Show current authentication status
   --help         Show this help message
 
+Chat (uses the running server, or starts one in-process):
+  chat [session-id]          Interactive chat, new or resumed
+  ask "<prompt>"             Ask once in a new session and print the answer
+  sessions list              List sessions
+  sessions show <id>         Print a session's conversation
+  sessions export <id>       Export a session (stdout unless --out is given)
+
+Options:
+  --mode <mode>      Mode for new sessions (general, coder, intense-research, ...)
+  --model <model>    Model to use (e.g. opus, sonnet, haiku)
+  --dir <path>       Working directory for new sessions
+  --format <format>  Export format: md, html or json (default md)
+  --out, -o <file>   Write an export to a file
+  --url <url>        Server address (default $AGENT_LLAMA_URL or http://localhost:3001)
+  --token <token>    API access token (default $AGENT_LLAMA_TOKEN or the local server's stored token)
+
+Session ids can be shortened to any unique prefix.
+
 Examples:
   bun run cli.ts --login
   bun run cli.ts --logout
   bun run cli.ts --status
-
-Note: This CLI is for OAuth authentication only.
-      Use 'agent-llama' command to launch the app (standalone binary).
+  bun run cli.ts chat --mode coder --dir .
+  bun run cli.ts ask "What does this repo do?" --mode coder --model sonnet --dir .
+  bun run cli.ts sessions export 3f2a9c1e --format html --out chat.html
 `);
 }
 
@@ -166,6 +185,18 @@ async function main() {
       await handleStatus();
       break;
 
+    case 'chat':
+      process.exit(await handleChat(args.slice(1)));
+      break;
+
+    case 'ask':
+      process.exit(await handleAsk(args.slice(1)));
+      break;
+
+    case 'sessions':
+      process.exit(await handleSessions(args.slice(1)));
+      break;
+
     case '--help':
     case 'help':
       showHelp();
@@ -0,0 +1,76 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import React from 'react';
+import { AlertTriangle, OctagonX, X } from 'lucide-react';
+
+export interface BudgetAlert {
+  level: 'warning' | 'exceeded';
+  message: string;
+}
+
+interface BudgetBannerProps {
+  alert: BudgetAlert;
+  onDismiss: () => void;
+}
+
+/**
+ * Banner above the chat input shown when a budget (budgets.json) is nearly or fully used
+ */
+export function BudgetBanner({ alert, onDismiss }: BudgetBannerProps) {
+  const isExceeded = alert.level === 'exceeded';
+  const color = isExceeded ? 'rgb(248, 113, 113)' : 'rgb(251, 191, 36)';
+
+  return (
+    <div
+      role="alert"
+      style={{
+        display: 'flex',
+        alignItems: 'flex-start',
+        gap: '0.75rem',
+        margin: '0 auto 0.75rem',
+        maxWidth: '48rem',
+        width: 'calc(100% - 2rem)',
+        padding: '0.75rem 1rem',
+        borderRadius: '0.75rem',
+        border: `1px solid ${color}`,
+        background: isExceeded ? 'rgba(248, 113, 113, 0.1)' : 'rgba(251, 191, 36, 0.1)',
+        fontSize: '0.875rem',
+      }}
+    >
+      {isExceeded
+        ? <OctagonX size={18} style={{ color, flexShrink: 0, marginTop: '0.125rem' }} />
+        : <AlertTriangle size={18} style={{ color, flexShrink: 0, marginTop: '0.125rem' }} />}
+      <div style={{ flex: 1 }}>
+        <div style={{ fontWeight: 600, color: 'rgb(var(--text-primary))' }}>
+          {isExceeded ? 'Budget exceeded' : 'Approaching budget'}
+        </div>
+        <div style={{ color: 'rgb(var(--text-secondary))', marginTop: '0.125rem' }}>{alert.message}</div>
+      </div>
+      <button
+        onClick={onDismiss}
+        aria-label="Dismiss"
+        style={{ background: 'transparent', border: 'none', color: 'rgb(var(--text-secondary))', cursor: 'pointer', padding: '0.125rem', display: 'flex' }}
+      >
+        <X size={16} />
+      </button>
+    </div>
+  );
+}
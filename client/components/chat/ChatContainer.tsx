@@ -27,24 +27,91 @@ import { Sidebar } from '../sidebar/Sidebar';
 import { ModelSelector } from '../header/ModelSelector';
 import { WorkingDirectoryDisplay } from '../header/WorkingDirectoryDisplay';
 import { AboutButton } from '../header/AboutButton';
+import { McpServersButton } from '../header/McpServersButton';
+import { UsageButton } from '../header/UsageButton';
+import { ToolTimelineButton } from '../header/ToolTimelineButton';
+import { ViewersIndicator } from '../header/ViewersIndicator';
+import { BudgetBanner, type BudgetAlert } from './BudgetBanner';
+import { ToolPolicyMenu } from '../header/ToolPolicyMenu';
 import { RadioPlayer } from '../header/RadioPlayer';
+import { PermissionModeToggle } from '../header/PermissionModeToggle';
 import { PlanApprovalModal } from '../plan/PlanApprovalModal';
 import { QuestionModal, type Question } from '../question/QuestionModal';
+import { ToolPermissionModal, type ToolPermissionRequest } from '../permission/ToolPermissionModal';
+import { RewindModal } from './RewindModal';
+import { TurnDiffPanel } from '../diff/TurnDiffPanel';
 import { BuildWizard } from '../build-wizard/BuildWizard';
 import { ScrollButton } from './ScrollButton';
 import { useWebSocket } from '../../hooks/useWebSocket';
-import { useSessionAPI, type Session } from '../../hooks/useSessionAPI';
+import { useSessionAPI, type Session, type SessionMessage } from '../../hooks/useSessionAPI';
 import { Menu, Edit3 } from 'lucide-react';
-import type { Message } from '../message/types';
+import type { Message, ToolUseBlock } from '../message/types';
 import { toast } from '../../utils/toast';
 import { showError } from '../../utils/errorMessages';
 import type { BackgroundProcess } from '../process/BackgroundProcessMonitor';
 import type { SlashCommand } from '../../hooks/useWebSocket';
+import type { SessionToolPolicy } from '../../config/tools';
+import type { ChatContentBlock, PermissionMode, ToolPermissionDecision, ToolResultPreview } from '../../config/protocol';
+import { apiFetch, withAccessToken } from '../../utils/apiFetch';
+
+/**
+ * Attach a tool's output to its call (sub-agent calls are nested under their Task)
+ */
+function attachToolResult<T extends { type: string }>(blocks: T[], toolUseId: string, result: ToolResultPreview): T[] {
+  return blocks.map(block => {
+    if (block.type !== 'tool_use') return block;
+    const toolUse = block as unknown as ToolUseBlock;
+    if (toolUse.id === toolUseId) return { ...block, result };
+    if (toolUse.nestedTools) return { ...block, nestedTools: attachToolResult(toolUse.nestedTools, toolUseId, result) };
+    return block;
+  });
+}
+
+/**
+ * Convert messages loaded from the database into renderable messages
+ */
+function convertSessionMessages(sessionMessages: SessionMessage[]): Message[] {
+  return sessionMessages.map((msg): Message => {
+    if (msg.type === 'user') {
+      return {
+        id: msg.id,
+        type: 'user' as const,
+        content: msg.content,
+        timestamp: msg.timestamp,
+      };
+    } else {
+      // For assistant messages, try to parse content as JSON
+      let content;
+      try {
+        // Try parsing as JSON (new format with full content blocks)
+        const parsed = JSON.parse(msg.content);
+        if (Array.isArray(parsed)) {
+          content = parsed;
+        } else {
+          // If not an array, wrap as text block
+          content = [{ type: 'text' as const, text: msg.content }];
+        }
+      } catch {
+        // If parse fails, treat as plain text (legacy format)
+        content = [{ type: 'text' as const, text: msg.content }];
+      }
+
+      return {
+        id: msg.id,
+        type: 'assistant' as const,
+        content,
+        timestamp: msg.timestamp,
+      };
+    }
+  });
+}
 
 export function ChatContainer() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [loadingSessions, setLoadingSessions] = useState<Set<string>>(new Set());
+  const loadingSessionsRef = useRef(loadingSessions);
+  loadingSessionsRef.current = loadingSessions;
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
   // Ref for scroll container in MessageList
@@ -69,6 +136,22 @@ export function ChatContainer() {
     contextPercentage: number;
   }>>(new Map());
 
+  // Message to scroll to and highlight (set when jumping from search results)
+  const [highlightMessageId, setHighlightMessageId] = useState<string | null>(null);
+
+  // Turn (user message) whose file rewind preview / changes panel is open
+  const [rewindTurnId, setRewindTurnId] = useState<string | null>(null);
+  const [diffTurnId, setDiffTurnId] = useState<string | null>(null);
+
+  // Bumped when a turn ends or git automation runs, so the header's git badge reloads
+  const [gitRefreshKey, setGitRefreshKey] = useState(0);
+
+  // Turn panels belong to the session they were opened from
+  useEffect(() => {
+    setRewindTurnId(null);
+    setDiffTurnId(null);
+  }, [currentSessionId]);
+
   // Message cache to preserve streaming state across session switches
   const messageCache = useRef<Map<string, Message[]>>(new Map());
 
@@ -86,11 +169,17 @@ export function ChatContainer() {
     return localStorage.getItem('agent-boy-model') || 'sonnet';
   });
 
-  // Permission mode (simplified to just plan mode on/off)
-  const [isPlanMode, setIsPlanMode] = useState<boolean>(false);
+  // Permission mode; the plan toggle returns to the last non-plan mode
+  const [permissionMode, setPermissionMode] = useState<PermissionMode>('bypassPermissions');
+  const lastExecutionModeRef = useRef<Exclude<PermissionMode, 'plan'>>('bypassPermissions');
+  const isPlanMode = permissionMode === 'plan';
 
   // Plan approval
   const [pendingPlan, setPendingPlan] = useState<string | null>(null);
+  const [budgetAlert, setBudgetAlert] = useState<BudgetAlert | null>(null);
+
+  // Clients (tabs/devices) watching the current session, including this one
+  const [viewerCount, setViewerCount] = useState(0);
 
   // Question modal state
   const [pendingQuestion, setPendingQuestion] = useState<{
@@ -98,6 +187,9 @@ export function ChatContainer() {
     questions: Question[];
   } | null>(null);
 
+  // Tool calls waiting for approval (sessions not in bypassPermissions mode)
+  const [pendingPermissions, setPendingPermissions] = useState<(ToolPermissionRequest & { sessionId: string })[]>([]);
+
   // Background processes (per-session)
   const [backgroundProcesses, setBackgroundProcesses] = useState<Map<string, BackgroundProcess[]>>(new Map());
 
@@ -109,11 +201,7 @@ export function ChatContainer() {
 
   const sessionAPI = useSessionAPI();
 
-  // Per-session loading state helpers
-  const isSessionLoading = (sessionId: string | null): boolean => {
-    return sessionId ? loadingSessions.has(sessionId) : false;
-  };
-
+  // Per-session loading state helper
   const setSessionLoading = (sessionId: string, loading: boolean) => {
     setLoadingSessions(prev => {
       const next = new Set(prev);
@@ -133,6 +221,9 @@ export function ChatContainer() {
   // Check if CURRENT session is loading (for typing indicator)
   const isCurrentSessionLoading = currentSessionId ? loadingSessions.has(currentSessionId) : false;
 
+  // Permission requests for the session on screen (others wait until it's switched back to)
+  const currentPermissionRequests = pendingPermissions.filter(request => request.sessionId === currentSessionId);
+
   // Save model selection to localStorage
   const handleModelChange = (modelId: string) => {
     setSelectedModel(modelId);
@@ -184,14 +275,14 @@ export function ChatContainer() {
     const sessions = await sessionAPI.fetchSessions();
     const session = sessions.find(s => s.id === sessionId);
     if (session) {
-      setIsPlanMode(session.permission_mode === 'plan');
+      setPermissionMode(session.permission_mode);
       setCurrentSessionMode(session.mode);
       console.log('🎭 Session mode loaded:', session.mode, 'for session:', sessionId);
     }
 
     // Load slash commands for this session
     try {
-      const commandsRes = await fetch(`/api/sessions/${sessionId}/commands`);
+      const commandsRes = await apiFetch(`/api/sessions/${sessionId}/commands`);
       if (commandsRes.ok) {
         const commandsData = await commandsRes.json();
         setAvailableCommands(commandsData.commands || []);
@@ -212,42 +303,63 @@ export function ChatContainer() {
     // Load messages from database
     const sessionMessages = await sessionAPI.fetchSessionMessages(sessionId);
 
-    // Convert session messages to Message format
-    const convertedMessages: Message[] = sessionMessages.map(msg => {
-      if (msg.type === 'user') {
-        return {
-          id: msg.id,
-          type: 'user' as const,
-          content: msg.content,
-          timestamp: msg.timestamp,
-        };
-      } else {
-        // For assistant messages, try to parse content as JSON
-        let content;
-        try {
-          // Try parsing as JSON (new format with full content blocks)
-          const parsed = JSON.parse(msg.content);
-          if (Array.isArray(parsed)) {
-            content = parsed;
-          } else {
-            // If not an array, wrap as text block
-            content = [{ type: 'text' as const, text: msg.content }];
-          }
-        } catch {
-          // If parse fails, treat as plain text (legacy format)
-          content = [{ type: 'text' as const, text: msg.content }];
-        }
+    setMessages(convertSessionMessages(sessionMessages));
+  };
 
-        return {
-          id: msg.id,
-          type: 'assistant' as const,
-          content,
-          timestamp: msg.timestamp,
-        };
+  // Handle search result selection - open the session and jump to the message
+  const handleSearchResultSelect = async (sessionId: string, messageId: string) => {
+    // Streamed messages use client-side IDs until reloaded, so make sure the
+    // message list we show comes from the database when the target isn't present
+    const loadedMessages = sessionId === currentSessionId ? messages : messageCache.current.get(sessionId);
+    const hasMessage = loadedMessages?.some(m => m.id === messageId) ?? false;
+
+    if (sessionId !== currentSessionId) {
+      if (!hasMessage) {
+        messageCache.current.delete(sessionId);
       }
+      await handleSessionSelect(sessionId);
+    } else if (!hasMessage) {
+      const sessionMessages = await sessionAPI.fetchSessionMessages(sessionId);
+      setMessages(convertSessionMessages(sessionMessages));
+    }
+
+    setHighlightMessageId(messageId);
+  };
+
+  // Handle forking the current session from a message
+  const handleForkMessage = async (messageId: string) => {
+    if (!currentSessionId) return;
+
+    const forked = await sessionAPI.forkSession(currentSessionId, messageId);
+    if (!forked) return; // Error already shown by sessionAPI
+
+    await loadSessions();
+    await handleSessionSelect(forked.id);
+    toast.success('Chat forked', {
+      description: 'Continue from here without changing the original chat',
     });
+  };
 
-    setMessages(convertedMessages);
+  // Handle importing a chat from an exported JSON bundle
+  const handleImportChat = async (file: File) => {
+    let bundle: unknown;
+    try {
+      bundle = JSON.parse(await file.text());
+    } catch {
+      toast.error('Failed to import chat', {
+        description: `${file.name} is not valid JSON`,
+      });
+      return;
+    }
+
+    const imported = await sessionAPI.importSession(bundle);
+    if (!imported) return; // Error already shown by sessionAPI
+
+    await loadSessions();
+    await handleSessionSelect(imported.id);
+    toast.success('Chat imported', {
+      description: imported.title,
+    });
   };
 
   // Handle new chat creation
@@ -291,6 +403,16 @@ export function ChatContainer() {
   };
 
   // Handle working directory change
+  // Handle switching MCP servers/tools on or off for the current session
+  const handleToolPolicyChange = async (policy: SessionToolPolicy) => {
+    if (!currentSessionId) return;
+
+    const updated = await sessionAPI.updateToolPolicy(currentSessionId, policy);
+    if (!updated) return; // Error already shown by sessionAPI
+
+    setSessions(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+  };
+
   const handleChangeDirectory = async (sessionId: string, newDirectory: string) => {
     const result = await sessionAPI.updateWorkingDirectory(sessionId, newDirectory);
 
@@ -299,7 +421,7 @@ export function ChatContainer() {
 
       // Reload slash commands for new directory
       try {
-        const commandsRes = await fetch(`/api/sessions/${sessionId}/commands`);
+        const commandsRes = await apiFetch(`/api/sessions/${sessionId}/commands`);
         if (commandsRes.ok) {
           const commandsData = await commandsRes.json();
           setAvailableCommands(commandsData.commands || []);
@@ -318,20 +440,22 @@ export function ChatContainer() {
     }
   };
 
-  // Handle plan mode toggle
-  const handleTogglePlanMode = async () => {
-    const newPlanMode = !isPlanMode;
-    const mode = newPlanMode ? 'plan' : 'bypassPermissions';
+  // Handle permission mode changes (header menu and plan toggle)
+  const handlePermissionModeChange = async (mode: PermissionMode) => {
+    // Remember the mode to return to once planning is done
+    if (mode === 'plan' && permissionMode !== 'plan') {
+      lastExecutionModeRef.current = permissionMode;
+    }
 
     // Always update local state
-    setIsPlanMode(newPlanMode);
+    setPermissionMode(mode);
 
     // If session exists, update it in the database
     if (currentSessionId) {
       const result = await sessionAPI.updatePermissionMode(currentSessionId, mode);
 
-      // If query is active, send WebSocket message to switch mode mid-stream
-      if (result.success && isSessionLoading(currentSessionId)) {
+      // The session's SDK subprocess outlives a turn, so switch it too (a no-op if none is running)
+      if (result.success) {
         sendMessage({
           type: 'set_permission_mode',
           sessionId: currentSessionId,
@@ -342,14 +466,33 @@ export function ChatContainer() {
     // If no session exists yet, the mode will be applied when session is created
   };
 
+  // Handle plan mode toggle
+  const handleTogglePlanMode = () => {
+    handlePermissionModeChange(isPlanMode ? lastExecutionModeRef.current : 'plan');
+  };
+
+  // Handle a decision in the tool permission dialog
+  const handleToolPermissionResponse = (requestId: string, decision: ToolPermissionDecision) => {
+    if (!currentSessionId) return;
+
+    sendMessage({
+      type: 'respond_tool_permission',
+      sessionId: currentSessionId,
+      requestId,
+      decision,
+    });
+    setPendingPermissions(prev => prev.filter(request => request.requestId !== requestId));
+  };
+
   // Handle plan approval
   const handleApprovePlan = () => {
     if (!currentSessionId) return;
 
-    // Send approval to server to switch mode
+    // Send approval to server to switch back to the mode used before planning
     sendMessage({
       type: 'approve_plan',
-      sessionId: currentSessionId
+      sessionId: currentSessionId,
+      mode: lastExecutionModeRef.current,
     });
 
     // Close modal
@@ -374,6 +517,7 @@ export function ChatContainer() {
         content: 'Approved. Please proceed with the plan.',
         sessionId: currentSessionId,
         model: selectedModel,
+        clientMessageId: approvalMessage.id,
       });
     }, 100); // Small delay to ensure mode is switched
   };
@@ -427,9 +571,9 @@ export function ChatContainer() {
     setPendingQuestion(null);
   };
 
-  const { isConnected, sendMessage, stopGeneration } = useWebSocket({
+  const { isConnected, sendMessage, stopGeneration, subscribe, unsubscribe } = useWebSocket({
     // Use dynamic URL based on current window location (works on any port)
-    url: `${window.location.protocol === 'https:' ? 'wss:' : 'ws:'}//${window.location.host}/ws`,
+    url: withAccessToken(`${window.location.protocol === 'https:' ? 'wss:' : 'ws:'}//${window.location.host}/ws`),
     onMessage: (message) => {
       // Session isolation: Ignore messages from other sessions
       if (message.sessionId && message.sessionId !== currentSessionId) {
@@ -438,14 +582,7 @@ export function ChatContainer() {
         // Allow certain message types through for background session updates
         if (message.type === 'context_usage') {
           // Process context_usage for any session
-          const usageMsg = message as {
-            type: 'context_usage';
-            inputTokens: number;
-            outputTokens: number;
-            contextWindow: number;
-            contextPercentage: number;
-            sessionId?: string;
-          };
+          const usageMsg = message;
 
           const targetSessionId = usageMsg.sessionId || currentSessionId;
           if (targetSessionId) {
@@ -464,16 +601,23 @@ export function ChatContainer() {
           return;
         }
 
+        // Missed events for a background session couldn't be replayed; reload it from the database when opened
+        if (message.type === 'stream_resumed' && 'complete' in message && !message.complete && message.sessionId) {
+          messageCache.current.delete(message.sessionId);
+        }
+
         // Clear loading state for filtered session if it's a completion message
+        // and stop watching it now that it's no longer generating
         if ((message.type === 'result' || message.type === 'error') && message.sessionId) {
           setSessionLoading(message.sessionId, false);
+          unsubscribe(message.sessionId);
         }
         return;
       }
 
       // Handle incoming WebSocket messages
       if (message.type === 'assistant_message' && 'content' in message) {
-        const assistantContent = message.content as string;
+        const assistantContent = message.content;
         setMessages((prev) => {
           const lastMessage = prev[prev.length - 1];
 
@@ -546,7 +690,7 @@ export function ChatContainer() {
           ];
         });
       } else if (message.type === 'thinking_delta' && 'content' in message) {
-        const thinkingContent = message.content as string;
+        const thinkingContent = message.content;
         console.log('💭 Thinking delta:', thinkingContent.slice(0, 50) + (thinkingContent.length > 50 ? '...' : ''));
 
         setMessages((prev) => {
@@ -573,12 +717,7 @@ export function ChatContainer() {
           return prev; // No update if not in a thinking block
         });
       } else if (message.type === 'agent_queue_status') {
-        const { toolId, status, queueInfo } = message as {
-          type: 'agent_queue_status';
-          toolId: string;
-          status: 'running' | 'queued' | 'completed';
-          queueInfo: { running: number; queued: number; max: number }
-        };
+        const { toolId, status, queueInfo } = message;
 
         // Update UI state to show queue status
         setMessages(prev => {
@@ -597,11 +736,39 @@ export function ChatContainer() {
             return block;
           });
 
+          return [...prev.slice(0, -1), { ...lastMessage, content: updatedContent }];
+        });
+      } else if (message.type === 'tool_result') {
+        const { toolUseId, result } = message;
+
+        setMessages(prev => {
+          const lastMessage = prev[prev.length - 1];
+          if (!lastMessage || lastMessage.type !== 'assistant') return prev;
+
+          const content = Array.isArray(lastMessage.content) ? lastMessage.content : [];
+          return [...prev.slice(0, -1), { ...lastMessage, content: attachToolResult(content, toolUseId, result) }];
+        });
+      } else if (message.type === 'tool_rule_denied') {
+        const { toolId, ruleId, scope, reason } = message;
+
+        // Mark the blocked tool call so it shows why it didn't run
+        setMessages(prev => {
+          const lastMessage = prev[prev.length - 1];
+          if (!lastMessage || lastMessage.type !== 'assistant') return prev;
+
+          const content = Array.isArray(lastMessage.content) ? lastMessage.content : [];
+          const updatedContent = content.map(block => {
+            if (block.type === 'tool_use' && block.id === toolId) {
+              return { ...block, ruleDenial: { ruleId, scope, reason } };
+            }
+            return block;
+          });
+
           return [...prev.slice(0, -1), { ...lastMessage, content: updatedContent }];
         });
       } else if (message.type === 'tool_use' && 'toolId' in message && 'toolName' in message && 'toolInput' in message) {
         // Handle tool use messages
-        const toolUseMsg = message as { type: 'tool_use'; toolId: string; toolName: string; toolInput: Record<string, unknown> };
+        const toolUseMsg = message;
 
         // Use flushSync to prevent React batching from causing tools to be lost
         // When multiple tool_use messages arrive rapidly, React batches setState calls
@@ -709,7 +876,7 @@ export function ChatContainer() {
         });
       } else if (message.type === 'token_update' && 'outputTokens' in message) {
         // Update live token count during streaming
-        const tokenUpdate = message as { type: 'token_update'; outputTokens: number };
+        const tokenUpdate = message;
         setLiveTokenCount(tokenUpdate.outputTokens);
       } else if (message.type === 'result') {
         if (currentSessionId) {
@@ -720,16 +887,26 @@ export function ChatContainer() {
           // Clear live token count when response completes
           setLiveTokenCount(0);
         }
+        setGitRefreshKey(key => key + 1);
+      } else if (message.type === 'git_auto_action') {
+        if (message.error) {
+          toast.error(message.action === 'commit' ? 'Auto-commit failed' : 'Auto-branch failed', { description: message.error });
+        } else if (message.action === 'commit') {
+          toast.success(`Committed ${message.commit}`, { description: message.subject });
+        } else if (message.created) {
+          toast.success('Branch created', { description: `Working on ${message.branch}` });
+        }
+        setGitRefreshKey(key => key + 1);
       } else if (message.type === 'timeout_warning') {
         // Handle timeout warning (60s elapsed)
-        const warningMsg = message as { type: 'timeout_warning'; message: string; elapsedSeconds: number };
+        const warningMsg = message;
         toast.warning('Still thinking...', {
           description: warningMsg.message || 'The AI is taking longer than usual',
           duration: 5000,
         });
       } else if (message.type === 'retry_attempt') {
         // Handle retry attempt notification
-        const retryMsg = message as { type: 'retry_attempt'; attempt: number; maxAttempts: number; message: string; errorType: string };
+        const retryMsg = message;
         toast.info(`Retrying (${retryMsg.attempt}/${retryMsg.maxAttempts})`, {
           description: retryMsg.message || `Attempting to recover from ${retryMsg.errorType}...`,
           duration: 3000,
@@ -741,9 +918,8 @@ export function ChatContainer() {
         setLiveTokenCount(0);
 
         // Get error type and message
-        const errorType = 'errorType' in message ? (message.errorType as string) : undefined;
-        const errorMsg = 'message' in message ? message.message : ('error' in message ? message.error : undefined);
-        const errorMessage = errorMsg || 'An error occurred';
+        const errorType = message.errorType;
+        const errorMessage = message.message || 'An error occurred';
 
         // Map error type to user-friendly error code
         const errorCodeMap: Record<string, string> = {
@@ -785,17 +961,29 @@ export function ChatContainer() {
             timestamp: new Date().toISOString(),
           },
         ]);
-      } else if (message.type === 'user_message') {
-        // Echo back user message if needed
+      } else if (message.type === 'user_message' && 'message' in message) {
+        // Sent from any tab or device watching this session (this one included), and replayed after a reconnect
+        const [saved] = convertSessionMessages([{ ...message.message, session_id: currentSessionId!, type: 'user' }]);
+        const { clientMessageId } = message;
+        setMessages((prev) => {
+          if (prev.some(m => m.id === saved.id)) return prev;
+          // Our own message: keep it as shown (with attachments) under its stored ID
+          if (clientMessageId && prev.some(m => m.id === clientMessageId)) {
+            return prev.map(m => (m.id === clientMessageId ? { ...m, id: saved.id } : m));
+          }
+          return [...prev, saved];
+        });
+        if (currentSessionId) setSessionLoading(currentSessionId, true);
+      } else if (message.type === 'subscribers_changed' && 'count' in message) {
+        setViewerCount(message.count);
       } else if (message.type === 'exit_plan_mode') {
         // Handle plan mode exit - show approval modal and auto-deactivate plan mode
         const planText = 'plan' in message ? message.plan : undefined;
         setPendingPlan(planText || 'No plan provided');
-        setIsPlanMode(false); // Auto-deactivate plan mode when ExitPlanMode is triggered
+        setPermissionMode(lastExecutionModeRef.current); // Auto-deactivate plan mode when ExitPlanMode is triggered
       } else if (message.type === 'permission_mode_changed') {
         // Handle permission mode change confirmation
-        const mode = 'mode' in message ? message.mode : undefined;
-        setIsPlanMode(mode === 'plan');
+        setPermissionMode(message.mode);
       } else if (message.type === 'background_process_started' && 'bashId' in message && 'command' in message && 'description' in message) {
         // Handle background process started
         const sessionId = message.sessionId || currentSessionId;
@@ -804,9 +992,9 @@ export function ChatContainer() {
             const newMap = new Map(prev);
             const processes = newMap.get(sessionId) || [];
             newMap.set(sessionId, [...processes, {
-              bashId: message.bashId as string,
-              command: message.command as string,
-              description: message.description as string,
+              bashId: message.bashId,
+              command: message.command,
+              description: message.description,
               startedAt: Date.now()
             }]);
             return newMap;
@@ -837,14 +1025,7 @@ export function ChatContainer() {
         }
       } else if (message.type === 'long_running_command_started' && 'bashId' in message && 'command' in message && 'commandType' in message) {
         // Handle long-running command started - add as message block
-        const longRunningMsg = message as {
-          type: 'long_running_command_started';
-          bashId: string;
-          command: string;
-          commandType: 'install' | 'build' | 'test';
-          description?: string;
-          startedAt: number;
-        };
+        const longRunningMsg = message;
 
         activeLongRunningCommandRef.current = longRunningMsg.bashId;
 
@@ -868,7 +1049,7 @@ export function ChatContainer() {
         ]);
       } else if (message.type === 'command_output_chunk' && 'bashId' in message && 'output' in message) {
         // Handle streaming output from long-running command - update message block
-        const outputMsg = message as { type: 'command_output_chunk'; bashId: string; output: string };
+        const outputMsg = message;
 
         setMessages(prev => {
           const lastMessage = prev[prev.length - 1];
@@ -895,7 +1076,7 @@ export function ChatContainer() {
         });
       } else if (message.type === 'long_running_command_completed' && 'bashId' in message) {
         // Handle long-running command completion - update message block status
-        const completedMsg = message as { type: 'long_running_command_completed'; bashId: string; exitCode: number };
+        const completedMsg = message;
 
         setMessages(prev => {
           const lastMessage = prev[prev.length - 1];
@@ -929,7 +1110,7 @@ export function ChatContainer() {
         });
       } else if (message.type === 'long_running_command_failed' && 'bashId' in message && 'error' in message) {
         // Handle long-running command failure - update message block status
-        const failedMsg = message as { type: 'long_running_command_failed'; bashId: string; error: string };
+        const failedMsg = message;
 
         setMessages(prev => {
           const lastMessage = prev[prev.length - 1];
@@ -967,7 +1148,7 @@ export function ChatContainer() {
         // We ignore this and use REST API instead
       } else if (message.type === 'compact_start' && 'trigger' in message && 'preTokens' in message) {
         // Handle auto-compact notification
-        const compactMsg = message as { type: 'compact_start'; trigger: 'auto' | 'manual'; preTokens: number };
+        const compactMsg = message;
         if (compactMsg.trigger === 'auto') {
           const tokenCount = compactMsg.preTokens.toLocaleString();
           toast.info('Auto-compacting conversation...', {
@@ -991,7 +1172,7 @@ export function ChatContainer() {
         // Handle /compact completion - remove loading message and add final divider
         const targetSessionId = message.sessionId || currentSessionId;
         if (targetSessionId === currentSessionId) {
-          const compactMsg = message as { type: 'compact_complete'; preTokens: number };
+          const compactMsg = message;
           const tokenCount = compactMsg.preTokens.toLocaleString();
 
           // Remove loading message
@@ -1008,14 +1189,7 @@ export function ChatContainer() {
         }
       } else if (message.type === 'context_usage' && 'inputTokens' in message && 'contextWindow' in message && 'contextPercentage' in message) {
         // Handle context usage update (for current session)
-        const usageMsg = message as {
-          type: 'context_usage';
-          inputTokens: number;
-          outputTokens: number;
-          contextWindow: number;
-          contextPercentage: number;
-          sessionId?: string;
-        };
+        const usageMsg = message;
 
         const targetSessionId = usageMsg.sessionId || currentSessionId;
         if (targetSessionId) {
@@ -1033,12 +1207,7 @@ export function ChatContainer() {
         }
       } else if (message.type === 'ask_user_question' && 'toolId' in message && 'questions' in message) {
         // Handle AskUserQuestion tool - show modal to get user's answers
-        const questionMsg = message as {
-          type: 'ask_user_question';
-          toolId: string;
-          questions: Question[];
-          sessionId?: string;
-        };
+        const questionMsg = message;
         console.log('❓ Received question from Claude:', questionMsg.questions);
         setPendingQuestion({
           toolId: questionMsg.toolId,
@@ -1047,6 +1216,44 @@ export function ChatContainer() {
       } else if (message.type === 'question_answered') {
         // Clear the question modal when answer is confirmed
         setPendingQuestion(null);
+      } else if (message.type === 'tool_permission_request' && currentSessionId) {
+        // A tool call is waiting for approval - queue it for the permission dialog
+        const { requestId, toolName, toolInput, rules, directories, reason } = message;
+        const sessionId = message.sessionId || currentSessionId;
+        setPendingPermissions(prev => prev.some(request => request.requestId === requestId)
+          ? prev
+          : [...prev, { requestId, toolName, toolInput, rules, directories, reason, sessionId }]);
+      } else if (message.type === 'tool_permission_resolved') {
+        // Answered here or on another client (or the turn was stopped)
+        setPendingPermissions(prev => prev.filter(request => request.requestId !== message.requestId));
+        const { allowedTools, allowedDirectories } = message;
+        if (allowedTools && allowedDirectories && currentSessionId) {
+          setSessions(prev => prev.map(s => (s.id === currentSessionId && s.tool_policy
+            ? { ...s, tool_policy: { ...s.tool_policy, allowedTools, allowedDirectories } }
+            : s)));
+        }
+      } else if (message.type === 'stream_resumed' && 'complete' in message) {
+        // Reconnected: missed events were replayed above unless the server couldn't (restart, buffer overflow)
+        if (!message.complete && currentSessionId) {
+          const sessionId = currentSessionId;
+          messageCache.current.delete(sessionId);
+          sessionAPI.fetchSessionMessages(sessionId).then(sessionMessages => {
+            setMessages(convertSessionMessages(sessionMessages));
+          });
+        }
+        if (!message.active && currentSessionId) {
+          // No live stream left on the server, so nothing is generating anymore
+          setSessionLoading(currentSessionId, false);
+          setLiveTokenCount(0);
+        }
+      } else if (message.type === 'budget_warning' && 'message' in message) {
+        setBudgetAlert({ level: 'warning', message: message.message });
+      } else if (message.type === 'budget_exceeded' && 'message' in message) {
+        // Sent instead of a response when a message is refused, or when generation was stopped
+        if (currentSessionId) setSessionLoading(currentSessionId, false);
+        setLiveTokenCount(0);
+        setBudgetAlert({ level: 'exceeded', message: message.message });
+        toast.error('Budget exceeded', { description: message.message });
       } else if (message.type === 'keepalive') {
         // Keepalive messages are sent every 30s to prevent WebSocket idle timeout
         // during long-running operations. No action needed - just acknowledge receipt.
@@ -1056,6 +1263,20 @@ export function ChatContainer() {
     },
   });
 
+  // Watch the open session so events sent from other tabs/devices show up live
+  // A session left while generating stays subscribed until its result arrives
+  useEffect(() => {
+    if (!currentSessionId) return;
+    setViewerCount(0);
+    subscribe(currentSessionId);
+
+    return () => {
+      if (!loadingSessionsRef.current.has(currentSessionId)) {
+        unsubscribe(currentSessionId);
+      }
+    };
+  }, [currentSessionId, subscribe, unsubscribe]);
+
   // Handle killing a background process
   const handleKillProcess = (bashId: string) => {
     if (!currentSessionId) return;
@@ -1104,7 +1325,7 @@ export function ChatContainer() {
 
         // Load slash commands for new session
         try {
-          const commandsRes = await fetch(`/api/sessions/${sessionId}/commands`);
+          const commandsRes = await apiFetch(`/api/sessions/${sessionId}/commands`);
           if (commandsRes.ok) {
             const commandsData = await commandsRes.json();
             setAvailableCommands(commandsData.commands || []);
@@ -1115,7 +1336,6 @@ export function ChatContainer() {
         }
 
         // Apply current permission mode to new session
-        const permissionMode = isPlanMode ? 'plan' : 'bypassPermissions';
         await sessionAPI.updatePermissionMode(sessionId, permissionMode);
 
         // Update state and load sessions
@@ -1136,11 +1356,11 @@ export function ChatContainer() {
 
       // Build content: if there are image files, send as array of blocks
       // Otherwise, send as plain string (existing behavior)
-      let messageContent: string | Array<Record<string, unknown>> = messageText;
+      let messageContent: string | ChatContentBlock[] = messageText;
 
       if (files && files.length > 0) {
         // Convert to content blocks format (text + images)
-        const contentBlocks: Array<Record<string, unknown>> = [];
+        const contentBlocks: ChatContentBlock[] = [];
 
         // Add text block if there's input
         if (messageText.trim()) {
@@ -1188,6 +1408,7 @@ export function ChatContainer() {
         sessionId: sessionId,
         model: selectedModel,
         timezone: userTimezone,
+        clientMessageId: userMessage.id,
       });
 
       setInputValue('');
@@ -1242,12 +1463,15 @@ export function ChatContainer() {
             timestamp: new Date(session.updated_at),
             isActive: session.id === currentSessionId,
             isLoading: loadingSessions.has(session.id),
+            parentId: session.parent_session_id || undefined,
           };
         })}
         onNewChat={handleNewChat}
         onChatSelect={handleSessionSelect}
         onChatDelete={handleChatDelete}
         onChatRename={handleChatRename}
+        onSearchResultSelect={handleSearchResultSelect}
+        onImportChat={handleImportChat}
       />
 
       {/* Main Chat Area */}
@@ -1312,14 +1536,36 @@ export function ChatContainer() {
             <div className="header-right">
               {/* Radio Player */}
               <RadioPlayer />
+              {/* Viewers Indicator */}
+              <ViewersIndicator count={viewerCount} />
+              {/* Permission Mode */}
+              <PermissionModeToggle
+                selectedMode={permissionMode}
+                onModeChange={handlePermissionModeChange}
+              />
+              {/* Tool Policy Menu */}
+              {currentSessionId && (
+                <ToolPolicyMenu
+                  policy={sessions.find(s => s.id === currentSessionId)?.tool_policy}
+                  onPolicyChange={handleToolPolicyChange}
+                  disabled={isCurrentSessionLoading}
+                />
+              )}
               {/* Working Directory Display */}
               {currentSessionId && sessions.find(s => s.id === currentSessionId)?.working_directory && (
                 <WorkingDirectoryDisplay
                   directory={sessions.find(s => s.id === currentSessionId)?.working_directory || ''}
                   sessionId={currentSessionId}
                   onChangeDirectory={handleChangeDirectory}
+                  gitRefreshKey={gitRefreshKey}
                 />
               )}
+              {/* Tool Timeline Button */}
+              {currentSessionId && <ToolTimelineButton sessionId={currentSessionId} />}
+              {/* Usage Button */}
+              <UsageButton />
+              {/* MCP Servers Button */}
+              <McpServersButton />
               {/* About Button */}
               <AboutButton />
             </div>
@@ -1352,8 +1598,18 @@ export function ChatContainer() {
               isLoading={isCurrentSessionLoading}
               liveTokenCount={liveTokenCount}
               scrollContainerRef={scrollContainerRef}
+              highlightMessageId={highlightMessageId}
+              onHighlightComplete={() => setHighlightMessageId(null)}
+              onForkMessage={handleForkMessage}
+              onRewindMessage={currentSessionId ? setRewindTurnId : undefined}
+              onViewChanges={currentSessionId ? setDiffTurnId : undefined}
             />
 
+            {/* Budget warning / limit reached */}
+            {budgetAlert && (
+              <BudgetBanner alert={budgetAlert} onDismiss={() => setBudgetAlert(null)} />
+            )}
+
             {/* Input */}
             <ChatInput
               key={currentSessionId || 'new-chat'}
@@ -1396,6 +1652,36 @@ export function ChatContainer() {
         />
       )}
 
+      {/* Tool Permission Modal */}
+      {currentPermissionRequests.length > 0 && (
+        <ToolPermissionModal
+          request={currentPermissionRequests[0]}
+          queuedCount={currentPermissionRequests.length - 1}
+          onRespond={handleToolPermissionResponse}
+        />
+      )}
+
+      {/* Turn Changes Panel */}
+      {diffTurnId && currentSessionId && (
+        <TurnDiffPanel
+          key={diffTurnId}
+          sessionId={currentSessionId}
+          turnId={diffTurnId}
+          workingDirectory={sessions.find(s => s.id === currentSessionId)?.working_directory}
+          onClose={() => setDiffTurnId(null)}
+        />
+      )}
+
+      {/* Rewind Files Modal */}
+      {rewindTurnId && currentSessionId && (
+        <RewindModal
+          sessionId={currentSessionId}
+          turnId={rewindTurnId}
+          workingDirectory={sessions.find(s => s.id === currentSessionId)?.working_directory}
+          onClose={() => setRewindTurnId(null)}
+        />
+      )}
+
       {/* Build Wizard */}
       {isBuildWizardOpen && (
         <BuildWizard
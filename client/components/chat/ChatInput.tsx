@@ -27,7 +27,7 @@ import type { SlashCommand } from '../../hooks/useWebSocket';
 import { CommandTextRenderer } from '../message/CommandTextRenderer';
 import { StyleConfigModal } from './StyleConfigModal';
 import { FeaturesModal } from './FeaturesModal';
-import { getModelConfig } from '../../config/models';
+import { useModels } from '../../hooks/useModels';
 
 interface ChatInputProps {
   value: string;
@@ -59,6 +59,7 @@ export function ChatInput({ value, onChange, onSubmit, onStop, disabled, isGener
   const [modeIndicatorWidth, setModeIndicatorWidth] = useState(80);
   const [isStyleConfigOpen, setIsStyleConfigOpen] = useState(false);
   const [isFeaturesModalOpen, setIsFeaturesModalOpen] = useState(false);
+  const { getProviderForModel } = useModels();
 
   // Slash command autocomplete state
   const [showCommandMenu, setShowCommandMenu] = useState(false);
@@ -493,12 +494,11 @@ export function ChatInput({ value, onChange, onSubmit, onStop, disabled, isGener
             <div className="input-controls-right">
               {/* Enhanced Context Usage Display */}
               {contextUsage && (() => {
-                // Check if current model is a Kimi model (Moonshot provider)
-                const modelConfig = selectedModel ? getModelConfig(selectedModel) : null;
-                const isKimiModel = modelConfig?.provider === 'moonshot';
+                // Some providers (e.g. Moonshot) don't report usage that maps onto a context window
+                const provider = selectedModel ? getProviderForModel(selectedModel) : undefined;
 
-                if (isKimiModel) {
-                  // Show custom message for Kimi models
+                if (provider && !provider.supportsContextUsage) {
+                  // Show custom message for providers without token tracking
                   return (
                     <div className="flex items-center gap-2 mr-3 px-3 py-1.5 rounded-lg bg-[#1a1c1e] border border-white/20 shadow-sm">
                       <svg
@@ -510,7 +510,7 @@ export function ChatInput({ value, onChange, onSubmit, onStop, disabled, isGener
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                       </svg>
                       <span className="text-xs text-gray-300 font-medium whitespace-nowrap">
-                        Kimi doesn&apos;t track tokens
+                        {provider.name} doesn&apos;t track tokens
                       </span>
                     </div>
                   );
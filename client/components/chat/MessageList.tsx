@@ -29,9 +29,21 @@ interface MessageListProps {
   isLoading?: boolean;
   liveTokenCount?: number;
   scrollContainerRef?: React.RefObject<HTMLDivElement>;
+  highlightMessageId?: string | null;
+  onHighlightComplete?: () => void;
+  onForkMessage?: (messageId: string) => void;
+  onRewindMessage?: (messageId: string) => void;
+  onViewChanges?: (messageId: string) => void;
 }
 
-export function MessageList({ messages, isLoading, liveTokenCount = 0, scrollContainerRef }: MessageListProps) {
+// Messages loaded from the database carry UUIDs; streamed messages use
+// client-side IDs until the session is reloaded and can't be referenced server-side
+const PERSISTED_MESSAGE_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// How long a message stays highlighted after jumping to it from search
+const HIGHLIGHT_DURATION_MS = 2000;
+
+export function MessageList({ messages, isLoading, liveTokenCount = 0, scrollContainerRef, highlightMessageId, onHighlightComplete, onForkMessage, onRewindMessage, onViewChanges }: MessageListProps) {
   const parentRef = scrollContainerRef || useRef<HTMLDivElement>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
 
@@ -115,12 +127,31 @@ export function MessageList({ messages, isLoading, liveTokenCount = 0, scrollCon
 
   // Scroll to bottom when messages change (for new messages)
   useEffect(() => {
+    // Don't fight a pending jump to a specific message
+    if (highlightMessageId) return;
+
     if (parentRef.current) {
       // Auto-scroll to bottom on new messages
       parentRef.current.scrollTop = parentRef.current.scrollHeight;
     }
   }, [messages]);
 
+  // Jump to a specific message (e.g. selected from search results)
+  useEffect(() => {
+    if (!highlightMessageId) return;
+
+    const index = messages.findIndex(m => m.id === highlightMessageId);
+    if (index === -1) return;
+
+    virtualizer.scrollToIndex(index, { align: 'center' });
+
+    const timer = setTimeout(() => {
+      onHighlightComplete?.();
+    }, HIGHLIGHT_DURATION_MS);
+
+    return () => clearTimeout(timer);
+  }, [highlightMessageId, messages]);
+
   if (messages.length === 0 && !isLoading) {
     return (
       <div className="flex-1 flex items-center justify-center">
@@ -159,8 +190,14 @@ export function MessageList({ messages, isLoading, liveTokenCount = 0, scrollCon
                     }}
                     ref={virtualizer.measureElement}
                     data-index={virtualItem.index}
+                    className={message.id === highlightMessageId ? 'message-search-highlight' : undefined}
                   >
-                    <MessageRenderer message={message} />
+                    <MessageRenderer
+                      message={message}
+                      onFork={onForkMessage && PERSISTED_MESSAGE_ID.test(message.id) ? onForkMessage : undefined}
+                      onRewind={onRewindMessage && PERSISTED_MESSAGE_ID.test(message.id) ? onRewindMessage : undefined}
+                      onViewChanges={onViewChanges && PERSISTED_MESSAGE_ID.test(message.id) ? onViewChanges : undefined}
+                    />
                   </div>
                 );
               })}
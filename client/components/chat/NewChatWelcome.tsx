@@ -25,6 +25,7 @@ import { ModeSelector } from './ModeSelector';
 import { ModeIndicator } from './ModeIndicator';
 import type { SlashCommand } from '../../hooks/useWebSocket';
 import { CommandTextRenderer } from '../message/CommandTextRenderer';
+import { apiFetch } from '../../utils/apiFetch';
 
 interface NewChatWelcomeProps {
   inputValue: string;
@@ -95,7 +96,7 @@ export function NewChatWelcome({ inputValue, onInputChange, onSubmit, onStop, di
 
   // Load user config on mount
   useEffect(() => {
-    fetch('/api/user-config')
+    apiFetch('/api/user-config')
       .then(res => res.json())
       .then(data => {
         if (data.displayName) {
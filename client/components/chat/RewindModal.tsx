@@ -0,0 +1,255 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { toast } from '../../utils/toast';
+import { apiFetch } from '../../utils/apiFetch';
+
+interface RewindFile {
+  filePath: string;
+  action: 'restore' | 'delete';
+  turnId: string;
+}
+
+interface RewindModalProps {
+  sessionId: string;
+  turnId: string;
+  workingDirectory?: string;
+  onClose: () => void;
+}
+
+const ACTION_STYLES: Record<RewindFile['action'], { label: string; color: string }> = {
+  restore: { label: 'Restore', color: 'rgb(96, 165, 250)' },
+  delete: { label: 'Delete', color: 'rgb(248, 113, 113)' },
+};
+
+function displayPath(filePath: string, workingDirectory?: string): string {
+  if (workingDirectory && filePath.startsWith(`${workingDirectory}/`)) {
+    return filePath.slice(workingDirectory.length + 1);
+  }
+  return filePath;
+}
+
+const buttonStyle = (primary: boolean): React.CSSProperties => ({
+  padding: '0.5rem 1rem',
+  borderRadius: '0.5rem',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+  background: primary ? 'rgba(248, 113, 113, 0.15)' : 'transparent',
+  color: primary ? 'rgb(248, 113, 113)' : 'rgb(var(--text-secondary))',
+  fontSize: '0.875rem',
+  cursor: 'pointer',
+});
+
+/**
+ * Preview and confirm putting files back the way they were before a turn
+ */
+export function RewindModal({ sessionId, turnId, workingDirectory, onClose }: RewindModalProps) {
+  const [files, setFiles] = useState<RewindFile[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isRewinding, setIsRewinding] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiFetch(`/api/sessions/${sessionId}/turns/${turnId}/rewind`)
+      .then(async response => {
+        const result = await response.json().catch(() => ({})) as { files?: RewindFile[]; error?: string };
+        if (!response.ok || !result.files) {
+          throw new Error(result.error || `HTTP error! status: ${response.status}`);
+        }
+        if (!cancelled) setFiles(result.files);
+      })
+      .catch(error => {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : 'Failed to load rewind preview');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, turnId]);
+
+  const handleRewind = async () => {
+    setIsRewinding(true);
+    try {
+      const response = await apiFetch(`/api/sessions/${sessionId}/turns/${turnId}/rewind`, { method: 'POST' });
+      const result = await response.json().catch(() => ({})) as {
+        success?: boolean;
+        restored?: string[];
+        deleted?: string[];
+        failed?: { filePath: string; error: string }[];
+        error?: string;
+      };
+
+      if (!response.ok || !result.success) {
+        const failed = result.failed?.map(f => `${displayPath(f.filePath, workingDirectory)}: ${f.error}`).join('\n');
+        throw new Error(failed || result.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const count = (result.restored?.length ?? 0) + (result.deleted?.length ?? 0);
+      toast.success('Files rewound', {
+        description: `${count} file${count === 1 ? '' : 's'} put back as before this turn`,
+      });
+      onClose();
+    } catch (error) {
+      toast.error('Failed to rewind files', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsRewinding(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.7)',
+        backdropFilter: 'blur(4px)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 10000,
+        padding: '1rem',
+      }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div
+        style={{
+          background: 'rgb(var(--bg-input))',
+          border: '1px solid rgba(255, 255, 255, 0.1)',
+          borderRadius: '1rem',
+          width: '100%',
+          maxWidth: '40rem',
+          maxHeight: '85vh',
+          display: 'flex',
+          flexDirection: 'column',
+          boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.3)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div
+          style={{
+            padding: '1.5rem',
+            borderBottom: '1px solid rgba(255, 255, 255, 0.1)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+          }}
+        >
+          <h2
+            className="text-gradient"
+            style={{
+              fontSize: '1.25rem',
+              fontWeight: 600,
+              fontFamily: 'var(--font-heading)',
+              margin: 0,
+            }}
+          >
+            Rewind to Before This Turn
+          </h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'transparent',
+              border: 'none',
+              color: 'rgb(var(--text-secondary))',
+              cursor: 'pointer',
+              padding: '0.25rem',
+              borderRadius: '0.375rem',
+              display: 'flex',
+            }}
+            aria-label="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div style={{ padding: '1.5rem', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+          {loadError ? (
+            <div style={{ color: 'rgb(248, 113, 113)', fontSize: '0.875rem' }}>{loadError}</div>
+          ) : files === null ? (
+            <div style={{ color: 'rgb(var(--text-secondary))', fontSize: '0.875rem' }}>Loading…</div>
+          ) : files.length === 0 ? (
+            <div style={{ color: 'rgb(var(--text-secondary))', fontSize: '0.875rem' }}>
+              No files edited since this turn differ from their checkpoint. Nothing to rewind.
+            </div>
+          ) : (
+            <>
+              <div style={{ color: 'rgb(var(--text-secondary))', fontSize: '0.875rem' }}>
+                These files were edited from this turn on and will be put back as they were before it.
+                The conversation itself is kept. Changes made by shell commands are not tracked.
+              </div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+                {files.map(file => {
+                  const action = ACTION_STYLES[file.action];
+                  return (
+                    <div
+                      key={file.filePath}
+                      style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', borderLeft: `2px solid ${action.color}`, paddingLeft: '0.75rem' }}
+                    >
+                      <span style={{ fontSize: '0.75rem', color: action.color, width: '3.5rem', flexShrink: 0 }}>{action.label}</span>
+                      <span
+                        style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', fontSize: '0.8125rem', fontFamily: 'var(--font-mono, monospace)' }}
+                        title={file.filePath}
+                      >
+                        {displayPath(file.filePath, workingDirectory)}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div
+          style={{
+            padding: '1rem 1.5rem',
+            borderTop: '1px solid rgba(255, 255, 255, 0.1)',
+            display: 'flex',
+            justifyContent: 'flex-end',
+            gap: '0.5rem',
+          }}
+        >
+          <button onClick={onClose} style={buttonStyle(false)}>Cancel</button>
+          <button
+            onClick={handleRewind}
+            disabled={!files || files.length === 0 || isRewinding}
+            style={{ ...buttonStyle(true), opacity: !files || files.length === 0 || isRewinding ? 0.5 : 1 }}
+          >
+            {isRewinding ? 'Rewinding…' : `Rewind ${files?.length ?? 0} file${files?.length === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,389 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { X, Undo2 } from 'lucide-react';
+import { toast } from '../../utils/toast';
+import { apiFetch } from '../../utils/apiFetch';
+
+interface DiffLine {
+  kind: 'context' | 'added' | 'removed';
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+interface FileDiff {
+  filePath: string;
+  status: 'added' | 'modified' | 'deleted';
+  binary: boolean;
+  tooLarge: boolean;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+type ViewMode = 'unified' | 'split';
+
+interface TurnDiffPanelProps {
+  sessionId: string;
+  turnId: string;
+  workingDirectory?: string;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<FileDiff['status'], { label: string; color: string }> = {
+  added: { label: 'A', color: 'rgb(74, 222, 128)' },
+  modified: { label: 'M', color: 'rgb(96, 165, 250)' },
+  deleted: { label: 'D', color: 'rgb(248, 113, 113)' },
+};
+
+const LINE_CLASSES: Record<DiffLine['kind'], string> = {
+  context: '',
+  added: 'bg-green-500/10',
+  removed: 'bg-red-500/10',
+};
+
+function displayPath(filePath: string, workingDirectory?: string): string {
+  if (workingDirectory && filePath.startsWith(`${workingDirectory}/`)) {
+    return filePath.slice(workingDirectory.length + 1);
+  }
+  return filePath;
+}
+
+/**
+ * Side-by-side rows: removed lines pair up with the added lines that replace them
+ */
+function toSplitRows(lines: DiffLine[]): { left?: DiffLine; right?: DiffLine }[] {
+  const rows: { left?: DiffLine; right?: DiffLine }[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.kind === 'context') {
+      flush();
+      rows.push({ left: line, right: line });
+    } else if (line.kind === 'removed') {
+      removed.push(line);
+    } else {
+      added.push(line);
+    }
+  }
+  flush();
+  return rows;
+}
+
+const codeStyle: React.CSSProperties = {
+  fontFamily: 'var(--font-mono, monospace)',
+  fontSize: '0.75rem',
+  lineHeight: 1.5,
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-word',
+};
+
+const lineNumberStyle: React.CSSProperties = {
+  width: '3rem',
+  flexShrink: 0,
+  paddingRight: '0.5rem',
+  textAlign: 'right',
+  color: 'rgb(var(--text-secondary))',
+  opacity: 0.6,
+  userSelect: 'none',
+};
+
+const chipStyle = (active: boolean): React.CSSProperties => ({
+  padding: '0.25rem 0.625rem',
+  borderRadius: '9999px',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+  background: active ? 'rgba(255, 255, 255, 0.1)' : 'transparent',
+  color: active ? 'rgb(var(--text-primary))' : 'rgb(var(--text-secondary))',
+  fontSize: '0.75rem',
+  cursor: 'pointer',
+  whiteSpace: 'nowrap',
+});
+
+const iconButtonStyle: React.CSSProperties = {
+  background: 'transparent',
+  border: 'none',
+  color: 'rgb(var(--text-secondary))',
+  cursor: 'pointer',
+  padding: '0.25rem',
+  borderRadius: '0.375rem',
+  display: 'flex',
+};
+
+function UnifiedHunk({ hunk }: { hunk: DiffHunk }) {
+  return (
+    <>
+      {hunk.lines.map((line, index) => (
+        <div key={index} className={LINE_CLASSES[line.kind]} style={{ display: 'flex', ...codeStyle }}>
+          <span style={lineNumberStyle}>{line.oldLine ?? ''}</span>
+          <span style={lineNumberStyle}>{line.newLine ?? ''}</span>
+          <span className={line.kind === 'added' ? 'text-green-500' : line.kind === 'removed' ? 'text-red-500' : undefined} style={{ width: '1rem', flexShrink: 0, userSelect: 'none' }}>
+            {line.kind === 'added' ? '+' : line.kind === 'removed' ? '-' : ' '}
+          </span>
+          <span style={{ flex: 1, minWidth: 0 }}>{line.text}</span>
+        </div>
+      ))}
+    </>
+  );
+}
+
+function SplitHunk({ hunk }: { hunk: DiffHunk }) {
+  const side = (line: DiffLine | undefined, lineNumber: number | undefined) => (
+    <div className={line ? LINE_CLASSES[line.kind] : 'bg-black/20'} style={{ display: 'flex', flex: 1, minWidth: 0, ...codeStyle }}>
+      <span style={lineNumberStyle}>{lineNumber ?? ''}</span>
+      <span style={{ flex: 1, minWidth: 0 }}>{line?.text ?? ''}</span>
+    </div>
+  );
+
+  return (
+    <>
+      {toSplitRows(hunk.lines).map((row, index) => (
+        <div key={index} style={{ display: 'flex', gap: '1px' }}>
+          {side(row.left, row.left?.oldLine)}
+          {side(row.right, row.right?.newLine)}
+        </div>
+      ))}
+    </>
+  );
+}
+
+function FileDiffView({ file, viewMode }: { file: FileDiff; viewMode: ViewMode }) {
+  if (file.binary || file.tooLarge) {
+    return (
+      <div style={{ color: 'rgb(var(--text-secondary))', fontSize: '0.875rem' }}>
+        {file.binary ? 'Binary file changed.' : 'File too large to diff.'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="border border-white/10 rounded-lg overflow-hidden bg-black/30">
+      {file.hunks.map((hunk, index) => (
+        <div key={index}>
+          <div
+            className="bg-[#0C0E10] border-b border-white/10"
+            style={{ ...codeStyle, padding: '0.25rem 0.75rem', color: 'rgb(var(--text-secondary))', borderTop: index > 0 ? '1px solid rgba(255, 255, 255, 0.1)' : undefined }}
+          >
+            @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+          </div>
+          {viewMode === 'unified' ? <UnifiedHunk hunk={hunk} /> : <SplitHunk hunk={hunk} />}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Side panel listing the files a turn changed, with their diffs
+ */
+export function TurnDiffPanel({ sessionId, turnId, workingDirectory, onClose }: TurnDiffPanelProps) {
+  const [files, setFiles] = useState<FileDiff[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>('unified');
+  const [revertingPath, setRevertingPath] = useState<string | null>(null);
+
+  const loadDiff = useCallback(async () => {
+    try {
+      const response = await apiFetch(`/api/sessions/${sessionId}/turns/${turnId}/diff`);
+      const result = await response.json().catch(() => ({})) as { files?: FileDiff[]; error?: string };
+      if (!response.ok || !result.files) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      }
+      setFiles(result.files);
+      setSelectedPath(prev => (prev && result.files!.some(f => f.filePath === prev) ? prev : result.files![0]?.filePath ?? null));
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Failed to load changes');
+    }
+  }, [sessionId, turnId]);
+
+  useEffect(() => {
+    loadDiff();
+  }, [loadDiff]);
+
+  const handleRevert = async (file: FileDiff) => {
+    const name = displayPath(file.filePath, workingDirectory);
+    const prompt = file.status === 'added'
+      ? `Delete ${name}? It didn't exist before this turn.`
+      : `Revert ${name} to how it was before this turn?`;
+    if (!confirm(prompt)) return;
+
+    setRevertingPath(file.filePath);
+    try {
+      const response = await apiFetch(`/api/sessions/${sessionId}/turns/${turnId}/revert`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ filePath: file.filePath }),
+      });
+      const result = await response.json().catch(() => ({})) as { success?: boolean; error?: string };
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      }
+
+      toast.success('File reverted', { description: name });
+      await loadDiff();
+    } catch (error) {
+      toast.error('Failed to revert file', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setRevertingPath(null);
+    }
+  };
+
+  const selected = files?.find(file => file.filePath === selectedPath);
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        right: 0,
+        bottom: 0,
+        width: 'min(64rem, 100vw)',
+        background: 'rgb(var(--bg-input))',
+        borderLeft: '1px solid rgba(255, 255, 255, 0.1)',
+        boxShadow: '-20px 0 25px -5px rgba(0, 0, 0, 0.3)',
+        display: 'flex',
+        flexDirection: 'column',
+        zIndex: 9000,
+      }}
+    >
+      {/* Header */}
+      <div
+        style={{
+          padding: '1rem 1.5rem',
+          borderBottom: '1px solid rgba(255, 255, 255, 0.1)',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '0.75rem',
+        }}
+      >
+        <h2
+          className="text-gradient"
+          style={{
+            fontSize: '1.25rem',
+            fontWeight: 600,
+            fontFamily: 'var(--font-heading)',
+            margin: 0,
+            flex: 1,
+          }}
+        >
+          Changes in This Turn
+        </h2>
+        <div style={{ display: 'flex', gap: '0.375rem' }}>
+          <button style={chipStyle(viewMode === 'unified')} onClick={() => setViewMode('unified')}>Unified</button>
+          <button style={chipStyle(viewMode === 'split')} onClick={() => setViewMode('split')}>Split</button>
+        </div>
+        <button onClick={onClose} style={iconButtonStyle} aria-label="Close">
+          <X size={20} />
+        </button>
+      </div>
+
+      {/* Content */}
+      {loadError ? (
+        <div style={{ padding: '1.5rem', color: 'rgb(248, 113, 113)', fontSize: '0.875rem' }}>{loadError}</div>
+      ) : files === null ? (
+        <div style={{ padding: '1.5rem', color: 'rgb(var(--text-secondary))', fontSize: '0.875rem' }}>Loading…</div>
+      ) : files.length === 0 ? (
+        <div style={{ padding: '1.5rem', color: 'rgb(var(--text-secondary))', fontSize: '0.875rem' }}>
+          No file changes from Write, Edit, MultiEdit or NotebookEdit in this turn.
+        </div>
+      ) : (
+        <div style={{ flex: 1, minHeight: 0, display: 'flex' }}>
+          {/* File list */}
+          <div style={{ width: '16rem', flexShrink: 0, borderRight: '1px solid rgba(255, 255, 255, 0.1)', overflowY: 'auto', padding: '0.5rem' }}>
+            {files.map(file => {
+              const status = STATUS_STYLES[file.status];
+              return (
+                <button
+                  key={file.filePath}
+                  onClick={() => setSelectedPath(file.filePath)}
+                  title={file.filePath}
+                  style={{
+                    width: '100%',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '0.5rem',
+                    padding: '0.375rem 0.5rem',
+                    borderRadius: '0.375rem',
+                    border: 'none',
+                    background: file.filePath === selectedPath ? 'rgba(255, 255, 255, 0.1)' : 'transparent',
+                    color: 'rgb(var(--text-primary))',
+                    cursor: 'pointer',
+                    textAlign: 'left',
+                    fontSize: '0.8125rem',
+                  }}
+                >
+                  <span style={{ color: status.color, fontSize: '0.75rem', fontWeight: 600 }}>{status.label}</span>
+                  <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {displayPath(file.filePath, workingDirectory)}
+                  </span>
+                  <span className="text-green-500" style={{ fontSize: '0.75rem' }}>+{file.additions}</span>
+                  <span className="text-red-500" style={{ fontSize: '0.75rem' }}>-{file.deletions}</span>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Diff of the selected file */}
+          {selected && (
+            <div style={{ flex: 1, minWidth: 0, overflowY: 'auto', padding: '1rem 1.5rem', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                <span style={{ flex: 1, minWidth: 0, fontFamily: 'var(--font-mono, monospace)', fontSize: '0.8125rem', wordBreak: 'break-all' }}>
+                  {displayPath(selected.filePath, workingDirectory)}
+                </span>
+                <button
+                  onClick={() => handleRevert(selected)}
+                  disabled={revertingPath !== null}
+                  style={{ ...chipStyle(false), display: 'flex', alignItems: 'center', gap: '0.375rem', opacity: revertingPath ? 0.5 : 1 }}
+                >
+                  <Undo2 size={14} />
+                  {revertingPath === selected.filePath ? 'Reverting…' : 'Revert this file'}
+                </button>
+              </div>
+              <FileDiffView file={selected} viewMode={viewMode} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
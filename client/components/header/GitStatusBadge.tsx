@@ -0,0 +1,211 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { GitBranch } from 'lucide-react';
+import type { GitFileStatus, GitStatus, SessionGitSettings } from '../../config/git';
+import { showError } from '../../utils/errorMessages';
+import { apiFetch } from '../../utils/apiFetch';
+
+interface GitStatusBadgeProps {
+  sessionId: string;
+  directory: string;
+  refreshKey?: number; // Bumped by the parent when a turn ends or git automation ran
+}
+
+interface GitInfo {
+  status: GitStatus | null;
+  settings: SessionGitSettings;
+  autoBranchName: string;
+}
+
+const MAX_LISTED_FILES = 100;
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '0.625rem',
+  padding: '0.375rem 0.5rem',
+  borderRadius: '0.375rem',
+  fontSize: '0.8125rem',
+  color: 'rgb(var(--text-primary))',
+};
+
+const sectionLabelStyle: React.CSSProperties = {
+  padding: '0.75rem 0.5rem 0.25rem',
+  fontSize: '0.75rem',
+  fontWeight: 600,
+  color: 'rgb(var(--text-secondary))',
+};
+
+function fileStatusLabel(file: GitFileStatus): { letter: string; color: string } {
+  if (file.index === '?') return { letter: 'U', color: 'rgb(34, 197, 94)' };
+  const letter = file.index !== '.' ? file.index : file.workTree;
+  if (letter === 'A') return { letter, color: 'rgb(34, 197, 94)' };
+  if (letter === 'D') return { letter, color: 'rgb(239, 68, 68)' };
+  return { letter, color: 'rgb(234, 179, 8)' };
+}
+
+export function GitStatusBadge({ sessionId, directory, refreshKey }: GitStatusBadgeProps) {
+  const [info, setInfo] = useState<GitInfo | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const loadStatus = useCallback(() => {
+    apiFetch(`/api/sessions/${sessionId}/git`)
+      .then(res => res.json() as Promise<GitInfo>)
+      .then(setInfo)
+      .catch(error => console.error('Failed to load git status:', error));
+  }, [sessionId]);
+
+  // Reload when the chat, its directory or its turn state changes, and whenever the menu opens
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus, directory, refreshKey]);
+
+  useEffect(() => {
+    if (isOpen) loadStatus();
+  }, [isOpen, loadStatus]);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  const updateSettings = async (changes: Partial<Pick<SessionGitSettings, 'autoBranch' | 'autoCommit'>>) => {
+    setIsSaving(true);
+    try {
+      const response = await apiFetch(`/api/sessions/${sessionId}/git`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const result = await response.json() as { success: boolean; settings?: SessionGitSettings; status?: GitStatus | null; error?: string };
+      if (!response.ok || !result.success || !result.settings) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      }
+      setInfo(prev => prev && { ...prev, settings: result.settings!, status: result.status ?? prev.status });
+    } catch (error) {
+      showError('UPDATE_GIT_SETTINGS', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const status = info?.status;
+  if (!info || !status) return null;
+
+  const { settings } = info;
+  const branchLabel = status.branch ?? (status.commit ? status.commit.substring(0, 7) : 'detached');
+  const dirtyCount = status.files.length;
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 px-1.5 py-1 rounded hover:bg-white/10 transition-colors font-mono"
+        style={{ color: 'rgb(var(--text-secondary))' }}
+        title={`${status.branch ? `Branch ${status.branch}` : 'Detached HEAD'}${dirtyCount > 0 ? `, ${dirtyCount} changed file${dirtyCount === 1 ? '' : 's'}` : ''}`}
+      >
+        <GitBranch className="w-3 h-3" />
+        <span style={{ maxWidth: '12rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{branchLabel}</span>
+        {dirtyCount > 0 && <span style={{ color: 'rgb(234, 179, 8)' }}>●{dirtyCount}</span>}
+        {status.ahead > 0 && <span>↑{status.ahead}</span>}
+        {status.behind > 0 && <span>↓{status.behind}</span>}
+      </button>
+
+      {isOpen && (
+        <div
+          style={{
+            position: 'absolute',
+            right: 0,
+            top: '100%',
+            marginTop: '0.5rem',
+            background: 'rgb(var(--bg-input))',
+            border: '1px solid rgba(255, 255, 255, 0.1)',
+            borderRadius: '0.75rem',
+            width: '22rem',
+            maxWidth: 'calc(100vw - 1rem)',
+            maxHeight: '70vh',
+            overflowY: 'auto',
+            zIndex: 9999,
+            boxShadow: '0 4px 6px rgba(0, 0, 0, 0.3)',
+            padding: '0.5rem 0.75rem 0.75rem',
+          }}
+        >
+          <div style={{ padding: '0.5rem', fontSize: '0.75rem', color: 'rgb(var(--text-secondary))' }}>
+            {status.upstream
+              ? `Tracking ${status.upstream}: ${status.ahead} ahead, ${status.behind} behind`
+              : 'No upstream branch'}
+          </div>
+
+          <div style={sectionLabelStyle}>Automation</div>
+          <label style={{ ...rowStyle, cursor: isSaving ? 'wait' : 'pointer' }} title="Switch to this branch (creating it if needed) before each turn">
+            <input
+              type="checkbox"
+              checked={settings.autoBranch}
+              disabled={isSaving}
+              onChange={() => updateSettings({ autoBranch: !settings.autoBranch })}
+            />
+            <span style={{ flex: 1 }}>
+              Work on <code style={{ fontSize: '0.75rem' }}>{info.autoBranchName}</code>
+            </span>
+          </label>
+          <label style={{ ...rowStyle, cursor: isSaving ? 'wait' : 'pointer' }} title="Commit the files each turn changes when it completes (skipped if there were already uncommitted changes)">
+            <input
+              type="checkbox"
+              checked={settings.autoCommit}
+              disabled={isSaving}
+              onChange={() => updateSettings({ autoCommit: !settings.autoCommit })}
+            />
+            <span style={{ flex: 1 }}>Commit after each turn</span>
+          </label>
+
+          <div style={sectionLabelStyle}>
+            {dirtyCount === 0 ? 'Working tree clean' : `Changed Files (${dirtyCount})`}
+          </div>
+          {status.files.slice(0, MAX_LISTED_FILES).map(file => {
+            const label = fileStatusLabel(file);
+            return (
+              <div key={file.path} style={rowStyle} title={file.originalPath ? `${file.originalPath} → ${file.path}` : file.path}>
+                <code style={{ width: '1rem', fontSize: '0.75rem', fontWeight: 600, color: label.color }}>{label.letter}</code>
+                <code style={{ flex: 1, fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{file.path}</code>
+              </div>
+            );
+          })}
+          {dirtyCount > MAX_LISTED_FILES && (
+            <div style={{ ...rowStyle, color: 'rgb(var(--text-secondary))' }}>
+              … and {dirtyCount - MAX_LISTED_FILES} more
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
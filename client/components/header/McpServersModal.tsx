@@ -0,0 +1,640 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { X, Plus, Edit, Trash2, RefreshCw, ChevronDown, ChevronRight } from 'lucide-react';
+import { toast } from '../../utils/toast';
+import { apiFetch } from '../../utils/apiFetch';
+
+interface McpServerEntry {
+  name: string;
+  type: 'http' | 'stdio';
+  url?: string;
+  headers?: Record<string, string>;
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  enabled?: boolean;
+  description?: string;
+  providers?: string[];
+  modes?: string[];
+}
+
+interface McpServerStatus {
+  name: string;
+  status: 'ok' | 'error';
+  latencyMs: number;
+  tools: { name: string; description?: string }[];
+  error?: string;
+  checkedAt: string;
+}
+
+interface McpServersResponse {
+  servers: McpServerEntry[];
+  configPath: string;
+  providers: string[];
+  modes: { id: string; name: string }[];
+  error?: string;
+}
+
+/**
+ * Editable form state; list/record fields are edited as one entry per line
+ */
+interface ServerForm {
+  name: string;
+  type: 'http' | 'stdio';
+  url: string;
+  headers: string;
+  command: string;
+  args: string;
+  env: string;
+  description: string;
+  providers: string[];
+  modes: string[];
+  enabled: boolean;
+}
+
+interface McpServersModalProps {
+  onClose: () => void;
+}
+
+const EMPTY_FORM: ServerForm = {
+  name: '',
+  type: 'stdio',
+  url: '',
+  headers: '',
+  command: '',
+  args: '',
+  env: '',
+  description: '',
+  providers: [],
+  modes: [],
+  enabled: true,
+};
+
+const labelStyle: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '0.375rem',
+  fontSize: '0.8125rem',
+  color: 'rgb(var(--text-secondary))',
+};
+
+const inputStyle: React.CSSProperties = {
+  background: 'rgba(255, 255, 255, 0.03)',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+  borderRadius: '0.5rem',
+  padding: '0.5rem 0.75rem',
+  fontSize: '0.875rem',
+  color: 'rgb(var(--text-primary))',
+  fontFamily: 'inherit',
+};
+
+const buttonStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '0.375rem',
+  padding: '0.5rem 0.875rem',
+  borderRadius: '0.5rem',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+  background: 'rgba(255, 255, 255, 0.05)',
+  color: 'rgb(var(--text-primary))',
+  fontSize: '0.8125rem',
+  cursor: 'pointer',
+};
+
+const iconButtonStyle: React.CSSProperties = {
+  background: 'transparent',
+  border: 'none',
+  cursor: 'pointer',
+  padding: '0.375rem',
+  borderRadius: '0.375rem',
+  display: 'flex',
+  alignItems: 'center',
+  color: 'rgb(var(--text-secondary))',
+};
+
+function recordToLines(record?: Record<string, string>): string {
+  return Object.entries(record ?? {}).map(([key, value]) => `${key}=${value}`).join('\n');
+}
+
+function linesToRecord(lines: string): Record<string, string> | undefined {
+  const entries = lines
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.includes('='))
+    .map(line => {
+      const index = line.indexOf('=');
+      return [line.slice(0, index).trim(), line.slice(index + 1).trim()] as const;
+    });
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+function toForm(server: McpServerEntry): ServerForm {
+  return {
+    name: server.name,
+    type: server.type,
+    url: server.url ?? '',
+    headers: recordToLines(server.headers),
+    command: server.command ?? '',
+    args: (server.args ?? []).join('\n'),
+    env: recordToLines(server.env),
+    description: server.description ?? '',
+    providers: server.providers ?? [],
+    modes: server.modes ?? [],
+    enabled: server.enabled !== false,
+  };
+}
+
+function toDefinition(form: ServerForm): Omit<McpServerEntry, 'name'> {
+  const scope = {
+    enabled: form.enabled,
+    ...(form.description.trim() && { description: form.description.trim() }),
+    ...(form.providers.length > 0 && { providers: form.providers }),
+    ...(form.modes.length > 0 && { modes: form.modes }),
+  };
+
+  if (form.type === 'http') {
+    return { type: 'http', url: form.url.trim(), headers: linesToRecord(form.headers), ...scope };
+  }
+
+  const args = form.args.split('\n').map(arg => arg.trim()).filter(Boolean);
+  return {
+    type: 'stdio',
+    command: form.command.trim(),
+    ...(args.length > 0 && { args }),
+    env: linesToRecord(form.env),
+    ...scope,
+  };
+}
+
+const STATUS_COLORS: Record<McpServerStatus['status'] | 'checking', string> = {
+  ok: 'rgb(34, 197, 94)',
+  error: 'rgb(239, 68, 68)',
+  checking: 'rgb(234, 179, 8)',
+};
+
+function describeScope(server: McpServerEntry): string {
+  const providers = server.providers?.length ? server.providers.join(', ') : 'all providers';
+  const modes = server.modes?.length ? server.modes.join(', ') : 'all modes';
+  return `${providers} · ${modes}`;
+}
+
+export function McpServersModal({ onClose }: McpServersModalProps) {
+  const [config, setConfig] = useState<McpServersResponse | null>(null);
+  const [form, setForm] = useState<ServerForm | null>(null);
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [statuses, setStatuses] = useState<Record<string, McpServerStatus>>({});
+  const [isChecking, setIsChecking] = useState(false);
+  const [expandedName, setExpandedName] = useState<string | null>(null);
+
+  const loadServers = useCallback(async () => {
+    try {
+      const response = await apiFetch('/api/mcp/servers');
+      setConfig(await response.json() as McpServersResponse);
+    } catch (error) {
+      console.error('Failed to load MCP servers:', error);
+      toast.error('Failed to load MCP servers');
+    }
+  }, []);
+
+  const checkHealth = useCallback(async (refresh: boolean) => {
+    setIsChecking(true);
+    try {
+      const response = await apiFetch(`/api/mcp/status${refresh ? '?refresh=true' : ''}`);
+      const result = await response.json() as { servers: McpServerStatus[] };
+      setStatuses(Object.fromEntries(result.servers.map(status => [status.name, status])));
+    } catch (error) {
+      console.error('Failed to check MCP server health:', error);
+    } finally {
+      setIsChecking(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadServers();
+    checkHealth(false);
+  }, [loadServers, checkHealth]);
+
+  const saveServer = async (name: string, definition: Omit<McpServerEntry, 'name'>, isNew: boolean) => {
+    setIsSaving(true);
+    try {
+      const response = await apiFetch(isNew ? '/api/mcp/servers' : `/api/mcp/servers/${encodeURIComponent(name)}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name, server: definition }),
+      });
+      const result = await response.json() as { success: boolean; error?: string };
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      }
+
+      await loadServers();
+      checkHealth(false);
+      return true;
+    } catch (error) {
+      toast.error('Failed to save MCP server', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    const saved = await saveServer(editingName ?? form.name.trim(), toDefinition(form), editingName === null);
+    if (saved) {
+      toast.success(editingName ? 'MCP server updated' : 'MCP server added', {
+        description: 'Applies to new chats and the next restart of running ones',
+      });
+      setForm(null);
+      setEditingName(null);
+    }
+  };
+
+  const handleToggle = async (server: McpServerEntry) => {
+    const { name, ...definition } = server;
+    await saveServer(name, { ...definition, enabled: server.enabled === false }, false);
+  };
+
+  const handleDelete = async (name: string) => {
+    if (!confirm(`Remove MCP server "${name}"?`)) return;
+
+    try {
+      const response = await apiFetch(`/api/mcp/servers/${encodeURIComponent(name)}`, { method: 'DELETE' });
+      const result = await response.json() as { success: boolean; error?: string };
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      }
+      await loadServers();
+    } catch (error) {
+      toast.error('Failed to remove MCP server', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  const toggleListValue = (key: 'providers' | 'modes', value: string) => {
+    if (!form) return;
+    const values = form[key].includes(value) ? form[key].filter(v => v !== value) : [...form[key], value];
+    setForm({ ...form, [key]: values });
+  };
+
+  const renderForm = (current: ServerForm) => (
+    <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+      <label style={labelStyle}>
+        Name
+        <input
+          style={inputStyle}
+          value={current.name}
+          onChange={(e) => setForm({ ...current, name: e.target.value })}
+          disabled={editingName !== null}
+          placeholder="my-server"
+          required
+        />
+      </label>
+
+      <label style={labelStyle}>
+        Transport
+        <select
+          style={inputStyle}
+          value={current.type}
+          onChange={(e) => setForm({ ...current, type: e.target.value as ServerForm['type'] })}
+        >
+          <option value="stdio">stdio (local command)</option>
+          <option value="http">http (remote URL)</option>
+        </select>
+      </label>
+
+      {current.type === 'http' ? (
+        <>
+          <label style={labelStyle}>
+            URL
+            <input
+              style={inputStyle}
+              value={current.url}
+              onChange={(e) => setForm({ ...current, url: e.target.value })}
+              placeholder="https://mcp.example.com/mcp"
+              required
+            />
+          </label>
+          <label style={labelStyle}>
+            Headers (one KEY=VALUE per line)
+            <textarea
+              style={{ ...inputStyle, minHeight: '4rem' }}
+              value={current.headers}
+              onChange={(e) => setForm({ ...current, headers: e.target.value })}
+              placeholder={'Authorization=Bearer ${MY_API_KEY}'}
+            />
+          </label>
+        </>
+      ) : (
+        <>
+          <label style={labelStyle}>
+            Command
+            <input
+              style={inputStyle}
+              value={current.command}
+              onChange={(e) => setForm({ ...current, command: e.target.value })}
+              placeholder="npx"
+              required
+            />
+          </label>
+          <label style={labelStyle}>
+            Arguments (one per line)
+            <textarea
+              style={{ ...inputStyle, minHeight: '4rem' }}
+              value={current.args}
+              onChange={(e) => setForm({ ...current, args: e.target.value })}
+              placeholder={'-y\nmy-mcp-server'}
+            />
+          </label>
+          <label style={labelStyle}>
+            Environment (one KEY=VALUE per line)
+            <textarea
+              style={{ ...inputStyle, minHeight: '4rem' }}
+              value={current.env}
+              onChange={(e) => setForm({ ...current, env: e.target.value })}
+              placeholder={'API_KEY=${MY_API_KEY}'}
+            />
+          </label>
+        </>
+      )}
+
+      <div style={{ fontSize: '0.75rem', color: 'rgb(var(--text-secondary))' }}>
+        Use <code>{'${VAR_NAME}'}</code> to read secrets from the server&apos;s environment instead of storing them in the config file.
+      </div>
+
+      <label style={labelStyle}>
+        Description
+        <input
+          style={inputStyle}
+          value={current.description}
+          onChange={(e) => setForm({ ...current, description: e.target.value })}
+        />
+      </label>
+
+      {config && (
+        <>
+          <div style={labelStyle}>
+            Providers (none selected = all)
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem' }}>
+              {config.providers.map(provider => (
+                <label key={provider} style={{ display: 'flex', alignItems: 'center', gap: '0.375rem', color: 'rgb(var(--text-primary))' }}>
+                  <input
+                    type="checkbox"
+                    checked={current.providers.includes(provider)}
+                    onChange={() => toggleListValue('providers', provider)}
+                  />
+                  {provider}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div style={labelStyle}>
+            Modes (none selected = all)
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem' }}>
+              {config.modes.map(mode => (
+                <label key={mode.id} style={{ display: 'flex', alignItems: 'center', gap: '0.375rem', color: 'rgb(var(--text-primary))' }}>
+                  <input
+                    type="checkbox"
+                    checked={current.modes.includes(mode.id)}
+                    onChange={() => toggleListValue('modes', mode.id)}
+                  />
+                  {mode.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
+      <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '0.5rem' }}>
+        <button type="button" style={buttonStyle} onClick={() => { setForm(null); setEditingName(null); }}>
+          Cancel
+        </button>
+        <button type="submit" style={buttonStyle} disabled={isSaving}>
+          {isSaving ? 'Saving…' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+
+  const renderStatus = (name: string) => {
+    const status = statuses[name];
+    const state = status?.status ?? (isChecking ? 'checking' : undefined);
+    if (!state) return null;
+
+    const isExpanded = expandedName === name;
+
+    return (
+      <div style={{ marginTop: '0.375rem', fontSize: '0.75rem' }}>
+        <button
+          onClick={() => setExpandedName(isExpanded ? null : name)}
+          disabled={!status}
+          style={{ ...iconButtonStyle, padding: 0, gap: '0.375rem', fontSize: '0.75rem', cursor: status ? 'pointer' : 'default' }}
+        >
+          <span style={{ width: '0.5rem', height: '0.5rem', borderRadius: '50%', background: STATUS_COLORS[state] }} />
+          {!status
+            ? 'Checking…'
+            : status.status === 'ok'
+              ? `Healthy · ${status.latencyMs}ms · ${status.tools.length} tool${status.tools.length === 1 ? '' : 's'}`
+              : 'Unavailable'}
+          {status && (isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />)}
+        </button>
+
+        {status && isExpanded && (
+          <div style={{ marginTop: '0.375rem', paddingLeft: '0.875rem', display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+            {status.error && (
+              <pre style={{ margin: 0, whiteSpace: 'pre-wrap', color: STATUS_COLORS.error, fontSize: '0.6875rem' }}>{status.error}</pre>
+            )}
+            {status.tools.map(tool => (
+              <div key={tool.name} title={tool.description}>
+                <code style={{ color: 'rgb(var(--text-primary))' }}>{tool.name}</code>
+                {tool.description && (
+                  <span style={{ color: 'rgb(var(--text-secondary))' }}> — {tool.description.split('\n')[0]}</span>
+                )}
+              </div>
+            ))}
+            <div style={{ color: 'rgb(var(--text-secondary))', fontSize: '0.6875rem' }}>
+              Checked {new Date(status.checkedAt).toLocaleTimeString()}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderList = () => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+      {config?.error && (
+        <div style={{ fontSize: '0.8125rem', color: 'rgb(239, 68, 68)' }}>
+          {config.error}. Fix {config.configPath} to manage servers here.
+        </div>
+      )}
+
+      {config?.servers.length === 0 && !config.error && (
+        <div style={{ fontSize: '0.875rem', color: 'rgb(var(--text-secondary))' }}>No MCP servers configured.</div>
+      )}
+
+      {config?.servers.map(server => (
+        <div
+          key={server.name}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '0.75rem',
+            padding: '0.75rem',
+            borderRadius: '0.5rem',
+            border: '1px solid rgba(255, 255, 255, 0.1)',
+            background: 'rgba(255, 255, 255, 0.03)',
+            opacity: server.enabled === false ? 0.5 : 1,
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={server.enabled !== false}
+            onChange={() => handleToggle(server)}
+            aria-label={server.enabled === false ? `Enable ${server.name}` : `Disable ${server.name}`}
+            title={server.enabled === false ? 'Enable' : 'Disable'}
+          />
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <div style={{ fontSize: '0.875rem', fontWeight: 500, color: 'rgb(var(--text-primary))' }}>
+              {server.name}
+              <span style={{ marginLeft: '0.5rem', fontSize: '0.6875rem', color: 'rgb(var(--text-secondary))' }}>{server.type}</span>
+            </div>
+            <div style={{ fontSize: '0.75rem', color: 'rgb(var(--text-secondary))', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {server.description || (server.type === 'http' ? server.url : [server.command, ...(server.args ?? [])].join(' '))}
+            </div>
+            <div style={{ fontSize: '0.6875rem', color: 'rgb(var(--text-secondary))' }}>{describeScope(server)}</div>
+            {server.enabled !== false && renderStatus(server.name)}
+          </div>
+          <button
+            style={iconButtonStyle}
+            onClick={() => { setEditingName(server.name); setForm(toForm(server)); }}
+            aria-label={`Edit ${server.name}`}
+            title="Edit"
+          >
+            <Edit size={16} />
+          </button>
+          <button
+            style={iconButtonStyle}
+            onClick={() => handleDelete(server.name)}
+            aria-label={`Remove ${server.name}`}
+            title="Remove"
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      ))}
+
+      {config && !config.error && (
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <button style={buttonStyle} onClick={() => { setEditingName(null); setForm({ ...EMPTY_FORM }); }}>
+            <Plus size={16} />
+            Add server
+          </button>
+          <button style={buttonStyle} onClick={() => checkHealth(true)} disabled={isChecking}>
+            <RefreshCw size={16} className={isChecking ? 'animate-spin' : ''} />
+            {isChecking ? 'Checking…' : 'Check health'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.7)',
+        backdropFilter: 'blur(4px)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 10000,
+        padding: '1rem',
+      }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div
+        style={{
+          background: 'rgb(var(--bg-input))',
+          border: '1px solid rgba(255, 255, 255, 0.1)',
+          borderRadius: '1rem',
+          width: '100%',
+          maxWidth: '36rem',
+          maxHeight: '85vh',
+          display: 'flex',
+          flexDirection: 'column',
+          boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.3)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div
+          style={{
+            padding: '1.5rem',
+            borderBottom: '1px solid rgba(255, 255, 255, 0.1)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+          }}
+        >
+          <h2
+            className="text-gradient"
+            style={{
+              fontSize: '1.25rem',
+              fontWeight: 600,
+              fontFamily: 'var(--font-heading)',
+              margin: 0,
+            }}
+          >
+            {form ? (editingName ? `Edit ${editingName}` : 'Add MCP Server') : 'MCP Servers'}
+          </h2>
+          <button onClick={onClose} style={iconButtonStyle} aria-label="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div style={{ padding: '1.5rem', overflowY: 'auto' }}>
+          {form ? renderForm(form) : renderList()}
+        </div>
+      </div>
+    </div>
+  );
+}
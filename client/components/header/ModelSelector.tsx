@@ -20,7 +20,7 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { ChevronDown, Check } from 'lucide-react';
-import { AVAILABLE_MODELS } from '../../config/models';
+import { useModels } from '../../hooks/useModels';
 
 interface ModelSelectorProps {
   selectedModel: string;
@@ -33,7 +33,9 @@ export function ModelSelector({ selectedModel, onModelChange, disabled = false,
   const [isOpen, setIsOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
 
-  const currentModel = AVAILABLE_MODELS.find(m => m.id === selectedModel) || AVAILABLE_MODELS[0];
+  const { models } = useModels();
+
+  const currentModel = models.find(m => m.id === selectedModel) || models[0];
 
   // Close menu when clicking outside
   useEffect(() => {
@@ -97,7 +99,7 @@ export function ModelSelector({ selectedModel, onModelChange, disabled = false,
             Model
           </div>
           <div style={{ padding: '0 1rem 1rem', maxHeight: '20rem', overflowY: 'auto' }}>
-            {AVAILABLE_MODELS.map((model) => (
+            {models.map((model) => (
               <button
                 key={model.id}
                 onClick={() => handleModelSelect(model.id)}
@@ -19,9 +19,8 @@
  */
 
 import React, { useState, useRef, useEffect } from 'react';
-import { ChevronDown, Check, Zap, Shield } from 'lucide-react';
-
-type PermissionMode = 'bypassPermissions' | 'plan';
+import { ChevronDown, Check, Zap, Shield, ShieldQuestionMark, FilePen } from 'lucide-react';
+import type { PermissionMode } from '../../config/protocol';
 
 interface PermissionModeToggleProps {
   selectedMode: PermissionMode;
@@ -35,6 +34,18 @@ const MODES = [
     icon: Zap,
     description: 'Executes immediately without confirmation',
   },
+  {
+    id: 'acceptEdits' as const,
+    name: 'Accept Edits',
+    icon: FilePen,
+    description: 'Edits files freely, asks before running commands',
+  },
+  {
+    id: 'default' as const,
+    name: 'Ask Mode',
+    icon: ShieldQuestionMark,
+    description: 'Asks before using tools that change anything',
+  },
   {
     id: 'plan' as const,
     name: 'Plan Mode',
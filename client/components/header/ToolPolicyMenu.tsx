@@ -0,0 +1,259 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import React, { useState, useRef, useEffect } from 'react';
+import { ChevronDown, ChevronRight, Wrench, X } from 'lucide-react';
+import { BUILT_IN_TOOLS, DEFAULT_TOOL_POLICY, type SessionToolPolicy } from '../../config/tools';
+import { apiFetch } from '../../utils/apiFetch';
+
+interface McpServerSummary {
+  name: string;
+  description?: string;
+  enabled?: boolean;
+}
+
+interface McpServerTools {
+  name: string;
+  tools: { name: string; description?: string }[];
+}
+
+interface ToolPolicyMenuProps {
+  policy?: SessionToolPolicy;
+  onPolicyChange: (policy: SessionToolPolicy) => void;
+  disabled?: boolean; // While a reply is generating: changing tools restarts the session
+}
+
+function toggle(list: string[], value: string): string[] {
+  return list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+}
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '0.625rem',
+  padding: '0.375rem 0.5rem',
+  borderRadius: '0.375rem',
+  cursor: 'pointer',
+  fontSize: '0.8125rem',
+  color: 'rgb(var(--text-primary))',
+};
+
+const sectionLabelStyle: React.CSSProperties = {
+  padding: '0.75rem 0.5rem 0.25rem',
+  fontSize: '0.75rem',
+  fontWeight: 600,
+  color: 'rgb(var(--text-secondary))',
+};
+
+export function ToolPolicyMenu({ policy = DEFAULT_TOOL_POLICY, onPolicyChange, disabled = false }: ToolPolicyMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [servers, setServers] = useState<McpServerSummary[]>([]);
+  const [serverTools, setServerTools] = useState<Record<string, McpServerTools['tools']>>({});
+  const [expandedServer, setExpandedServer] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const disabledCount = policy.disabledMcpServers.length + policy.disallowedTools.length;
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  // Close the menu once a reply starts generating
+  useEffect(() => {
+    if (disabled) setIsOpen(false);
+  }, [disabled]);
+
+  // Load configured servers when the menu opens, then their tools (may take a while on first health check)
+  useEffect(() => {
+    if (!isOpen) return;
+
+    apiFetch('/api/mcp/servers')
+      .then(res => res.json() as Promise<{ servers: McpServerSummary[] }>)
+      .then(data => setServers(data.servers.filter(server => server.enabled !== false)))
+      .catch(error => console.error('Failed to load MCP servers:', error));
+
+    apiFetch('/api/mcp/status')
+      .then(res => res.json() as Promise<{ servers: McpServerTools[] }>)
+      .then(data => setServerTools(Object.fromEntries(data.servers.map(server => [server.name, server.tools]))))
+      .catch(error => console.error('Failed to load MCP tools:', error));
+  }, [isOpen]);
+
+  const updateServers = (name: string) => {
+    onPolicyChange({ ...policy, disabledMcpServers: toggle(policy.disabledMcpServers, name) });
+  };
+
+  const updateTools = (name: string) => {
+    onPolicyChange({ ...policy, disallowedTools: toggle(policy.disallowedTools, name) });
+  };
+
+  const removeAllowedRule = (rule: string) => {
+    onPolicyChange({ ...policy, allowedTools: policy.allowedTools.filter(item => item !== rule) });
+  };
+
+  const removeAllowedDirectory = (directory: string) => {
+    onPolicyChange({ ...policy, allowedDirectories: policy.allowedDirectories.filter(item => item !== directory) });
+  };
+
+  const alwaysAllowed = [
+    ...policy.allowedTools.map(rule => ({ label: rule, onRemove: () => removeAllowedRule(rule) })),
+    ...policy.allowedDirectories.map(directory => ({ label: `${directory}/`, onRemove: () => removeAllowedDirectory(directory) })),
+  ];
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => !disabled && setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg transition-colors hover:bg-white/5"
+        style={{
+          color: disabled ? 'rgb(var(--text-secondary))' : 'rgb(var(--text-primary))',
+          cursor: disabled ? 'not-allowed' : 'pointer',
+          opacity: disabled ? 0.5 : 1,
+        }}
+        title={disabled ? 'Tools can be changed once the reply finishes' : 'Tools available in this chat'}
+      >
+        <Wrench size={16} />
+        <span className="font-heading text-sm">
+          Tools{disabledCount > 0 ? ` (${disabledCount} off)` : ''}
+        </span>
+        <ChevronDown
+          size={16}
+          style={{
+            transform: isOpen ? 'rotate(180deg)' : 'rotate(0deg)',
+            transition: 'transform 0.2s',
+          }}
+        />
+      </button>
+
+      {isOpen && (
+        <div
+          style={{
+            position: 'absolute',
+            right: 0,
+            top: '100%',
+            marginTop: '0.5rem',
+            background: 'rgb(var(--bg-input))',
+            border: '1px solid rgba(255, 255, 255, 0.1)',
+            borderRadius: '0.75rem',
+            width: '20rem',
+            maxWidth: 'calc(100vw - 1rem)',
+            maxHeight: '70vh',
+            overflowY: 'auto',
+            zIndex: 9999,
+            boxShadow: '0 4px 6px rgba(0, 0, 0, 0.3)',
+            padding: '0.5rem 0.75rem 0.75rem',
+          }}
+        >
+          <div style={{ padding: '0.5rem', fontSize: '0.75rem', color: 'rgb(var(--text-secondary))' }}>
+            Changes apply from the next message.
+          </div>
+
+          <div style={sectionLabelStyle}>MCP Servers</div>
+          {servers.length === 0 && (
+            <div style={{ ...rowStyle, cursor: 'default', color: 'rgb(var(--text-secondary))' }}>No MCP servers enabled</div>
+          )}
+          {servers.map(server => {
+            const isServerOn = !policy.disabledMcpServers.includes(server.name);
+            const tools = serverTools[server.name] ?? [];
+            const isExpanded = expandedServer === server.name;
+
+            return (
+              <div key={server.name}>
+                <div style={rowStyle}>
+                  <input
+                    type="checkbox"
+                    checked={isServerOn}
+                    onChange={() => updateServers(server.name)}
+                    aria-label={`${isServerOn ? 'Disable' : 'Enable'} ${server.name}`}
+                  />
+                  <span style={{ flex: 1 }} title={server.description}>{server.name}</span>
+                  {isServerOn && tools.length > 0 && (
+                    <button
+                      onClick={() => setExpandedServer(isExpanded ? null : server.name)}
+                      style={{ background: 'transparent', border: 'none', cursor: 'pointer', color: 'rgb(var(--text-secondary))', display: 'flex', alignItems: 'center', gap: '0.25rem', fontSize: '0.75rem' }}
+                    >
+                      {tools.length} tools
+                      {isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                    </button>
+                  )}
+                </div>
+                {isServerOn && isExpanded && tools.map(tool => {
+                  const toolId = `mcp__${server.name}__${tool.name}`;
+                  return (
+                    <label key={toolId} style={{ ...rowStyle, paddingLeft: '2rem' }} title={tool.description}>
+                      <input
+                        type="checkbox"
+                        checked={!policy.disallowedTools.includes(toolId)}
+                        onChange={() => updateTools(toolId)}
+                      />
+                      <code style={{ fontSize: '0.75rem' }}>{tool.name}</code>
+                    </label>
+                  );
+                })}
+              </div>
+            );
+          })}
+
+          <div style={sectionLabelStyle}>Built-in Tools</div>
+          {BUILT_IN_TOOLS.map(tool => (
+            <label key={tool.name} style={rowStyle} title={tool.description}>
+              <input
+                type="checkbox"
+                checked={!policy.disallowedTools.includes(tool.name)}
+                onChange={() => updateTools(tool.name)}
+              />
+              <span style={{ flex: 1 }}>{tool.name}</span>
+              <span style={{ fontSize: '0.6875rem', color: 'rgb(var(--text-secondary))' }}>{tool.description}</span>
+            </label>
+          ))}
+
+          {alwaysAllowed.length > 0 && (
+            <>
+              <div style={sectionLabelStyle}>Always Allowed</div>
+              {alwaysAllowed.map(item => (
+                <div key={item.label} style={{ ...rowStyle, cursor: 'default' }} title="Runs without asking in Ask and Accept Edits modes">
+                  <code style={{ flex: 1, fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{item.label}</code>
+                  <button
+                    onClick={item.onRemove}
+                    style={{ background: 'transparent', border: 'none', cursor: 'pointer', color: 'rgb(var(--text-secondary))', display: 'flex' }}
+                    aria-label={`Ask again for ${item.label}`}
+                    title="Ask again"
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import React, { useState } from 'react';
+import { History } from 'lucide-react';
+import { ToolTimelineModal } from './ToolTimelineModal';
+
+export function ToolTimelineButton({ sessionId }: { sessionId: string }) {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  return (
+    <>
+      <button
+        onClick={() => setIsModalOpen(true)}
+        className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+        aria-label="Tool timeline"
+        title="Tool timeline"
+      >
+        <History className="w-4 h-4" style={{ color: 'rgb(var(--text-secondary))' }} />
+      </button>
+
+      {isModalOpen && <ToolTimelineModal sessionId={sessionId} onClose={() => setIsModalOpen(false)} />}
+    </>
+  );
+}
@@ -0,0 +1,336 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { X, ChevronRight } from 'lucide-react';
+import { toast } from '../../utils/toast';
+import { apiFetch } from '../../utils/apiFetch';
+
+type ToolEventStatus = 'running' | 'success' | 'error' | 'denied' | 'interrupted';
+
+interface ToolEvent {
+  id: number;
+  toolUseId: string;
+  agentType: string | null;
+  toolName: string;
+  input: Record<string, unknown>;
+  result: string | null;
+  resultSize: number | null;
+  status: ToolEventStatus;
+  startedAt: string;
+  durationMs: number | null;
+}
+
+interface ToolCount {
+  toolName: string;
+  count: number;
+}
+
+interface ToolTimelineModalProps {
+  sessionId: string;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 100;
+
+const STATUS_STYLES: Record<ToolEventStatus, { label: string; color: string }> = {
+  running: { label: 'Running', color: 'rgb(96, 165, 250)' },
+  success: { label: 'OK', color: 'rgb(74, 222, 128)' },
+  error: { label: 'Error', color: 'rgb(248, 113, 113)' },
+  denied: { label: 'Denied', color: 'rgb(251, 191, 36)' },
+  interrupted: { label: 'Stopped', color: 'rgb(156, 163, 175)' },
+};
+
+// Input fields that best describe a call, in order of preference
+const SUMMARY_FIELDS = ['command', 'file_path', 'notebook_path', 'pattern', 'url', 'query', 'description', 'prompt'];
+
+function summarizeInput(input: Record<string, unknown>): string {
+  const field = SUMMARY_FIELDS.find(key => typeof input[key] === 'string');
+  return field ? String(input[field]) : '';
+}
+
+function formatTime(timestamp: string): string {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+  return date.toDateString() === new Date().toDateString() ? time : `${date.toLocaleDateString()} ${time}`;
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '';
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+}
+
+const chipStyle = (active: boolean): React.CSSProperties => ({
+  padding: '0.25rem 0.625rem',
+  borderRadius: '9999px',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+  background: active ? 'rgba(255, 255, 255, 0.1)' : 'transparent',
+  color: active ? 'rgb(var(--text-primary))' : 'rgb(var(--text-secondary))',
+  fontSize: '0.75rem',
+  cursor: 'pointer',
+  whiteSpace: 'nowrap',
+});
+
+const preStyle: React.CSSProperties = {
+  margin: 0,
+  padding: '0.5rem',
+  borderRadius: '0.375rem',
+  background: 'rgba(0, 0, 0, 0.3)',
+  border: '1px solid rgba(255, 255, 255, 0.05)',
+  fontSize: '0.75rem',
+  fontFamily: 'var(--font-mono, monospace)',
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-word',
+  maxHeight: '16rem',
+  overflowY: 'auto',
+  color: 'rgb(var(--text-primary))',
+};
+
+const iconButtonStyle: React.CSSProperties = {
+  background: 'transparent',
+  border: 'none',
+  color: 'rgb(var(--text-secondary))',
+  cursor: 'pointer',
+  padding: '0.25rem',
+  borderRadius: '0.375rem',
+  display: 'flex',
+};
+
+function TimelineRow({ event }: { event: ToolEvent }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const status = STATUS_STYLES[event.status];
+  const summary = summarizeInput(event.input);
+
+  return (
+    <div style={{ borderLeft: `2px solid ${status.color}`, paddingLeft: '0.75rem' }}>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        style={{
+          width: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '0.5rem',
+          background: 'transparent',
+          border: 'none',
+          padding: '0.25rem 0',
+          cursor: 'pointer',
+          textAlign: 'left',
+          fontSize: '0.8125rem',
+          color: 'rgb(var(--text-primary))',
+        }}
+      >
+        <ChevronRight size={14} style={{ flexShrink: 0, transform: isExpanded ? 'rotate(90deg)' : undefined, transition: 'transform 0.15s' }} />
+        <span style={{ color: 'rgb(var(--text-secondary))', fontSize: '0.75rem', whiteSpace: 'nowrap' }}>{formatTime(event.startedAt)}</span>
+        <span style={{ fontWeight: 600, whiteSpace: 'nowrap' }}>{event.toolName}</span>
+        <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', color: 'rgb(var(--text-secondary))' }}>
+          {summary}
+        </span>
+        {event.agentType && (
+          <span style={{ ...chipStyle(false), cursor: 'inherit' }} title="Called by a sub-agent">{event.agentType}</span>
+        )}
+        <span style={{ fontSize: '0.75rem', color: 'rgb(var(--text-secondary))', whiteSpace: 'nowrap' }}>{formatDuration(event.durationMs)}</span>
+        <span style={{ fontSize: '0.75rem', color: status.color, whiteSpace: 'nowrap' }}>{status.label}</span>
+      </button>
+
+      {isExpanded && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', padding: '0.25rem 0 0.75rem 1.375rem' }}>
+          <div style={{ fontSize: '0.75rem', color: 'rgb(var(--text-secondary))' }}>Input</div>
+          <pre style={preStyle}>{JSON.stringify(event.input, null, 2)}</pre>
+          {event.result !== null && (
+            <>
+              <div style={{ fontSize: '0.75rem', color: 'rgb(var(--text-secondary))' }}>
+                Result{event.resultSize !== null && event.resultSize > event.result.length ? ` (${event.resultSize.toLocaleString()} characters, truncated)` : ''}
+              </div>
+              <pre style={preStyle}>{event.result || '(empty)'}</pre>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ToolTimelineModal({ sessionId, onClose }: ToolTimelineModalProps) {
+  const [toolFilter, setToolFilter] = useState<string | null>(null);
+  const [events, setEvents] = useState<ToolEvent[]>([]);
+  const [tools, setTools] = useState<ToolCount[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadEvents = useCallback(async (before?: number) => {
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+    if (toolFilter) params.set('tool', toolFilter);
+    if (before) params.set('before', String(before));
+
+    const response = await apiFetch(`/api/sessions/${sessionId}/tool-events?${params}`);
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({})) as { error?: string };
+      throw new Error(result.error || `HTTP error! status: ${response.status}`);
+    }
+    return response.json() as Promise<{ events: ToolEvent[]; tools: ToolCount[] }>;
+  }, [sessionId, toolFilter]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    loadEvents()
+      .then(data => {
+        if (cancelled) return;
+        setEvents(data.events);
+        setTools(data.tools);
+        setHasMore(data.events.length === PAGE_SIZE);
+      })
+      .catch(error => {
+        toast.error('Failed to load tool timeline', {
+          description: error instanceof Error ? error.message : undefined,
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loadEvents]);
+
+  const handleLoadOlder = async () => {
+    setIsLoading(true);
+    try {
+      const data = await loadEvents(events[events.length - 1]?.id);
+      setEvents(prev => [...prev, ...data.events]);
+      setHasMore(data.events.length === PAGE_SIZE);
+    } catch (error) {
+      toast.error('Failed to load tool timeline', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const totalCount = tools.reduce((sum, tool) => sum + tool.count, 0);
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.7)',
+        backdropFilter: 'blur(4px)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 10000,
+        padding: '1rem',
+      }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div
+        style={{
+          background: 'rgb(var(--bg-input))',
+          border: '1px solid rgba(255, 255, 255, 0.1)',
+          borderRadius: '1rem',
+          width: '100%',
+          maxWidth: '56rem',
+          maxHeight: '85vh',
+          display: 'flex',
+          flexDirection: 'column',
+          boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.3)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div
+          style={{
+            padding: '1.5rem',
+            borderBottom: '1px solid rgba(255, 255, 255, 0.1)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+          }}
+        >
+          <h2
+            className="text-gradient"
+            style={{
+              fontSize: '1.25rem',
+              fontWeight: 600,
+              fontFamily: 'var(--font-heading)',
+              margin: 0,
+            }}
+          >
+            Tool Timeline
+          </h2>
+          <button onClick={onClose} style={iconButtonStyle} aria-label="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div style={{ padding: '1.5rem', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+          {/* Tool filter */}
+          {tools.length > 0 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.375rem' }}>
+              <button style={chipStyle(toolFilter === null)} onClick={() => setToolFilter(null)}>
+                All ({totalCount})
+              </button>
+              {tools.map(tool => (
+                <button key={tool.toolName} style={chipStyle(toolFilter === tool.toolName)} onClick={() => setToolFilter(tool.toolName)}>
+                  {tool.toolName} ({tool.count})
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Events, newest first */}
+          {isLoading && events.length === 0 ? (
+            <div style={{ color: 'rgb(var(--text-secondary))', fontSize: '0.875rem' }}>Loading…</div>
+          ) : events.length === 0 ? (
+            <div style={{ color: 'rgb(var(--text-secondary))', fontSize: '0.875rem' }}>No tool calls recorded for this chat yet.</div>
+          ) : (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+              {events.map(event => <TimelineRow key={event.id} event={event} />)}
+            </div>
+          )}
+
+          {hasMore && (
+            <button
+              onClick={handleLoadOlder}
+              disabled={isLoading}
+              style={{ ...chipStyle(false), alignSelf: 'center', padding: '0.375rem 1rem' }}
+            >
+              {isLoading ? 'Loading…' : 'Load older'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
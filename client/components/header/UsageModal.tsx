@@ -0,0 +1,423 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { toast } from '../../utils/toast';
+import { apiFetch } from '../../utils/apiFetch';
+
+type GroupBy = 'day' | 'session' | 'model';
+type Metric = 'cost' | 'tokens';
+
+interface UsageTotals {
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+  unpricedTurns: number;
+  durationMs: number;
+}
+
+interface UsageGroup extends UsageTotals {
+  key: string;
+  label: string;
+}
+
+interface UsageSummary {
+  totals: UsageTotals;
+  groups: UsageGroup[];
+}
+
+interface UsageModalProps {
+  onClose: () => void;
+}
+
+const RANGES = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 0, label: 'All time' },
+];
+
+const GROUPS: { id: GroupBy; label: string }[] = [
+  { id: 'day', label: 'By day' },
+  { id: 'session', label: 'By chat' },
+  { id: 'model', label: 'By model' },
+];
+
+// Token categories, in stacking order
+const TOKEN_SERIES: { key: keyof UsageTotals; label: string; color: string }[] = [
+  { key: 'inputTokens', label: 'Input', color: 'rgb(96, 165, 250)' },
+  { key: 'outputTokens', label: 'Output', color: 'rgb(167, 139, 250)' },
+  { key: 'cacheCreationInputTokens', label: 'Cache write', color: 'rgb(251, 191, 36)' },
+  { key: 'cacheReadInputTokens', label: 'Cache read', color: 'rgb(74, 222, 128)' },
+];
+
+const COST_COLOR = 'rgb(96, 165, 250)';
+
+function totalTokens(usage: UsageTotals): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheCreationInputTokens + usage.cacheReadInputTokens;
+}
+
+function formatCost(usd: number): string {
+  if (usd === 0) return '$0.00';
+  if (usd < 0.01) return '<$0.01';
+  return `$${usd.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+function toLocalDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Insert empty days so the daily chart has a bar for every day in the range
+ */
+function fillMissingDays(groups: UsageGroup[], days: number): UsageGroup[] {
+  if (days === 0 || days > 90) return groups;
+
+  const byKey = new Map(groups.map(group => [group.key, group]));
+  const filled: UsageGroup[] = [];
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = new Date();
+    date.setDate(date.getDate() - offset);
+    const key = toLocalDateKey(date);
+    filled.push(byKey.get(key) ?? {
+      key, label: key, turns: 0, inputTokens: 0, outputTokens: 0, cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0, costUsd: 0, unpricedTurns: 0, durationMs: 0,
+    });
+  }
+  return filled;
+}
+
+const segmentButtonStyle = (active: boolean): React.CSSProperties => ({
+  padding: '0.375rem 0.75rem',
+  borderRadius: '0.375rem',
+  border: 'none',
+  background: active ? 'rgba(255, 255, 255, 0.1)' : 'transparent',
+  color: active ? 'rgb(var(--text-primary))' : 'rgb(var(--text-secondary))',
+  fontSize: '0.8125rem',
+  cursor: 'pointer',
+});
+
+const segmentGroupStyle: React.CSSProperties = {
+  display: 'flex',
+  gap: '0.25rem',
+  padding: '0.25rem',
+  borderRadius: '0.5rem',
+  background: 'rgba(255, 255, 255, 0.03)',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+};
+
+const cardStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: '7rem',
+  padding: '0.75rem 1rem',
+  borderRadius: '0.75rem',
+  background: 'rgba(255, 255, 255, 0.03)',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+};
+
+const iconButtonStyle: React.CSSProperties = {
+  background: 'transparent',
+  border: 'none',
+  color: 'rgb(var(--text-secondary))',
+  cursor: 'pointer',
+  padding: '0.25rem',
+  borderRadius: '0.375rem',
+  display: 'flex',
+};
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div style={cardStyle}>
+      <div style={{ fontSize: '0.75rem', color: 'rgb(var(--text-secondary))' }}>{label}</div>
+      <div style={{ fontSize: '1.25rem', fontWeight: 600, color: 'rgb(var(--text-primary))', marginTop: '0.25rem' }}>{value}</div>
+      {detail && <div style={{ fontSize: '0.6875rem', color: 'rgb(var(--text-secondary))', marginTop: '0.125rem' }}>{detail}</div>}
+    </div>
+  );
+}
+
+/**
+ * Vertical bars over time (one per day)
+ */
+function DailyChart({ groups, metric }: { groups: UsageGroup[]; metric: Metric }) {
+  const max = Math.max(...groups.map(g => (metric === 'cost' ? g.costUsd : totalTokens(g))), 0);
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'flex-end', gap: '2px', height: '10rem', padding: '0.5rem 0' }}>
+      {groups.map(group => {
+        const value = metric === 'cost' ? group.costUsd : totalTokens(group);
+        const height = max > 0 ? (value / max) * 100 : 0;
+        const title = `${group.label}: ${metric === 'cost' ? formatCost(group.costUsd) : `${formatTokens(value)} tokens`} (${group.turns} turns)`;
+
+        return (
+          <div key={group.key} title={title} style={{ flex: 1, height: '100%', display: 'flex', flexDirection: 'column', justifyContent: 'flex-end' }}>
+            {metric === 'cost' ? (
+              <div style={{ height: `${height}%`, minHeight: value > 0 ? '2px' : 0, background: COST_COLOR, borderRadius: '2px 2px 0 0' }} />
+            ) : (
+              <div style={{ height: `${height}%`, display: 'flex', flexDirection: 'column-reverse', borderRadius: '2px 2px 0 0', overflow: 'hidden' }}>
+                {TOKEN_SERIES.map(series => (
+                  <div
+                    key={series.key}
+                    style={{ flex: value > 0 ? (group[series.key] as number) / value : 0, background: series.color }}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Horizontal bars per chat or model, largest first
+ */
+function BreakdownChart({ groups, metric }: { groups: UsageGroup[]; metric: Metric }) {
+  const max = Math.max(...groups.map(g => (metric === 'cost' ? g.costUsd : totalTokens(g))), 0);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.625rem' }}>
+      {groups.map(group => {
+        const value = metric === 'cost' ? group.costUsd : totalTokens(group);
+        const width = max > 0 ? (value / max) * 100 : 0;
+
+        return (
+          <div key={group.key}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem', fontSize: '0.8125rem', marginBottom: '0.25rem' }}>
+              <span style={{ color: 'rgb(var(--text-primary))', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {group.label}
+              </span>
+              <span style={{ color: 'rgb(var(--text-secondary))', whiteSpace: 'nowrap' }}>
+                {formatCost(group.costUsd)} · {formatTokens(totalTokens(group))} tokens · {group.turns} turns
+              </span>
+            </div>
+            <div style={{ height: '0.5rem', borderRadius: '0.25rem', background: 'rgba(255, 255, 255, 0.05)', overflow: 'hidden' }}>
+              {metric === 'cost' ? (
+                <div style={{ width: `${width}%`, height: '100%', background: COST_COLOR }} />
+              ) : (
+                <div style={{ width: `${width}%`, height: '100%', display: 'flex' }}>
+                  {TOKEN_SERIES.map(series => (
+                    <div
+                      key={series.key}
+                      style={{ flex: value > 0 ? (group[series.key] as number) / value : 0, background: series.color }}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function UsageModal({ onClose }: UsageModalProps) {
+  const [days, setDays] = useState(30);
+  const [groupBy, setGroupBy] = useState<GroupBy>('day');
+  const [metric, setMetric] = useState<Metric>('cost');
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    // Day boundaries follow the browser's timezone
+    const tzOffset = -new Date().getTimezoneOffset();
+    apiFetch(`/api/usage?groupBy=${groupBy}&days=${days}&tzOffset=${tzOffset}`)
+      .then(async response => {
+        if (!response.ok) {
+          const result = await response.json().catch(() => ({})) as { error?: string };
+          throw new Error(result.error || `HTTP error! status: ${response.status}`);
+        }
+        return response.json() as Promise<UsageSummary>;
+      })
+      .then(data => {
+        if (!cancelled) setSummary(data);
+      })
+      .catch(error => {
+        toast.error('Failed to load usage', {
+          description: error instanceof Error ? error.message : undefined,
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [days, groupBy]);
+
+  const totals = summary?.totals;
+  const groups = summary ? (groupBy === 'day' ? fillMissingDays(summary.groups, days) : summary.groups) : [];
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.7)',
+        backdropFilter: 'blur(4px)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 10000,
+        padding: '1rem',
+      }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div
+        style={{
+          background: 'rgb(var(--bg-input))',
+          border: '1px solid rgba(255, 255, 255, 0.1)',
+          borderRadius: '1rem',
+          width: '100%',
+          maxWidth: '48rem',
+          maxHeight: '85vh',
+          display: 'flex',
+          flexDirection: 'column',
+          boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.3)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div
+          style={{
+            padding: '1.5rem',
+            borderBottom: '1px solid rgba(255, 255, 255, 0.1)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+          }}
+        >
+          <h2
+            className="text-gradient"
+            style={{
+              fontSize: '1.25rem',
+              fontWeight: 600,
+              fontFamily: 'var(--font-heading)',
+              margin: 0,
+            }}
+          >
+            Usage
+          </h2>
+          <button onClick={onClose} style={iconButtonStyle} aria-label="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div style={{ padding: '1.5rem', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+          {/* Filters */}
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem', justifyContent: 'space-between' }}>
+            <div style={segmentGroupStyle}>
+              {RANGES.map(range => (
+                <button key={range.days} style={segmentButtonStyle(days === range.days)} onClick={() => setDays(range.days)}>
+                  {range.label}
+                </button>
+              ))}
+            </div>
+            <div style={segmentGroupStyle}>
+              <button style={segmentButtonStyle(metric === 'cost')} onClick={() => setMetric('cost')}>Cost</button>
+              <button style={segmentButtonStyle(metric === 'tokens')} onClick={() => setMetric('tokens')}>Tokens</button>
+            </div>
+          </div>
+
+          {/* Totals */}
+          {totals && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem' }}>
+              <StatCard
+                label="Estimated cost"
+                value={formatCost(totals.costUsd)}
+                detail={totals.unpricedTurns > 0 ? `${totals.unpricedTurns} turns on unpriced models` : undefined}
+              />
+              <StatCard label="Input tokens" value={formatTokens(totals.inputTokens)} />
+              <StatCard label="Output tokens" value={formatTokens(totals.outputTokens)} />
+              <StatCard
+                label="Cache tokens"
+                value={formatTokens(totals.cacheCreationInputTokens + totals.cacheReadInputTokens)}
+                detail={`${formatTokens(totals.cacheReadInputTokens)} read · ${formatTokens(totals.cacheCreationInputTokens)} written`}
+              />
+              <StatCard
+                label="Turns"
+                value={String(totals.turns)}
+                detail={totals.turns > 0 ? `${(totals.durationMs / totals.turns / 1000).toFixed(1)}s average` : undefined}
+              />
+            </div>
+          )}
+
+          {/* Grouping */}
+          <div style={{ ...segmentGroupStyle, alignSelf: 'flex-start' }}>
+            {GROUPS.map(group => (
+              <button key={group.id} style={segmentButtonStyle(groupBy === group.id)} onClick={() => setGroupBy(group.id)}>
+                {group.label}
+              </button>
+            ))}
+          </div>
+
+          {/* Chart */}
+          {isLoading && !summary ? (
+            <div style={{ color: 'rgb(var(--text-secondary))', fontSize: '0.875rem' }}>Loading…</div>
+          ) : totals && totals.turns === 0 ? (
+            <div style={{ color: 'rgb(var(--text-secondary))', fontSize: '0.875rem' }}>No usage recorded in this period.</div>
+          ) : groupBy === 'day' ? (
+            <DailyChart groups={groups} metric={metric} />
+          ) : (
+            <BreakdownChart groups={groups} metric={metric} />
+          )}
+
+          {metric === 'tokens' && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem', fontSize: '0.75rem', color: 'rgb(var(--text-secondary))' }}>
+              {TOKEN_SERIES.map(series => (
+                <span key={series.key} style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+                  <span style={{ width: '0.625rem', height: '0.625rem', borderRadius: '2px', background: series.color }} />
+                  {series.label}
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div style={{ fontSize: '0.75rem', color: 'rgb(var(--text-secondary))' }}>
+            Costs are estimates based on list prices per model at the time of each turn.
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import React from 'react';
+import { MonitorSmartphone } from 'lucide-react';
+
+interface ViewersIndicatorProps {
+  count: number;
+}
+
+/**
+ * Shows how many tabs/devices are watching the current session
+ * Hidden while this client is the only one
+ */
+export function ViewersIndicator({ count }: ViewersIndicatorProps) {
+  if (count <= 1) return null;
+
+  return (
+    <div
+      className="flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs"
+      style={{ color: 'rgb(var(--text-secondary))' }}
+      title={`This chat is open on ${count} devices; messages sent from any of them appear live everywhere`}
+    >
+      <MonitorSmartphone className="w-4 h-4" />
+      <span>Viewing from {count} devices</span>
+    </div>
+  );
+}
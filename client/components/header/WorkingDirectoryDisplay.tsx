@@ -21,14 +21,17 @@
 import React, { useState } from 'react';
 import { FolderOpen } from 'lucide-react';
 import { showError } from '../../utils/errorMessages';
+import { apiFetch } from '../../utils/apiFetch';
+import { GitStatusBadge } from './GitStatusBadge';
 
 interface WorkingDirectoryDisplayProps {
   directory: string;
   sessionId?: string;
   onChangeDirectory?: (sessionId: string, newDirectory: string) => Promise<void>;
+  gitRefreshKey?: number; // Reloads the git badge when it changes
 }
 
-export function WorkingDirectoryDisplay({ directory, sessionId, onChangeDirectory }: WorkingDirectoryDisplayProps) {
+export function WorkingDirectoryDisplay({ directory, sessionId, onChangeDirectory, gitRefreshKey }: WorkingDirectoryDisplayProps) {
   const [isChanging, setIsChanging] = useState(false);
 
   // Extract just the chat folder name (e.g., "chat-a1b2c3d4")
@@ -43,7 +46,7 @@ export function WorkingDirectoryDisplay({ directory, sessionId, onChangeDirector
     setIsChanging(true);
     try {
       // Call server to open native directory picker (dynamic URL works on any port)
-      const response = await fetch(`${window.location.protocol}//${window.location.host}/api/pick-directory`, {
+      const response = await apiFetch(`${window.location.protocol}//${window.location.host}/api/pick-directory`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -87,6 +90,7 @@ export function WorkingDirectoryDisplay({ directory, sessionId, onChangeDirector
           <FolderOpen className="w-3 h-3" style={{ color: 'rgb(var(--text-secondary))' }} />
         </button>
       )}
+      {sessionId && <GitStatusBadge sessionId={sessionId} directory={directory} refreshKey={gitRefreshKey} />}
     </div>
   );
 }
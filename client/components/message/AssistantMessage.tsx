@@ -25,13 +25,15 @@ import { SyntaxHighlighter, vscDarkPlus } from '../../utils/syntaxHighlighter';
 import { AssistantMessage as AssistantMessageType, ToolUseBlock, TextBlock, TodoItem, LongRunningCommandBlock } from './types';
 import { ThinkingBlock } from './ThinkingBlock';
 import { CodeBlockWithCopy } from './CodeBlockWithCopy';
+import { ToolResultOutput } from './ToolResultOutput';
 import { URLBadge } from './URLBadge';
 import { MermaidDiagram } from './MermaidDiagram';
-import { Shield } from 'lucide-react';
+import { Shield, GitBranch } from 'lucide-react';
 import { showError } from '../../utils/errorMessages';
 
 interface AssistantMessageProps {
   message: AssistantMessageType;
+  onFork?: (messageId: string) => void;
 }
 
 function formatTimestamp(timestamp: string): string {
@@ -178,6 +180,7 @@ function BashToolComponent({ toolUse }: { toolUse: ToolUseBlock }) {
               <div className="text-sm mt-1">{input.timeout as number}ms</div>
             </div>
           )}
+          <ToolResultOutput toolUse={toolUse} />
         </div>
       )}
     </div>
@@ -232,6 +235,7 @@ function BashOutputToolComponent({ toolUse }: { toolUse: ToolUseBlock }) {
               <div className="text-sm mt-1 font-mono">{String(input.filter)}</div>
             </div>
           ) : null}
+          <ToolResultOutput toolUse={toolUse} />
         </div>
       )}
     </div>
@@ -281,6 +285,7 @@ function KillShellToolComponent({ toolUse }: { toolUse: ToolUseBlock }) {
               {input.shell_id as string}
             </div>
           </div>
+          <ToolResultOutput toolUse={toolUse} />
         </div>
       )}
     </div>
@@ -358,6 +363,7 @@ function WebToolComponent({ toolUse }: { toolUse: ToolUseBlock }) {
               </div>
             </>
           )}
+          <ToolResultOutput toolUse={toolUse} />
         </div>
       )}
     </div>
@@ -416,6 +422,7 @@ function ReadToolComponent({ toolUse }: { toolUse: ToolUseBlock }) {
               <div className="text-sm mt-1">{input.limit} lines</div>
             </div>
           )}
+          <ToolResultOutput toolUse={toolUse} />
         </div>
       )}
     </div>
@@ -490,6 +497,7 @@ function GrepToolComponent({ toolUse }: { toolUse: ToolUseBlock }) {
               </div>
             </div>
           )}
+          <ToolResultOutput toolUse={toolUse} />
         </div>
       )}
     </div>
@@ -542,6 +550,7 @@ function GlobToolComponent({ toolUse }: { toolUse: ToolUseBlock }) {
               <div className="text-sm mt-1 font-mono">{input.path as string}</div>
             </div>
           )}
+          <ToolResultOutput toolUse={toolUse} />
         </div>
       )}
     </div>
@@ -715,6 +724,7 @@ function TaskToolComponent({ toolUse }: { toolUse: ToolUseBlock }) {
               );
             }
           })()}
+          <ToolResultOutput toolUse={toolUse} />
         </div>
       )}
     </div>
@@ -900,6 +910,7 @@ function McpToolComponent({ toolUse }: { toolUse: ToolUseBlock }) {
               </div>
             </div>
           ))}
+          <ToolResultOutput toolUse={toolUse} />
         </div>
       )}
     </div>
@@ -974,6 +985,7 @@ function NotebookEditToolComponent({ toolUse }: { toolUse: ToolUseBlock }) {
               </div>
             </div>
           ) : null}
+          <ToolResultOutput toolUse={toolUse} />
         </div>
       )}
     </div>
@@ -1352,6 +1364,13 @@ function EditToolComponent({ toolUse }: { toolUse: ToolUseBlock }) {
           )}
         </div>
       )}
+
+      {/* Failed edits explain why the file was left untouched */}
+      {isExpanded && toolUse.result?.isError && (
+        <div className="p-4 bg-black/30 text-sm border-t border-white/10">
+          <ToolResultOutput toolUse={toolUse} />
+        </div>
+      )}
     </div>
   );
 }
@@ -1483,8 +1502,9 @@ function ToolUseComponent({ toolUse }: { toolUse: ToolUseBlock }) {
         </div>
 
         {isExpanded && (
-          <div className="flex gap-2 p-4 w-full text-sm">
+          <div className="flex flex-col gap-2 p-4 w-full text-sm">
             {formatToolDisplay()}
+            <ToolResultOutput toolUse={toolUse} />
           </div>
         )}
       </div>
@@ -1773,7 +1793,7 @@ function TextComponent({ text }: { text: TextBlock }) {
   );
 }
 
-export function AssistantMessage({ message }: AssistantMessageProps) {
+export function AssistantMessage({ message, onFork }: AssistantMessageProps) {
   const [showMetadata, setShowMetadata] = useState(false);
   const [copied, setCopied] = useState(false);
 
@@ -1826,7 +1846,16 @@ export function AssistantMessage({ message }: AssistantMessageProps) {
                 if (block.type === 'text') {
                   return <TextComponent key={index} text={block} />;
                 } else if (block.type === 'tool_use') {
-                  return <ToolUseComponent key={index} toolUse={block} />;
+                  return (
+                    <div key={index}>
+                      <ToolUseComponent toolUse={block} />
+                      {block.ruleDenial && (
+                        <div className="mt-2 px-3 py-2 text-xs rounded-lg bg-red-500/10 text-red-400 border border-red-500/20">
+                          ⛔ {block.ruleDenial.reason}
+                        </div>
+                      )}
+                    </div>
+                  );
                 } else if (block.type === 'thinking') {
                   return <ThinkingBlock key={index} title="Agent Llama's thoughts..." content={block.thinking} />;
                 } else if (block.type === 'long_running_command') {
@@ -1865,6 +1894,16 @@ export function AssistantMessage({ message }: AssistantMessageProps) {
                   <span className="text-xs font-mono">{showMetadata ? '[-]' : '[+]'}</span>
                 </button>
               )}
+              {onFork && (
+                <button
+                  onClick={() => onFork(message.id)}
+                  className="message-action-btn"
+                  aria-label="Fork from here"
+                  title="Fork from here"
+                >
+                  <GitBranch className="size-4" />
+                </button>
+              )}
             </div>
 
             {/* Metadata panel */}
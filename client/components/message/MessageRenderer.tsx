@@ -26,18 +26,21 @@ import { AssistantMessage } from './AssistantMessage';
 
 interface MessageRendererProps {
   message: Message;
+  onFork?: (messageId: string) => void;
+  onRewind?: (messageId: string) => void;
+  onViewChanges?: (messageId: string) => void;
 }
 
-export function MessageRenderer({ message }: MessageRendererProps) {
+export function MessageRenderer({ message, onFork, onRewind, onViewChanges }: MessageRendererProps) {
   switch (message.type) {
     case 'user':
-      return <UserMessage message={message} />;
+      return <UserMessage message={message} onFork={onFork} onRewind={onRewind} onViewChanges={onViewChanges} />;
 
     case 'system':
       return <SystemMessage message={message} />;
 
     case 'assistant':
-      return <AssistantMessage message={message} />;
+      return <AssistantMessage message={message} onFork={onFork} />;
 
     default: {
       const unknownMessage = message as { type: string };
@@ -0,0 +1,84 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import React, { useState } from 'react';
+import type { ToolUseBlock } from './types';
+import { apiFetch } from '../../utils/apiFetch';
+import { showError } from '../../utils/errorMessages';
+
+interface ToolResultOutputProps {
+  toolUse: ToolUseBlock;
+  label?: string;
+}
+
+/**
+ * A tool call's output, with a button to load the rest when the preview was cut short
+ */
+export function ToolResultOutput({ toolUse, label = 'Output' }: ToolResultOutputProps) {
+  const [fullOutput, setFullOutput] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const result = toolUse.result;
+
+  if (!result) return null;
+
+  const handleViewFull = async () => {
+    setIsLoading(true);
+    try {
+      const response = await apiFetch(`/api/tool-results/${encodeURIComponent(toolUse.id)}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({})) as { error?: string };
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      const data = await response.json() as { content: string };
+      setFullOutput(data.content);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      showError('LOAD_TOOL_RESULT', errorMsg);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const content = fullOutput ?? result.content;
+
+  return (
+    <div>
+      <span className={`text-xs font-semibold ${result.isError ? 'text-red-400' : 'text-white/60'}`}>
+        {result.isError ? 'Error:' : `${label}:`}
+      </span>
+      <pre
+        className={`text-xs mt-1 px-2 py-1 rounded font-mono whitespace-pre-wrap break-words max-h-80 overflow-y-auto ${
+          result.isError ? 'bg-red-500/10 text-red-300' : 'bg-black/20 text-white/80'
+        }`}
+      >
+        {content || '(no output)'}
+      </pre>
+      {result.truncated && fullOutput === null && (
+        <button
+          onClick={handleViewFull}
+          disabled={isLoading}
+          className="mt-1 text-xs text-white/60 hover:text-white underline disabled:opacity-50"
+        >
+          {isLoading ? 'Loading…' : `View full output (${result.size.toLocaleString()} characters)`}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -22,9 +22,13 @@ import React, { useState } from 'react';
 import { UserMessage as UserMessageType, UserToolResultMessage } from './types';
 import { showError } from '../../utils/errorMessages';
 import { CommandTextRenderer } from './CommandTextRenderer';
+import { GitBranch, Undo2, FileDiff } from 'lucide-react';
 
 interface UserMessageProps {
   message: UserMessageType | UserToolResultMessage;
+  onFork?: (messageId: string) => void;
+  onRewind?: (messageId: string) => void;
+  onViewChanges?: (messageId: string) => void;
 }
 
 function formatTimestamp(timestamp: string): string {
@@ -46,7 +50,7 @@ function filterImagePathReferences(text: string): string {
     .trim();
 }
 
-export function UserMessage({ message }: UserMessageProps) {
+export function UserMessage({ message, onFork, onRewind, onViewChanges }: UserMessageProps) {
   const [copied, setCopied] = useState(false);
 
   // Handle copy to clipboard
@@ -177,6 +181,36 @@ export function UserMessage({ message }: UserMessageProps) {
                     </svg>
                   )}
                 </button>
+                {onFork && (
+                  <button
+                    onClick={() => onFork(message.id)}
+                    className="message-action-btn message-action-btn-hidden"
+                    aria-label="Fork from here"
+                    title="Fork from here"
+                  >
+                    <GitBranch className="size-4" />
+                  </button>
+                )}
+                {onViewChanges && (
+                  <button
+                    onClick={() => onViewChanges(message.id)}
+                    className="message-action-btn message-action-btn-hidden"
+                    aria-label="View file changes from this turn"
+                    title="View file changes from this turn"
+                  >
+                    <FileDiff className="size-4" />
+                  </button>
+                )}
+                {onRewind && (
+                  <button
+                    onClick={() => onRewind(message.id)}
+                    className="message-action-btn message-action-btn-hidden"
+                    aria-label="Rewind files to before this turn"
+                    title="Rewind files to before this turn"
+                  >
+                    <Undo2 className="size-4" />
+                  </button>
+                )}
               </div>
             </div>
           </div>
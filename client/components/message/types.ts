@@ -18,6 +18,8 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
+import type { ToolResultPreview } from '../../config/protocol';
+
 export interface BaseMessage {
   id: string;
   timestamp: string;
@@ -95,6 +97,14 @@ export interface ToolUseBlock {
     queued: number;
     max: number;
   };
+  // Output preview, once the tool has run
+  result?: ToolResultPreview;
+  // Set when a tool rule blocked the call
+  ruleDenial?: {
+    ruleId: string;
+    scope: 'global' | 'session';
+    reason: string;
+  };
 }
 
 export interface TextBlock {
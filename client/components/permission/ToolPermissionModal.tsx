@@ -0,0 +1,257 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import React from 'react';
+import { ShieldQuestionMark } from 'lucide-react';
+import type { ToolPermissionDecision } from '../../config/protocol';
+
+export interface ToolPermissionRequest {
+  requestId: string;
+  toolName: string;
+  toolInput: Record<string, unknown>;
+  rules: string[];
+  directories: string[];
+  reason?: string;
+}
+
+interface ToolPermissionModalProps {
+  request: ToolPermissionRequest;
+  queuedCount: number; // Further requests waiting behind this one
+  onRespond: (requestId: string, decision: ToolPermissionDecision) => void;
+}
+
+interface DiffLine {
+  kind: 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Lines removed and added by a file-changing tool, or null for other tools
+ */
+function getDiffLines(toolName: string, input: Record<string, unknown>): DiffLine[] | null {
+  const toLines = (value: unknown, kind: DiffLine['kind']): DiffLine[] =>
+    typeof value === 'string' ? value.split('\n').map(text => ({ kind, text })) : [];
+
+  if (toolName === 'Edit') {
+    return [...toLines(input.old_string, 'removed'), ...toLines(input.new_string, 'added')];
+  }
+  if (toolName === 'MultiEdit' && Array.isArray(input.edits)) {
+    return (input.edits as Record<string, unknown>[]).flatMap(edit => [
+      ...toLines(edit.old_string, 'removed'),
+      ...toLines(edit.new_string, 'added'),
+    ]);
+  }
+  if (toolName === 'Write') {
+    return toLines(input.content, 'added');
+  }
+  if (toolName === 'NotebookEdit') {
+    return toLines(input.new_source, 'added');
+  }
+  return null;
+}
+
+function ToolInputPreview({ toolName, input }: { toolName: string; input: Record<string, unknown> }) {
+  const preStyle: React.CSSProperties = {
+    margin: 0,
+    padding: '0.75rem',
+    fontFamily: 'monospace',
+    fontSize: '0.75rem',
+    lineHeight: 1.5,
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-word',
+    color: 'rgb(var(--text-primary))',
+  };
+
+  if (toolName === 'Bash' && typeof input.command === 'string') {
+    return (
+      <div>
+        {typeof input.description === 'string' && (
+          <p style={{ fontSize: '0.875rem', color: 'rgb(var(--text-secondary))', margin: '0 0 0.5rem 0' }}>
+            {input.description}
+          </p>
+        )}
+        <pre className="bg-black/30 border border-white/10 rounded-lg" style={preStyle}>
+          <span style={{ color: 'rgb(var(--text-secondary))', userSelect: 'none' }}>$ </span>
+          {input.command}
+        </pre>
+      </div>
+    );
+  }
+
+  const diffLines = getDiffLines(toolName, input);
+  if (diffLines) {
+    const filePath = input.file_path ?? input.notebook_path;
+    return (
+      <div className="border border-white/10 rounded-lg overflow-hidden">
+        {typeof filePath === 'string' && (
+          <div className="px-3 py-2 text-xs bg-[#0C0E10] border-b border-white/10 truncate text-white/60">
+            {filePath}
+          </div>
+        )}
+        <div className="bg-black/30" style={{ ...preStyle, padding: '0.5rem 0' }}>
+          {diffLines.map((line, index) => (
+            <div
+              key={index}
+              className={line.kind === 'added' ? 'bg-green-500/10 border-l-2 border-green-500' : 'bg-red-500/10 border-l-2 border-red-500'}
+              style={{ padding: '0 0.75rem' }}
+            >
+              <span className={line.kind === 'added' ? 'text-green-500' : 'text-red-500'} style={{ userSelect: 'none' }}>
+                {line.kind === 'added' ? '+ ' : '- '}
+              </span>
+              {line.text}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <pre className="bg-black/30 border border-white/10 rounded-lg" style={preStyle}>
+      {JSON.stringify(input, null, 2)}
+    </pre>
+  );
+}
+
+export function ToolPermissionModal({ request, queuedCount, onRespond }: ToolPermissionModalProps) {
+  const alwaysAllowLabel = request.directories.length > 0
+    ? `${request.rules.join(', ')} in ${request.directories.join(', ')}`
+    : request.rules.join(', ');
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '0.625rem 1.25rem',
+    fontSize: '0.875rem',
+    fontWeight: 500,
+    borderRadius: '0.5rem',
+    cursor: 'pointer',
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.7)',
+        backdropFilter: 'blur(4px)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 10000,
+        padding: '1rem',
+      }}
+    >
+      <div
+        style={{
+          background: 'rgb(var(--bg-input))',
+          border: '1px solid rgba(255, 255, 255, 0.1)',
+          borderRadius: '1rem',
+          width: '100%',
+          maxWidth: '48rem',
+          maxHeight: '80vh',
+          display: 'flex',
+          flexDirection: 'column',
+          boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.3)',
+        }}
+      >
+        {/* Header */}
+        <div
+          style={{
+            padding: '1.5rem',
+            borderBottom: '1px solid rgba(255, 255, 255, 0.1)',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '0.75rem',
+          }}
+        >
+          <ShieldQuestionMark size={24} style={{ color: 'rgb(234, 179, 8)' }} />
+          <div style={{ flex: 1 }}>
+            <h2
+              style={{
+                fontSize: '1.25rem',
+                fontWeight: 600,
+                color: 'rgb(var(--text-primary))',
+                margin: 0,
+              }}
+            >
+              Allow {request.toolName}?
+            </h2>
+            <p
+              style={{
+                fontSize: '0.875rem',
+                color: 'rgb(var(--text-secondary))',
+                margin: '0.25rem 0 0 0',
+              }}
+            >
+              {request.reason || 'Claude wants to use this tool'}
+            </p>
+          </div>
+          {queuedCount > 0 && (
+            <span style={{ fontSize: '0.75rem', color: 'rgb(var(--text-secondary))' }}>
+              +{queuedCount} more waiting
+            </span>
+          )}
+        </div>
+
+        {/* Tool input */}
+        <div style={{ padding: '1.5rem', overflowY: 'auto', flex: 1 }}>
+          <ToolInputPreview toolName={request.toolName} input={request.toolInput} />
+        </div>
+
+        {/* Footer with buttons */}
+        <div
+          style={{
+            padding: '1.5rem',
+            borderTop: '1px solid rgba(255, 255, 255, 0.1)',
+            display: 'flex',
+            gap: '0.75rem',
+            justifyContent: 'flex-end',
+            flexWrap: 'wrap',
+          }}
+        >
+          <button
+            onClick={() => onRespond(request.requestId, 'deny')}
+            className="stop-button-active"
+            style={buttonStyle}
+          >
+            Deny
+          </button>
+          <button
+            onClick={() => onRespond(request.requestId, 'allow_always')}
+            className="border border-white/10 bg-transparent hover:bg-white/5"
+            style={{ ...buttonStyle, color: 'rgb(var(--text-primary))', maxWidth: '100%', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+            title={`Don't ask again this session for: ${alwaysAllowLabel}`}
+          >
+            Always allow {alwaysAllowLabel}
+          </button>
+          <button
+            onClick={() => onRespond(request.requestId, 'allow_once')}
+            className="send-button-active"
+            style={buttonStyle}
+          >
+            Allow once
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { apiFetch } from '../../utils/apiFetch';
+
+export interface MessageSearchResult {
+  message_id: string;
+  session_id: string;
+  session_title: string;
+  type: 'user' | 'assistant';
+  timestamp: string;
+  snippet: string;
+}
+
+interface SearchResultsProps {
+  query: string;
+  onResultSelect?: (sessionId: string, messageId: string) => void;
+}
+
+const MIN_QUERY_LENGTH = 2;
+const SEARCH_DEBOUNCE_MS = 250;
+
+/**
+ * Render an FTS snippet, turning <mark>…</mark> markers into highlights
+ * without injecting raw HTML from message content
+ */
+function renderSnippet(snippet: string) {
+  return snippet.split(/<mark>|<\/mark>/).map((part, index) =>
+    index % 2 === 1 ? <mark key={index}>{part}</mark> : <React.Fragment key={index}>{part}</React.Fragment>
+  );
+}
+
+export function SearchResults({ query, onResultSelect }: SearchResultsProps) {
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const trimmedQuery = query.trim();
+  const isActive = trimmedQuery.length >= MIN_QUERY_LENGTH;
+
+  useEffect(() => {
+    if (!isActive) {
+      setResults([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const response = await apiFetch(`/api/search?q=${encodeURIComponent(trimmedQuery)}`, {
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new Error(`Search failed: ${response.status}`);
+        }
+        const data = await response.json() as { results: MessageSearchResult[] };
+        setResults(data.results);
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') return;
+        console.error('Failed to search messages:', error);
+        setResults([]);
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [trimmedQuery, isActive]);
+
+  if (!isActive) {
+    return null;
+  }
+
+  return (
+    <div className="sidebar-chat-group">
+      <div className="sidebar-group-label">Messages</div>
+      {isSearching && results.length === 0 ? (
+        <div className="sidebar-search-empty">Searching…</div>
+      ) : results.length === 0 ? (
+        <div className="sidebar-search-empty">No messages match &ldquo;{trimmedQuery}&rdquo;</div>
+      ) : (
+        results.map((result) => (
+          <button
+            key={result.message_id}
+            className="sidebar-search-result"
+            onClick={() => onResultSelect?.(result.session_id, result.message_id)}
+            title={new Date(result.timestamp).toLocaleString()}
+          >
+            <span className="sidebar-search-result-title">
+              {result.type === 'user' ? 'You' : 'Assistant'} · {result.session_title}
+            </span>
+            <span className="sidebar-search-result-snippet">{renderSnippet(result.snippet)}</span>
+          </button>
+        ))
+      )}
+    </div>
+  );
+}
@@ -19,8 +19,10 @@
  */
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Menu, Edit3, Search, Trash2, Edit, FolderOpen } from 'lucide-react';
+import { Menu, Edit3, Search, Trash2, Edit, FolderOpen, GitBranch, Download, Upload } from 'lucide-react';
 import { toast } from '../../utils/toast';
+import { SearchResults } from './SearchResults';
+import { apiFetch, withAccessToken } from '../../utils/apiFetch';
 
 interface Chat {
   id: string;
@@ -28,6 +30,7 @@ interface Chat {
   timestamp: Date;
   isActive?: boolean;
   isLoading?: boolean;
+  parentId?: string; // Set for chats forked from another chat
 }
 
 interface SidebarProps {
@@ -38,14 +41,18 @@ interface SidebarProps {
   onChatSelect?: (chatId: string) => void;
   onChatDelete?: (chatId: string) => void;
   onChatRename?: (chatId: string, newTitle: string) => void;
+  onSearchResultSelect?: (chatId: string, messageId: string) => void;
+  onImportChat?: (file: File) => void;
 }
 
-export function Sidebar({ isOpen, onToggle, chats = [], onNewChat, onChatSelect, onChatDelete, onChatRename }: SidebarProps) {
+export function Sidebar({ isOpen, onToggle, chats = [], onNewChat, onChatSelect, onChatDelete, onChatRename, onSearchResultSelect, onImportChat }: SidebarProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [isAllChatsExpanded, setIsAllChatsExpanded] = useState(true);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingTitle, setEditingTitle] = useState('');
+  const [exportMenuId, setExportMenuId] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   // Group chats by date
   const groupChatsByDate = (chats: Chat[]) => {
@@ -89,7 +96,19 @@ export function Sidebar({ isOpen, onToggle, chats = [], onNewChat, onChatSelect,
     chat.title.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
-  const groupedChats = groupChatsByDate(filteredChats);
+  // Nest forks under their parent (forks whose parent is filtered out show at top level)
+  const visibleChatIds = new Set(filteredChats.map(chat => chat.id));
+  const forksByParent = new Map<string, Chat[]>();
+  filteredChats.forEach(chat => {
+    if (chat.parentId && visibleChatIds.has(chat.parentId)) {
+      const forks = forksByParent.get(chat.parentId) || [];
+      forks.push(chat);
+      forksByParent.set(chat.parentId, forks);
+    }
+  });
+  const rootChats = filteredChats.filter(chat => !chat.parentId || !visibleChatIds.has(chat.parentId));
+
+  const groupedChats = groupChatsByDate(rootChats);
 
   // Focus input when editing starts
   useEffect(() => {
@@ -136,14 +155,48 @@ export function Sidebar({ isOpen, onToggle, chats = [], onNewChat, onChatSelect,
     setEditingTitle('');
   };
 
+  // Close export menu on outside click
+  useEffect(() => {
+    if (!exportMenuId) return;
+
+    const handleClickOutside = () => setExportMenuId(null);
+    document.addEventListener('click', handleClickOutside);
+    return () => document.removeEventListener('click', handleClickOutside);
+  }, [exportMenuId]);
+
+  const handleExportClick = (chatId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setExportMenuId(exportMenuId === chatId ? null : chatId);
+  };
+
+  const handleExport = (chatId: string, format: 'md' | 'html' | 'json') => {
+    // Server responds with Content-Disposition: attachment, so this downloads without navigating
+    const link = document.createElement('a');
+    link.href = withAccessToken(`/api/sessions/${chatId}/export?format=${format}`);
+    link.download = '';
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setExportMenuId(null);
+  };
+
   const handleDeleteClick = (chatId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     onChatDelete?.(chatId);
   };
 
+  const handleImportFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImportChat?.(file);
+    }
+    // Reset so selecting the same file again still triggers onChange
+    e.target.value = '';
+  };
+
   const handleOpenChatFolder = async () => {
     try {
-      const response = await fetch('/api/open-chat-folder', {
+      const response = await apiFetch('/api/open-chat-folder', {
         method: 'POST',
       });
 
@@ -165,6 +218,229 @@ export function Sidebar({ isOpen, onToggle, chats = [], onNewChat, onChatSelect,
     }
   };
 
+  // Render a chat item followed by its forks (recursively indented)
+  const renderChat = (chat: Chat, depth: number): React.ReactNode => (
+    <React.Fragment key={chat.id}>
+      <div className="sidebar-chat-item-wrapper group" style={{ position: 'relative', paddingLeft: depth > 0 ? `${depth * 0.75}rem` : undefined }}>
+        {editingId === chat.id ? (
+          <div style={{ padding: '0.5rem' }}>
+            <input
+              ref={inputRef}
+              type="text"
+              value={editingTitle}
+              maxLength={100}
+              onChange={(e) => {
+                setEditingTitle(e.target.value);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  handleRenameSubmit(chat.id);
+                } else if (e.key === 'Escape') {
+                  handleRenameCancel();
+                }
+              }}
+              onBlur={() => handleRenameSubmit(chat.id)}
+              placeholder="Chat title"
+              style={{
+                width: '100%',
+                padding: '0.5rem',
+                background: 'rgba(255, 255, 255, 0.1)',
+                border: '1px solid rgba(255, 255, 255, 0.2)',
+                borderRadius: '0.375rem',
+                color: 'rgb(var(--text-primary))',
+                fontSize: '0.875rem',
+              }}
+            />
+          </div>
+        ) : (
+          <>
+            <button
+              className={`sidebar-chat-item ${chat.isActive ? 'sidebar-chat-item-active' : ''}`}
+              onClick={() => onChatSelect?.(chat.id)}
+            >
+              <div className="sidebar-chat-title">
+                {depth > 0 && (
+                  <GitBranch size={12} style={{ display: 'inline', marginRight: '0.375rem', verticalAlign: '-1px', opacity: 0.6 }} />
+                )}
+                {chat.title}
+                {chat.isLoading && (
+                  <span style={{
+                    marginLeft: '0.5rem',
+                    display: 'inline-flex',
+                    gap: '2px',
+                    alignItems: 'center',
+                  }}>
+                    <span style={{
+                      width: '3px',
+                      height: '3px',
+                      backgroundColor: 'rgb(var(--text-secondary))',
+                      borderRadius: '50%',
+                      animation: 'pulse 1.4s ease-in-out infinite',
+                      animationDelay: '0s',
+                      opacity: 0.6,
+                    }}></span>
+                    <span style={{
+                      width: '3px',
+                      height: '3px',
+                      backgroundColor: 'rgb(var(--text-secondary))',
+                      borderRadius: '50%',
+                      animation: 'pulse 1.4s ease-in-out infinite',
+                      animationDelay: '0.2s',
+                      opacity: 0.6,
+                    }}></span>
+                    <span style={{
+                      width: '3px',
+                      height: '3px',
+                      backgroundColor: 'rgb(var(--text-secondary))',
+                      borderRadius: '50%',
+                      animation: 'pulse 1.4s ease-in-out infinite',
+                      animationDelay: '0.4s',
+                      opacity: 0.6,
+                    }}></span>
+                  </span>
+                )}
+              </div>
+            </button>
+            <div className={`sidebar-chat-menu ${chat.isActive || exportMenuId === chat.id ? '' : 'sidebar-chat-menu-hidden'}`} style={{ display: 'flex', gap: '0.25rem', alignItems: 'center' }}>
+              <button
+                className="sidebar-chat-menu-btn"
+                aria-label="Rename Chat"
+                onClick={(e) => handleRenameClick(chat, e)}
+                style={{
+                  padding: '0.25rem',
+                  background: chat.isActive ? 'rgb(var(--bg-tertiary))' : 'rgb(var(--bg-secondary))',
+                  border: 'none',
+                  borderRadius: '0.25rem',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  color: 'rgb(var(--text-secondary))',
+                  transition: 'all 0.15s',
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.background = 'rgba(255, 255, 255, 0.1)';
+                  e.currentTarget.style.color = 'rgb(var(--text-primary))';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.background = chat.isActive ? 'rgb(var(--bg-tertiary))' : 'rgb(var(--bg-secondary))';
+                  e.currentTarget.style.color = 'rgb(var(--text-secondary))';
+                }}
+              >
+                <Edit size={14} />
+              </button>
+              <div style={{ position: 'relative' }}>
+                <button
+                  className="sidebar-chat-menu-btn"
+                  aria-label="Export Chat"
+                  onClick={(e) => handleExportClick(chat.id, e)}
+                  style={{
+                    padding: '0.25rem',
+                    background: chat.isActive ? 'rgb(var(--bg-tertiary))' : 'rgb(var(--bg-secondary))',
+                    border: 'none',
+                    borderRadius: '0.25rem',
+                    cursor: 'pointer',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    color: 'rgb(var(--text-secondary))',
+                    transition: 'all 0.15s',
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.background = 'rgba(255, 255, 255, 0.1)';
+                    e.currentTarget.style.color = 'rgb(var(--text-primary))';
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.background = chat.isActive ? 'rgb(var(--bg-tertiary))' : 'rgb(var(--bg-secondary))';
+                    e.currentTarget.style.color = 'rgb(var(--text-secondary))';
+                  }}
+                >
+                  <Download size={14} />
+                </button>
+                {exportMenuId === chat.id && (
+                  <div
+                    onClick={(e) => e.stopPropagation()}
+                    style={{
+                      position: 'absolute',
+                      top: 'calc(100% + 0.25rem)',
+                      right: 0,
+                      zIndex: 50,
+                      minWidth: '8.5rem',
+                      padding: '0.25rem',
+                      background: 'rgb(var(--bg-input))',
+                      border: '1px solid rgba(255, 255, 255, 0.1)',
+                      borderRadius: '0.5rem',
+                      boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.3)',
+                    }}
+                  >
+                    {([
+                      { format: 'md', label: 'Markdown' },
+                      { format: 'html', label: 'HTML' },
+                      { format: 'json', label: 'JSON' },
+                    ] as const).map(({ format, label }) => (
+                      <button
+                        key={format}
+                        onClick={() => handleExport(chat.id, format)}
+                        style={{
+                          display: 'block',
+                          width: '100%',
+                          padding: '0.375rem 0.625rem',
+                          background: 'transparent',
+                          border: 'none',
+                          borderRadius: '0.375rem',
+                          color: 'rgb(var(--text-primary))',
+                          fontSize: '0.8125rem',
+                          textAlign: 'left',
+                          cursor: 'pointer',
+                        }}
+                        onMouseEnter={(e) => {
+                          e.currentTarget.style.background = 'rgba(255, 255, 255, 0.1)';
+                        }}
+                        onMouseLeave={(e) => {
+                          e.currentTarget.style.background = 'transparent';
+                        }}
+                      >
+                        Export as {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <button
+                className="sidebar-chat-menu-btn"
+                aria-label="Delete Chat"
+                onClick={(e) => handleDeleteClick(chat.id, e)}
+                style={{
+                  padding: '0.25rem',
+                  background: chat.isActive ? 'rgb(var(--bg-tertiary))' : 'rgb(var(--bg-secondary))',
+                  border: 'none',
+                  borderRadius: '0.25rem',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  color: 'rgb(var(--text-secondary))',
+                  transition: 'all 0.15s',
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.background = 'rgba(239, 68, 68, 0.15)';
+                  e.currentTarget.style.color = '#ef4444';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.background = chat.isActive ? 'rgb(var(--bg-tertiary))' : 'rgb(var(--bg-secondary))';
+                  e.currentTarget.style.color = 'rgb(var(--text-secondary))';
+                }}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+      {(forksByParent.get(chat.id) || []).map(fork => renderChat(fork, depth + 1))}
+    </React.Fragment>
+  );
+
   return (
     <div className={`sidebar ${isOpen ? 'sidebar-open' : 'sidebar-closed'}`}>
       <div className="sidebar-container">
@@ -190,6 +466,19 @@ export function Sidebar({ isOpen, onToggle, chats = [], onNewChat, onChatSelect,
           <span>Open Chat Folder</span>
         </button>
 
+        {/* Import Chat Button */}
+        <button className="sidebar-new-chat-btn" onClick={() => importInputRef.current?.click()} style={{ marginTop: '0.5rem' }}>
+          <Upload size={20} opacity={0.8} />
+          <span>Import Chat</span>
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImportFileChange}
+          style={{ display: 'none' }}
+        />
+
         {/* Search */}
         <div className="sidebar-search-container">
           <div className="sidebar-search">
@@ -198,7 +487,7 @@ export function Sidebar({ isOpen, onToggle, chats = [], onNewChat, onChatSelect,
             </div>
             <input
               className="sidebar-search-input"
-              placeholder="Search"
+              placeholder="Search chats and messages"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
             />
@@ -207,6 +496,9 @@ export function Sidebar({ isOpen, onToggle, chats = [], onNewChat, onChatSelect,
 
         {/* Chat List */}
         <div className="sidebar-chat-list">
+          {/* Message search results */}
+          <SearchResults query={searchQuery} onResultSelect={onSearchResultSelect} />
+
           {/* All Chats Dropdown */}
           <div className="sidebar-section-header">
             <button
@@ -237,144 +529,7 @@ export function Sidebar({ isOpen, onToggle, chats = [], onNewChat, onChatSelect,
                 return (
                   <div key={groupName} className="sidebar-chat-group">
                     <div className="sidebar-group-label">{groupName}</div>
-                    {groupChats.map((chat) => (
-                      <div key={chat.id} className="sidebar-chat-item-wrapper group" style={{ position: 'relative' }}>
-                        {editingId === chat.id ? (
-                          <div style={{ padding: '0.5rem' }}>
-                            <input
-                              ref={inputRef}
-                              type="text"
-                              value={editingTitle}
-                              maxLength={100}
-                              onChange={(e) => {
-                                setEditingTitle(e.target.value);
-                              }}
-                              onKeyDown={(e) => {
-                                if (e.key === 'Enter') {
-                                  handleRenameSubmit(chat.id);
-                                } else if (e.key === 'Escape') {
-                                  handleRenameCancel();
-                                }
-                              }}
-                              onBlur={() => handleRenameSubmit(chat.id)}
-                              placeholder="Chat title"
-                              style={{
-                                width: '100%',
-                                padding: '0.5rem',
-                                background: 'rgba(255, 255, 255, 0.1)',
-                                border: '1px solid rgba(255, 255, 255, 0.2)',
-                                borderRadius: '0.375rem',
-                                color: 'rgb(var(--text-primary))',
-                                fontSize: '0.875rem',
-                              }}
-                            />
-                          </div>
-                        ) : (
-                          <>
-                            <button
-                              className={`sidebar-chat-item ${chat.isActive ? 'sidebar-chat-item-active' : ''}`}
-                              onClick={() => onChatSelect?.(chat.id)}
-                            >
-                              <div className="sidebar-chat-title">
-                                {chat.title}
-                                {chat.isLoading && (
-                                  <span style={{
-                                    marginLeft: '0.5rem',
-                                    display: 'inline-flex',
-                                    gap: '2px',
-                                    alignItems: 'center',
-                                  }}>
-                                    <span style={{
-                                      width: '3px',
-                                      height: '3px',
-                                      backgroundColor: 'rgb(var(--text-secondary))',
-                                      borderRadius: '50%',
-                                      animation: 'pulse 1.4s ease-in-out infinite',
-                                      animationDelay: '0s',
-                                      opacity: 0.6,
-                                    }}></span>
-                                    <span style={{
-                                      width: '3px',
-                                      height: '3px',
-                                      backgroundColor: 'rgb(var(--text-secondary))',
-                                      borderRadius: '50%',
-                                      animation: 'pulse 1.4s ease-in-out infinite',
-                                      animationDelay: '0.2s',
-                                      opacity: 0.6,
-                                    }}></span>
-                                    <span style={{
-                                      width: '3px',
-                                      height: '3px',
-                                      backgroundColor: 'rgb(var(--text-secondary))',
-                                      borderRadius: '50%',
-                                      animation: 'pulse 1.4s ease-in-out infinite',
-                                      animationDelay: '0.4s',
-                                      opacity: 0.6,
-                                    }}></span>
-                                  </span>
-                                )}
-                              </div>
-                            </button>
-                            <div className={`sidebar-chat-menu ${chat.isActive ? '' : 'sidebar-chat-menu-hidden'}`} style={{ display: 'flex', gap: '0.25rem', alignItems: 'center' }}>
-                              <button
-                                className="sidebar-chat-menu-btn"
-                                aria-label="Rename Chat"
-                                onClick={(e) => handleRenameClick(chat, e)}
-                                style={{
-                                  padding: '0.25rem',
-                                  background: chat.isActive ? 'rgb(var(--bg-tertiary))' : 'rgb(var(--bg-secondary))',
-                                  border: 'none',
-                                  borderRadius: '0.25rem',
-                                  cursor: 'pointer',
-                                  display: 'flex',
-                                  alignItems: 'center',
-                                  justifyContent: 'center',
-                                  color: 'rgb(var(--text-secondary))',
-                                  transition: 'all 0.15s',
-                                }}
-                                onMouseEnter={(e) => {
-                                  e.currentTarget.style.background = 'rgba(255, 255, 255, 0.1)';
-                                  e.currentTarget.style.color = 'rgb(var(--text-primary))';
-                                }}
-                                onMouseLeave={(e) => {
-                                  e.currentTarget.style.background = chat.isActive ? 'rgb(var(--bg-tertiary))' : 'rgb(var(--bg-secondary))';
-                                  e.currentTarget.style.color = 'rgb(var(--text-secondary))';
-                                }}
-                              >
-                                <Edit size={14} />
-                              </button>
-                              <button
-                                className="sidebar-chat-menu-btn"
-                                aria-label="Delete Chat"
-                                onClick={(e) => handleDeleteClick(chat.id, e)}
-                                style={{
-                                  padding: '0.25rem',
-                                  background: chat.isActive ? 'rgb(var(--bg-tertiary))' : 'rgb(var(--bg-secondary))',
-                                  border: 'none',
-                                  borderRadius: '0.25rem',
-                                  cursor: 'pointer',
-                                  display: 'flex',
-                                  alignItems: 'center',
-                                  justifyContent: 'center',
-                                  color: 'rgb(var(--text-secondary))',
-                                  transition: 'all 0.15s',
-                                }}
-                                onMouseEnter={(e) => {
-                                  e.currentTarget.style.background = 'rgba(239, 68, 68, 0.15)';
-                                  e.currentTarget.style.color = '#ef4444';
-                                }}
-                                onMouseLeave={(e) => {
-                                  e.currentTarget.style.background = chat.isActive ? 'rgb(var(--bg-tertiary))' : 'rgb(var(--bg-secondary))';
-                                  e.currentTarget.style.color = 'rgb(var(--text-secondary))';
-                                }}
-                              >
-                                <Trash2 size={14} />
-                              </button>
-                            </div>
-                          </>
-                        )}
-                      </div>
-                    ))}
+                    {groupChats.map((chat) => renderChat(chat, 0))}
                   </div>
                 );
               })}
@@ -0,0 +1,59 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Budget Configuration
+ *
+ * Shapes of the spending limits in budgets.json and of the budget_warning /
+ * budget_exceeded events, shared by the client and server.
+ */
+
+export interface BudgetLimit {
+  maxCostUsd?: number;
+  maxTokens?: number; // Input + output + cache tokens
+}
+
+export type BudgetScope = 'session' | 'daily' | 'provider';
+
+export interface BudgetBreach {
+  scope: BudgetScope;
+  provider?: string; // Set for provider budgets
+  metric: 'cost' | 'tokens';
+  used: number;
+  limit: number;
+}
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  session: 'Chat',
+  daily: 'Daily',
+  provider: 'Daily provider',
+};
+
+function formatAmount(metric: BudgetBreach['metric'], value: number): string {
+  return metric === 'cost' ? `$${value.toFixed(2)}` : `${Math.round(value).toLocaleString()} tokens`;
+}
+
+/**
+ * Human-readable description, e.g. "Daily budget: $21.40 of $20.00"
+ */
+export function formatBudgetBreach(breach: BudgetBreach): string {
+  const scope = breach.scope === 'provider' ? `${SCOPE_LABELS.provider} (${breach.provider})` : SCOPE_LABELS[breach.scope];
+  return `${scope} budget: ${formatAmount(breach.metric, breach.used)} of ${formatAmount(breach.metric, breach.limit)}`;
+}
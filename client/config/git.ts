@@ -0,0 +1,63 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Git Configuration
+ *
+ * Shapes of a session working directory's git status and of the per-session
+ * git settings, shared by the client and server.
+ */
+
+export interface GitFileStatus {
+  path: string;
+  originalPath?: string; // Set for renames and copies
+  index: string; // Porcelain status letter for the staged side ('.' when unchanged, '?' untracked)
+  workTree: string; // Porcelain status letter for the working tree side
+}
+
+export interface GitStatus {
+  branch: string | null; // null when HEAD is detached
+  commit: string | null; // null before the first commit
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  files: GitFileStatus[];
+}
+
+/**
+ * Per-session git automation, both off by default
+ * - autoBranch: work on agent/<session-title> instead of the checked-out branch
+ * - autoCommit: commit the files a turn changed once it completes successfully,
+ *   unless the tree already had uncommitted changes when the turn started
+ * - branch: the branch auto-branch created, kept when the chat is renamed
+ */
+export interface SessionGitSettings {
+  autoBranch: boolean;
+  autoCommit: boolean;
+  branch: string | null;
+}
+
+export const DEFAULT_GIT_SETTINGS: SessionGitSettings = {
+  autoBranch: false,
+  autoCommit: false,
+  branch: null,
+};
+
+export const GIT_BRANCH_PREFIX = 'agent/';
@@ -21,11 +21,69 @@
 /**
  * Model Configuration
  *
- * Centralized definitions for all available AI models.
- * Add new models here to make them available in the UI.
+ * Built-in providers and models. Additional providers and models can be
+ * declared in providers.json in the app data directory; the merged registry
+ * is served by GET /api/models.
  */
 
-export type ProviderType = 'anthropic' | 'z-ai' | 'moonshot';
+export type BuiltInProviderType = 'anthropic' | 'z-ai' | 'moonshot';
+
+// Custom providers from providers.json use their own IDs
+export type ProviderType = BuiltInProviderType | (string & {});
+
+export interface ProviderDefinition {
+  id: ProviderType;
+  name: string;
+  baseUrl?: string; // Omit for the default Anthropic endpoint
+  apiKeyEnv: string; // Environment variable holding the API key
+  authType: 'api-key' | 'bearer'; // x-api-key header or Authorization: Bearer
+  supportsThinking: boolean; // Accepts maxThinkingTokens (extended thinking)
+  supportsContextUsage: boolean; // Reports usage that maps onto a context window
+  keyInstructions?: string; // Shown when the API key is missing
+}
+
+export const BUILT_IN_PROVIDERS: Record<BuiltInProviderType, ProviderDefinition> = {
+  'anthropic': {
+    id: 'anthropic',
+    name: 'Anthropic',
+    apiKeyEnv: 'ANTHROPIC_API_KEY',
+    authType: 'api-key',
+    supportsThinking: true,
+    supportsContextUsage: true,
+    keyInstructions: 'Get your API key from https://console.anthropic.com/ or run "bun run login" to use OAuth',
+  },
+  'z-ai': {
+    id: 'z-ai',
+    name: 'Z.AI',
+    baseUrl: 'https://api.z.ai/api/anthropic',
+    apiKeyEnv: 'ZAI_API_KEY',
+    authType: 'bearer',
+    // Z.AI's Anthropic-compatible API doesn't support maxThinkingTokens parameter
+    supportsThinking: false,
+    supportsContextUsage: true,
+    keyInstructions: 'Get your API key from https://z.ai',
+  },
+  'moonshot': {
+    id: 'moonshot',
+    name: 'Moonshot AI',
+    baseUrl: 'https://api.moonshot.ai/anthropic/',
+    apiKeyEnv: 'MOONSHOT_API_KEY',
+    authType: 'bearer',
+    supportsThinking: true,
+    supportsContextUsage: false,
+    keyInstructions: 'Get your API key from https://platform.moonshot.ai/',
+  },
+};
+
+/**
+ * Model pricing in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheWrite: number; // Prompt cache creation
+  cacheRead: number; // Prompt cache hits
+}
 
 export interface ModelConfig {
   id: string;
@@ -33,12 +91,13 @@ export interface ModelConfig {
   description: string;
   apiModelId: string;
   provider: ProviderType;
+  pricing?: ModelPricing; // Omit when unknown; usage is still tracked but not costed
 }
 
 /**
- * Available Models
+ * Built-in Models
  *
- * Add new models to this array to make them available in the model selector.
+ * Add new models to this array (or to providers.json) to make them available in the model selector.
  */
 export const AVAILABLE_MODELS: ModelConfig[] = [
   {
@@ -47,6 +106,7 @@ export const AVAILABLE_MODELS: ModelConfig[] = [
     description: 'Anthropic\'s most powerful model for the most complex tasks',
     apiModelId: 'claude-opus-4-5-20251101',
     provider: 'anthropic',
+    pricing: { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
   },
   {
     id: 'sonnet',
@@ -54,6 +114,7 @@ export const AVAILABLE_MODELS: ModelConfig[] = [
     description: 'Balanced intelligence and speed for complex agents and coding',
     apiModelId: 'claude-sonnet-4-5-20250929',
     provider: 'anthropic',
+    pricing: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
   },
   {
     id: 'haiku',
@@ -61,6 +122,7 @@ export const AVAILABLE_MODELS: ModelConfig[] = [
     description: 'Fast and efficient model for quick tasks and rapid responses',
     apiModelId: 'claude-haiku-4-5-20251001',
     provider: 'anthropic',
+    pricing: { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
   },
   {
     id: 'glm-4.6',
@@ -68,6 +130,7 @@ export const AVAILABLE_MODELS: ModelConfig[] = [
     description: 'Z.AI\'s flagship model for powerful reasoning and coding',
     apiModelId: 'glm-4.6',
     provider: 'z-ai',
+    pricing: { input: 0.6, output: 2.2, cacheWrite: 0.6, cacheRead: 0.11 },
   },
   {
     id: 'kimi-k2-thinking',
@@ -75,6 +138,7 @@ export const AVAILABLE_MODELS: ModelConfig[] = [
     description: 'Extended thinking model for complex reasoning tasks',
     apiModelId: 'kimi-k2-thinking',
     provider: 'moonshot',
+    pricing: { input: 0.6, output: 2.5, cacheWrite: 0.6, cacheRead: 0.15 },
   },
   {
     id: 'kimi-k2-thinking-turbo',
@@ -82,9 +146,29 @@ export const AVAILABLE_MODELS: ModelConfig[] = [
     description: 'Fast thinking model for rapid complex reasoning',
     apiModelId: 'kimi-k2-thinking-turbo',
     provider: 'moonshot',
+    pricing: { input: 1.15, output: 8, cacheWrite: 1.15, cacheRead: 0.15 },
   },
 ];
 
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
+/**
+ * Estimate the cost of a turn in USD from the model's pricing
+ */
+export function calculateCost(usage: TokenUsage, pricing: ModelPricing): number {
+  return (
+    usage.inputTokens * pricing.input +
+    usage.outputTokens * pricing.output +
+    usage.cacheCreationInputTokens * pricing.cacheWrite +
+    usage.cacheReadInputTokens * pricing.cacheRead
+  ) / 1_000_000;
+}
+
 /**
  * Get model configuration by ID
  */
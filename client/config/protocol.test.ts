@@ -0,0 +1,53 @@
+import { describe, it, expect } from "bun:test";
+import { parseClientMessage, protocolMismatchMessage, serverMessageSchema, PROTOCOL_VERSION } from "./protocol";
+
+describe("parseClientMessage", () => {
+  it("should accept well-formed messages", () => {
+    const result = parseClientMessage(JSON.stringify({
+      type: "chat",
+      sessionId: "s1",
+      content: [{ type: "text", text: "hi" }, { type: "document", name: "a.txt", data: "data:text/plain;base64,aGk=" }],
+      model: "sonnet",
+    }));
+
+    expect(result.success).toBe(true);
+    if (result.success && result.message.type === "chat") {
+      expect(result.message.content).toHaveLength(2);
+    }
+  });
+
+  it("should name the message type and field that failed validation", () => {
+    expect(parseClientMessage(JSON.stringify({ type: "chat", content: "hi" }))).toEqual({
+      success: false,
+      error: 'Invalid "chat" message: sessionId: Required',
+    });
+    expect(parseClientMessage(JSON.stringify({ type: "resume_stream", sessionId: "s1", lastSeq: -1 }))).toEqual({
+      success: false,
+      error: 'Invalid "resume_stream" message: lastSeq: Number must be greater than or equal to 0',
+    });
+    expect(parseClientMessage(JSON.stringify({ type: "set_permission_mode", sessionId: "s1", mode: "yolo" })).success).toBe(false);
+  });
+
+  it("should reject unknown types and malformed JSON", () => {
+    expect(parseClientMessage(JSON.stringify({ type: "launch_missiles" }))).toEqual({
+      success: false,
+      error: 'Unknown message type "launch_missiles"',
+    });
+    expect(parseClientMessage(JSON.stringify({ sessionId: "s1" }))).toEqual({ success: false, error: "Message is missing a type" });
+    expect(parseClientMessage("{not json")).toEqual({ success: false, error: "Message is not valid JSON" });
+  });
+});
+
+describe("protocol version", () => {
+  it("should tell older clients to reload and newer clients to upgrade the server", () => {
+    expect(protocolMismatchMessage(undefined)).toContain("Reload the page");
+    expect(protocolMismatchMessage(PROTOCOL_VERSION - 1)).toContain("Reload the page");
+    expect(protocolMismatchMessage(PROTOCOL_VERSION + 1)).toContain("server is older");
+  });
+
+  it("should describe server events including their replay seq", () => {
+    const event = serverMessageSchema.parse({ type: "result", success: true, sessionId: "s1", seq: 7 });
+    expect(event).toEqual({ type: "result", success: true, sessionId: "s1", seq: 7 });
+    expect(serverMessageSchema.safeParse({ type: "error", error: "old field name" }).success).toBe(false);
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * WebSocket Protocol
+ *
+ * Every message exchanged over /ws, shared by the client and server.
+ * Inbound (client → server) messages are validated by the server; outbound
+ * (server → client) schemas exist to derive the discriminated union the client
+ * handles and to type-check what the server sends.
+ *
+ * Bump PROTOCOL_VERSION on any incompatible change. Clients open every
+ * connection with a hello; a mismatched client is told to reload.
+ */
+
+import { z } from 'zod';
+import type { BudgetBreach } from './budgets';
+
+export const PROTOCOL_VERSION = 2;
+
+// ============================================================================
+// Client → server
+// ============================================================================
+
+const chatContentBlockSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('text'), text: z.string() }),
+  z.object({
+    type: z.literal('image'),
+    source: z.object({ type: z.literal('base64'), media_type: z.string(), data: z.string() }),
+  }),
+  z.object({ type: z.literal('document'), name: z.string(), data: z.string() }), // data is a base64 data URL
+]);
+
+export type ChatContentBlock = z.infer<typeof chatContentBlockSchema>;
+
+export const PERMISSION_MODES = ['default', 'acceptEdits', 'bypassPermissions', 'plan'] as const;
+export type PermissionMode = typeof PERMISSION_MODES[number];
+
+export const TOOL_PERMISSION_DECISIONS = ['allow_once', 'allow_always', 'deny'] as const;
+export type ToolPermissionDecision = typeof TOOL_PERMISSION_DECISIONS[number];
+
+const sessionId = z.string().min(1);
+
+export const clientMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('hello'), protocolVersion: z.number().int() }),
+  z.object({
+    type: z.literal('chat'),
+    sessionId,
+    content: z.union([z.string().min(1), z.array(chatContentBlockSchema).min(1)]),
+    model: z.string().optional(),
+    timezone: z.string().optional(),
+    clientMessageId: z.string().optional(), // The sender's own ID for the message, echoed in user_message
+  }),
+  z.object({
+    type: z.literal('approve_plan'),
+    sessionId,
+    mode: z.enum(PERMISSION_MODES).exclude(['plan']).optional(), // Mode to carry out the plan in (default bypassPermissions)
+  }),
+  z.object({ type: z.literal('set_permission_mode'), sessionId, mode: z.enum(PERMISSION_MODES) }),
+  z.object({ type: z.literal('kill_background_process'), bashId: z.string().min(1) }),
+  z.object({ type: z.literal('stop_generation'), sessionId }),
+  z.object({ type: z.literal('answer_question'), sessionId, toolId: z.string().min(1), answers: z.record(z.string()) }),
+  z.object({ type: z.literal('cancel_question'), sessionId, toolId: z.string().min(1) }),
+  z.object({
+    type: z.literal('respond_tool_permission'),
+    sessionId,
+    requestId: z.string().min(1),
+    decision: z.enum(TOOL_PERMISSION_DECISIONS),
+  }),
+  z.object({ type: z.literal('resume_stream'), sessionId, lastSeq: z.number().int().min(0) }),
+  z.object({ type: z.literal('subscribe'), sessionId }),
+  z.object({ type: z.literal('unsubscribe'), sessionId }),
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type ClientMessageOf<T extends ClientMessage['type']> = Extract<ClientMessage, { type: T }>;
+
+export type ParsedClientMessage =
+  | { success: true; message: ClientMessage }
+  | { success: false; error: string };
+
+/**
+ * Parse and validate a raw inbound frame
+ */
+export function parseClientMessage(raw: string): ParsedClientMessage {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { success: false, error: 'Message is not valid JSON' };
+  }
+
+  return validateClientMessage(data);
+}
+
+/**
+ * Validate an already-decoded inbound message
+ * Errors name the message type and the first offending field, e.g.
+ * 'Invalid "chat" message: sessionId: Required'
+ */
+export function validateClientMessage(data: unknown): ParsedClientMessage {
+  const result = clientMessageSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, message: result.data };
+  }
+
+  const type = typeof data === 'object' && data !== null && 'type' in data ? String(data.type) : undefined;
+  const issue = result.error.issues[0];
+  if (issue.code === 'invalid_union_discriminator') {
+    return { success: false, error: type ? `Unknown message type "${type}"` : 'Message is missing a type' };
+  }
+
+  const location = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+  return { success: false, error: `Invalid "${type}" message: ${location}${issue.message}` };
+}
+
+// ============================================================================
+// Server → client
+// ============================================================================
+
+/**
+ * Every outbound event may be scoped to a session; streamed events also carry
+ * a per-session seq used to resume after a reconnect
+ */
+function serverEvent<T extends string, S extends z.ZodRawShape>(type: T, shape: S) {
+  return z.object({
+    type: z.literal(type),
+    sessionId: z.string().optional(),
+    seq: z.number().int().optional(),
+    ...shape,
+  });
+}
+
+const slashCommandSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  argumentHint: z.string(),
+});
+
+export type SlashCommand = z.infer<typeof slashCommandSchema>;
+
+const questionSchema = z.object({
+  question: z.string(),
+  header: z.string(),
+  options: z.array(z.object({ label: z.string(), description: z.string() })),
+  multiSelect: z.boolean(),
+});
+
+const budgetBreachesSchema = z.array(z.custom<BudgetBreach>());
+
+const toolResultPreviewSchema = z.object({
+  content: z.string(), // First TOOL_RESULT_PREVIEW_CHARS characters
+  isError: z.boolean(),
+  size: z.number(), // Full length; fetch the rest from /api/tool-results/:toolUseId when truncated
+  truncated: z.boolean(),
+});
+
+export type ToolResultPreview = z.infer<typeof toolResultPreviewSchema>;
+
+export const serverMessageSchema = z.discriminatedUnion('type', [
+  // Connection
+  serverEvent('welcome', { protocolVersion: z.number().int() }),
+  serverEvent('error', {
+    message: z.string(),
+    errorType: z.string().optional(), // API error type, or timeout / invalid_message / protocol_mismatch
+    requestId: z.string().optional(),
+  }),
+  serverEvent('keepalive', { elapsedSeconds: z.number() }),
+  serverEvent('stream_resumed', {
+    replayed: z.number().int(),
+    complete: z.boolean(), // false = some events couldn't be replayed; reload messages from the database
+    active: z.boolean(),
+  }),
+  serverEvent('subscribers_changed', {
+    count: z.number().int(), // Clients (tabs/devices) currently watching the session, including this one
+  }),
+
+  // Conversation
+  serverEvent('user_message', { // Sent to every client watching the session, the sender included
+    message: z.object({ id: z.string(), content: z.string(), timestamp: z.string() }),
+    clientMessageId: z.string().optional(),
+  }),
+  serverEvent('assistant_message', { content: z.string() }),
+  serverEvent('thinking_start', {}),
+  serverEvent('thinking_delta', { content: z.string() }),
+  serverEvent('tool_use', { toolId: z.string(), toolName: z.string(), toolInput: z.record(z.unknown()) }),
+  serverEvent('tool_result', { toolUseId: z.string(), result: toolResultPreviewSchema }),
+  serverEvent('token_update', { outputTokens: z.number() }),
+  serverEvent('context_usage', {
+    inputTokens: z.number(),
+    outputTokens: z.number(),
+    contextWindow: z.number(),
+    contextPercentage: z.number(),
+  }),
+  serverEvent('result', { success: z.boolean() }),
+  serverEvent('generation_stopped', {}),
+  serverEvent('timeout_warning', { message: z.string(), elapsedSeconds: z.number() }),
+  serverEvent('retry_attempt', {
+    attempt: z.number().int(),
+    maxAttempts: z.number().int(),
+    delayMs: z.number(),
+    errorType: z.string(),
+    message: z.string(),
+  }),
+  serverEvent('slash_commands_available', { commands: z.array(slashCommandSchema) }),
+
+  // Compaction
+  serverEvent('compact_loading', {}),
+  serverEvent('compact_start', { trigger: z.enum(['auto', 'manual']), preTokens: z.number() }),
+  serverEvent('compact_complete', { preTokens: z.number() }),
+
+  // Plan mode and questions
+  serverEvent('permission_mode_changed', { mode: z.enum(PERMISSION_MODES) }),
+  serverEvent('exit_plan_mode', { plan: z.string() }),
+  serverEvent('plan_approved_continue', { message: z.string() }),
+  serverEvent('ask_user_question', { toolId: z.string(), questions: z.array(questionSchema) }),
+  serverEvent('question_answered', { toolId: z.string() }),
+  serverEvent('question_cancelled', { toolId: z.string() }),
+
+  // Tool permissions (sessions not in bypassPermissions mode)
+  serverEvent('tool_permission_request', {
+    requestId: z.string(),
+    toolName: z.string(),
+    toolInput: z.record(z.unknown()),
+    rules: z.array(z.string()), // What "always allow" adds to the session, e.g. Bash(npm test:*)
+    directories: z.array(z.string()), // Directories outside the working directory "always allow" grants
+    reason: z.string().optional(),
+  }),
+  serverEvent('tool_permission_resolved', {
+    requestId: z.string(),
+    decision: z.enum(TOOL_PERMISSION_DECISIONS),
+    // The session's updated always-allow lists
+    allowedTools: z.array(z.string()).optional(),
+    allowedDirectories: z.array(z.string()).optional(),
+  }),
+  serverEvent('tool_rule_denied', {
+    toolId: z.string(),
+    toolName: z.string(),
+    ruleId: z.string(),
+    scope: z.enum(['global', 'session']),
+    reason: z.string(), // The message the model was given
+  }),
+
+  // Agents and commands
+  serverEvent('agent_queue_status', {
+    toolId: z.string(),
+    status: z.enum(['running', 'queued', 'completed']),
+    queueInfo: z.object({ running: z.number(), queued: z.number(), max: z.number() }),
+  }),
+  serverEvent('background_process_started', {
+    bashId: z.string(),
+    command: z.string(),
+    description: z.string().optional(),
+    startedAt: z.number(),
+  }),
+  serverEvent('background_process_killed', { bashId: z.string() }),
+  serverEvent('background_process_exited', { bashId: z.string(), exitCode: z.number() }),
+  serverEvent('long_running_command_started', {
+    bashId: z.string(),
+    command: z.string(),
+    commandType: z.enum(['install', 'build', 'test']),
+    description: z.string().optional(),
+    startedAt: z.number(),
+  }),
+  serverEvent('command_output_chunk', { bashId: z.string(), output: z.string() }),
+  serverEvent('long_running_command_completed', { bashId: z.string(), exitCode: z.number() }),
+  serverEvent('long_running_command_failed', { bashId: z.string(), error: z.string() }),
+
+  // Budgets
+  serverEvent('budget_warning', { breaches: budgetBreachesSchema, message: z.string() }),
+  serverEvent('budget_exceeded', { breaches: budgetBreachesSchema, message: z.string() }),
+
+  // Git automation (per-session auto-branch / auto-commit)
+  serverEvent('git_auto_action', {
+    action: z.enum(['branch', 'commit']),
+    branch: z.string().optional(), // Branch switched to (branch)
+    created: z.boolean().optional(), // The branch was new (branch)
+    commit: z.string().optional(), // Short hash (commit)
+    subject: z.string().optional(), // Commit subject (commit)
+    error: z.string().optional(), // Set when git refused; the turn itself is unaffected
+  }),
+]);
+
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type ServerMessageOf<T extends ServerMessage['type']> = Extract<ServerMessage, { type: T }>;
+
+/**
+ * Serialize an outbound event (typed so handlers can't drift from the schema)
+ */
+export function encodeServerMessage(message: ServerMessage): string {
+  return JSON.stringify(message);
+}
+
+/**
+ * Error a client gets when its protocol version doesn't match the server's
+ */
+export function protocolMismatchMessage(clientVersion: number | undefined): string {
+  return clientVersion === undefined || clientVersion < PROTOCOL_VERSION
+    ? 'This page is out of date with the server. Reload the page to upgrade.'
+    : 'The server is older than this page. Restart the server (or update it) and reload.';
+}
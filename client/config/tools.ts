@@ -0,0 +1,72 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tool Configuration
+ *
+ * Built-in SDK tools that can be switched off per session, and the shape of
+ * the per-session tool policy shared by the client and server.
+ */
+
+export interface BuiltInToolConfig {
+  name: string;
+  description: string;
+}
+
+export const BUILT_IN_TOOLS: BuiltInToolConfig[] = [
+  { name: 'Bash', description: 'Run shell commands' },
+  { name: 'BashOutput', description: 'Read output of background commands' },
+  { name: 'KillShell', description: 'Stop background commands' },
+  { name: 'Read', description: 'Read files' },
+  { name: 'Write', description: 'Create and overwrite files' },
+  { name: 'Edit', description: 'Edit files in place' },
+  { name: 'NotebookEdit', description: 'Edit Jupyter notebooks' },
+  { name: 'Glob', description: 'Find files by pattern' },
+  { name: 'Grep', description: 'Search file contents' },
+  { name: 'WebFetch', description: 'Fetch web pages' },
+  { name: 'WebSearch', description: 'Search the web' },
+  { name: 'Task', description: 'Delegate to sub-agents' },
+  { name: 'TodoWrite', description: 'Track a task list' },
+  { name: 'Skill', description: 'Use skills from .claude/skills' },
+];
+
+/**
+ * Per-session tool policy
+ * Stored as lists of what is switched off, so servers and tools added later
+ * are available to existing sessions by default.
+ * - disabledMcpServers: MCP servers (by config name) not started for the session
+ * - disallowedTools: built-in tool names and/or MCP tool IDs (mcp__server__tool)
+ * - allowedTools: permission rules the user chose to "always allow" when asked,
+ *   e.g. Edit or Bash(npm test:*); these run without asking in default mode
+ * - allowedDirectories: directories outside the working directory granted the same way
+ */
+export interface SessionToolPolicy {
+  disabledMcpServers: string[];
+  disallowedTools: string[];
+  allowedTools: string[];
+  allowedDirectories: string[];
+}
+
+export const DEFAULT_TOOL_POLICY: SessionToolPolicy = {
+  disabledMcpServers: [],
+  disallowedTools: [],
+  allowedTools: [],
+  allowedDirectories: [],
+};
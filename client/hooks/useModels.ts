@@ -0,0 +1,89 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { useState, useEffect } from 'react';
+import { AVAILABLE_MODELS, BUILT_IN_PROVIDERS, type ModelConfig, type ProviderDefinition } from '../config/models';
+import { apiFetch } from '../utils/apiFetch';
+
+export type ProviderFeatures = Pick<ProviderDefinition, 'id' | 'name' | 'supportsThinking' | 'supportsContextUsage'>;
+
+export interface ModelRegistry {
+  models: ModelConfig[];
+  providers: ProviderFeatures[];
+}
+
+// Use dynamic URL based on current window location (works on any port)
+const API_BASE = `${window.location.protocol}//${window.location.host}/api`;
+
+// Built-in registry, used until the server responds (or if it can't)
+const FALLBACK_REGISTRY: ModelRegistry = {
+  models: AVAILABLE_MODELS,
+  providers: Object.values(BUILT_IN_PROVIDERS),
+};
+
+// Shared across components so the registry is only fetched once per page load
+let registryRequest: Promise<ModelRegistry> | null = null;
+
+function fetchModelRegistry(): Promise<ModelRegistry> {
+  if (!registryRequest) {
+    registryRequest = apiFetch(`${API_BASE}/models`)
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.json() as Promise<ModelRegistry & { error?: string }>;
+      })
+      .then(data => {
+        if (data.error) console.warn('⚠️ Provider config error:', data.error);
+        return data.models.length > 0 ? { models: data.models, providers: data.providers } : FALLBACK_REGISTRY;
+      })
+      .catch(error => {
+        console.error('Failed to load models:', error);
+        registryRequest = null; // Retry on next mount
+        return FALLBACK_REGISTRY;
+      });
+  }
+  return registryRequest;
+}
+
+/**
+ * Models and provider features from the server's provider registry
+ * (built-ins plus providers.json)
+ */
+export function useModels() {
+  const [registry, setRegistry] = useState<ModelRegistry>(FALLBACK_REGISTRY);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchModelRegistry().then(result => {
+      if (!cancelled) setRegistry(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const getModel = (modelId: string) => registry.models.find(m => m.id === modelId);
+
+  const getProviderForModel = (modelId: string) => {
+    const model = getModel(modelId);
+    return model ? registry.providers.find(p => p.id === model.provider) : undefined;
+  };
+
+  return { ...registry, getModel, getProviderForModel };
+}
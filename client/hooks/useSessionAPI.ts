@@ -21,6 +21,9 @@
 import { useState, useCallback } from 'react';
 import { toast } from '../utils/toast';
 import { showError } from '../utils/errorMessages';
+import type { SessionToolPolicy } from '../config/tools';
+import type { SessionGitSettings } from '../config/git';
+import { apiFetch } from '../utils/apiFetch';
 
 export interface Session {
   id: string;
@@ -34,6 +37,10 @@ export interface Session {
   context_input_tokens?: number;
   context_window?: number;
   context_percentage?: number;
+  parent_session_id?: string | null;
+  forked_from_message_id?: string | null;
+  tool_policy?: SessionToolPolicy;
+  git_settings?: SessionGitSettings;
 }
 
 export interface SessionMessage {
@@ -59,7 +66,7 @@ export function useSessionAPI() {
     setError(null);
 
     try {
-      const response = await fetch(`${API_BASE}/sessions`);
+      const response = await apiFetch(`${API_BASE}/sessions`);
 
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
@@ -96,7 +103,7 @@ export function useSessionAPI() {
     setError(null);
 
     try {
-      const response = await fetch(`${API_BASE}/sessions/${sessionId}/messages`);
+      const response = await apiFetch(`${API_BASE}/sessions/${sessionId}/messages`);
 
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
@@ -122,7 +129,7 @@ export function useSessionAPI() {
     setError(null);
 
     try {
-      const response = await fetch(`${API_BASE}/sessions`, {
+      const response = await apiFetch(`${API_BASE}/sessions`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -154,7 +161,7 @@ export function useSessionAPI() {
     setError(null);
 
     try {
-      const response = await fetch(`${API_BASE}/sessions/${sessionId}`, {
+      const response = await apiFetch(`${API_BASE}/sessions/${sessionId}`, {
         method: 'DELETE',
       });
 
@@ -181,7 +188,7 @@ export function useSessionAPI() {
     setError(null);
 
     try {
-      const response = await fetch(`${API_BASE}/sessions/${sessionId}`, {
+      const response = await apiFetch(`${API_BASE}/sessions/${sessionId}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
@@ -215,7 +222,7 @@ export function useSessionAPI() {
     setError(null);
 
     try {
-      const response = await fetch(`${API_BASE}/sessions/${sessionId}/directory`, {
+      const response = await apiFetch(`${API_BASE}/sessions/${sessionId}/directory`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
@@ -246,7 +253,7 @@ export function useSessionAPI() {
     setError(null);
 
     try {
-      const response = await fetch(`${API_BASE}/validate-directory`, {
+      const response = await apiFetch(`${API_BASE}/validate-directory`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -281,7 +288,7 @@ export function useSessionAPI() {
     setError(null);
 
     try {
-      const response = await fetch(`${API_BASE}/sessions/${sessionId}/mode`, {
+      const response = await apiFetch(`${API_BASE}/sessions/${sessionId}/mode`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
@@ -305,6 +312,108 @@ export function useSessionAPI() {
     }
   }, []);
 
+  /**
+   * Update which MCP servers and tools a session may use
+   */
+  const updateToolPolicy = useCallback(async (
+    sessionId: string,
+    policy: SessionToolPolicy
+  ): Promise<Session | null> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`${API_BASE}/sessions/${sessionId}/tools`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(policy),
+      });
+
+      const result = await response.json() as { success: boolean; session?: Session; error?: string };
+
+      if (!response.ok || !result.success || !result.session) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return result.session;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Failed to update tools';
+      setError(errorMsg);
+      showError('UPDATE_TOOLS', errorMsg);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Fork a session from a message (copies history up to and including it)
+   */
+  const forkSession = useCallback(async (sessionId: string, messageId: string): Promise<Session | null> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`${API_BASE}/sessions/${sessionId}/fork`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ messageId }),
+      });
+
+      const result = await response.json() as { success: boolean; session?: Session; error?: string };
+
+      if (!response.ok || !result.success || !result.session) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return result.session;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Failed to fork session';
+      setError(errorMsg);
+      showError('FORK_CHAT', errorMsg);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Import a session from an exported JSON bundle
+   */
+  const importSession = useCallback(async (bundle: unknown): Promise<Session | null> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`${API_BASE}/sessions/import`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(bundle),
+      });
+
+      const result = await response.json() as { success: boolean; session?: Session; error?: string };
+
+      if (!response.ok || !result.success || !result.session) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return result.session;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Failed to import session';
+      setError(errorMsg);
+      showError('IMPORT_CHAT', errorMsg);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
   return {
     isLoading,
     error,
@@ -316,5 +425,8 @@ export function useSessionAPI() {
     updateWorkingDirectory,
     validateDirectory,
     updatePermissionMode,
+    updateToolPolicy,
+    forkSession,
+    importSession,
   };
 }
@@ -20,184 +20,10 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { showError } from '../utils/errorMessages';
+import { toast } from '../utils/toast';
+import { PROTOCOL_VERSION, type ClientMessage, type ServerMessage, type SlashCommand } from '../config/protocol';
 
-interface BaseWebSocketMessage {
-  type: string;
-  sessionId?: string;
-}
-
-interface AssistantMessageEvent extends BaseWebSocketMessage {
-  type: 'assistant_message';
-  content: string;
-}
-
-interface ToolUseEvent extends BaseWebSocketMessage {
-  type: 'tool_use';
-  toolId: string;
-  toolName: string;
-  toolInput: Record<string, unknown>;
-}
-
-interface ResultEvent extends BaseWebSocketMessage {
-  type: 'result';
-}
-
-interface ErrorEvent extends BaseWebSocketMessage {
-  type: 'error';
-  message?: string;
-  error?: string;
-}
-
-interface UserMessageEvent extends BaseWebSocketMessage {
-  type: 'user_message';
-}
-
-interface ExitPlanModeEvent extends BaseWebSocketMessage {
-  type: 'exit_plan_mode';
-  plan?: string;
-}
-
-interface PermissionModeChangedEvent extends BaseWebSocketMessage {
-  type: 'permission_mode_changed';
-  mode: string;
-}
-
-interface BackgroundProcessStartedEvent extends BaseWebSocketMessage {
-  type: 'background_process_started';
-  bashId: string;
-  command: string;
-  description: string;
-}
-
-interface BackgroundProcessKilledEvent extends BaseWebSocketMessage {
-  type: 'background_process_killed';
-  bashId: string;
-}
-
-interface BackgroundProcessExitedEvent extends BaseWebSocketMessage {
-  type: 'background_process_exited';
-  bashId: string;
-  exitCode: number;
-}
-
-interface _LongRunningCommandStartedEvent extends BaseWebSocketMessage {
-  type: 'long_running_command_started';
-  bashId: string;
-  command: string;
-  commandType: 'install' | 'build' | 'test';
-  description?: string;
-  startedAt: number;
-}
-
-interface _CommandOutputChunkEvent extends BaseWebSocketMessage {
-  type: 'command_output_chunk';
-  bashId: string;
-  output: string;
-}
-
-interface _LongRunningCommandCompletedEvent extends BaseWebSocketMessage {
-  type: 'long_running_command_completed';
-  bashId: string;
-  exitCode: number;
-}
-
-interface _LongRunningCommandFailedEvent extends BaseWebSocketMessage {
-  type: 'long_running_command_failed';
-  bashId: string;
-  error: string;
-}
-
-interface TimeoutWarningEvent extends BaseWebSocketMessage {
-  type: 'timeout_warning';
-  message: string;
-  elapsedSeconds: number;
-}
-
-interface RetryAttemptEvent extends BaseWebSocketMessage {
-  type: 'retry_attempt';
-  attempt: number;
-  maxAttempts: number;
-  delayMs: number;
-  errorType: string;
-  message: string;
-}
-
-interface TokenUpdateEvent extends BaseWebSocketMessage {
-  type: 'token_update';
-  outputTokens: number;
-}
-
-interface ThinkingStartEvent extends BaseWebSocketMessage {
-  type: 'thinking_start';
-}
-
-interface ThinkingDeltaEvent extends BaseWebSocketMessage {
-  type: 'thinking_delta';
-  content: string;
-}
-
-interface SlashCommand {
-  name: string;
-  description: string;
-  argumentHint: string;
-}
-
-interface SlashCommandsAvailableEvent extends BaseWebSocketMessage {
-  type: 'slash_commands_available';
-  commands: SlashCommand[];
-}
-
-interface CompactStartEvent extends BaseWebSocketMessage {
-  type: 'compact_start';
-  trigger: 'auto' | 'manual';
-  preTokens: number;
-}
-
-interface CompactLoadingEvent extends BaseWebSocketMessage {
-  type: 'compact_loading';
-}
-
-interface CompactCompleteEvent extends BaseWebSocketMessage {
-  type: 'compact_complete';
-  preTokens: number;
-}
-
-interface ContextUsageEvent extends BaseWebSocketMessage {
-  type: 'context_usage';
-  inputTokens: number;
-  outputTokens: number;
-  contextWindow: number;
-  contextPercentage: number;
-}
-
-interface KeepaliveEvent extends BaseWebSocketMessage {
-  type: 'keepalive';
-  elapsedSeconds: number;
-}
-
-export type WebSocketMessage =
-  | AssistantMessageEvent
-  | ToolUseEvent
-  | ResultEvent
-  | ErrorEvent
-  | UserMessageEvent
-  | ExitPlanModeEvent
-  | PermissionModeChangedEvent
-  | BackgroundProcessStartedEvent
-  | BackgroundProcessKilledEvent
-  | BackgroundProcessExitedEvent
-  | TimeoutWarningEvent
-  | RetryAttemptEvent
-  | TokenUpdateEvent
-  | ThinkingStartEvent
-  | ThinkingDeltaEvent
-  | SlashCommandsAvailableEvent
-  | CompactStartEvent
-  | CompactLoadingEvent
-  | CompactCompleteEvent
-  | ContextUsageEvent
-  | KeepaliveEvent
-  | BaseWebSocketMessage; // Fallback for unknown types
+export type WebSocketMessage = ServerMessage;
 
 export type { SlashCommand };
 
@@ -226,6 +52,13 @@ export function useWebSocket({
   const messageQueueRef = useRef<string[]>([]);
   const reconnectAttemptsRef = useRef(0);
   const isMountedRef = useRef(false);
+  const hasConnectedRef = useRef(false);
+
+  // Last event seq received per session, sent back on reconnect to replay missed events
+  const lastSeqRef = useRef<Map<string, number>>(new Map());
+
+  // Sessions this client watches; the server forgets them when the socket closes
+  const subscriptionsRef = useRef<Set<string>>(new Set());
 
   // Use refs for callbacks to prevent reconnections when they change
   const onMessageRef = useRef(onMessage);
@@ -260,6 +93,19 @@ export function useWebSocket({
         reconnectAttemptsRef.current = 0;
         onConnectRef.current?.();
 
+        // Handshake first so the server can reject an outdated page before anything else
+        ws.send(JSON.stringify({ type: 'hello', protocolVersion: PROTOCOL_VERSION } satisfies ClientMessage));
+
+        // After a reconnect, re-subscribe and ask the server for events sent while we were away
+        // (before queued messages, so replayed events arrive first)
+        for (const sessionId of subscriptionsRef.current) {
+          const message: ClientMessage = hasConnectedRef.current
+            ? { type: 'resume_stream', sessionId, lastSeq: lastSeqRef.current.get(sessionId) ?? 0 }
+            : { type: 'subscribe', sessionId };
+          ws.send(JSON.stringify(message));
+        }
+        hasConnectedRef.current = true;
+
         // Send any queued messages
         while (messageQueueRef.current.length > 0) {
           const msg = messageQueueRef.current.shift();
@@ -269,7 +115,19 @@ export function useWebSocket({
 
       ws.onmessage = (event) => {
         try {
-          const message = JSON.parse(event.data);
+          const message = JSON.parse(event.data) as WebSocketMessage;
+          if (typeof message.seq === 'number' && message.sessionId) {
+            lastSeqRef.current.set(message.sessionId, message.seq);
+          }
+
+          // Reconnecting won't help until the page (or server) is upgraded
+          if (message.type === 'error' && message.errorType === 'protocol_mismatch') {
+            reconnectAttemptsRef.current = maxReconnectAttempts;
+            toast.error('Update required', { description: message.message, duration: Infinity });
+            return;
+          }
+          if (message.type === 'welcome') return;
+
           onMessageRef.current?.(message);
         } catch (error) {
           const errorMsg = error instanceof Error ? error.message : 'Unknown parse error';
@@ -299,7 +157,7 @@ export function useWebSocket({
     }
   }, [url, maxReconnectAttempts, reconnectDelay]);
 
-  const sendMessage = useCallback((message: Record<string, unknown>) => {
+  const sendMessage = useCallback((message: ClientMessage) => {
     const messageStr = JSON.stringify(message);
 
     if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
@@ -310,6 +168,21 @@ export function useWebSocket({
     }
   }, []);
 
+  // Subscriptions aren't queued: (re)connecting sends them for every watched session
+  const subscribe = useCallback((sessionId: string) => {
+    subscriptionsRef.current.add(sessionId);
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: 'subscribe', sessionId } satisfies ClientMessage));
+    }
+  }, []);
+
+  const unsubscribe = useCallback((sessionId: string) => {
+    if (!subscriptionsRef.current.delete(sessionId)) return;
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: 'unsubscribe', sessionId } satisfies ClientMessage));
+    }
+  }, []);
+
   const disconnect = useCallback(() => {
     if (reconnectTimeoutRef.current) {
       clearTimeout(reconnectTimeoutRef.current);
@@ -351,5 +224,7 @@ export function useWebSocket({
     disconnect,
     reconnect: connect,
     stopGeneration,
+    subscribe,
+    unsubscribe,
   };
 }
\ No newline at end of file
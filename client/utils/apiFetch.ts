@@ -0,0 +1,46 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Authenticated requests to the server.
+ *
+ * The server injects its access token into index.html; every /api request
+ * and the chat WebSocket must present it.
+ */
+
+export function getAccessToken(): string {
+  return document.querySelector<HTMLMetaElement>('meta[name="agent-llama-token"]')?.content ?? '';
+}
+
+/**
+ * fetch() with the access token in the Authorization header
+ */
+export function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${getAccessToken()}`);
+  return fetch(input, { ...init, headers });
+}
+
+/**
+ * Append the access token to a URL that can't carry headers (WebSocket, download link)
+ */
+export function withAccessToken(url: string): string {
+  return `${url}${url.includes('?') ? '&' : '?'}token=${encodeURIComponent(getAccessToken())}`;
+}
@@ -158,6 +158,33 @@ export const ErrorMessages = {
     description: 'Connection failed. Check your internet.',
     code: 'E024',
   },
+
+  // Chat History
+  FORK_CHAT: {
+    title: 'Failed to fork chat',
+    description: 'Could not create a fork from this message',
+    code: 'E025',
+  },
+  IMPORT_CHAT: {
+    title: 'Failed to import chat',
+    description: 'The file is not a valid Agent Llama chat export',
+    code: 'E026',
+  },
+  UPDATE_TOOLS: {
+    title: 'Failed to update tools',
+    description: 'Could not change the tools available to this chat',
+    code: 'E027',
+  },
+  LOAD_TOOL_RESULT: {
+    title: 'Failed to load tool output',
+    description: 'Could not fetch the full output of this tool call',
+    code: 'E028',
+  },
+  UPDATE_GIT_SETTINGS: {
+    title: 'Failed to update git settings',
+    description: 'Could not change auto-branch or auto-commit for this chat',
+    code: 'E029',
+  },
 };
 
 /**
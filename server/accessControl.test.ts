@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  checkAccess,
+  canReceiveToken,
+  injectAccessToken,
+  loadAccessConfig,
+  loadOrCreateAccessToken,
+  type AccessConfig,
+} from "./accessControl";
+
+const TOKEN = 'secret-token';
+
+function config(overrides: Partial<AccessConfig> = {}): AccessConfig {
+  return { host: '127.0.0.1', port: 3001, lan: false, token: TOKEN, allowedOrigins: [], ...overrides };
+}
+
+function request(pathname: string, headers: Record<string, string> = {}, host = 'localhost:3001'): [Request, URL] {
+  const url = new URL(`http://${host}${pathname}`);
+  return [new Request(url, { headers: { host, ...headers } }), url];
+}
+
+describe("checkAccess", () => {
+  it("should require the token for API and WebSocket requests", () => {
+    expect(checkAccess(...request('/api/sessions'), config())?.status).toBe(401);
+    expect(checkAccess(...request('/api/sessions', { authorization: 'Bearer wrong' }), config())?.status).toBe(401);
+    expect(checkAccess(...request('/api/sessions', { authorization: `Bearer ${TOKEN}` }), config())).toBeUndefined();
+    expect(checkAccess(...request(`/ws?token=${TOKEN}`), config())).toBeUndefined();
+  });
+
+  it("should leave static files open", () => {
+    expect(checkAccess(...request('/client/index.tsx'), config())).toBeUndefined();
+  });
+
+  it("should only answer loopback Host names outside LAN mode", () => {
+    const rebound = request('/api/sessions', { authorization: `Bearer ${TOKEN}` }, 'evil.example:3001');
+
+    expect(checkAccess(...rebound, config())?.status).toBe(403);
+    expect(checkAccess(...rebound, config({ lan: true }))).toBeUndefined();
+  });
+
+  it("should refuse cross-origin browser requests unless the origin is allowed", () => {
+    const crossSite = request('/api/sessions', { authorization: `Bearer ${TOKEN}`, origin: 'https://evil.example' });
+    const sameSite = request('/api/sessions', { authorization: `Bearer ${TOKEN}`, origin: 'http://localhost:3001' });
+
+    expect(checkAccess(...crossSite, config())?.status).toBe(403);
+    expect(checkAccess(...crossSite, config({ allowedOrigins: ['https://evil.example'] }))).toBeUndefined();
+    expect(checkAccess(...sameSite, config())).toBeUndefined();
+  });
+});
+
+describe("canReceiveToken", () => {
+  it("should hand index.html to this machine or to holders of the access link", () => {
+    expect(canReceiveToken(...request('/'), config(), '127.0.0.1')).toBe(true);
+    expect(canReceiveToken(...request('/', {}, '192.168.1.5:3001'), config({ lan: true }), '192.168.1.20')).toBe(false);
+    expect(canReceiveToken(...request(`/?token=${TOKEN}`, {}, '192.168.1.5:3001'), config({ lan: true }), '192.168.1.20')).toBe(true);
+    // A rebound hostname resolving to this machine doesn't get the token
+    expect(canReceiveToken(...request('/', {}, 'evil.example:3001'), config({ lan: true }), '127.0.0.1')).toBe(false);
+  });
+
+  it("should inject the token as a meta tag", () => {
+    expect(injectAccessToken('<head></head>', 'a"b')).toContain('<meta name="agent-llama-token" content="a&#34;b">');
+  });
+});
+
+describe("access config", () => {
+  let tempDir: string;
+  let savedToken: string | undefined;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-llama-access-'));
+    savedToken = process.env.AGENT_LLAMA_TOKEN;
+    delete process.env.AGENT_LLAMA_TOKEN;
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    if (savedToken === undefined) delete process.env.AGENT_LLAMA_TOKEN;
+    else process.env.AGENT_LLAMA_TOKEN = savedToken;
+  });
+
+  it("should generate the token once and keep it owner-only", () => {
+    const tokenPath = path.join(tempDir, 'access-token');
+
+    const token = loadOrCreateAccessToken(tokenPath);
+
+    expect(token.length).toBeGreaterThan(30);
+    expect(loadOrCreateAccessToken(tokenPath)).toBe(token);
+    if (process.platform !== 'win32') {
+      expect(fs.statSync(tokenPath).mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it("should bind to loopback by default and to all interfaces in LAN mode", () => {
+    process.env.AGENT_LLAMA_TOKEN = TOKEN;
+
+    expect(loadAccessConfig([], {})).toMatchObject({ host: '127.0.0.1', port: 3001, lan: false, token: TOKEN });
+    expect(loadAccessConfig(['--lan'], { AGENT_LLAMA_PORT: '4000' })).toMatchObject({ host: '0.0.0.0', port: 4000, lan: true });
+    expect(loadAccessConfig([], { AGENT_LLAMA_LAN: '1', AGENT_LLAMA_ALLOWED_ORIGINS: 'https://llama.lan/, http://box:3001' }).allowedOrigins)
+      .toEqual(['https://llama.lan', 'http://box:3001']);
+    expect(() => loadAccessConfig([], { AGENT_LLAMA_PORT: 'abc' })).toThrow('AGENT_LLAMA_PORT');
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Access control for the HTTP API and chat WebSocket.
+ *
+ * The agent can run shell commands, so every /api/* request and /ws
+ * upgrade must carry the access token (Authorization: Bearer, or ?token=
+ * where headers can't be set). The token is generated on first run and
+ * stored in the app data directory; the server injects it into index.html
+ * for browsers on this machine.
+ *
+ * By default the server binds to loopback and only answers requests whose
+ * Host is a loopback name, which stops DNS-rebinding pages from reading the
+ * token. LAN mode binds to all interfaces; other devices open the access
+ * link printed at startup. Browser requests (which carry an Origin) must
+ * come from the page the server itself served, or an explicitly allowed origin.
+ */
+
+import { randomBytes, timingSafeEqual } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getAppDataDirectory } from './directoryUtils';
+
+export interface AccessConfig {
+  host: string;
+  port: number;
+  lan: boolean;
+  token: string;
+  allowedOrigins: string[]; // Extra browser origins, e.g. a reverse proxy in front of LAN mode
+}
+
+const TOKEN_FILENAME = 'access-token';
+const LOOPBACK_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]', '::1']);
+const LOOPBACK_ADDRESSES = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+export function getAccessTokenPath(): string {
+  return path.join(getAppDataDirectory(), TOKEN_FILENAME);
+}
+
+/**
+ * The configured access token, if any: AGENT_LLAMA_TOKEN, else the stored token
+ */
+export function readAccessToken(tokenPath = getAccessTokenPath()): string | undefined {
+  if (process.env.AGENT_LLAMA_TOKEN) {
+    return process.env.AGENT_LLAMA_TOKEN;
+  }
+
+  try {
+    return fs.readFileSync(tokenPath, 'utf-8').trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the access token, or generate and store one (owner-only) on first run
+ */
+export function loadOrCreateAccessToken(tokenPath = getAccessTokenPath()): string {
+  const existing = readAccessToken(tokenPath);
+  if (existing) {
+    return existing;
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  fs.mkdirSync(path.dirname(tokenPath), { recursive: true });
+  fs.writeFileSync(tokenPath, `${token}\n`, { mode: 0o600 });
+  console.log(`🔑 Generated API access token: ${tokenPath}`);
+  return token;
+}
+
+/**
+ * Build the access config from the environment (and --lan on the command line)
+ */
+export function loadAccessConfig(argv: string[] = process.argv, env: NodeJS.ProcessEnv = process.env): AccessConfig {
+  const lan = argv.includes('--lan') || env.AGENT_LLAMA_LAN === '1' || env.AGENT_LLAMA_LAN === 'true';
+  const port = env.AGENT_LLAMA_PORT ? Number(env.AGENT_LLAMA_PORT) : 3001;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`AGENT_LLAMA_PORT must be a port number, got "${env.AGENT_LLAMA_PORT}"`);
+  }
+
+  const host = env.AGENT_LLAMA_HOST || (lan ? '0.0.0.0' : '127.0.0.1');
+  if (!lan && !isLoopbackHostname(host)) {
+    console.warn(`⚠️  AGENT_LLAMA_HOST=${host} is not a loopback address, but LAN mode is off: requests from other devices will be refused. Set AGENT_LLAMA_LAN=1 to allow them.`);
+  }
+
+  return {
+    host,
+    port,
+    lan,
+    token: loadOrCreateAccessToken(),
+    allowedOrigins: (env.AGENT_LLAMA_ALLOWED_ORIGINS || '')
+      .split(',')
+      .map(origin => origin.trim().replace(/\/$/, ''))
+      .filter(Boolean),
+  };
+}
+
+function isLoopbackHostname(hostname: string): boolean {
+  return LOOPBACK_HOSTNAMES.has(hostname.toLowerCase());
+}
+
+export function isLoopbackAddress(address: string | undefined): boolean {
+  return address !== undefined && LOOPBACK_ADDRESSES.has(address);
+}
+
+/**
+ * Hostname from the Host header, without the port
+ */
+function requestHostname(req: Request): string | undefined {
+  const host = req.headers.get('host');
+  if (!host) return undefined;
+  try {
+    return new URL(`http://${host}`).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Outside LAN mode only loopback Host names are served (DNS-rebinding protection)
+ */
+export function isAllowedHost(req: Request, config: AccessConfig): boolean {
+  if (config.lan) return true;
+  const hostname = requestHostname(req);
+  return hostname !== undefined && isLoopbackHostname(hostname);
+}
+
+/**
+ * Requests without an Origin (CLI, curl) pass; browser requests must be
+ * same-origin with the Host they were sent to, or explicitly allowed
+ */
+export function isAllowedOrigin(req: Request, config: AccessConfig): boolean {
+  const origin = req.headers.get('origin');
+  if (!origin) return true;
+  if (config.allowedOrigins.includes(origin)) return true;
+
+  try {
+    return new URL(origin).host === req.headers.get('host');
+  } catch {
+    return false;
+  }
+}
+
+export function tokensMatch(candidate: string | null | undefined, token: string): boolean {
+  if (!candidate) return false;
+  const a = Buffer.from(candidate);
+  const b = Buffer.from(token);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Token from the Authorization header, or the token query parameter
+ * (WebSocket upgrades and download links can't set headers)
+ */
+export function extractAccessToken(req: Request, url: URL): string | undefined {
+  const authorization = req.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+  return url.searchParams.get('token') ?? undefined;
+}
+
+/**
+ * Whether index.html may be served with the token injected: the request
+ * came from this machine to a loopback name, or already carries the token
+ * (the LAN access link)
+ */
+export function canReceiveToken(req: Request, url: URL, config: AccessConfig, clientAddress: string | undefined): boolean {
+  if (tokensMatch(url.searchParams.get('token'), config.token)) return true;
+  const hostname = requestHostname(req);
+  return isLoopbackAddress(clientAddress) && hostname !== undefined && isLoopbackHostname(hostname);
+}
+
+/**
+ * Check a request against the access rules.
+ * Returns an error Response when it must be refused, undefined otherwise.
+ */
+export function checkAccess(req: Request, url: URL, config: AccessConfig): Response | undefined {
+  if (!isAllowedHost(req, config)) {
+    return new Response('Forbidden: unexpected Host header', { status: 403 });
+  }
+
+  if (url.pathname !== '/ws' && !url.pathname.startsWith('/api/')) {
+    return undefined;
+  }
+
+  if (!isAllowedOrigin(req, config)) {
+    return new Response(JSON.stringify({ error: 'Origin not allowed' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (!tokensMatch(extractAccessToken(req, url), config.token)) {
+    return new Response(JSON.stringify({ error: 'Missing or invalid access token' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  return undefined;
+}
+
+/**
+ * Add the access token to index.html for the client to read
+ */
+export function injectAccessToken(html: string, token: string): string {
+  const escaped = token.replace(/[&"<>]/g, char => `&#${char.charCodeAt(0)};`);
+  return html.replace('</head>', `    <meta name="agent-llama-token" content="${escaped}">\n</head>`);
+}
+
+/**
+ * URLs other devices can use to open the app in LAN mode
+ */
+export function getLanAccessUrls(config: AccessConfig): string[] {
+  return Object.values(os.networkInterfaces())
+    .flat()
+    .filter((address): address is os.NetworkInterfaceInfo => !!address && address.family === 'IPv4' && !address.internal)
+    .map(address => `http://${address.address}:${config.port}/?token=${encodeURIComponent(config.token)}`);
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "bun:test";
+import { Database } from "bun:sqlite";
+import { runMigrations } from "./migrations";
+import { recordUsageEvent, getUsageTotals, type UsageFilter } from "./usage";
+import { parseBudgetConfig, evaluateBudgets, checkBudgets, type BudgetConfig } from "./budgets";
+import { formatBudgetBreach } from "../client/config/budgets";
+import type { ModelConfig } from "../client/config/models";
+
+function config(data: unknown): BudgetConfig {
+  const { config, error } = parseBudgetConfig(data);
+  if (!config) throw new Error(error);
+  return config;
+}
+
+describe("parseBudgetConfig", () => {
+  it("should apply defaults and reject invalid limits", () => {
+    expect(config({ daily: { maxCostUsd: 20 } })).toEqual({ warnAt: 0.8, daily: { maxCostUsd: 20 }, providers: {} });
+    expect(parseBudgetConfig({ session: { maxCostUsd: -1 } }).error).toContain("session.maxCostUsd");
+  });
+});
+
+describe("evaluateBudgets", () => {
+  const budgets = config({
+    warnAt: 0.5,
+    session: { maxCostUsd: 1 },
+    daily: { maxTokens: 1000 },
+    providers: { "z-ai": { maxCostUsd: 10 } },
+  });
+
+  it("should report warnings and exceeded limits per scope", () => {
+    const status = evaluateBudgets(budgets, {
+      session: { costUsd: 1.2, tokens: 100 },
+      daily: { costUsd: 1.2, tokens: 600 },
+      provider: { costUsd: 1.2, tokens: 600 },
+    }, "z-ai");
+
+    expect(status.exceeded).toEqual([{ scope: "session", metric: "cost", used: 1.2, limit: 1 }]);
+    expect(status.warnings).toEqual([{ scope: "daily", metric: "tokens", used: 600, limit: 1000 }]);
+    expect(formatBudgetBreach(status.exceeded[0])).toBe("Chat budget: $1.20 of $1.00");
+  });
+
+  it("should only apply provider limits to that provider", () => {
+    const usage = { costUsd: 10, tokens: 0 };
+    expect(evaluateBudgets(budgets, { session: { costUsd: 0, tokens: 0 }, daily: usage, provider: usage }, "z-ai").exceeded)
+      .toEqual([{ scope: "provider", provider: "z-ai", metric: "cost", used: 10, limit: 10 }]);
+    expect(evaluateBudgets(budgets, { session: { costUsd: 0, tokens: 0 }, daily: usage, provider: usage }, "anthropic").exceeded)
+      .toEqual([]);
+  });
+});
+
+describe("checkBudgets", () => {
+  it("should count ledger usage plus the turn in progress", () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const model: ModelConfig = {
+      id: "sonnet", name: "Sonnet", description: "", apiModelId: "claude-sonnet", provider: "anthropic",
+      pricing: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+    };
+    recordUsageEvent(db, { sessionId: "s1", model, inputTokens: 100_000, outputTokens: 0, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 });
+
+    const budgets = config({ session: { maxCostUsd: 0.5 }, providers: { anthropic: { maxTokens: 200_000 } } });
+    const getTotals = (filter: UsageFilter) => getUsageTotals(db, filter);
+
+    // $0.30 recorded
+    expect(checkBudgets(getTotals, "s1", "anthropic", undefined, budgets)).toEqual({
+      exceeded: [],
+      warnings: [],
+    });
+
+    // $0.30 recorded + $0.25 in flight; 100k + 110k tokens
+    const status = checkBudgets(getTotals, "s1", "anthropic", { costUsd: 0.25, tokens: 110_000 }, budgets);
+    expect(status.exceeded.map(b => b.scope)).toEqual(["session", "provider"]);
+
+    // Other sessions have their own session budget but share the daily provider budget
+    expect(checkBudgets(getTotals, "s2", "anthropic", undefined, budgets).warnings.map(b => b.scope)).toEqual([]);
+    expect(checkBudgets(getTotals, "s2", "anthropic", { costUsd: 0, tokens: 70_000 }, budgets).warnings.map(b => b.scope)).toEqual(["provider"]);
+
+    // No budgets.json, no limits
+    expect(checkBudgets(getTotals, "s1", "anthropic", { costUsd: 100, tokens: 0 }, null)).toEqual({ exceeded: [], warnings: [] });
+    db.close();
+  });
+});
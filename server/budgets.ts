@@ -0,0 +1,189 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Budgets
+ *
+ * Optional spending limits from budgets.json in the app data directory.
+ * Usage comes from the usage_events ledger plus the in-flight turn, so a
+ * runaway turn (e.g. intense-research spawning many agents) can be stopped
+ * before its result arrives:
+ *
+ *   {
+ *     "warnAt": 0.8,
+ *     "session": { "maxCostUsd": 5 },
+ *     "daily": { "maxCostUsd": 20, "maxTokens": 20000000 },
+ *     "providers": { "anthropic": { "maxCostUsd": 15 } }
+ *   }
+ *
+ * Provider limits apply per day. No file means no limits.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { z } from 'zod';
+import { getAppDataDirectory } from './directoryUtils';
+import type { UsageFilter, UsageTotals } from './usage';
+import type { BudgetBreach, BudgetLimit, BudgetScope } from '../client/config/budgets';
+
+const budgetLimitSchema = z.object({
+  maxCostUsd: z.number().positive().optional(),
+  maxTokens: z.number().int().positive().optional(),
+});
+
+const budgetConfigSchema = z.object({
+  warnAt: z.number().gt(0).lte(1).default(0.8), // Fraction of a limit that triggers a warning
+  session: budgetLimitSchema.optional(),
+  daily: budgetLimitSchema.optional(),
+  providers: z.record(z.string(), budgetLimitSchema).default({}),
+});
+
+export type BudgetConfig = z.infer<typeof budgetConfigSchema>;
+
+export interface BudgetUsage {
+  costUsd: number;
+  tokens: number;
+}
+
+export interface BudgetStatus {
+  exceeded: BudgetBreach[];
+  warnings: BudgetBreach[];
+}
+
+const NO_USAGE: BudgetUsage = { costUsd: 0, tokens: 0 };
+
+/**
+ * Get config file path (lazy evaluation to ensure correct path)
+ */
+export function getBudgetConfigPath(): string {
+  return join(getAppDataDirectory(), 'budgets.json');
+}
+
+/**
+ * Validate budgets.json contents
+ */
+export function parseBudgetConfig(data: unknown): { config: BudgetConfig | null; error?: string } {
+  const result = budgetConfigSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { config: null, error: `Invalid budget config at ${issue.path.join('.') || '(root)'}: ${issue.message}` };
+  }
+  return { config: result.data };
+}
+
+/**
+ * Load budgets.json (null config when absent)
+ * An invalid file disables budgets rather than blocking every chat; the error is logged.
+ */
+export function loadBudgetConfig(): { config: BudgetConfig | null; error?: string } {
+  const configPath = getBudgetConfigPath();
+  if (!existsSync(configPath)) {
+    return { config: null };
+  }
+
+  try {
+    const content = readFileSync(configPath, 'utf-8').trim();
+    const parsed = parseBudgetConfig(content === '' ? {} : JSON.parse(content));
+    if (parsed.error) {
+      console.error(`❌ ${parsed.error}`);
+      console.error(`   Path: ${configPath}`);
+    }
+    return parsed;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('❌ Failed to load budget config:', errorMessage);
+    console.error(`   Path: ${configPath}`);
+    return { config: null, error: `Failed to read budget config: ${errorMessage}` };
+  }
+}
+
+export function toBudgetUsage(totals: UsageTotals): BudgetUsage {
+  return {
+    costUsd: totals.costUsd,
+    tokens: totals.inputTokens + totals.outputTokens + totals.cacheCreationInputTokens + totals.cacheReadInputTokens,
+  };
+}
+
+function addUsage(a: BudgetUsage, b: BudgetUsage): BudgetUsage {
+  return { costUsd: a.costUsd + b.costUsd, tokens: a.tokens + b.tokens };
+}
+
+/**
+ * Compare usage against each configured limit
+ */
+export function evaluateBudgets(
+  config: BudgetConfig,
+  usage: { session: BudgetUsage; daily: BudgetUsage; provider: BudgetUsage },
+  provider: string
+): BudgetStatus {
+  const status: BudgetStatus = { exceeded: [], warnings: [] };
+
+  const check = (scope: BudgetScope, limit: BudgetLimit | undefined, used: BudgetUsage) => {
+    if (!limit) return;
+    const metrics: [BudgetBreach['metric'], number | undefined, number][] = [
+      ['cost', limit.maxCostUsd, used.costUsd],
+      ['tokens', limit.maxTokens, used.tokens],
+    ];
+    for (const [metric, max, value] of metrics) {
+      if (max === undefined) continue;
+      const breach: BudgetBreach = { scope, metric, used: value, limit: max, ...(scope === 'provider' && { provider }) };
+      if (value >= max) {
+        status.exceeded.push(breach);
+      } else if (value >= max * config.warnAt) {
+        status.warnings.push(breach);
+      }
+    }
+  };
+
+  check('session', config.session, usage.session);
+  check('daily', config.daily, usage.daily);
+  check('provider', config.providers[provider], usage.provider);
+
+  return status;
+}
+
+function startOfToday(): string {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today.toISOString();
+}
+
+/**
+ * Check a session's budgets, optionally including usage of a turn still in progress
+ * getTotals queries the usage ledger (sessionDb.getUsageTotals)
+ */
+export function checkBudgets(
+  getTotals: (filter: UsageFilter) => UsageTotals,
+  sessionId: string,
+  provider: string,
+  inFlight: BudgetUsage = NO_USAGE,
+  config: BudgetConfig | null = loadBudgetConfig().config
+): BudgetStatus {
+  if (!config) {
+    return { exceeded: [], warnings: [] };
+  }
+
+  const since = startOfToday();
+  return evaluateBudgets(config, {
+    session: addUsage(toBudgetUsage(getTotals({ sessionId })), inFlight),
+    daily: addUsage(toBudgetUsage(getTotals({ since })), inFlight),
+    provider: addUsage(toBudgetUsage(getTotals({ provider, since })), inFlight),
+  }, provider);
+}
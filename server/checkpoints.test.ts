@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { runMigrations } from "./migrations";
+import {
+  getCheckpointFilePath,
+  saveFileCheckpoint,
+  getRewindPlan,
+  rewindToTurn,
+  getTurnChanges,
+  revertFileToTurn,
+  CHECKPOINT_MAX_BYTES,
+} from "./checkpoints";
+
+describe("getCheckpointFilePath", () => {
+  it("should resolve file paths of editing tools against the working directory", () => {
+    expect(getCheckpointFilePath('Edit', { file_path: 'src/a.ts' }, '/work')).toBe('/work/src/a.ts');
+    expect(getCheckpointFilePath('Write', { file_path: '/abs/b.ts' }, '/work')).toBe('/abs/b.ts');
+    expect(getCheckpointFilePath('NotebookEdit', { notebook_path: 'n.ipynb' }, '/work')).toBe('/work/n.ipynb');
+  });
+
+  it("should ignore other tools and missing paths", () => {
+    expect(getCheckpointFilePath('Read', { file_path: 'a.ts' }, '/work')).toBeUndefined();
+    expect(getCheckpointFilePath('Edit', {}, '/work')).toBeUndefined();
+  });
+});
+
+describe("file checkpoints", () => {
+  let db: Database;
+  let workDir: string;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+    db.run("INSERT INTO sessions (id, title, created_at, updated_at) VALUES ('s1', 'First chat', '2025-01-01', '2025-01-01')");
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-llama-checkpoints-'));
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  const startTurn = (turnId: string) => {
+    db.run(
+      "INSERT INTO messages (id, session_id, type, content, timestamp) VALUES (?, 's1', 'user', 'do it', ?)",
+      [turnId, new Date().toISOString()]
+    );
+  };
+  const file = (name: string) => path.join(workDir, name);
+  const edit = (turnId: string, name: string, content: string) => {
+    saveFileCheckpoint(db, { sessionId: 's1', turnId, filePath: file(name) });
+    fs.writeFileSync(file(name), content);
+  };
+
+  it("should keep only the first snapshot of a file per turn", () => {
+    fs.writeFileSync(file('a.txt'), 'original');
+    startTurn('t1');
+    edit('t1', 'a.txt', 'first edit');
+    edit('t1', 'a.txt', 'second edit');
+
+    const rows = db.query<{ content: Uint8Array }, []>("SELECT content FROM file_checkpoints").all();
+    expect(rows).toHaveLength(1);
+    expect(Buffer.from(rows[0].content).toString()).toBe('original');
+  });
+
+  it("should preview and rewind every file edited since the turn", () => {
+    fs.writeFileSync(file('a.txt'), 'a0');
+    startTurn('t1');
+    edit('t1', 'a.txt', 'a1');
+    startTurn('t2');
+    edit('t2', 'a.txt', 'a2');
+    edit('t2', 'new.txt', 'created');
+    startTurn('t3');
+
+    expect(getRewindPlan(db, 's1', 't2')).toEqual([
+      { filePath: file('a.txt'), action: 'restore', turnId: 't2' },
+      { filePath: file('new.txt'), action: 'delete', turnId: 't2' },
+    ]);
+    expect(getRewindPlan(db, 's1', 't3')).toEqual([]);
+
+    const result = rewindToTurn(db, 's1', 't1');
+    expect(result).toEqual({ restored: [file('a.txt')], deleted: [file('new.txt')], failed: [] });
+    expect(fs.readFileSync(file('a.txt'), 'utf8')).toBe('a0');
+    expect(fs.existsSync(file('new.txt'))).toBe(false);
+    expect(db.query("SELECT id FROM file_checkpoints").all()).toHaveLength(0);
+  });
+
+  it("should leave the previous turn's edits alone when a message was queued mid-turn", () => {
+    fs.writeFileSync(file('a.txt'), 'a0');
+    startTurn('t1');
+    edit('t1', 'a.txt', 'a1');
+    startTurn('t2'); // Queued while t1 is still running
+    edit('t1', 'b.txt', 'b1');
+    edit('t2', 'a.txt', 'a2');
+
+    expect(getRewindPlan(db, 's1', 't2')).toEqual([{ filePath: file('a.txt'), action: 'restore', turnId: 't2' }]);
+    rewindToTurn(db, 's1', 't2');
+    expect(fs.readFileSync(file('a.txt'), 'utf8')).toBe('a1');
+    expect(fs.readFileSync(file('b.txt'), 'utf8')).toBe('b1');
+    expect(db.query("SELECT turn_id FROM file_checkpoints ORDER BY id").all()).toEqual([{ turn_id: 't1' }, { turn_id: 't1' }]);
+  });
+
+  it("should leave out files that already match their snapshot", () => {
+    fs.writeFileSync(file('a.txt'), 'same');
+    startTurn('t1');
+    edit('t1', 'a.txt', 'same');
+
+    expect(getRewindPlan(db, 's1', 't1')).toEqual([]);
+  });
+
+  it("should recreate files deleted after the snapshot", () => {
+    fs.mkdirSync(file('dir'));
+    fs.writeFileSync(file('dir/a.txt'), 'keep me');
+    startTurn('t1');
+    saveFileCheckpoint(db, { sessionId: 's1', turnId: 't1', filePath: file('dir/a.txt') });
+    fs.rmSync(file('dir'), { recursive: true });
+
+    rewindToTurn(db, 's1', 't1');
+    expect(fs.readFileSync(file('dir/a.txt'), 'utf8')).toBe('keep me');
+  });
+
+  it("should skip files over the size limit", () => {
+    fs.writeFileSync(file('big.bin'), Buffer.alloc(CHECKPOINT_MAX_BYTES + 1));
+    startTurn('t1');
+
+    expect(saveFileCheckpoint(db, { sessionId: 's1', turnId: 't1', filePath: file('big.bin') })).toBe(false);
+    expect(db.query("SELECT id FROM file_checkpoints").all()).toHaveLength(0);
+  });
+
+  it("should report each turn's changes up to the next turn that touched the file", () => {
+    fs.writeFileSync(file('a.txt'), 'a0');
+    startTurn('t1');
+    edit('t1', 'a.txt', 'a1');
+    edit('t1', 'b.txt', 'b1');
+    startTurn('t2');
+    edit('t2', 'a.txt', 'a2');
+
+    const text = (content: Uint8Array | null) => (content === null ? null : Buffer.from(content).toString());
+    const summary = (turnId: string) =>
+      getTurnChanges(db, 's1', turnId)!.map(change => [path.basename(change.filePath), text(change.before), text(change.after)]);
+
+    expect(summary('t1')).toEqual([['a.txt', 'a0', 'a1'], ['b.txt', null, 'b1']]);
+    expect(summary('t2')).toEqual([['a.txt', 'a1', 'a2']]);
+  });
+
+  it("should revert a single file to before the turn", () => {
+    fs.writeFileSync(file('a.txt'), 'a0');
+    startTurn('t1');
+    edit('t1', 'a.txt', 'a1');
+    edit('t1', 'b.txt', 'b1');
+
+    expect(revertFileToTurn(db, 's1', 't1', file('a.txt'))).toBe('restore');
+    expect(revertFileToTurn(db, 's1', 't1', file('b.txt'))).toBe('delete');
+    expect(fs.readFileSync(file('a.txt'), 'utf8')).toBe('a0');
+    expect(fs.existsSync(file('b.txt'))).toBe(false);
+    expect(getTurnChanges(db, 's1', 't1')).toEqual([]);
+    expect(revertFileToTurn(db, 's1', 't1', file('other.txt'))).toBeNull();
+  });
+
+  it("should return null for unknown turns", () => {
+    expect(getRewindPlan(db, 's1', 'missing')).toBeNull();
+    expect(rewindToTurn(db, 's1', 'missing')).toBeNull();
+    expect(getTurnChanges(db, 's1', 'missing')).toBeNull();
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * File Checkpoints
+ *
+ * Before Write/Edit/MultiEdit/NotebookEdit touches a file, the PreToolUse
+ * hook snapshots it, keyed by the turn (the user message that started it).
+ * Only the first snapshot of a file per turn is kept, so it holds the file
+ * as it was before that turn. Rewinding to a turn puts back every file
+ * edited by it or a later turn, using the earliest snapshot of each.
+ * The same snapshots give each turn's diff and per-file revert.
+ *
+ * Files changed any other way (Bash, scripts) are not tracked.
+ */
+
+import type { Database } from "bun:sqlite";
+import * as fs from "fs";
+import * as path from "path";
+
+export const CHECKPOINT_TOOLS = ['Write', 'Edit', 'MultiEdit', 'NotebookEdit'];
+
+// Larger files are left out of checkpoints (and so can't be rewound)
+export const CHECKPOINT_MAX_BYTES = 10 * 1024 * 1024;
+
+export interface FileCheckpointInput {
+  sessionId: string;
+  turnId: string;
+  filePath: string;
+}
+
+export interface RewindFile {
+  filePath: string;
+  action: 'restore' | 'delete'; // delete: the file didn't exist before the turn
+  turnId: string; // Turn whose snapshot is used
+}
+
+export interface RewindResult {
+  restored: string[];
+  deleted: string[];
+  failed: { filePath: string; error: string }[];
+}
+
+export interface TurnFileChange {
+  filePath: string;
+  before: Uint8Array | null; // null: the file didn't exist
+  after: Uint8Array | null;
+}
+
+interface CheckpointRow {
+  turnId: string;
+  filePath: string;
+  content: Uint8Array | null;
+}
+
+/**
+ * Absolute path of the file a tool call will modify, or undefined for other tools
+ */
+export function getCheckpointFilePath(
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  workingDirectory: string
+): string | undefined {
+  if (!CHECKPOINT_TOOLS.includes(toolName)) return undefined;
+  const filePath = toolName === 'NotebookEdit' ? toolInput.notebook_path : toolInput.file_path;
+  if (typeof filePath !== 'string' || filePath === '') return undefined;
+  return path.resolve(workingDirectory, filePath);
+}
+
+/**
+ * Snapshot a file before the turn modifies it (no-op if this turn already has one)
+ * Returns false when the file is too large or not a regular file.
+ */
+export function saveFileCheckpoint(db: Database, { sessionId, turnId, filePath }: FileCheckpointInput): boolean {
+  const existing = db.query<{ id: number }, [string, string, string]>(
+    "SELECT id FROM file_checkpoints WHERE session_id = ? AND turn_id = ? AND file_path = ?"
+  ).get(sessionId, turnId, filePath);
+  if (existing) return true;
+
+  let content: Uint8Array | null = null;
+  if (fs.existsSync(filePath)) {
+    const stats = fs.statSync(filePath);
+    if (!stats.isFile() || stats.size > CHECKPOINT_MAX_BYTES) return false;
+    content = fs.readFileSync(filePath);
+  }
+
+  db.run(
+    `INSERT OR IGNORE INTO file_checkpoints (session_id, turn_id, file_path, content, created_at)
+    VALUES (?, ?, ?, ?, ?)`,
+    [sessionId, turnId, filePath, content, new Date().toISOString()]
+  );
+  return true;
+}
+
+/**
+ * Position of a turn in the session, or null if turnId isn't a user message in it
+ * Turns run in the order their messages were saved, including queued ones.
+ */
+function getTurnPosition(db: Database, sessionId: string, turnId: string): number | null {
+  return db.query<{ rowid: number }, [string, string]>(
+    "SELECT rowid FROM messages WHERE id = ? AND session_id = ? AND type = 'user'"
+  ).get(turnId, sessionId)?.rowid ?? null;
+}
+
+// Turns from a position on: checkpoints are picked by the turn that wrote them,
+// not by time, since a message queued mid-turn is saved before that turn ends
+const TURNS_FROM = "SELECT id FROM messages WHERE session_id = ? AND type = 'user' AND rowid >= ?";
+
+/**
+ * Earliest snapshot of each file edited by a turn or the turns after it
+ */
+function getCheckpointsFrom(db: Database, sessionId: string, position: number): CheckpointRow[] {
+  const rows = db.query<CheckpointRow, [string, string, number]>(
+    `SELECT turn_id as turnId, file_path as filePath, content
+    FROM file_checkpoints WHERE session_id = ? AND turn_id IN (${TURNS_FROM}) ORDER BY id ASC`
+  ).all(sessionId, sessionId, position);
+
+  const earliest = new Map<string, CheckpointRow>();
+  for (const row of rows) {
+    if (!earliest.has(row.filePath)) earliest.set(row.filePath, row);
+  }
+  return [...earliest.values()];
+}
+
+/**
+ * What rewinding would do to a file, or null if it already matches the snapshot
+ */
+function getRewindAction(row: CheckpointRow): RewindFile['action'] | null {
+  const exists = fs.existsSync(row.filePath);
+  if (row.content === null) return exists ? 'delete' : null;
+  if (!exists) return 'restore';
+  const current = fs.readFileSync(row.filePath);
+  return Buffer.compare(current, Buffer.from(row.content)) === 0 ? null : 'restore';
+}
+
+/**
+ * Files that rewinding to before a turn would change
+ * Returns null if the turn doesn't exist.
+ */
+export function getRewindPlan(db: Database, sessionId: string, turnId: string): RewindFile[] | null {
+  const position = getTurnPosition(db, sessionId, turnId);
+  if (position === null) return null;
+
+  const plan: RewindFile[] = [];
+  for (const row of getCheckpointsFrom(db, sessionId, position)) {
+    const action = getRewindAction(row);
+    if (action) plan.push({ filePath: row.filePath, action, turnId: row.turnId });
+  }
+  return plan;
+}
+
+/**
+ * Put every file edited by a turn or a later one back the way it was before it
+ * Checkpoints from that turn on are dropped once all files are back.
+ * Returns null if the turn doesn't exist.
+ */
+export function rewindToTurn(db: Database, sessionId: string, turnId: string): RewindResult | null {
+  const position = getTurnPosition(db, sessionId, turnId);
+  if (position === null) return null;
+
+  const result: RewindResult = { restored: [], deleted: [], failed: [] };
+  for (const row of getCheckpointsFrom(db, sessionId, position)) {
+    try {
+      const action = getRewindAction(row);
+      if (action === 'delete') {
+        fs.rmSync(row.filePath, { force: true });
+        result.deleted.push(row.filePath);
+      } else if (action === 'restore') {
+        fs.mkdirSync(path.dirname(row.filePath), { recursive: true });
+        fs.writeFileSync(row.filePath, row.content!);
+        result.restored.push(row.filePath);
+      }
+    } catch (error) {
+      result.failed.push({ filePath: row.filePath, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // Keep the snapshots if something couldn't be put back, so the rewind can be retried
+  if (result.failed.length === 0) {
+    db.run(`DELETE FROM file_checkpoints WHERE session_id = ? AND turn_id IN (${TURNS_FROM})`, [sessionId, sessionId, position]);
+  }
+  return result;
+}
+
+/**
+ * Each file a turn edited, as it was before the turn and after it
+ * "After" is the file when a later turn first touched it, or as it is now.
+ * Files that ended up unchanged are left out. Returns null if the turn has no checkpoints.
+ */
+export function getTurnChanges(db: Database, sessionId: string, turnId: string): TurnFileChange[] | null {
+  const rows = db.query<CheckpointRow & { id: number }, [string, string]>(
+    `SELECT id, turn_id as turnId, file_path as filePath, content
+    FROM file_checkpoints WHERE session_id = ? AND turn_id = ? ORDER BY id ASC`
+  ).all(sessionId, turnId);
+  if (rows.length === 0 && getTurnPosition(db, sessionId, turnId) === null) return null;
+
+  const changes: TurnFileChange[] = [];
+  for (const row of rows) {
+    const next = db.query<{ content: Uint8Array | null }, [string, string, number]>(
+      "SELECT content FROM file_checkpoints WHERE session_id = ? AND file_path = ? AND id > ? ORDER BY id ASC LIMIT 1"
+    ).get(sessionId, row.filePath, row.id);
+
+    let after: Uint8Array | null;
+    if (next) {
+      after = next.content;
+    } else {
+      after = fs.existsSync(row.filePath) && fs.statSync(row.filePath).isFile() ? fs.readFileSync(row.filePath) : null;
+    }
+
+    const unchanged = row.content === null
+      ? after === null
+      : after !== null && Buffer.compare(Buffer.from(row.content), Buffer.from(after)) === 0;
+    if (!unchanged) changes.push({ filePath: row.filePath, before: row.content, after });
+  }
+  return changes;
+}
+
+/**
+ * Put one file back as it was before a turn
+ * Returns null if the turn didn't edit that file.
+ */
+export function revertFileToTurn(db: Database, sessionId: string, turnId: string, filePath: string): RewindFile['action'] | null {
+  const row = db.query<CheckpointRow, [string, string, string]>(
+    `SELECT turn_id as turnId, file_path as filePath, content
+    FROM file_checkpoints WHERE session_id = ? AND turn_id = ? AND file_path = ?`
+  ).get(sessionId, turnId, filePath);
+  if (!row) return null;
+
+  if (row.content === null) {
+    fs.rmSync(row.filePath, { force: true });
+    return 'delete';
+  }
+  fs.mkdirSync(path.dirname(row.filePath), { recursive: true });
+  fs.writeFileSync(row.filePath, row.content);
+  return 'restore';
+}
+
+export function deleteFileCheckpoints(db: Database, sessionId: string): void {
+  db.run("DELETE FROM file_checkpoints WHERE session_id = ?", [sessionId]);
+}
@@ -0,0 +1,259 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * HTTP and WebSocket client for the command-line interface.
+ *
+ * Talks to a running server over the same REST routes and versioned
+ * WebSocket protocol as the web UI. When nothing is listening on the
+ * default address the server is started inside the CLI process instead.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { format } from 'util';
+import type { Session, SessionMessage } from '../database';
+import type { ExportFormat } from '../sessionExport';
+import type { ModelConfig } from '../../client/config/models';
+import { PROTOCOL_VERSION, type ClientMessage, type ServerMessage } from '../../client/config/protocol';
+import { AsyncQueue } from '../utils/AsyncQueue';
+import { readAccessToken, getAccessTokenPath } from '../accessControl';
+
+export const DEFAULT_SERVER_URL = `http://localhost:${process.env.AGENT_LLAMA_PORT || 3001}`;
+
+const SERVER_LOG_PATH = path.join(process.env.HOME || process.env.USERPROFILE || '.', '.agent-llama', 'cli-server.log');
+const STARTUP_TIMEOUT_MS = 60000;
+
+export type SessionMode = Session['mode'];
+
+export interface CreateSessionOptions {
+  workingDirectory?: string;
+  mode?: SessionMode;
+}
+
+/**
+ * REST client for the session, model and export routes
+ */
+export class AgentLlamaClient {
+  /**
+   * @param token - Access token; defaults to AGENT_LLAMA_TOKEN or the token stored by a local server
+   */
+  constructor(readonly baseUrl: string, private token?: string) {}
+
+  // Read lazily: an in-process server only writes the token once it starts
+  private get accessToken(): string {
+    this.token ??= readAccessToken();
+    return this.token ?? '';
+  }
+
+  private async send(pathname: string, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Bearer ${this.accessToken}`);
+    const response = await fetch(new URL(pathname, this.baseUrl), { ...init, headers });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error(`The server rejected the access token. Pass --token or set AGENT_LLAMA_TOKEN (a local server stores it in ${getAccessTokenPath()})`);
+      }
+      const body = await response.json().catch(() => ({})) as { error?: string };
+      throw new Error(body.error || `Request to ${pathname} failed with status ${response.status}`);
+    }
+    return response;
+  }
+
+  private async request<T>(pathname: string, init?: RequestInit): Promise<T> {
+    return await (await this.send(pathname, init)).json() as T;
+  }
+
+  /**
+   * Whether a server is answering at baseUrl (authorized or not)
+   */
+  async isReachable(): Promise<boolean> {
+    try {
+      await fetch(new URL('/api/models', this.baseUrl), { signal: AbortSignal.timeout(2000) });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async listSessions(): Promise<Session[]> {
+    const { sessions } = await this.request<{ sessions: Session[] }>('/api/sessions');
+    return sessions;
+  }
+
+  async getSession(sessionId: string): Promise<Session> {
+    return await this.request<Session>(`/api/sessions/${encodeURIComponent(sessionId)}`);
+  }
+
+  async getMessages(sessionId: string): Promise<SessionMessage[]> {
+    return await this.request<SessionMessage[]>(`/api/sessions/${encodeURIComponent(sessionId)}/messages`);
+  }
+
+  async createSession(options: CreateSessionOptions): Promise<Session> {
+    return await this.request<Session>('/api/sessions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(options),
+    });
+  }
+
+  async listModels(): Promise<ModelConfig[]> {
+    const { models } = await this.request<{ models: ModelConfig[] }>('/api/models');
+    return models;
+  }
+
+  async exportSession(sessionId: string, exportFormat: ExportFormat): Promise<string> {
+    return await (await this.send(`/api/sessions/${encodeURIComponent(sessionId)}/export?format=${exportFormat}`)).text();
+  }
+
+  /**
+   * Find a session by full id or unambiguous id prefix
+   */
+  async resolveSession(idOrPrefix: string): Promise<Session> {
+    const matches = (await this.listSessions()).filter(session => session.id.startsWith(idOrPrefix));
+    if (matches.length === 0) {
+      throw new Error(`No session matches "${idOrPrefix}"`);
+    }
+    if (matches.length > 1 && !matches.some(session => session.id === idOrPrefix)) {
+      throw new Error(`"${idOrPrefix}" matches ${matches.length} sessions; use a longer id`);
+    }
+    return matches.find(session => session.id === idOrPrefix) ?? matches[0];
+  }
+
+  /**
+   * Open a chat WebSocket and complete the protocol handshake
+   */
+  async connect(): Promise<ChatConnection> {
+    const url = new URL('/ws', this.baseUrl);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    url.searchParams.set('token', this.accessToken);
+    return await ChatConnection.open(url.toString());
+  }
+}
+
+/**
+ * A handshaken chat WebSocket. Server events are queued in `events`
+ * so callers can consume them sequentially, pausing for prompts.
+ */
+export class ChatConnection {
+  readonly events = new AsyncQueue<ServerMessage>();
+  private closed = false;
+
+  private constructor(private readonly socket: WebSocket) {}
+
+  static open(url: string): Promise<ChatConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(url);
+      const connection = new ChatConnection(socket);
+      let ready = false;
+
+      socket.onopen = () => {
+        connection.send({ type: 'hello', protocolVersion: PROTOCOL_VERSION });
+      };
+
+      socket.onmessage = (event) => {
+        const message = JSON.parse(String(event.data)) as ServerMessage;
+
+        if (!ready) {
+          if (message.type === 'welcome') {
+            ready = true;
+            resolve(connection);
+          } else if (message.type === 'error') {
+            reject(new Error(`Server rejected the connection: ${message.message}`));
+            socket.close();
+          }
+          return;
+        }
+
+        if (!connection.closed) {
+          connection.events.enqueue(message);
+        }
+      };
+
+      socket.onclose = () => {
+        if (!ready) {
+          reject(new Error(`Could not connect to ${url}`));
+        }
+        if (!connection.closed) {
+          connection.closed = true;
+          connection.events.complete();
+        }
+      };
+    });
+  }
+
+  send(message: ClientMessage): void {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  close(): void {
+    this.socket.close();
+  }
+}
+
+/**
+ * Start the server inside this process. Its console output goes to a log
+ * file so it doesn't interleave with the conversation; errors still reach
+ * the terminal.
+ */
+async function startInProcessServer(): Promise<void> {
+  fs.mkdirSync(path.dirname(SERVER_LOG_PATH), { recursive: true });
+  const log = fs.createWriteStream(SERVER_LOG_PATH, { flags: 'a' });
+  const write = (...args: unknown[]) => {
+    log.write(format(...args) + '\n');
+  };
+  console.log = write;
+  console.info = write;
+  console.warn = write;
+  console.debug = write;
+
+  // server.ts treats login/logout/status anywhere in argv as an OAuth command
+  process.argv = process.argv.slice(0, 2);
+
+  await import('../server');
+}
+
+/**
+ * Make sure a server is answering at the client's address, starting one
+ * in-process when the default local address is free.
+ * Returns true when the server was started by this call.
+ */
+export async function ensureServer(client: AgentLlamaClient): Promise<boolean> {
+  if (await client.isReachable()) {
+    return false;
+  }
+
+  if (new URL(client.baseUrl).origin !== new URL(DEFAULT_SERVER_URL).origin) {
+    throw new Error(`No server is responding at ${client.baseUrl}`);
+  }
+
+  process.stderr.write(`⏳ No server running, starting one in-process (logs: ${SERVER_LOG_PATH})...\n`);
+  await startInProcessServer();
+
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (!(await client.isReachable())) {
+    if (Date.now() > deadline) {
+      throw new Error(`Server did not start within ${STARTUP_TIMEOUT_MS / 1000}s (see ${SERVER_LOG_PATH})`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 250));
+  }
+  return true;
+}
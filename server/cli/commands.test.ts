@@ -0,0 +1,22 @@
+import { describe, it, expect } from "bun:test";
+import { parseCommandOptions } from "./commands";
+
+describe("parseCommandOptions", () => {
+  it("should separate flags from positional arguments", () => {
+    const options = parseCommandOptions(['What', 'changed?', '--mode', 'coder', '--model=sonnet', '--dir', '.', '-o', 'out.md']);
+
+    expect(options.positionals).toEqual(['What', 'changed?']);
+    expect(options.mode).toBe('coder');
+    expect(options.model).toBe('sonnet');
+    expect(options.dir).toBe('.');
+    expect(options.output).toBe('out.md');
+  });
+
+  it("should reject unknown options, unknown modes and formats, and missing values", () => {
+    expect(() => parseCommandOptions(['--verbose', 'yes'])).toThrow('Unknown option: --verbose');
+    expect(() => parseCommandOptions(['--mode', 'wizard'])).toThrow('Unknown mode "wizard"');
+    expect(() => parseCommandOptions(['--format', 'pdf'])).toThrow('Unknown format "pdf". Available: md, html, json');
+    expect(parseCommandOptions(['--format=html']).format).toBe('html');
+    expect(() => parseCommandOptions(['--model'])).toThrow('--model needs a value');
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Conversation and session subcommands for cli.ts:
+ * chat, ask and sessions list/show/export
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Session } from '../database';
+import type { ExportFormat } from '../sessionExport';
+import { AgentLlamaClient, DEFAULT_SERVER_URL, ensureServer, type SessionMode } from './apiClient';
+import { TerminalChat, formatStoredMessage } from './terminalChat';
+
+const SESSION_MODES: SessionMode[] = ['general', 'coder', 'intense-research', 'spark', 'instagram-strategist'];
+const EXPORT_FORMATS: ExportFormat[] = ['md', 'html', 'json'];
+
+export interface CommandOptions {
+  positionals: string[];
+  url: string;
+  token?: string;
+  mode?: SessionMode;
+  model?: string;
+  dir?: string;
+  format?: ExportFormat;
+  output?: string;
+}
+
+/**
+ * Parse subcommand arguments. Flags take a value either as the next
+ * argument or inline (--mode=coder); everything else is positional.
+ */
+export function parseCommandOptions(args: string[]): CommandOptions {
+  const options: CommandOptions = {
+    positionals: [],
+    url: process.env.AGENT_LLAMA_URL || DEFAULT_SERVER_URL,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--') && arg !== '-o') {
+      options.positionals.push(arg);
+      continue;
+    }
+
+    const separator = arg.indexOf('=');
+    const flag = separator === -1 ? arg : arg.slice(0, separator);
+    const value = separator === -1 ? args[++i] : arg.slice(separator + 1);
+    if (value === undefined || value === '') {
+      throw new Error(`${flag} needs a value`);
+    }
+
+    switch (flag) {
+      case '--mode':
+        if (!SESSION_MODES.includes(value as SessionMode)) {
+          throw new Error(`Unknown mode "${value}". Available: ${SESSION_MODES.join(', ')}`);
+        }
+        options.mode = value as SessionMode;
+        break;
+      case '--model':
+        options.model = value;
+        break;
+      case '--dir':
+        options.dir = value;
+        break;
+      case '--url':
+        options.url = value;
+        break;
+      case '--token':
+        options.token = value;
+        break;
+      case '--format':
+        if (!EXPORT_FORMATS.includes(value as ExportFormat)) {
+          throw new Error(`Unknown format "${value}". Available: ${EXPORT_FORMATS.join(', ')}`);
+        }
+        options.format = value as ExportFormat;
+        break;
+      case '--out':
+      case '-o':
+        options.output = value;
+        break;
+      default:
+        throw new Error(`Unknown option: ${flag}`);
+    }
+  }
+
+  return options;
+}
+
+// console.* is redirected to a log file when the server runs in-process
+function print(text = ''): void {
+  process.stdout.write(`${text}\n`);
+}
+
+function printError(text: string): void {
+  process.stderr.write(`${text}\n`);
+}
+
+async function connectClient(options: CommandOptions): Promise<AgentLlamaClient> {
+  const client = new AgentLlamaClient(options.url, options.token);
+  await ensureServer(client);
+
+  if (options.model) {
+    const models = await client.listModels();
+    if (!models.some(model => model.id === options.model)) {
+      throw new Error(`Unknown model "${options.model}". Available: ${models.map(model => model.id).join(', ')}`);
+    }
+  }
+
+  return client;
+}
+
+/**
+ * Resume the session named by id (or id prefix), or create a new one
+ */
+async function openSession(client: AgentLlamaClient, options: CommandOptions, sessionId?: string): Promise<Session> {
+  if (sessionId) {
+    if (options.mode || options.dir) {
+      throw new Error('--mode and --dir only apply to new sessions');
+    }
+    return await client.resolveSession(sessionId);
+  }
+
+  const workingDirectory = options.dir ? path.resolve(options.dir) : undefined;
+  const session = await client.createSession({ workingDirectory, mode: options.mode });
+  if (workingDirectory && session.working_directory !== workingDirectory) {
+    printError(`⚠️  The server could not use ${workingDirectory}; working in ${session.working_directory}`);
+  }
+  return session;
+}
+
+/**
+ * chat [session-id] - Interactive conversation, new or resumed
+ */
+export async function handleChat(args: string[]): Promise<number> {
+  const options = parseCommandOptions(args);
+  const client = await connectClient(options);
+  const session = await openSession(client, options, options.positionals[0]);
+  const chat = new TerminalChat(await client.connect(), session.id, options.model);
+
+  print(`\n💬 ${session.title} (${session.id.substring(0, 8)}) · ${session.mode} · ${session.working_directory}`);
+  print('   Type /exit to quit. Ctrl+C stops a response.');
+
+  while (true) {
+    const input = await chat.prompter.ask('\n› ');
+    if (input === null) break;
+
+    const text = input.trim();
+    if (!text) continue;
+    if (text === '/exit' || text === '/quit') break;
+
+    print();
+    await chat.send(text);
+  }
+
+  chat.close();
+  return 0;
+}
+
+/**
+ * ask "<prompt>" - One-shot question in a new session
+ */
+export async function handleAsk(args: string[]): Promise<number> {
+  const options = parseCommandOptions(args);
+  const prompt = options.positionals.join(' ').trim();
+  if (!prompt) {
+    throw new Error('ask needs a prompt, e.g. ask "Summarize README.md"');
+  }
+
+  const client = await connectClient(options);
+  const session = await openSession(client, options);
+  const chat = new TerminalChat(await client.connect(), session.id, options.model);
+
+  const success = await chat.send(prompt);
+  chat.close();
+
+  printError(`\n💾 Session ${session.id.substring(0, 8)} · continue with: bun run cli.ts chat ${session.id.substring(0, 8)}`);
+  return success ? 0 : 1;
+}
+
+/**
+ * sessions list | show <id> | export <id>
+ */
+export async function handleSessions(args: string[]): Promise<number> {
+  const [subcommand, ...rest] = args;
+  const options = parseCommandOptions(rest);
+  const sessionId = options.positionals[0];
+
+  if (subcommand !== 'list' && subcommand !== 'show' && subcommand !== 'export') {
+    throw new Error(`Unknown sessions command: ${subcommand ?? '(none)'}. Use list, show <id> or export <id>`);
+  }
+  if (subcommand !== 'list' && !sessionId) {
+    throw new Error(`sessions ${subcommand} needs a session id`);
+  }
+
+  const client = await connectClient(options);
+
+  if (subcommand === 'list') {
+    const sessions = await client.listSessions();
+    if (sessions.length === 0) {
+      print('No sessions yet.');
+      return 0;
+    }
+
+    print(`${'ID'.padEnd(10)}${'UPDATED'.padEnd(18)}${'MODE'.padEnd(22)}${'MSGS'.padEnd(6)}TITLE`);
+    for (const session of sessions) {
+      const updated = new Date(session.updated_at).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+      print(`${session.id.substring(0, 8).padEnd(10)}${updated.padEnd(18)}${session.mode.padEnd(22)}${String(session.message_count).padEnd(6)}${session.title}`);
+    }
+    return 0;
+  }
+
+  const session = await client.resolveSession(sessionId);
+
+  if (subcommand === 'show') {
+    const messages = await client.getMessages(session.id);
+    print(`\n📝 ${session.title}`);
+    print(`   ${session.id} · ${session.mode} · ${session.working_directory}`);
+
+    for (const message of messages) {
+      const time = new Date(message.timestamp).toLocaleString();
+      print(`\n${message.type === 'user' ? '👤 You' : '🤖 Assistant'} · ${time}`);
+      print(formatStoredMessage(message));
+    }
+    return 0;
+  }
+
+  const exported = await client.exportSession(session.id, options.format ?? 'md');
+  if (options.output) {
+    fs.writeFileSync(options.output, exported);
+    printError(`✅ Exported "${session.title}" to ${options.output}`);
+  } else {
+    process.stdout.write(exported);
+  }
+  return 0;
+}
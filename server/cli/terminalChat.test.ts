@@ -0,0 +1,83 @@
+import { describe, it, expect } from "bun:test";
+import { formatToolUse, formatStoredMessage, resolveQuestionAnswer, resolvePermissionDecision, TerminalRenderer } from "./terminalChat";
+
+const question = {
+  question: 'Which database?',
+  header: 'Database',
+  options: [
+    { label: 'SQLite', description: 'Embedded' },
+    { label: 'Postgres', description: 'Server' },
+    { label: 'MySQL', description: 'Server' },
+  ],
+  multiSelect: false,
+};
+
+describe("formatToolUse", () => {
+  it("should summarize built-in tools by their most telling input", () => {
+    expect(formatToolUse('Bash', { command: 'bun test', description: 'Run tests' })).toBe('Bash: bun test');
+    expect(formatToolUse('Read', { file_path: '/repo/README.md' })).toBe('Read: /repo/README.md');
+    expect(formatToolUse('TodoWrite', { todos: [{}, {}] })).toBe('TodoWrite: 2 items');
+  });
+
+  it("should fall back to the first string input and truncate long values", () => {
+    expect(formatToolUse('mcp__web__fetch', { limit: 3, url: 'https://example.com' })).toBe('mcp__web__fetch: https://example.com');
+    expect(formatToolUse('Bash', { command: 'x'.repeat(300) })).toHaveLength('Bash: '.length + 100);
+    expect(formatToolUse('ExitPlanMode', {})).toBe('ExitPlanMode');
+  });
+});
+
+describe("resolveQuestionAnswer", () => {
+  it("should map option numbers to labels", () => {
+    expect(resolveQuestionAnswer(question, ' 2 ')).toBe('Postgres');
+    expect(resolveQuestionAnswer({ ...question, multiSelect: true }, '1, 3')).toBe('SQLite, MySQL');
+  });
+
+  it("should treat anything else as a free-text answer", () => {
+    expect(resolveQuestionAnswer(question, 'DuckDB')).toBe('DuckDB');
+  });
+
+  it("should reject empty replies, unknown options and multiple picks for single-select", () => {
+    expect(resolveQuestionAnswer(question, '  ')).toBeUndefined();
+    expect(resolveQuestionAnswer(question, '4')).toBeUndefined();
+    expect(resolveQuestionAnswer(question, '1,2')).toBeUndefined();
+  });
+});
+
+describe("resolvePermissionDecision", () => {
+  it("should allow once or always, and deny anything else", () => {
+    expect(resolvePermissionDecision(' Y ')).toBe('allow_once');
+    expect(resolvePermissionDecision('always')).toBe('allow_always');
+    expect(resolvePermissionDecision('')).toBe('deny');
+    expect(resolvePermissionDecision(null)).toBe('deny');
+  });
+});
+
+describe("formatStoredMessage", () => {
+  it("should render text and tool blocks of stored assistant messages", () => {
+    const content = JSON.stringify([
+      { type: 'text', text: 'Checking the tests.' },
+      { type: 'tool_use', id: 't1', name: 'Bash', input: { command: 'bun test' } },
+      { type: 'thinking', thinking: 'hidden' },
+    ]);
+
+    expect(formatStoredMessage({ id: 'm1', session_id: 's1', type: 'assistant', content, timestamp: '' }))
+      .toBe('Checking the tests.\n⚙️  Bash: bun test');
+    expect(formatStoredMessage({ id: 'm2', session_id: 's1', type: 'user', content: 'hi', timestamp: '' })).toBe('hi');
+  });
+});
+
+describe("TerminalRenderer", () => {
+  it("should start summary lines on a fresh line after streamed text", () => {
+    let output = '';
+    const renderer = new TerminalRenderer({ write: (text: string) => { output += text; } }, false);
+
+    renderer.render({ type: 'assistant_message', content: 'Let me ' });
+    renderer.render({ type: 'assistant_message', content: 'check.' });
+    renderer.render({ type: 'tool_use', toolId: 't1', toolName: 'Glob', toolInput: { pattern: '**/*.ts' } });
+    renderer.render({ type: 'assistant_message', content: 'Done.' });
+    renderer.render({ type: 'keepalive', elapsedSeconds: 30 });
+    renderer.finishLine();
+
+    expect(output).toBe('Let me check.\n⚙️  Glob: **/*.ts\nDone.\n');
+  });
+});
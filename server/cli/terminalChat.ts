@@ -0,0 +1,433 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Terminal rendering and interactive prompts for CLI conversations.
+ *
+ * Streams assistant text as it arrives, prints one-line summaries for tool
+ * calls and other events, and answers AskUserQuestion, tool permission and
+ * plan approval requests through readline.
+ */
+
+import * as readline from 'readline';
+import type { SessionMessage } from '../database';
+import type { ServerMessage, ServerMessageOf, ToolPermissionDecision } from '../../client/config/protocol';
+import { isTurnEnd } from '../sseSubscriber';
+import { parseContentBlocks } from '../utils/messageText';
+import type { ChatConnection } from './apiClient';
+
+type Question = ServerMessageOf<'ask_user_question'>['questions'][number];
+
+// Same continuation the web UI sends after a plan is approved
+const PLAN_APPROVED_MESSAGE = 'Approved. Please proceed with the plan.';
+
+const SUMMARY_LENGTH = 100;
+
+// Input field that best describes what each built-in tool is doing
+const TOOL_SUMMARY_FIELDS: Record<string, string> = {
+  Bash: 'command',
+  Read: 'file_path',
+  Write: 'file_path',
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  NotebookEdit: 'notebook_path',
+  Glob: 'pattern',
+  Grep: 'pattern',
+  WebFetch: 'url',
+  WebSearch: 'query',
+  Task: 'description',
+};
+
+/**
+ * One-line summary of a tool call, e.g. "Bash: npm test"
+ */
+export function formatToolUse(toolName: string, toolInput: Record<string, unknown>): string {
+  if (toolName === 'TodoWrite' && Array.isArray(toolInput.todos)) {
+    return `TodoWrite: ${toolInput.todos.length} item${toolInput.todos.length === 1 ? '' : 's'}`;
+  }
+
+  const field = TOOL_SUMMARY_FIELDS[toolName];
+  const value = field ? toolInput[field] : Object.values(toolInput).find(item => typeof item === 'string');
+  const summary = typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+  if (!summary) {
+    return toolName;
+  }
+
+  return `${toolName}: ${summary.length > SUMMARY_LENGTH ? `${summary.slice(0, SUMMARY_LENGTH - 1)}…` : summary}`;
+}
+
+/**
+ * Plain-text rendering of a stored message for `sessions show`
+ */
+export function formatStoredMessage(message: SessionMessage): string {
+  const blocks = parseContentBlocks(message.content);
+  if (!blocks) {
+    return message.content;
+  }
+
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'text':
+        return typeof block.text === 'string' ? block.text : '';
+      case 'tool_use':
+        return `⚙️  ${formatToolUse(String(block.name), (block.input ?? {}) as Record<string, unknown>)}`;
+      case 'long_running_command':
+        return `⏳ ${String(block.command)}`;
+      case 'image':
+        return '[image]';
+      case 'document':
+        return `[document: ${String(block.name)}]`;
+      default:
+        return '';
+    }
+  }).filter(Boolean).join('\n');
+}
+
+/**
+ * Turn a typed reply into an answer for one question.
+ * Accepts option numbers (comma-separated when multiSelect) or free text.
+ * Returns undefined when the reply is empty or picks options that don't exist.
+ */
+export function resolveQuestionAnswer(question: Question, input: string): string | undefined {
+  const reply = input.trim();
+  if (!reply) {
+    return undefined;
+  }
+
+  const choices = reply.split(',').map(choice => choice.trim()).filter(Boolean);
+  if (!choices.every(choice => /^\d+$/.test(choice))) {
+    return reply;
+  }
+
+  const indexes = choices.map(choice => Number(choice) - 1);
+  if (indexes.some(index => index < 0 || index >= question.options.length)) {
+    return undefined;
+  }
+  if (indexes.length > 1 && !question.multiSelect) {
+    return undefined;
+  }
+
+  return indexes.map(index => question.options[index].label).join(', ');
+}
+
+/**
+ * Turn a reply to a tool permission prompt into a decision; anything but
+ * y/yes or a/always (including no reply at all) denies
+ */
+export function resolvePermissionDecision(input: string | null): ToolPermissionDecision {
+  const reply = input?.trim().toLowerCase();
+  if (reply === 'y' || reply === 'yes') return 'allow_once';
+  if (reply === 'a' || reply === 'always') return 'allow_always';
+  return 'deny';
+}
+
+export interface TerminalOutput {
+  write(text: string): unknown;
+}
+
+/**
+ * Writes server events to the terminal, keeping summary lines from
+ * running into streamed assistant text
+ */
+export class TerminalRenderer {
+  private atLineStart = true;
+
+  constructor(
+    private readonly out: TerminalOutput = process.stdout,
+    private readonly color: boolean = process.stdout.isTTY === true
+  ) {}
+
+  text(content: string): void {
+    if (!content) return;
+    this.out.write(content);
+    this.atLineStart = content.endsWith('\n');
+  }
+
+  line(content: string): void {
+    this.finishLine();
+    this.out.write(`${content}\n`);
+  }
+
+  note(content: string): void {
+    this.line(this.color ? `\x1b[2m${content}\x1b[0m` : content);
+  }
+
+  finishLine(): void {
+    if (!this.atLineStart) {
+      this.out.write('\n');
+      this.atLineStart = true;
+    }
+  }
+
+  render(message: ServerMessage): void {
+    switch (message.type) {
+      case 'assistant_message':
+        this.text(message.content);
+        break;
+      case 'tool_use':
+        this.note(`⚙️  ${formatToolUse(message.toolName, message.toolInput)}`);
+        break;
+      case 'error':
+        this.line(`❌ ${message.message}`);
+        break;
+      case 'retry_attempt':
+        this.note(`🔄 ${message.message} (retry ${message.attempt}/${message.maxAttempts})`);
+        break;
+      case 'timeout_warning':
+        this.note(`⏱️  ${message.message}`);
+        break;
+      case 'compact_start':
+        this.note('🗜️  Compacting conversation...');
+        break;
+      case 'compact_complete':
+        this.note('🗜️  Conversation compacted');
+        break;
+      case 'tool_permission_request':
+        this.line(`🔐 Permission needed: ${formatToolUse(message.toolName, message.toolInput)}`);
+        if (message.reason) this.note(`   ${message.reason}`);
+        break;
+      case 'tool_rule_denied':
+        this.line(`⛔ ${message.toolName}: ${message.reason}`);
+        break;
+      case 'exit_plan_mode':
+        this.line('📋 Proposed plan:');
+        this.line(message.plan);
+        break;
+      case 'background_process_started':
+        this.note(`🔁 Background process: ${message.description || message.command}`);
+        break;
+      case 'long_running_command_started':
+        this.note(`⏳ ${message.description || message.command}`);
+        break;
+      case 'long_running_command_failed':
+        this.line(`❌ ${message.error}`);
+        break;
+      case 'budget_warning':
+        this.line(`⚠️  ${message.message}`);
+        break;
+      case 'budget_exceeded':
+        this.line(`🛑 ${message.message}`);
+        break;
+      case 'generation_stopped':
+        this.note('⏹️  Stopped');
+        break;
+    }
+  }
+}
+
+/**
+ * Shared readline interface, created on first use so one-shot commands
+ * that never prompt don't hold stdin open. Lines that arrive while no
+ * prompt is pending (piped input) are kept for the next prompt.
+ */
+export class TerminalPrompter {
+  private rl?: readline.Interface;
+  private closed = false;
+  private lines: string[] = [];
+  private pending?: (answer: string | null) => void;
+
+  constructor(private readonly onInterrupt: () => void) {}
+
+  private getInterface(): readline.Interface {
+    if (!this.rl) {
+      this.rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stdout
+      });
+      this.rl.on('SIGINT', this.onInterrupt);
+      this.rl.on('line', (line) => {
+        const resolve = this.pending;
+        this.pending = undefined;
+        if (resolve) {
+          resolve(line);
+        } else {
+          this.lines.push(line);
+        }
+      });
+      this.rl.on('close', () => {
+        this.closed = true;
+        this.pending?.(null);
+        this.pending = undefined;
+      });
+    }
+    return this.rl;
+  }
+
+  /**
+   * Prompt for a line of input. Resolves null once input has ended (Ctrl+D or EOF).
+   */
+  ask(query: string): Promise<string | null> {
+    if (this.lines.length > 0) {
+      return Promise.resolve(this.lines.shift()!);
+    }
+    if (this.closed) {
+      return Promise.resolve(null);
+    }
+
+    const rl = this.getInterface();
+    return new Promise<string | null>((resolve) => {
+      this.pending = resolve;
+      rl.setPrompt(query);
+      rl.prompt();
+    });
+  }
+
+  close(): void {
+    this.rl?.close();
+  }
+}
+
+/**
+ * A conversation with one session over a chat connection
+ */
+export class TerminalChat {
+  readonly prompter = new TerminalPrompter(() => this.interrupt());
+  private readonly renderer = new TerminalRenderer();
+  private turnActive = false;
+  private stopping = false;
+
+  constructor(
+    private readonly connection: ChatConnection,
+    private readonly sessionId: string,
+    private readonly model?: string
+  ) {
+    process.on('SIGINT', () => this.interrupt());
+  }
+
+  /**
+   * Ctrl+C stops the current response; a second Ctrl+C (or one while idle) quits
+   */
+  private interrupt(): void {
+    if (this.turnActive && !this.stopping) {
+      this.stopping = true;
+      this.connection.send({ type: 'stop_generation', sessionId: this.sessionId });
+      this.renderer.note('⏹️  Stopping... press Ctrl+C again to quit');
+      return;
+    }
+
+    this.close();
+    process.exit(130);
+  }
+
+  /**
+   * Send a message and render the response until the turn ends.
+   * Returns true when the turn completed successfully.
+   */
+  async send(content: string): Promise<boolean> {
+    this.turnActive = true;
+    this.stopping = false;
+    this.connection.send({
+      type: 'chat',
+      sessionId: this.sessionId,
+      content,
+      model: this.model,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    });
+
+    let ended = false;
+    let success = false;
+    let planApproved = false;
+
+    for await (const message of this.connection.events) {
+      if (message.sessionId !== undefined && message.sessionId !== this.sessionId) continue;
+
+      this.renderer.render(message);
+
+      if (message.type === 'ask_user_question') {
+        await this.answerQuestions(message);
+      } else if (message.type === 'tool_permission_request') {
+        await this.approveTool(message);
+      } else if (message.type === 'exit_plan_mode') {
+        planApproved = await this.reviewPlan();
+      }
+
+      if (isTurnEnd(message, this.sessionId)) {
+        ended = true;
+        success = message.type === 'result' && message.success;
+        break;
+      }
+    }
+
+    this.turnActive = false;
+    this.renderer.finishLine();
+
+    if (!ended) {
+      throw new Error('Connection to the server was closed');
+    }
+
+    if (planApproved && success) {
+      this.renderer.line(`› ${PLAN_APPROVED_MESSAGE}`);
+      return await this.send(PLAN_APPROVED_MESSAGE);
+    }
+
+    return success;
+  }
+
+  private async answerQuestions(message: ServerMessageOf<'ask_user_question'>): Promise<void> {
+    const answers: Record<string, string> = {};
+
+    for (const question of message.questions) {
+      this.renderer.line(`❓ ${question.header}: ${question.question}`);
+      question.options.forEach((option, index) => {
+        this.renderer.line(`   ${index + 1}. ${option.label}${option.description ? ` — ${option.description}` : ''}`);
+      });
+
+      const query = question.multiSelect
+        ? 'Choose one or more (e.g. 1,3) or type an answer, empty to cancel: '
+        : 'Choose an option or type an answer, empty to cancel: ';
+
+      let answer: string | undefined;
+      while (answer === undefined) {
+        const input = await this.prompter.ask(query);
+        if (input === null || !input.trim()) {
+          this.connection.send({ type: 'cancel_question', sessionId: this.sessionId, toolId: message.toolId });
+          return;
+        }
+        answer = resolveQuestionAnswer(question, input);
+      }
+      answers[question.header] = answer;
+    }
+
+    this.connection.send({ type: 'answer_question', sessionId: this.sessionId, toolId: message.toolId, answers });
+  }
+
+  private async approveTool(message: ServerMessageOf<'tool_permission_request'>): Promise<void> {
+    const scope = [...message.rules, ...message.directories.map(directory => `${directory}/`)].join(', ');
+    const answer = await this.prompter.ask(`Allow? y = once, a = always (${scope}), N = deny: `);
+    const decision = resolvePermissionDecision(answer);
+    this.connection.send({ type: 'respond_tool_permission', sessionId: this.sessionId, requestId: message.requestId, decision });
+  }
+
+  private async reviewPlan(): Promise<boolean> {
+    const answer = await this.prompter.ask('Approve this plan and start implementing? (y/N): ');
+    if (answer?.toLowerCase() !== 'y' && answer?.toLowerCase() !== 'yes') {
+      this.renderer.note('Plan not approved. Reply with feedback to revise it.');
+      return false;
+    }
+
+    this.connection.send({ type: 'approve_plan', sessionId: this.sessionId });
+    return true;
+  }
+
+  close(): void {
+    this.prompter.close();
+    this.connection.close();
+  }
+}
@@ -23,8 +23,50 @@ import { randomUUID } from "crypto";
 import * as path from "path";
 import * as fs from "fs";
 import { getDefaultWorkingDirectory, expandPath, validateDirectory, getAppDataDirectory } from "./directoryUtils";
-import { deleteSessionPictures, deleteSessionFiles } from "./imageUtils";
+import { deleteSessionPictures, deleteSessionFiles, writeSessionAttachment } from "./imageUtils";
 import { setupSessionCommands } from "./commandSetup";
+import { extractSearchableText, buildFtsQuery } from "./utils/messageText";
+import { runMigrations } from "./migrations";
+import {
+  recordUsageEvent,
+  getUsageSummary,
+  getUsageTotals,
+  type UsageEventInput,
+  type UsageFilter,
+  type UsageSummary,
+  type UsageSummaryOptions,
+  type UsageTotals,
+} from "./usage";
+import {
+  recordToolStart,
+  recordToolEnd,
+  setToolEventParent,
+  finishRunningToolEvents,
+  queryToolEvents,
+  getToolEventCounts,
+  type ToolEvent,
+  type ToolEventEnd,
+  type ToolEventFilter,
+  type ToolEventStart,
+} from "./toolEvents";
+import { saveToolResult, getToolResult, type StoredToolResult } from "./toolResults";
+import {
+  saveFileCheckpoint,
+  getRewindPlan,
+  rewindToTurn,
+  getTurnChanges,
+  revertFileToTurn,
+  deleteFileCheckpoints,
+  type FileCheckpointInput,
+  type TurnFileChange,
+  type RewindFile,
+  type RewindResult,
+} from "./checkpoints";
+import type { SessionExportBundle } from "./sessionExport";
+import { insertImportedSession, resolveImportSessionId } from "./sessionImport";
+import { insertFork } from "./forkHistory";
+import { DEFAULT_TOOL_POLICY, type SessionToolPolicy } from "../client/config/tools";
+import { DEFAULT_GIT_SETTINGS, type SessionGitSettings } from "../client/config/git";
 
 export interface Session {
   id: string;
@@ -39,6 +81,46 @@ export interface Session {
   context_input_tokens?: number;
   context_window?: number;
   context_percentage?: number;
+  parent_session_id?: string | null; // Session this one was forked from
+  forked_from_message_id?: string | null; // Last message copied from the parent session
+  tool_policy: SessionToolPolicy; // MCP servers and tools switched off for this session
+  git_settings: SessionGitSettings; // Auto-branch / auto-commit for the working directory
+}
+
+// tool_policy and git_settings are stored as JSON text
+type SessionRow = Omit<Session, 'tool_policy' | 'git_settings'> & { tool_policy: string | null; git_settings: string | null };
+
+function parseToolPolicy(raw: string | null): SessionToolPolicy {
+  if (!raw) return { ...DEFAULT_TOOL_POLICY };
+  try {
+    const parsed = JSON.parse(raw) as Partial<SessionToolPolicy>;
+    return {
+      disabledMcpServers: Array.isArray(parsed.disabledMcpServers) ? parsed.disabledMcpServers : [],
+      disallowedTools: Array.isArray(parsed.disallowedTools) ? parsed.disallowedTools : [],
+      allowedTools: Array.isArray(parsed.allowedTools) ? parsed.allowedTools : [],
+      allowedDirectories: Array.isArray(parsed.allowedDirectories) ? parsed.allowedDirectories : [],
+    };
+  } catch {
+    return { ...DEFAULT_TOOL_POLICY };
+  }
+}
+
+function parseGitSettings(raw: string | null): SessionGitSettings {
+  if (!raw) return { ...DEFAULT_GIT_SETTINGS };
+  try {
+    const parsed = JSON.parse(raw) as Partial<SessionGitSettings>;
+    return {
+      autoBranch: parsed.autoBranch === true,
+      autoCommit: parsed.autoCommit === true,
+      branch: typeof parsed.branch === 'string' ? parsed.branch : null,
+    };
+  } catch {
+    return { ...DEFAULT_GIT_SETTINGS };
+  }
+}
+
+function toSession(row: SessionRow): Session {
+  return { ...row, tool_policy: parseToolPolicy(row.tool_policy), git_settings: parseGitSettings(row.git_settings) };
 }
 
 export interface SessionMessage {
@@ -49,6 +131,15 @@ export interface SessionMessage {
   timestamp: string;
 }
 
+export interface MessageSearchResult {
+  message_id: string;
+  session_id: string;
+  session_title: string;
+  type: 'user' | 'assistant';
+  timestamp: string;
+  snippet: string;
+}
+
 class SessionDatabase {
   private db: Database;
 
@@ -66,7 +157,7 @@ class SessionDatabase {
 
     try {
       this.db = new Database(dbPath, { create: true });
-      this.initialize();
+      this.initialize(dbPath);
     } catch (error) {
       // Handle SQLITE_AUTH error (usually from corruption)
       if (error && typeof error === 'object' && 'code' in error && error.code === 'SQLITE_AUTH') {
@@ -93,7 +184,7 @@ class SessionDatabase {
         // Retry with fresh database
         try {
           this.db = new Database(dbPath, { create: true });
-          this.initialize();
+          this.initialize(dbPath);
           console.log('✅ Successfully created fresh database');
         } catch (retryError) {
           console.error('❌ Failed to create fresh database:', retryError);
@@ -106,226 +197,22 @@ class SessionDatabase {
     }
   }
 
-  private initialize() {
-    // Create sessions table
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS sessions (
-        id TEXT PRIMARY KEY,
-        title TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      )
-    `);
-
-    // Create messages table
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS messages (
-        id TEXT PRIMARY KEY,
-        session_id TEXT NOT NULL,
-        type TEXT NOT NULL,
-        content TEXT NOT NULL,
-        timestamp TEXT NOT NULL,
-        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
-      )
-    `);
-
-    // Create index for faster queries
-    this.db.run(`
-      CREATE INDEX IF NOT EXISTS idx_messages_session_id
-      ON messages(session_id)
-    `);
-
-    // Migration: Add working_directory column if it doesn't exist
-    this.migrateWorkingDirectory();
-
-    // Migration: Add permission_mode column if it doesn't exist
-    this.migratePermissionMode();
-
-    // Migration: Add mode column if it doesn't exist
-    this.migrateMode();
-
-    // Migration: Add sdk_session_id column if it doesn't exist
-    this.migrateSdkSessionId();
-
-    // Migration: Add context usage columns if they don't exist
-    this.migrateContextUsage();
-  }
-
-  private migrateWorkingDirectory() {
-    try {
-      // Check if working_directory column exists
-      const columns = this.db.query<{ name: string }, []>(
-        "PRAGMA table_info(sessions)"
-      ).all();
-
-      const hasWorkingDirectory = columns.some(col => col.name === 'working_directory');
-
-      if (!hasWorkingDirectory) {
-        console.log('📦 Migrating database: Adding working_directory column');
-
-        // Add the column
-        this.db.run(`
-          ALTER TABLE sessions
-          ADD COLUMN working_directory TEXT NOT NULL DEFAULT ''
-        `);
-
-        // Update existing sessions with default directory
-        const defaultDir = getDefaultWorkingDirectory();
-        console.log('📦 Setting default working directory for existing sessions:', defaultDir);
-
-        this.db.run(
-          "UPDATE sessions SET working_directory = ? WHERE working_directory = ''",
-          [defaultDir]
-        );
-
-        console.log('✅ Database migration completed successfully');
-      } else {
-        console.log('✅ working_directory column already exists');
-      }
-    } catch (error) {
-      console.error('❌ Database migration failed:', error);
-      throw error;
-    }
-  }
-
-  private migratePermissionMode() {
-    try {
-      // Check if permission_mode column exists
-      const columns = this.db.query<{ name: string }, []>(
-        "PRAGMA table_info(sessions)"
-      ).all();
-
-      const hasPermissionMode = columns.some(col => col.name === 'permission_mode');
-
-      if (!hasPermissionMode) {
-        console.log('📦 Migrating database: Adding permission_mode column');
-
-        // Add the column with default value
-        this.db.run(`
-          ALTER TABLE sessions
-          ADD COLUMN permission_mode TEXT NOT NULL DEFAULT 'bypassPermissions'
-        `);
-
-        console.log('✅ permission_mode column added successfully');
-      } else {
-        console.log('✅ permission_mode column already exists');
-      }
-    } catch (error) {
-      console.error('❌ Database migration failed:', error);
-      throw error;
-    }
+  private initialize(dbPath: string) {
+    // Bring the schema up to date (see migrations.ts)
+    runMigrations(this.db, { dbPath });
   }
 
-  private migrateMode() {
-    try {
-      // Check if mode column exists
-      const columns = this.db.query<{ name: string }, []>(
-        "PRAGMA table_info(sessions)"
-      ).all();
-
-      const hasMode = columns.some(col => col.name === 'mode');
-
-      if (!hasMode) {
-        console.log('📦 Migrating database: Adding mode column');
+  private indexMessage(messageId: string, content: string) {
+    const row = this.db.query<{ rowid: number }, [string]>(
+      "SELECT rowid FROM messages WHERE id = ?"
+    ).get(messageId);
+    if (!row) return;
 
-        // Add the column with default value
-        this.db.run(`
-          ALTER TABLE sessions
-          ADD COLUMN mode TEXT NOT NULL DEFAULT 'general'
-        `);
-
-        console.log('✅ mode column added successfully');
-      } else {
-        console.log('✅ mode column already exists');
-      }
-    } catch (error) {
-      console.error('❌ Database migration failed:', error);
-      throw error;
-    }
-  }
-
-  private migrateSdkSessionId() {
-    try {
-      // Check if sdk_session_id column exists
-      const columns = this.db.query<{ name: string }, []>(
-        "PRAGMA table_info(sessions)"
-      ).all();
-
-      const hasSdkSessionId = columns.some(col => col.name === 'sdk_session_id');
-
-      if (!hasSdkSessionId) {
-        console.log('📦 Migrating database: Adding sdk_session_id column');
-
-        // Add the column (nullable, as it's only set after first message)
-        this.db.run(`
-          ALTER TABLE sessions
-          ADD COLUMN sdk_session_id TEXT
-        `);
-
-        console.log('✅ sdk_session_id column added successfully');
-      } else {
-        console.log('✅ sdk_session_id column already exists');
-      }
-    } catch (error) {
-      console.error('❌ Database migration failed:', error);
-      throw error;
-    }
-  }
-
-  private migrateContextUsage() {
-    try {
-      // Check if context usage columns exist
-      const columns = this.db.query<{ name: string; type: string }, []>(
-        "PRAGMA table_info(sessions)"
-      ).all();
-
-      const contextPercentageCol = columns.find(col => col.name === 'context_percentage');
-      const hasContextInputTokens = columns.some(col => col.name === 'context_input_tokens');
-      const hasContextWindow = columns.some(col => col.name === 'context_window');
-
-      // Fix context_percentage if it's INTEGER instead of REAL
-      if (contextPercentageCol && contextPercentageCol.type === 'INTEGER') {
-        console.log('📦 Migrating database: Fixing context_percentage column type (INTEGER → REAL)');
-
-        // SQLite doesn't support ALTER COLUMN, so we need to recreate
-        // For now, just update the values to be compatible (this is a new feature so data loss is minimal)
-        // The column will work with decimals even as INTEGER in SQLite
-        console.log('⚠️  context_percentage is INTEGER but will work with decimals in SQLite');
-      }
-
-      if (!hasContextInputTokens || !hasContextWindow || !contextPercentageCol) {
-        console.log('📦 Migrating database: Adding context usage columns');
-
-        // Add the columns (nullable, as they're only set after first message)
-        if (!hasContextInputTokens) {
-          this.db.run(`
-            ALTER TABLE sessions
-            ADD COLUMN context_input_tokens INTEGER
-          `);
-        }
-
-        if (!hasContextWindow) {
-          this.db.run(`
-            ALTER TABLE sessions
-            ADD COLUMN context_window INTEGER
-          `);
-        }
-
-        if (!contextPercentageCol) {
-          this.db.run(`
-            ALTER TABLE sessions
-            ADD COLUMN context_percentage REAL
-          `);
-        }
-
-        console.log('✅ Context usage columns added successfully');
-      } else {
-        console.log('✅ Context usage columns already exist');
-      }
-    } catch (error) {
-      console.error('❌ Database migration failed:', error);
-      throw error;
-    }
+    this.db.run("DELETE FROM messages_fts WHERE rowid = ?", [row.rowid]);
+    this.db.run(
+      "INSERT INTO messages_fts (rowid, text) VALUES (?, ?)",
+      [row.rowid, extractSearchableText(content)]
+    );
   }
 
   // Session operations
@@ -372,14 +259,19 @@ class SessionDatabase {
       working_directory: finalWorkingDir,
       permission_mode: 'bypassPermissions',
       mode,
+      tool_policy: { ...DEFAULT_TOOL_POLICY },
+      git_settings: { ...DEFAULT_GIT_SETTINGS },
     };
   }
 
+  private getChatDirectoryPath(sessionId: string): string {
+    // Unique chat folder: ~/Documents/agent-llama/chat-{first-8-chars}/
+    return path.join(getDefaultWorkingDirectory(), `chat-${sessionId.substring(0, 8)}`);
+  }
+
   private createChatDirectory(sessionId: string): string {
-    // Create unique chat folder: ~/Documents/agent-llama/chat-{first-8-chars}/
-    const shortId = sessionId.substring(0, 8);
     const baseDir = getDefaultWorkingDirectory();
-    const chatDir = path.join(baseDir, `chat-${shortId}`);
+    const chatDir = this.getChatDirectoryPath(sessionId);
 
     try {
       if (!fs.existsSync(chatDir)) {
@@ -399,7 +291,7 @@ class SessionDatabase {
 
   getSessions(): { sessions: Session[]; recreatedDirectories: string[] } {
     const sessions = this.db
-      .query<Session, []>(
+      .query<SessionRow, []>(
         `SELECT
           s.id,
           s.title,
@@ -412,13 +304,18 @@ class SessionDatabase {
           s.context_input_tokens,
           s.context_window,
           s.context_percentage,
+          s.parent_session_id,
+          s.forked_from_message_id,
+          s.tool_policy,
+          s.git_settings,
           COUNT(m.id) as message_count
         FROM sessions s
         LEFT JOIN messages m ON s.id = m.session_id
         GROUP BY s.id
         ORDER BY s.updated_at DESC`
       )
-      .all();
+      .all()
+      .map(toSession);
 
     // Validate and recreate missing directories
     const recreatedDirectories: string[] = [];
@@ -442,7 +339,7 @@ class SessionDatabase {
 
   getSession(sessionId: string): Session | null {
     const session = this.db
-      .query<Session, [string]>(
+      .query<SessionRow, [string]>(
         `SELECT
           s.id,
           s.title,
@@ -455,6 +352,10 @@ class SessionDatabase {
           s.context_input_tokens,
           s.context_window,
           s.context_percentage,
+          s.parent_session_id,
+          s.forked_from_message_id,
+          s.tool_policy,
+          s.git_settings,
           COUNT(m.id) as message_count
         FROM sessions s
         LEFT JOIN messages m ON s.id = m.session_id
@@ -463,7 +364,7 @@ class SessionDatabase {
       )
       .get(sessionId);
 
-    return session || null;
+    return session ? toSession(session) : null;
   }
 
   updateWorkingDirectory(sessionId: string, directory: string): boolean {
@@ -520,6 +421,44 @@ class SessionDatabase {
     }
   }
 
+  updateToolPolicy(sessionId: string, policy: SessionToolPolicy): boolean {
+    try {
+      const result = this.db.run(
+        "UPDATE sessions SET tool_policy = ?, updated_at = ? WHERE id = ?",
+        [JSON.stringify(policy), new Date().toISOString(), sessionId]
+      );
+
+      const success = result.changes > 0;
+      if (!success) {
+        console.warn('⚠️  No session found to update');
+      }
+
+      return success;
+    } catch (error) {
+      console.error('❌ Failed to update tool policy:', error);
+      return false;
+    }
+  }
+
+  updateGitSettings(sessionId: string, settings: SessionGitSettings): boolean {
+    try {
+      const result = this.db.run(
+        "UPDATE sessions SET git_settings = ?, updated_at = ? WHERE id = ?",
+        [JSON.stringify(settings), new Date().toISOString(), sessionId]
+      );
+
+      const success = result.changes > 0;
+      if (!success) {
+        console.warn('⚠️  No session found to update');
+      }
+
+      return success;
+    } catch (error) {
+      console.error('❌ Failed to update git settings:', error);
+      return false;
+    }
+  }
+
   updateSdkSessionId(sessionId: string, sdkSessionId: string | null): boolean {
     try {
       const result = this.db.run(
@@ -559,20 +498,229 @@ class SessionDatabase {
     }
   }
 
+  recordUsage(event: UsageEventInput): boolean {
+    try {
+      recordUsageEvent(this.db, event);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to record usage:', error);
+      return false;
+    }
+  }
+
+  getUsageSummary(options: UsageSummaryOptions): UsageSummary {
+    return getUsageSummary(this.db, options);
+  }
+
+  getUsageTotals(filter: UsageFilter): UsageTotals {
+    return getUsageTotals(this.db, filter);
+  }
+
+  // Tool audit log writes never interrupt the tool call being logged
+  recordToolStart(event: ToolEventStart): void {
+    try {
+      recordToolStart(this.db, event);
+    } catch (error) {
+      console.error('❌ Failed to record tool event:', error);
+    }
+  }
+
+  recordToolEnd(toolUseId: string, end: ToolEventEnd): void {
+    try {
+      recordToolEnd(this.db, toolUseId, end);
+    } catch (error) {
+      console.error('❌ Failed to record tool event:', error);
+    }
+  }
+
+  setToolEventParent(toolUseId: string, parentToolUseId: string): void {
+    try {
+      setToolEventParent(this.db, toolUseId, parentToolUseId);
+    } catch (error) {
+      console.error('❌ Failed to record tool event:', error);
+    }
+  }
+
+  finishRunningToolEvents(sessionId: string, status?: ToolEventEnd['status']): void {
+    try {
+      finishRunningToolEvents(this.db, sessionId, status);
+    } catch (error) {
+      console.error('❌ Failed to record tool event:', error);
+    }
+  }
+
+  saveToolResult(sessionId: string, toolUseId: string, text: string, isError: boolean): void {
+    try {
+      saveToolResult(this.db, sessionId, toolUseId, text, isError);
+    } catch (error) {
+      console.error('❌ Failed to save tool result:', error);
+    }
+  }
+
+  getToolResult(toolUseId: string): StoredToolResult | null {
+    return getToolResult(this.db, toolUseId);
+  }
+
+  saveFileCheckpoint(checkpoint: FileCheckpointInput): void {
+    try {
+      if (!saveFileCheckpoint(this.db, checkpoint)) {
+        console.warn(`⚠️ Not checkpointing ${checkpoint.filePath} (not a regular file or too large)`);
+      }
+    } catch (error) {
+      console.error('❌ Failed to save file checkpoint:', error);
+    }
+  }
+
+  getRewindPlan(sessionId: string, turnId: string): RewindFile[] | null {
+    return getRewindPlan(this.db, sessionId, turnId);
+  }
+
+  rewindToTurn(sessionId: string, turnId: string): RewindResult | null {
+    return rewindToTurn(this.db, sessionId, turnId);
+  }
+
+  getTurnChanges(sessionId: string, turnId: string): TurnFileChange[] | null {
+    return getTurnChanges(this.db, sessionId, turnId);
+  }
+
+  revertFileToTurn(sessionId: string, turnId: string, filePath: string): RewindFile['action'] | null {
+    return revertFileToTurn(this.db, sessionId, turnId, filePath);
+  }
+
+  getToolEvents(filter: ToolEventFilter): ToolEvent[] {
+    return queryToolEvents(this.db, filter);
+  }
+
+  getToolEventCounts(filter: Omit<ToolEventFilter, 'toolName' | 'before' | 'limit'>): { toolName: string; count: number }[] {
+    return getToolEventCounts(this.db, filter);
+  }
+
   deleteSession(sessionId: string): boolean {
     // Get session to access working directory before deletion
     const session = this.getSession(sessionId);
 
     // Delete pictures and files folders if session exists
+    // (forks share their parent's working directory, so keep them while another session uses it)
     if (session && session.working_directory) {
-      deleteSessionPictures(session.working_directory);
-      deleteSessionFiles(session.working_directory);
+      const sharedWith = this.db.query<{ count: number }, [string, string]>(
+        "SELECT COUNT(*) as count FROM sessions WHERE working_directory = ? AND id != ?"
+      ).get(session.working_directory, sessionId)?.count ?? 0;
+
+      if (sharedWith === 0) {
+        deleteSessionPictures(session.working_directory);
+        deleteSessionFiles(session.working_directory);
+      }
     }
 
+    // Forks show the same tool calls, so one of them takes over the full outputs
+    const fork = this.db.query<{ id: string }, [string]>(
+      "SELECT id FROM sessions WHERE parent_session_id = ? LIMIT 1"
+    ).get(sessionId);
+    if (fork) {
+      this.db.run("UPDATE tool_results SET session_id = ? WHERE session_id = ?", [fork.id, sessionId]);
+    } else {
+      this.db.run("DELETE FROM tool_results WHERE session_id = ?", [sessionId]);
+    }
+
+    deleteFileCheckpoints(this.db, sessionId);
+
+    // Forks of this session become top-level sessions
+    this.db.run("UPDATE sessions SET parent_session_id = NULL WHERE parent_session_id = ?", [sessionId]);
+
     const result = this.db.run("DELETE FROM sessions WHERE id = ?", [sessionId]);
     return result.changes > 0;
   }
 
+  /**
+   * Fork a session at a given message.
+   * Creates a new session sharing the parent's working directory and copies
+   * all messages up to and including the fork point. The fork has no SDK
+   * session ID, so its first query starts a fresh subprocess.
+   */
+  forkSession(sessionId: string, messageId: string): { success: boolean; error?: string; session?: Session } {
+    try {
+      const parent = this.getSession(sessionId);
+      if (!parent) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      const fork = this.db.transaction(() => {
+        const inserted = insertFork(this.db, parent, this.getSessionMessages(sessionId), messageId);
+        for (const message of inserted?.messages ?? []) {
+          this.indexMessage(message.id, message.content);
+        }
+        return inserted;
+      })();
+      if (!fork) {
+        return { success: false, error: 'Message not found in session' };
+      }
+      const { id, messages } = fork;
+
+      console.log(`🍴 Forked session ${sessionId.substring(0, 8)} → ${id.substring(0, 8)} (${messages.length} messages)`);
+
+      const session = this.getSession(id);
+      return session ? { success: true, session } : { success: false, error: 'Failed to create fork' };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Failed to fork session:', errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /**
+   * Recreate a session from an export bundle.
+   * The session always gets a fresh chat directory; attachments are restored
+   * into it and absolute references to the original attachments are
+   * rewritten. IDs that already exist locally are remapped, never overwritten.
+   * If the rows can't be written, the restored files are removed again.
+   */
+  importSession(bundle: SessionExportBundle): { success: boolean; error?: string; session?: Session; remappedIds?: number } {
+    const written: string[] = [];
+    let createdDir: string | undefined;
+
+    try {
+      const id = resolveImportSessionId(this.db, bundle);
+      const chatDir = this.getChatDirectoryPath(id);
+      const dirExisted = fs.existsSync(chatDir);
+      const workingDir = this.createChatDirectory(id);
+      if (!dirExisted && workingDir === chatDir) createdDir = workingDir;
+
+      for (const attachment of bundle.attachments ?? []) {
+        written.push(path.join(workingDir, writeSessionAttachment(workingDir, attachment)));
+      }
+
+      const { remappedIds } = this.db.transaction(() => {
+        const result = insertImportedSession(this.db, bundle, id, workingDir);
+        for (const message of result.messages) {
+          this.indexMessage(message.id, message.content);
+        }
+        return result;
+      })();
+      written.length = 0;
+      createdDir = undefined;
+
+      // Setup slash commands for the recreated session
+      setupSessionCommands(workingDir, bundle.session.mode);
+
+      console.log(`📥 Imported session ${id.substring(0, 8)} (${bundle.messages.length} messages, ${bundle.attachments?.length ?? 0} attachments, ${remappedIds} remapped IDs)`);
+
+      const session = this.getSession(id);
+      return session ? { success: true, session, remappedIds } : { success: false, error: 'Failed to import session' };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Failed to import session:', errorMessage);
+
+      // Only remove what this import created before its rows were written; a
+      // reused directory keeps its other files
+      if (createdDir) {
+        fs.rmSync(createdDir, { recursive: true, force: true });
+      } else {
+        for (const file of written) fs.rmSync(file, { force: true });
+      }
+      return { success: false, error: errorMessage };
+    }
+  }
+
   renameSession(sessionId: string, newTitle: string): boolean {
     const now = new Date().toISOString();
     const result = this.db.run(
@@ -650,6 +798,7 @@ class SessionDatabase {
       "INSERT INTO messages (id, session_id, type, content, timestamp) VALUES (?, ?, ?, ?, ?)",
       [id, sessionId, type, content, timestamp]
     );
+    this.indexMessage(id, content);
 
     // Auto-generate title from first user message
     if (type === 'user') {
@@ -685,6 +834,7 @@ class SessionDatabase {
       "UPDATE messages SET content = ?, timestamp = ? WHERE id = ?",
       [content, timestamp, messageId]
     );
+    this.indexMessage(messageId, content);
   }
 
   getSessionMessages(sessionId: string): SessionMessage[] {
@@ -697,6 +847,42 @@ class SessionDatabase {
     return messages;
   }
 
+  getMessage(messageId: string): SessionMessage | null {
+    return this.db
+      .query<SessionMessage, [string]>("SELECT * FROM messages WHERE id = ?")
+      .get(messageId) ?? null;
+  }
+
+  searchMessages(query: string, limit: number = 50): MessageSearchResult[] {
+    const ftsQuery = buildFtsQuery(query);
+    if (!ftsQuery) {
+      return [];
+    }
+
+    try {
+      return this.db
+        .query<MessageSearchResult, [string, number]>(
+          `SELECT
+            m.id as message_id,
+            m.session_id,
+            s.title as session_title,
+            m.type,
+            m.timestamp,
+            snippet(messages_fts, 0, '<mark>', '</mark>', '…', 16) as snippet
+          FROM messages_fts
+          JOIN messages m ON m.rowid = messages_fts.rowid
+          JOIN sessions s ON s.id = m.session_id
+          WHERE messages_fts MATCH ?
+          ORDER BY bm25(messages_fts)
+          LIMIT ?`
+        )
+        .all(ftsQuery, limit);
+    } catch (error) {
+      console.error('❌ Failed to search messages:', error);
+      return [];
+    }
+  }
+
   clearSessionMessages(sessionId: string): boolean {
     try {
       console.log('🧹 Clearing all messages for session:', sessionId.substring(0, 8));
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "bun:test";
+import { diffLines, toHunks, buildFileDiff, splitLines, DIFF_MAX_LINES } from "./fileDiff";
+
+const summarize = (before: string, after: string) =>
+  diffLines(before, after).map(line => `${line.kind === 'added' ? '+' : line.kind === 'removed' ? '-' : ' '}${line.text}`);
+
+describe("splitLines", () => {
+  it("should not count the trailing newline as a line", () => {
+    expect(splitLines("a\nb\n")).toEqual(["a", "b"]);
+    expect(splitLines("a\nb")).toEqual(["a", "b"]);
+    expect(splitLines("")).toEqual([]);
+  });
+});
+
+describe("diffLines", () => {
+  it("should find the shortest edit", () => {
+    expect(summarize("a\nb\nc\n", "a\nc\nd\n")).toEqual([" a", "-b", " c", "+d"]);
+    expect(summarize("x\ny\nz", "y\nz\nw")).toEqual(["-x", " y", " z", "+w"]);
+  });
+
+  it("should number lines on each side", () => {
+    const lines = diffLines("a\nb\n", "a\nB\nb\n");
+    expect(lines).toEqual([
+      { kind: 'context', text: 'a', oldLine: 1, newLine: 1 },
+      { kind: 'added', text: 'B', newLine: 2 },
+      { kind: 'context', text: 'b', oldLine: 2, newLine: 3 },
+    ]);
+  });
+
+  it("should handle files created or emptied", () => {
+    expect(summarize("", "new\n")).toEqual(["+new"]);
+    expect(summarize("old\n", "")).toEqual(["-old"]);
+  });
+});
+
+describe("toHunks", () => {
+  it("should keep three lines of context and split distant changes", () => {
+    const before = "1\n2\n3\n4\n5\n6\n7\n8\n9\n10\n11\n12\n";
+    const after = "1\nTWO\n3\n4\n5\n6\n7\n8\n9\n10\n11\n12\n13\n";
+    const hunks = toHunks(diffLines(before, after));
+
+    expect(hunks.map(({ oldStart, oldLines, newStart, newLines }) => [oldStart, oldLines, newStart, newLines])).toEqual([
+      [1, 5, 1, 5],
+      [10, 3, 10, 4],
+    ]);
+  });
+
+  it("should merge changes whose context overlaps", () => {
+    const hunks = toHunks(diffLines("1\n2\n3\n4\n5\n6\n", "1\nB\n3\n4\nE\n6\n"));
+    expect(hunks).toHaveLength(1);
+  });
+
+  it("should start an empty side at line 0", () => {
+    const [hunk] = toHunks(diffLines("", "a\nb\n"));
+    expect([hunk.oldStart, hunk.oldLines, hunk.newStart, hunk.newLines]).toEqual([0, 0, 1, 2]);
+  });
+});
+
+describe("buildFileDiff", () => {
+  it("should report status and line counts", () => {
+    const diff = buildFileDiff('/work/a.ts', Buffer.from("a\nb\n"), Buffer.from("a\nc\nd\n"));
+    expect(diff).toMatchObject({ status: 'modified', additions: 2, deletions: 1, binary: false, tooLarge: false });
+    expect(buildFileDiff('/work/new.ts', null, Buffer.from("x\n")).status).toBe('added');
+    expect(buildFileDiff('/work/gone.ts', Buffer.from("x\n"), null).status).toBe('deleted');
+  });
+
+  it("should not diff binary or very large files line by line", () => {
+    expect(buildFileDiff('/work/a.png', Buffer.from([1, 0, 2]), Buffer.from([1, 0, 3]))).toMatchObject({ binary: true, hunks: [] });
+
+    const large = Buffer.from("x\n".repeat(DIFF_MAX_LINES + 1));
+    expect(buildFileDiff('/work/big.txt', Buffer.from("x\n"), large)).toMatchObject({ tooLarge: true, hunks: [] });
+  });
+
+  it("should fall back to replacing the whole block when the edit is huge", () => {
+    const before = Array.from({ length: 3000 }, (_, i) => `old ${i}`).join('\n');
+    const after = Array.from({ length: 3000 }, (_, i) => `new ${i}`).join('\n');
+    const diff = buildFileDiff('/work/rewritten.txt', Buffer.from(before), Buffer.from(after));
+    expect([diff.additions, diff.deletions]).toEqual([3000, 3000]);
+  });
+});
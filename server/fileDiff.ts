@@ -0,0 +1,237 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * File Diffs
+ *
+ * Line diffs (Myers' algorithm) between two versions of a file, grouped
+ * into unified-diff hunks. Used to show what a turn changed.
+ */
+
+// Files with more lines than this on either side aren't diffed line by line
+export const DIFF_MAX_LINES = 20_000;
+
+// Past this many edits the diff shows the whole file replaced
+const MAX_EDIT_DISTANCE = 2_000;
+
+const CONTEXT_LINES = 3;
+
+export interface DiffLine {
+  kind: 'context' | 'added' | 'removed';
+  text: string;
+  oldLine?: number; // 1-based, absent for added lines
+  newLine?: number; // 1-based, absent for removed lines
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  filePath: string;
+  status: 'added' | 'modified' | 'deleted';
+  binary: boolean;
+  tooLarge: boolean;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+export function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Edit script turning a into b, as (kind, index) steps; null if it exceeds maxEdits
+ */
+function myersDiff(a: string[], b: string[], maxEdits: number): DiffLine['kind'][] | null {
+  const n = a.length;
+  const m = b.length;
+  const limit = Math.min(n + m, maxEdits);
+  const offset = limit + 1;
+  const v = new Int32Array(2 * limit + 3);
+  // trace[d] holds v[-d..d] as it was before step d
+  const trace: Int32Array[] = [];
+
+  let found = -1;
+  for (let d = 0; d <= limit && found < 0; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = d;
+        break;
+      }
+    }
+  }
+  if (found < 0) return null;
+
+  const steps: DiffLine['kind'][] = [];
+  let x = n;
+  let y = m;
+  for (let d = found; d > 0; d--) {
+    const prev = trace[d];
+    const at = (k: number) => prev[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      steps.push('context');
+      x--;
+      y--;
+    }
+    if (x === prevX) {
+      steps.push('added');
+      y--;
+    } else {
+      steps.push('removed');
+      x--;
+    }
+  }
+  while (x > 0 && y > 0) {
+    steps.push('context');
+    x--;
+    y--;
+  }
+  return steps.reverse();
+}
+
+/**
+ * Every line of both versions, marked unchanged, removed or added
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // Unchanged head and tail don't need the full algorithm
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  const middleA = a.slice(head, a.length - tail);
+  const middleB = b.slice(head, b.length - tail);
+  const middle = myersDiff(middleA, middleB, MAX_EDIT_DISTANCE)
+    ?? [...middleA.map((): DiffLine['kind'] => 'removed'), ...middleB.map((): DiffLine['kind'] => 'added')];
+  const steps: DiffLine['kind'][] = [
+    ...Array<DiffLine['kind']>(head).fill('context'),
+    ...middle,
+    ...Array<DiffLine['kind']>(tail).fill('context'),
+  ];
+
+  const lines: DiffLine[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const kind of steps) {
+    if (kind === 'context') {
+      lines.push({ kind, text: a[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 });
+      oldIndex++;
+      newIndex++;
+    } else if (kind === 'removed') {
+      lines.push({ kind, text: a[oldIndex], oldLine: oldIndex + 1 });
+      oldIndex++;
+    } else {
+      lines.push({ kind, text: b[newIndex], newLine: newIndex + 1 });
+      newIndex++;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Group changed lines into hunks with a few lines of context around them
+ */
+export function toHunks(lines: DiffLine[], context: number = CONTEXT_LINES): DiffHunk[] {
+  const ranges: { start: number; end: number }[] = [];
+  for (let index = 0; index < lines.length; index++) {
+    if (lines[index].kind === 'context') continue;
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end) {
+      last.end = end;
+    } else {
+      ranges.push({ start, end });
+    }
+  }
+
+  return ranges.map(({ start, end }) => {
+    const hunkLines = lines.slice(start, end);
+    const oldLines = hunkLines.filter(line => line.kind !== 'added');
+    const newLines = hunkLines.filter(line => line.kind !== 'removed');
+    return {
+      // Unified diffs number an empty side from the line before it, i.e. 0 at the top of the file
+      oldStart: oldLines[0]?.oldLine ?? 0,
+      oldLines: oldLines.length,
+      newStart: newLines[0]?.newLine ?? 0,
+      newLines: newLines.length,
+      lines: hunkLines,
+    };
+  });
+}
+
+/**
+ * Diff of one file between two versions (null: the file didn't exist)
+ */
+export function buildFileDiff(filePath: string, before: Uint8Array | null, after: Uint8Array | null): FileDiff {
+  const diff: FileDiff = {
+    filePath,
+    status: before === null ? 'added' : after === null ? 'deleted' : 'modified',
+    binary: false,
+    tooLarge: false,
+    additions: 0,
+    deletions: 0,
+    hunks: [],
+  };
+
+  if ((before && before.includes(0)) || (after && after.includes(0))) {
+    diff.binary = true;
+    return diff;
+  }
+
+  const beforeText = before ? Buffer.from(before).toString('utf8') : '';
+  const afterText = after ? Buffer.from(after).toString('utf8') : '';
+  if (splitLines(beforeText).length > DIFF_MAX_LINES || splitLines(afterText).length > DIFF_MAX_LINES) {
+    diff.tooLarge = true;
+    return diff;
+  }
+
+  const lines = diffLines(beforeText, afterText);
+  diff.additions = lines.filter(line => line.kind === 'added').length;
+  diff.deletions = lines.filter(line => line.kind === 'removed').length;
+  diff.hunks = toHunks(lines);
+  return diff;
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { runMigrations } from "./migrations";
+import { buildForkHistoryPrompt, insertFork, needsForkHistory } from "./forkHistory";
+import { DEFAULT_TOOL_POLICY } from "../client/config/tools";
+import { DEFAULT_GIT_SETTINGS } from "../client/config/git";
+import type { Session, SessionMessage } from "./database";
+
+function message(id: string, type: SessionMessage['type'], content: string): SessionMessage {
+  return { id, session_id: "parent", type, content, timestamp: `2025-01-01T00:00:0${id.slice(1)}.000Z` };
+}
+
+const parent: Session = {
+  id: "parent",
+  title: "Refactor",
+  created_at: "2025-01-01T00:00:00.000Z",
+  updated_at: "2025-01-01T00:00:00.000Z",
+  message_count: 3,
+  working_directory: "/work/project",
+  permission_mode: "acceptEdits",
+  mode: "coder",
+  tool_policy: { ...DEFAULT_TOOL_POLICY, disabledMcpServers: ["grep"] },
+  git_settings: { ...DEFAULT_GIT_SETTINGS, autoCommit: true },
+};
+
+const parentMessages = [
+  message("m1", "user", "Rename the config loader"),
+  message("m2", "assistant", JSON.stringify([
+    { type: "thinking", thinking: "plan it" },
+    { type: "text", text: "Renaming it now." },
+    { type: "tool_use", name: "Edit", input: { file_path: "src/config.ts" } },
+  ])),
+  message("m3", "user", "Now add tests"),
+];
+
+describe("buildForkHistoryPrompt", () => {
+  it("should condense the copied messages into a transcript", () => {
+    const prompt = buildForkHistoryPrompt(parentMessages.slice(0, 2));
+    expect(prompt).toContain("User: Rename the config loader\n\nAssistant: Renaming it now.\n[Edit: src/config.ts]");
+    expect(prompt).not.toContain("plan it");
+  });
+
+  it("should start after the last /clear and skip empty history", () => {
+    const cleared = [
+      message("m1", "user", "Old topic"),
+      message("m2", "assistant", JSON.stringify([{ type: "text", text: "--- Context cleared ---" }])),
+      message("m3", "user", "New topic"),
+    ];
+    const prompt = buildForkHistoryPrompt(cleared);
+    expect(prompt).toContain("User: New topic");
+    expect(prompt).not.toContain("Old topic");
+    expect(buildForkHistoryPrompt([])).toBeNull();
+  });
+});
+
+describe("insertFork", () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+  });
+
+  it("should copy the parent's settings and the messages up to the fork point", () => {
+    const fork = insertFork(db, parent, parentMessages, "m2");
+    expect(fork).not.toBeNull();
+    expect(fork!.messages.map(m => m.content)).toEqual([parentMessages[0].content, parentMessages[1].content]);
+
+    const row = db.query<Record<string, string>, [string]>("SELECT * FROM sessions WHERE id = ?").get(fork!.id)!;
+    expect(row.title).toBe("Refactor (fork)");
+    expect(row.working_directory).toBe("/work/project");
+    expect(row.permission_mode).toBe("acceptEdits");
+    expect(row.parent_session_id).toBe("parent");
+    expect(row.forked_from_message_id).toBe("m2");
+    expect(JSON.parse(row.tool_policy).disabledMcpServers).toEqual(["grep"]);
+    expect(JSON.parse(row.git_settings).autoCommit).toBe(true);
+
+    const copied = db.query<{ id: string }, [string]>("SELECT id FROM messages WHERE session_id = ?").all(fork!.id);
+    expect(copied.map(m => m.id)).toEqual(fork!.messages.map(m => m.id));
+    expect(copied.map(m => m.id)).not.toContain("m1");
+  });
+
+  it("should return null for a message outside the session", () => {
+    expect(insertFork(db, parent, parentMessages, "missing")).toBeNull();
+    expect(db.query("SELECT id FROM sessions").all()).toEqual([]);
+  });
+});
+
+describe("needsForkHistory", () => {
+  it("should seed forks until they have an SDK session, even once the parent is deleted", () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    const fork = insertFork(db, parent, parentMessages, "m2")!;
+
+    // Deleting the parent detaches its forks
+    db.run("UPDATE sessions SET parent_session_id = NULL WHERE parent_session_id = ?", [parent.id]);
+    const row = db.query<{ sdk_session_id: string | null; forked_from_message_id: string | null }, [string]>(
+      "SELECT sdk_session_id, forked_from_message_id FROM sessions WHERE id = ?"
+    ).get(fork.id)!;
+
+    expect(needsForkHistory({ sdk_session_id: row.sdk_session_id ?? undefined, forked_from_message_id: row.forked_from_message_id })).toBe(true);
+    expect(needsForkHistory({ sdk_session_id: "sdk-1", forked_from_message_id: "m2" })).toBe(false);
+    expect(needsForkHistory({ forked_from_message_id: null })).toBe(false);
+  });
+});
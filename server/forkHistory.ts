@@ -0,0 +1,175 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Fork History
+ *
+ * Forked sessions can't resume the parent's SDK transcript (it contains the
+ * turns after the fork point), so their first query starts a fresh subprocess.
+ * To keep the model oriented, the first prompt is seeded with a condensed
+ * transcript of the copied messages.
+ */
+
+import type { Database } from "bun:sqlite";
+import { randomUUID } from "crypto";
+import type { Session, SessionMessage } from "./database";
+import { parseContentBlocks } from "./utils/messageText";
+
+const MAX_HISTORY_CHARS = 24000;
+const MAX_MESSAGE_CHARS = 2000;
+
+const CONTEXT_CLEARED_PREFIX = '--- Context cleared';
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.substring(0, maxChars)}… [truncated]` : text;
+}
+
+/**
+ * Summarize a tool call as a single line (tool name + the most telling input)
+ */
+function describeToolUse(name: string, input: Record<string, unknown>): string {
+  const detail = input.file_path ?? input.notebook_path ?? input.command ?? input.pattern ?? input.url ?? input.query ?? input.description;
+  return typeof detail === 'string' ? `[${name}: ${truncate(detail, 200)}]` : `[${name}]`;
+}
+
+/**
+ * Condense one stored message into a transcript entry.
+ * Thinking blocks are dropped; tool calls are reduced to one line each.
+ */
+function condenseMessage(message: SessionMessage): string {
+  const blocks = parseContentBlocks(message.content);
+  if (!blocks) {
+    return truncate(message.content.trim(), MAX_MESSAGE_CHARS);
+  }
+
+  const parts: string[] = [];
+  for (const block of blocks) {
+    if (block.type === 'text' && typeof block.text === 'string') {
+      parts.push(block.text.trim());
+    } else if (block.type === 'tool_use' && typeof block.name === 'string') {
+      parts.push(describeToolUse(block.name, (block.input ?? {}) as Record<string, unknown>));
+    } else if (block.type === 'long_running_command' && typeof block.command === 'string') {
+      parts.push(`[Bash: ${truncate(block.command, 200)}]`);
+    } else if (block.type === 'document' && typeof block.name === 'string') {
+      parts.push(`[File attached: ${block.name}]`);
+    } else if (block.type === 'image') {
+      parts.push('[Image attached]');
+    }
+  }
+
+  return truncate(parts.filter(Boolean).join('\n'), MAX_MESSAGE_CHARS);
+}
+
+function isContextClearedDivider(message: SessionMessage): boolean {
+  if (message.type !== 'assistant') return false;
+  const blocks = parseContentBlocks(message.content);
+  const first = blocks?.[0];
+  return typeof first?.text === 'string' && first.text.startsWith(CONTEXT_CLEARED_PREFIX);
+}
+
+/**
+ * Build the history preamble for the first prompt of a forked session.
+ * Only messages after the most recent /clear divider are included, and the
+ * oldest entries are dropped if the transcript exceeds the size budget.
+ * Returns null when there is no prior history to seed.
+ */
+export function buildForkHistoryPrompt(priorMessages: SessionMessage[]): string | null {
+  let startIndex = 0;
+  priorMessages.forEach((message, index) => {
+    if (isContextClearedDivider(message)) {
+      startIndex = index + 1;
+    }
+  });
+
+  const entries = priorMessages
+    .slice(startIndex)
+    .map(message => ({ role: message.type === 'user' ? 'User' : 'Assistant', text: condenseMessage(message) }))
+    .filter(entry => entry.text.length > 0 && entry.text !== '/clear');
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  // Keep the most recent entries that fit in the budget
+  const kept: string[] = [];
+  let totalChars = 0;
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const line = `${entries[i].role}: ${entries[i].text}`;
+    if (totalChars + line.length > MAX_HISTORY_CHARS && kept.length > 0) break;
+    kept.unshift(line);
+    totalChars += line.length;
+  }
+
+  const omitted = entries.length - kept.length;
+  const omittedNote = omitted > 0 ? `(${omitted} earlier message${omitted === 1 ? '' : 's'} omitted)\n\n` : '';
+
+  return `<forked_conversation_history>
+This conversation was forked from an earlier chat. Below is a condensed transcript of the conversation so far. Treat it as prior context and continue from it; do not repeat earlier work unless asked.
+
+${omittedNote}${kept.join('\n\n')}
+</forked_conversation_history>`;
+}
+
+/**
+ * Insert a fork of a session at one of its messages
+ * The fork shares the parent's working directory and settings and gets copies
+ * of the messages up to and including the fork point. Returns null if the
+ * message isn't in the session.
+ */
+export function insertFork(
+  db: Database,
+  parent: Session,
+  parentMessages: SessionMessage[],
+  messageId: string
+): { id: string; messages: Array<{ id: string; content: string }> } | null {
+  const forkIndex = parentMessages.findIndex(m => m.id === messageId);
+  if (forkIndex === -1) {
+    return null;
+  }
+
+  const id = randomUUID();
+  const now = new Date().toISOString();
+
+  db.run(
+    `INSERT INTO sessions (id, title, created_at, updated_at, working_directory, permission_mode, mode, parent_session_id, forked_from_message_id, tool_policy, git_settings)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [id, `${parent.title} (fork)`, now, now, parent.working_directory, parent.permission_mode, parent.mode, parent.id, messageId, JSON.stringify(parent.tool_policy), JSON.stringify(parent.git_settings)]
+  );
+
+  const messages = parentMessages.slice(0, forkIndex + 1).map(message => {
+    const newMessageId = randomUUID();
+    db.run(
+      "INSERT INTO messages (id, session_id, type, content, timestamp) VALUES (?, ?, ?, ?, ?)",
+      [newMessageId, id, message.type, message.content, message.timestamp]
+    );
+    return { id: newMessageId, content: message.content };
+  });
+
+  return { id, messages };
+}
+
+/**
+ * Whether a session's next prompt needs its fork history: a fork that hasn't
+ * started an SDK session of its own yet. Keyed on the fork point, which is
+ * kept when the parent session is deleted.
+ */
+export function needsForkHistory(session: Pick<Session, 'sdk_session_id' | 'forked_from_message_id'>): boolean {
+  return !session.sdk_session_id && !!session.forked_from_message_id;
+}
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  parseGitStatus,
+  getGitStatus,
+  getSessionBranchName,
+  ensureBranch,
+  applyAutoBranch,
+  buildCommitMessage,
+  commitTurnChanges,
+  getUncommittedChanges,
+  isAppOwnedPath,
+  runGit,
+} from "./git";
+import { DEFAULT_GIT_SETTINGS } from "../client/config/git";
+
+describe("parseGitStatus", () => {
+  it("should read branch headers and every kind of entry", () => {
+    const output = [
+      '# branch.oid 1234567890abcdef',
+      '# branch.head main',
+      '# branch.upstream origin/main',
+      '# branch.ab +2 -1',
+      '1 .M N... 100644 100644 100644 aaa bbb src/a file.ts',
+      '2 R. N... 100644 100644 100644 aaa bbb R100 new.ts',
+      'old.ts',
+      'u UU N... 100644 100644 100644 100644 aaa bbb ccc conflict.ts',
+      '? notes.txt',
+      '',
+    ].join('\0');
+
+    expect(parseGitStatus(output)).toEqual({
+      branch: 'main',
+      commit: '1234567890abcdef',
+      upstream: 'origin/main',
+      ahead: 2,
+      behind: 1,
+      files: [
+        { path: 'src/a file.ts', index: '.', workTree: 'M' },
+        { path: 'new.ts', originalPath: 'old.ts', index: 'R', workTree: '.' },
+        { path: 'conflict.ts', index: 'U', workTree: 'U' },
+        { path: 'notes.txt', index: '?', workTree: '?' },
+      ],
+    });
+  });
+
+  it("should report a detached HEAD and an unborn branch", () => {
+    expect(parseGitStatus('# branch.oid abc\0# branch.head (detached)\0').branch).toBeNull();
+    expect(parseGitStatus('# branch.oid (initial)\0# branch.head main\0').commit).toBeNull();
+  });
+});
+
+describe("getSessionBranchName", () => {
+  it("should slugify the session title", () => {
+    expect(getSessionBranchName('Fix the Login bug!', 'abcdef1234')).toBe('agent/fix-the-login-bug');
+    expect(getSessionBranchName('Café über ñ', 'abcdef1234')).toBe('agent/cafe-uber-n');
+  });
+
+  it("should cap the length and fall back to the session ID", () => {
+    expect(getSessionBranchName('x'.repeat(80), 'abcdef1234')).toBe(`agent/${'x'.repeat(50)}`);
+    expect(getSessionBranchName('日本語', 'abcdef1234')).toBe('agent/abcdef12');
+  });
+});
+
+describe("isAppOwnedPath", () => {
+  it("should match the app's files relative to the working directory", () => {
+    expect(isAppOwnedPath('CLAUDE.md', '')).toBe(true);
+    expect(isAppOwnedPath('.claude/commands/commit.md', '')).toBe(true);
+    expect(isAppOwnedPath('chat/pictures/image-1.png', 'chat/')).toBe(true);
+    expect(isAppOwnedPath('pictures/image-1.png', 'chat/')).toBe(false);
+    expect(isAppOwnedPath('docs/CLAUDE.md', '')).toBe(false);
+    expect(isAppOwnedPath('.claude/settings.json', '')).toBe(false);
+  });
+});
+
+describe("buildCommitMessage", () => {
+  it("should use the first prompt line as the subject and list the files", () => {
+    const message = buildCommitMessage('\n  Add a settings page\nwith tabs', [
+      { path: 'a.ts', index: 'M', workTree: '.' },
+      { path: 'b.ts', index: '?', workTree: '?' },
+      { path: 'c.ts', originalPath: 'old.ts', index: 'R', workTree: '.' },
+    ]);
+
+    const lines = message.split('\n');
+    expect(lines[0]).toBe('Add a settings page');
+    expect(lines.slice(-3)).toEqual(['M a.ts', 'A b.ts', 'R old.ts -> c.ts']);
+  });
+
+  it("should shorten long subjects and describe prompts without text", () => {
+    expect(buildCommitMessage('y'.repeat(100), []).split('\n')[0]).toHaveLength(72);
+    expect(buildCommitMessage('', [{ path: 'a.ts', index: '.', workTree: 'M' }]).split('\n')[0]).toBe('Update 1 file');
+  });
+});
+
+describe("git repository operations", () => {
+  let repoDir: string;
+
+  beforeEach(async () => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-llama-git-'));
+    await runGit(repoDir, ['init', '--quiet', '--initial-branch=main']);
+    await runGit(repoDir, ['config', 'user.name', 'Test']);
+    await runGit(repoDir, ['config', 'user.email', 'test@example.com']);
+    await runGit(repoDir, ['config', 'commit.gpgsign', 'false']);
+    fs.writeFileSync(path.join(repoDir, 'README.md'), 'hello\n');
+    await runGit(repoDir, ['add', '--all']);
+    await runGit(repoDir, ['commit', '--quiet', '-m', 'Initial commit']);
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it("should return null outside a repository", async () => {
+    const plainDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-llama-nogit-'));
+    try {
+      expect(await getGitStatus(plainDir)).toBeNull();
+      expect((await ensureBranch(plainDir, 'agent/x')).error).toBe('Not a git repository');
+    } finally {
+      fs.rmSync(plainDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should report the branch and changed files", async () => {
+    fs.writeFileSync(path.join(repoDir, 'README.md'), 'changed\n');
+    fs.writeFileSync(path.join(repoDir, 'new.txt'), 'new\n');
+
+    const status = await getGitStatus(repoDir);
+
+    expect(status?.branch).toBe('main');
+    expect(status?.upstream).toBeNull();
+    expect(status?.files).toEqual([
+      { path: 'README.md', index: '.', workTree: 'M' },
+      { path: 'new.txt', index: '?', workTree: '?' },
+    ]);
+  });
+
+  it("should create the session branch once and switch back to it later", async () => {
+    const first = await applyAutoBranch(repoDir, DEFAULT_GIT_SETTINGS, 'My feature', 'abcdef1234');
+    expect(first.result).toEqual({ branch: 'agent/my-feature', created: true, switched: true });
+    expect(first.settings.branch).toBe('agent/my-feature');
+
+    // Already there: nothing to do
+    expect(await ensureBranch(repoDir, 'agent/my-feature')).toEqual({ branch: 'agent/my-feature', created: false, switched: false });
+
+    // A renamed chat keeps its branch
+    await runGit(repoDir, ['switch', '--quiet', 'main']);
+    const again = await applyAutoBranch(repoDir, first.settings, 'Renamed chat', 'abcdef1234');
+    expect(again.result).toEqual({ branch: 'agent/my-feature', created: false, switched: true });
+    expect((await getGitStatus(repoDir))?.branch).toBe('agent/my-feature');
+  });
+
+  it("should commit every change with a generated message", async () => {
+    fs.writeFileSync(path.join(repoDir, 'README.md'), 'changed\n');
+    fs.writeFileSync(path.join(repoDir, 'new.txt'), 'new\n');
+
+    const result = await commitTurnChanges(repoDir, 'Update the readme');
+
+    expect(result.committed).toBe(true);
+    expect(result.subject).toBe('Update the readme');
+    expect((await getGitStatus(repoDir))?.files).toEqual([]);
+    const log = await runGit(repoDir, ['log', '-1', '--format=%h%n%B']);
+    expect(log.stdout).toContain(result.commit!);
+    expect(log.stdout).toContain('M README.md');
+    expect(log.stdout).toContain('A new.txt');
+  });
+
+  it("should leave the app's own files out of commits", async () => {
+    fs.writeFileSync(path.join(repoDir, 'CLAUDE.md'), 'instructions\n');
+    fs.mkdirSync(path.join(repoDir, '.claude', 'commands'), { recursive: true });
+    fs.writeFileSync(path.join(repoDir, '.claude', 'commands', 'commit.md'), 'command\n');
+    fs.mkdirSync(path.join(repoDir, 'pictures'));
+    fs.writeFileSync(path.join(repoDir, 'pictures', 'image-1.png'), 'png');
+    expect(await getUncommittedChanges(repoDir)).toEqual([]);
+
+    fs.mkdirSync(path.join(repoDir, 'src'));
+    fs.writeFileSync(path.join(repoDir, 'src', 'a.ts'), 'a\n');
+    expect(await getUncommittedChanges(repoDir)).toEqual([{ path: 'src/a.ts', index: '?', workTree: '?' }]);
+
+    const result = await commitTurnChanges(repoDir, 'Add a');
+
+    expect(result.committed).toBe(true);
+    const committed = await runGit(repoDir, ['show', '--name-only', '--format=', 'HEAD']);
+    expect(committed.stdout.trim()).toBe('src/a.ts');
+    expect((await getGitStatus(repoDir, { listUntrackedFiles: true }))?.files.map(file => file.path)).toEqual([
+      '.claude/commands/commit.md',
+      'CLAUDE.md',
+      'pictures/image-1.png',
+    ]);
+  });
+
+  it("should resolve paths from a working directory below the repository root", async () => {
+    const chatDir = path.join(repoDir, 'chat');
+    fs.mkdirSync(path.join(chatDir, 'files'), { recursive: true });
+    fs.writeFileSync(path.join(chatDir, 'files', 'upload.pdf'), 'pdf');
+    fs.writeFileSync(path.join(chatDir, 'notes [draft].txt'), 'notes\n');
+
+    const result = await commitTurnChanges(chatDir, 'Write notes');
+
+    expect(result.committed).toBe(true);
+    const committed = await runGit(repoDir, ['show', '--name-only', '--format=', 'HEAD']);
+    expect(committed.stdout.trim()).toBe('chat/notes [draft].txt');
+  });
+
+  it("should not commit a clean tree", async () => {
+    expect(await commitTurnChanges(repoDir, 'Nothing')).toEqual({ committed: false });
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Git Integration
+ *
+ * Reads the git status of a session's working directory (branch, upstream,
+ * ahead/behind, changed files) and runs the optional per-session automation:
+ * switching to an agent/<session-title> branch at the start of each turn and
+ * committing what the turn changed after it completes.
+ *
+ * Auto-commit only runs on a tree that was clean when the turn started, so it
+ * never sweeps in the user's own uncommitted work, and it never stages the
+ * files the app writes into working directories itself (slash commands,
+ * CLAUDE.md, uploaded attachments).
+ *
+ * Everything shells out to the git CLI; a directory that isn't inside a
+ * repository (or a machine without git) simply has no status.
+ */
+
+import { GIT_BRANCH_PREFIX, type GitFileStatus, type GitStatus, type SessionGitSettings } from "../client/config/git";
+
+const GIT_TIMEOUT_MS = 15000;
+const GIT_COMMIT_TIMEOUT_MS = 60000; // Commit hooks can be slow
+
+const BRANCH_SLUG_MAX_LENGTH = 50;
+const COMMIT_SUBJECT_MAX_LENGTH = 72;
+const COMMIT_BODY_MAX_FILES = 50;
+
+// Written into working directories by commandSetup.ts and imageUtils.ts; relative to the working directory
+const APP_OWNED_PATHS = ['.claude/commands/', 'CLAUDE.md', 'pictures/', 'files/'];
+
+export interface GitCommandResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+export interface EnsureBranchResult {
+  branch: string;
+  created: boolean; // The branch didn't exist and was created from HEAD
+  switched: boolean; // HEAD moved (false when already on the branch)
+  error?: string;
+}
+
+export interface CommitResult {
+  committed: boolean; // false when there was nothing to commit
+  commit?: string; // Short hash
+  subject?: string;
+  error?: string;
+}
+
+/**
+ * Run git in a directory. Never prompts for credentials; spawn failures
+ * (git not installed, directory missing) come back as exit code -1.
+ */
+export async function runGit(cwd: string, args: string[], timeout = GIT_TIMEOUT_MS): Promise<GitCommandResult> {
+  try {
+    const subprocess = Bun.spawn(['git', ...args], {
+      cwd,
+      stdout: 'pipe',
+      stderr: 'pipe',
+      timeout,
+      env: {
+        ...process.env,
+        GIT_TERMINAL_PROMPT: '0',
+        GIT_OPTIONAL_LOCKS: '0', // Don't take the index lock for read-only status
+        LC_ALL: 'C',
+      },
+    });
+
+    const [stdout, stderr, exitCode] = await Promise.all([
+      new Response(subprocess.stdout).text(),
+      new Response(subprocess.stderr).text(),
+      subprocess.exited,
+    ]);
+
+    if (subprocess.signalCode) {
+      return { exitCode: -1, stdout, stderr: `git ${args[0]} timed out` };
+    }
+    return { exitCode, stdout, stderr };
+  } catch (error) {
+    return { exitCode: -1, stdout: '', stderr: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Parse `git status --porcelain=v2 --branch -z` output
+ */
+export function parseGitStatus(output: string): GitStatus {
+  const status: GitStatus = { branch: null, commit: null, upstream: null, ahead: 0, behind: 0, files: [] };
+  const entries = output.split('\0');
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (!entry) continue;
+
+    if (entry.startsWith('# ')) {
+      const [key, ...rest] = entry.slice(2).split(' ');
+      const value = rest.join(' ');
+      if (key === 'branch.oid') {
+        status.commit = value === '(initial)' ? null : value;
+      } else if (key === 'branch.head') {
+        status.branch = value === '(detached)' ? null : value;
+      } else if (key === 'branch.upstream') {
+        status.upstream = value;
+      } else if (key === 'branch.ab') {
+        const match = value.match(/^\+(\d+) -(\d+)$/);
+        if (match) {
+          status.ahead = parseInt(match[1], 10);
+          status.behind = parseInt(match[2], 10);
+        }
+      }
+      continue;
+    }
+
+    const fields = entry.split(' ');
+    const file = (pathFieldIndex: number): GitFileStatus => ({
+      path: fields.slice(pathFieldIndex).join(' '),
+      index: fields[1][0],
+      workTree: fields[1][1],
+    });
+
+    if (fields[0] === '1') {
+      status.files.push(file(8));
+    } else if (fields[0] === '2') {
+      // Renames and copies are followed by the original path as its own entry
+      status.files.push({ ...file(9), originalPath: entries[++i] });
+    } else if (fields[0] === 'u') {
+      status.files.push(file(10));
+    } else if (fields[0] === '?') {
+      status.files.push({ path: entry.slice(2), index: '?', workTree: '?' });
+    }
+  }
+
+  return status;
+}
+
+/**
+ * Git status of a directory, or null when it isn't inside a repository
+ * (untracked directories are listed as one entry unless listUntrackedFiles is set)
+ */
+export async function getGitStatus(dir: string, options: { listUntrackedFiles?: boolean } = {}): Promise<GitStatus | null> {
+  const args = ['status', '--porcelain=v2', '--branch', '-z'];
+  if (options.listUntrackedFiles) args.push('--untracked-files=all');
+
+  const result = await runGit(dir, args);
+  if (result.exitCode !== 0) return null;
+  return parseGitStatus(result.stdout);
+}
+
+/**
+ * Whether a repository-relative path is one the app wrote into the working directory
+ * (workingDirPrefix: the working directory relative to the repository root, from --show-prefix)
+ */
+export function isAppOwnedPath(repoPath: string, workingDirPrefix: string): boolean {
+  return APP_OWNED_PATHS.some(owned => {
+    const ownedPath = workingDirPrefix + owned;
+    return owned.endsWith('/') ? repoPath.startsWith(ownedPath) : repoPath === ownedPath;
+  });
+}
+
+/**
+ * Uncommitted changes other than the app's own files, with untracked files
+ * listed one by one. Null when the directory isn't inside a repository.
+ */
+export async function getUncommittedChanges(dir: string): Promise<GitFileStatus[] | null> {
+  const prefix = await runGit(dir, ['rev-parse', '--show-prefix']);
+  const status = await getGitStatus(dir, { listUntrackedFiles: true });
+  if (prefix.exitCode !== 0 || !status) return null;
+
+  const workingDirPrefix = prefix.stdout.trim();
+  return status.files.filter(file =>
+    !isAppOwnedPath(file.path, workingDirPrefix) &&
+    !(file.originalPath && isAppOwnedPath(file.originalPath, workingDirPrefix))
+  );
+}
+
+/**
+ * Branch used by auto-branch: agent/<session-title> with the title slugified,
+ * falling back to the session ID when the title has no usable characters
+ */
+export function getSessionBranchName(title: string, sessionId: string): string {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Accents split off by NFKD
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+/, '')
+    .slice(0, BRANCH_SLUG_MAX_LENGTH)
+    .replace(/-+$/, '');
+
+  return `${GIT_BRANCH_PREFIX}${slug || sessionId.substring(0, 8)}`;
+}
+
+/**
+ * Switch to a branch, creating it from HEAD if needed.
+ * Uncommitted changes are carried over; git refuses the switch if they
+ * would be overwritten, which is reported as an error.
+ */
+export async function ensureBranch(dir: string, branch: string): Promise<EnsureBranchResult> {
+  const inRepo = await runGit(dir, ['rev-parse', '--is-inside-work-tree']);
+  if (inRepo.exitCode !== 0) {
+    return { branch, created: false, switched: false, error: 'Not a git repository' };
+  }
+
+  const current = await runGit(dir, ['symbolic-ref', '--quiet', '--short', 'HEAD']);
+  if (current.exitCode === 0 && current.stdout.trim() === branch) {
+    return { branch, created: false, switched: false };
+  }
+
+  const exists = await runGit(dir, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`]);
+  const created = exists.exitCode !== 0;
+  const result = await runGit(dir, created ? ['switch', '-c', branch] : ['switch', branch]);
+
+  if (result.exitCode !== 0) {
+    return { branch, created: false, switched: false, error: result.stderr.trim() || `Could not switch to ${branch}` };
+  }
+  return { branch, created, switched: true };
+}
+
+/**
+ * Put a session's working directory on its auto-branch. Returns the settings
+ * to store: the branch name is remembered once the branch exists, so renaming
+ * the chat doesn't move later turns onto a new branch.
+ */
+export async function applyAutoBranch(
+  dir: string,
+  settings: SessionGitSettings,
+  title: string,
+  sessionId: string
+): Promise<{ result: EnsureBranchResult; settings: SessionGitSettings }> {
+  const result = await ensureBranch(dir, settings.branch ?? getSessionBranchName(title, sessionId));
+  return { result, settings: result.error ? settings : { ...settings, branch: result.branch } };
+}
+
+function describeChange(file: GitFileStatus): string {
+  if (file.index === '?') return 'A';
+  return file.index !== '.' ? file.index : file.workTree;
+}
+
+/**
+ * Commit message for an auto-commit: the subject is the first line of the
+ * prompt that started the turn, the body lists the changed files
+ */
+export function buildCommitMessage(prompt: string, files: GitFileStatus[]): string {
+  const firstLine = prompt.split('\n').map(line => line.trim()).find(line => line.length > 0) ?? '';
+  let subject = firstLine || `Update ${files.length} file${files.length === 1 ? '' : 's'}`;
+  if (subject.length > COMMIT_SUBJECT_MAX_LENGTH) {
+    subject = subject.substring(0, COMMIT_SUBJECT_MAX_LENGTH - 3).trimEnd() + '...';
+  }
+
+  const lines = files.slice(0, COMMIT_BODY_MAX_FILES).map(file =>
+    file.originalPath
+      ? `${describeChange(file)} ${file.originalPath} -> ${file.path}`
+      : `${describeChange(file)} ${file.path}`
+  );
+  if (files.length > COMMIT_BODY_MAX_FILES) {
+    lines.push(`... and ${files.length - COMMIT_BODY_MAX_FILES} more`);
+  }
+
+  return [subject, '', 'Committed automatically by Agent Llama after a turn.', '', ...lines].join('\n');
+}
+
+/**
+ * Commit the changes a turn made: every uncommitted change except the app's
+ * own files, staged by path so nothing else in the index is included.
+ * Only call this when the tree was clean before the turn (see getUncommittedChanges).
+ */
+export async function commitTurnChanges(dir: string, prompt: string): Promise<CommitResult> {
+  const files = await getUncommittedChanges(dir);
+  if (!files) {
+    return { committed: false, error: 'Not a git repository' };
+  }
+  if (files.length === 0) {
+    return { committed: false };
+  }
+
+  // Status paths are relative to the repository root; literal so names aren't read as globs
+  const pathspecs = files
+    .flatMap(file => (file.originalPath ? [file.originalPath, file.path] : [file.path]))
+    .map(filePath => `:(top,literal)${filePath}`);
+
+  const message = buildCommitMessage(prompt, files);
+  const add = await runGit(dir, ['add', '--all', '--', ...pathspecs]);
+  if (add.exitCode !== 0) {
+    return { committed: false, error: add.stderr.trim() || 'git add failed' };
+  }
+
+  const commit = await runGit(dir, ['commit', '--quiet', '-m', message, '--', ...pathspecs], GIT_COMMIT_TIMEOUT_MS);
+  if (commit.exitCode !== 0) {
+    return { committed: false, error: (commit.stderr || commit.stdout).trim() || 'git commit failed' };
+  }
+
+  const head = await runGit(dir, ['rev-parse', '--short', 'HEAD']);
+  return { committed: true, commit: head.stdout.trim(), subject: message.split('\n')[0] };
+}
@@ -149,3 +149,66 @@ export function deleteSessionFiles(workingDir: string): void {
     console.log('🗑️  Deleted files directory:', filesPath);
   }
 }
+
+export type AttachmentFolder = 'pictures' | 'files';
+
+export interface SessionAttachment {
+  folder: AttachmentFolder;
+  name: string;
+  data: string; // base64
+}
+
+// Skip very large attachments when bundling a session for export
+const MAX_BUNDLED_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+/**
+ * Read all pictures and files for a session as base64 (used for export bundles)
+ */
+export function readSessionAttachments(workingDir: string): SessionAttachment[] {
+  const attachments: SessionAttachment[] = [];
+
+  for (const folder of ['pictures', 'files'] as const) {
+    const folderPath = path.join(workingDir, folder);
+    if (!fs.existsSync(folderPath)) continue;
+
+    for (const entry of fs.readdirSync(folderPath, { withFileTypes: true })) {
+      if (!entry.isFile()) continue;
+
+      const absolutePath = path.join(folderPath, entry.name);
+      const size = fs.statSync(absolutePath).size;
+      if (size > MAX_BUNDLED_ATTACHMENT_BYTES) {
+        console.warn(`⚠️  Skipping large attachment in export: ${folder}/${entry.name} (${size} bytes)`);
+        continue;
+      }
+
+      attachments.push({
+        folder,
+        name: entry.name,
+        data: fs.readFileSync(absolutePath).toString('base64'),
+      });
+    }
+  }
+
+  return attachments;
+}
+
+/**
+ * Write a bundled attachment into a session's pictures/ or files/ folder
+ * Returns relative path: ./{folder}/{name}
+ */
+export function writeSessionAttachment(workingDir: string, attachment: SessionAttachment): string {
+  const folderPath = attachment.folder === 'pictures'
+    ? ensurePicturesDirectory(workingDir)
+    : path.join(workingDir, 'files');
+
+  if (!fs.existsSync(folderPath)) {
+    fs.mkdirSync(folderPath, { recursive: true });
+    console.log('📁 Created files directory:', folderPath);
+  }
+
+  // Never let a bundled name escape the attachment folder
+  const safeName = path.basename(attachment.name);
+  fs.writeFileSync(path.join(folderPath, safeName), Buffer.from(attachment.data, 'base64'));
+
+  return `./${attachment.folder}/${safeName}`;
+}
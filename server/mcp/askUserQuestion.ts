@@ -35,6 +35,8 @@ const questionSchema = z.object({
   multiSelect: z.boolean().describe('Allow multiple selections if true'),
 });
 
+export type Question = z.infer<typeof questionSchema>;
+
 // Pending questions waiting for user response (keyed by toolId)
 const pendingQuestions = new Map<string, {
   resolve: (answers: Record<string, string>) => void;
@@ -42,12 +44,12 @@ const pendingQuestions = new Map<string, {
 }>();
 
 // Global callback to notify frontend of new questions (set per session)
-let globalQuestionCallback: ((toolId: string, questions: unknown[], sessionId: string) => void) | null = null;
+let globalQuestionCallback: ((toolId: string, questions: Question[], sessionId: string) => void) | null = null;
 
 /**
  * Set the global callback for sending questions to frontend
  */
-export function setQuestionCallback(callback: (toolId: string, questions: unknown[], sessionId: string) => void) {
+export function setQuestionCallback(callback: (toolId: string, questions: Question[], sessionId: string) => void) {
   globalQuestionCallback = callback;
 }
 
@@ -0,0 +1,95 @@
+import { describe, it, expect, afterAll } from "bun:test";
+import { probeMcpServer } from "./probe";
+
+const TOOLS = [
+  { name: "search_docs", description: "Search internal docs" },
+  { name: "get_page" },
+];
+
+/**
+ * Minimal stdio MCP server: answers initialize and tools/list, ignores notifications
+ */
+const STDIO_SERVER = `
+const tools = ${JSON.stringify(TOOLS)};
+let buffer = '';
+process.stdin.on('data', (chunk) => {
+  buffer += chunk;
+  let index;
+  while ((index = buffer.indexOf('\\n')) >= 0) {
+    const message = JSON.parse(buffer.slice(0, index));
+    buffer = buffer.slice(index + 1);
+    if (message.id === undefined) continue;
+    const result = message.method === 'initialize'
+      ? { protocolVersion: '2025-06-18', capabilities: { tools: {} }, serverInfo: { name: 'fake', version: '0.1.0' } }
+      : { tools };
+    process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id: message.id, result }) + '\\n');
+  }
+});
+`;
+
+describe("probeMcpServer", () => {
+  const httpServer = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      if (req.headers.get("authorization") !== "Bearer test") {
+        return new Response("unauthorized", { status: 401 });
+      }
+      if (req.method === "DELETE") {
+        return new Response(null, { status: 204 });
+      }
+      const message = await req.json() as { id?: number; method: string };
+      if (message.id === undefined) {
+        return new Response(null, { status: 202 });
+      }
+      const result = message.method === "initialize"
+        ? { protocolVersion: "2025-06-18", capabilities: { tools: {} }, serverInfo: { name: "fake-http" } }
+        : { tools: TOOLS };
+      // Respond as an SSE stream, like most Streamable HTTP servers do
+      const body = `event: message\ndata: ${JSON.stringify({ jsonrpc: "2.0", id: message.id, result })}\n\n`;
+      return new Response(body, {
+        headers: { "Content-Type": "text/event-stream", "Mcp-Session-Id": "abc" },
+      });
+    },
+  });
+
+  afterAll(() => {
+    httpServer.stop(true);
+  });
+
+  it("should list tools from a stdio server", async () => {
+    const result = await probeMcpServer({ type: "stdio", command: process.execPath, args: ["-e", STDIO_SERVER] }, 10000);
+
+    expect(result.error).toBeUndefined();
+    expect(result.status).toBe("ok");
+    expect(result.serverInfo?.name).toBe("fake");
+    expect(result.tools.map(tool => tool.name)).toEqual(["search_docs", "get_page"]);
+  });
+
+  it("should report the exit code and stderr of a stdio server that crashes", async () => {
+    const result = await probeMcpServer({ type: "stdio", command: process.execPath, args: ["-e", "console.error('missing API key'); process.exit(3)"] }, 10000);
+
+    expect(result.status).toBe("error");
+    expect(result.error).toContain("code 3");
+    expect(result.error).toContain("missing API key");
+  });
+
+  it("should report a missing command instead of throwing", async () => {
+    const result = await probeMcpServer({ type: "stdio", command: "agent-llama-no-such-command" }, 5000);
+
+    expect(result.status).toBe("error");
+  });
+
+  it("should list tools from a Streamable HTTP server", async () => {
+    const result = await probeMcpServer({ type: "http", url: `http://localhost:${httpServer.port}/mcp`, headers: { Authorization: "Bearer test" } }, 5000);
+
+    expect(result.status).toBe("ok");
+    expect(result.tools).toHaveLength(2);
+  });
+
+  it("should report HTTP errors", async () => {
+    const result = await probeMcpServer({ type: "http", url: `http://localhost:${httpServer.port}/mcp` }, 5000);
+
+    expect(result.status).toBe("error");
+    expect(result.error).toContain("HTTP 401");
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * MCP Server Probe
+ *
+ * Connects to a configured MCP server outside of the SDK, performs the
+ * initialize handshake and lists its tools. Used only for the health and
+ * tool status reported by getMcpServerStatuses.
+ *
+ * Only the small subset of the protocol needed for discovery is implemented:
+ * JSON-RPC over newline-delimited stdio, and Streamable HTTP (JSON or SSE
+ * responses).
+ */
+
+import type { McpServerConfig, McpHttpServerConfig, McpStdioServerConfig } from '../mcpServers';
+
+const PROTOCOL_VERSION = '2025-06-18';
+const CLIENT_INFO = { name: 'agent-llama-probe', version: '1.0.0' };
+
+// npx-based servers may need to download the package on first run
+export const DEFAULT_PROBE_TIMEOUT_MS = 30000;
+
+const MAX_STDERR_CHARS = 2000;
+const MAX_TOOL_PAGES = 20;
+
+export interface McpToolInfo {
+  name: string;
+  description?: string;
+}
+
+export interface McpProbeResult {
+  status: 'ok' | 'error';
+  latencyMs: number;
+  tools: McpToolInfo[];
+  serverInfo?: { name?: string; version?: string };
+  error?: string;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id?: number;
+  result?: Record<string, unknown>;
+  error?: { code: number; message: string };
+}
+
+/**
+ * Transport-agnostic request function used by the discovery sequence
+ */
+type RpcRequest = (method: string, params?: Record<string, unknown>) => Promise<Record<string, unknown>>;
+type RpcNotify = (method: string, params?: Record<string, unknown>) => Promise<void>;
+
+/**
+ * Run the initialize handshake and page through tools/list
+ */
+async function discover(request: RpcRequest, notify: RpcNotify): Promise<Omit<McpProbeResult, 'status' | 'latencyMs'>> {
+  const init = await request('initialize', {
+    protocolVersion: PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: CLIENT_INFO,
+  });
+  await notify('notifications/initialized');
+
+  const capabilities = (init.capabilities ?? {}) as Record<string, unknown>;
+  const serverInfo = init.serverInfo as McpProbeResult['serverInfo'];
+
+  const tools: McpToolInfo[] = [];
+  if (capabilities.tools) {
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_TOOL_PAGES; page++) {
+      const result = await request('tools/list', cursor ? { cursor } : {});
+      for (const tool of (result.tools ?? []) as McpToolInfo[]) {
+        tools.push({ name: tool.name, description: tool.description });
+      }
+      cursor = typeof result.nextCursor === 'string' ? result.nextCursor : undefined;
+      if (!cursor) break;
+    }
+  }
+
+  return { tools, serverInfo };
+}
+
+function rpcError(method: string, error: { code: number; message: string }): Error {
+  return new Error(`${method} failed: ${error.message} (${error.code})`);
+}
+
+/**
+ * Feed decoded chunks of a byte stream to a callback until it ends
+ */
+async function readStream(stream: ReadableStream<Uint8Array>, onText: (text: string) => void): Promise<void> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    onText(decoder.decode(value, { stream: true }));
+  }
+}
+
+/**
+ * Probe a stdio server by spawning it and speaking JSON-RPC over its pipes
+ */
+async function probeStdio(config: McpStdioServerConfig, signal: AbortSignal): Promise<Omit<McpProbeResult, 'status' | 'latencyMs'>> {
+  const proc = Bun.spawn([config.command, ...(config.args ?? [])], {
+    stdin: 'pipe',
+    stdout: 'pipe',
+    stderr: 'pipe',
+    env: { ...process.env, ...config.env },
+  });
+
+  let stderr = '';
+  const stderrDone = readStream(proc.stderr, (text) => {
+    stderr = (stderr + text).slice(-MAX_STDERR_CHARS);
+  }).catch(() => {});
+
+  const pending = new Map<number, { method: string; resolve: (result: Record<string, unknown>) => void; reject: (error: Error) => void }>();
+  let nextId = 1;
+
+  const failAll = (error: Error) => {
+    for (const entry of pending.values()) entry.reject(error);
+    pending.clear();
+  };
+
+  // Read newline-delimited JSON-RPC messages from stdout
+  let buffer = '';
+  const stdoutDone = readStream(proc.stdout, (text) => {
+    buffer += text;
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (!line.startsWith('{')) continue; // Ignore log output on stdout
+
+      let message: JsonRpcResponse;
+      try {
+        message = JSON.parse(line) as JsonRpcResponse;
+      } catch {
+        continue;
+      }
+
+      const entry = message.id !== undefined ? pending.get(message.id) : undefined;
+      if (!entry) continue;
+      pending.delete(message.id!);
+      if (message.error) {
+        entry.reject(rpcError(entry.method, message.error));
+      } else {
+        entry.resolve(message.result ?? {});
+      }
+    }
+  }).catch(() => {});
+
+  // If the process exits before answering, report its stderr
+  proc.exited.then(async (code) => {
+    await stderrDone;
+    const detail = stderr.trim().split('\n').slice(-5).join('\n');
+    failAll(new Error(`Process exited with code ${code}${detail ? `: ${detail}` : ''}`));
+  });
+
+  const onAbort = () => failAll(new Error('Timed out waiting for server'));
+  signal.addEventListener('abort', onAbort);
+
+  const write = (payload: Record<string, unknown>) => {
+    proc.stdin.write(JSON.stringify({ jsonrpc: '2.0', ...payload }) + '\n');
+    proc.stdin.flush();
+  };
+
+  try {
+    return await discover(
+      (method, params) => new Promise((resolve, reject) => {
+        if (signal.aborted) {
+          reject(new Error('Timed out waiting for server'));
+          return;
+        }
+        const id = nextId++;
+        pending.set(id, { method, resolve, reject });
+        write({ id, method, params });
+      }),
+      async (method, params) => write({ method, params }),
+    );
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+    proc.kill();
+    await Promise.race([stdoutDone, new Promise(resolve => setTimeout(resolve, 1000))]);
+  }
+}
+
+/**
+ * Extract the JSON-RPC response for `id` from a Streamable HTTP response body,
+ * which is either plain JSON or an SSE stream of `data:` events
+ */
+function parseHttpRpcBody(body: string, contentType: string, id: number): JsonRpcResponse | undefined {
+  const candidates: string[] = [];
+
+  if (contentType.includes('text/event-stream')) {
+    for (const event of body.split(/\r?\n\r?\n/)) {
+      const data = event
+        .split(/\r?\n/)
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+      if (data) candidates.push(data);
+    }
+  } else {
+    candidates.push(body);
+  }
+
+  for (const candidate of candidates) {
+    try {
+      const parsed = JSON.parse(candidate) as JsonRpcResponse | JsonRpcResponse[];
+      const messages = Array.isArray(parsed) ? parsed : [parsed];
+      const match = messages.find(message => message.id === id);
+      if (match) return match;
+    } catch {
+      continue;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Probe an HTTP server using the Streamable HTTP transport
+ */
+async function probeHttp(config: McpHttpServerConfig, signal: AbortSignal): Promise<Omit<McpProbeResult, 'status' | 'latencyMs'>> {
+  let sessionId: string | undefined;
+  let nextId = 1;
+
+  const post = async (payload: Record<string, unknown>) => {
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+        'MCP-Protocol-Version': PROTOCOL_VERSION,
+        ...(sessionId && { 'Mcp-Session-Id': sessionId }),
+        ...config.headers,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', ...payload }),
+      signal,
+    });
+
+    sessionId = response.headers.get('mcp-session-id') ?? sessionId;
+
+    if (!response.ok) {
+      const text = (await response.text()).trim().slice(0, 200);
+      throw new Error(`HTTP ${response.status}${text ? `: ${text}` : ''}`);
+    }
+
+    return response;
+  };
+
+  try {
+    return await discover(
+      async (method, params) => {
+        const id = nextId++;
+        const response = await post({ id, method, params });
+        const message = parseHttpRpcBody(await response.text(), response.headers.get('content-type') ?? '', id);
+        if (!message) throw new Error(`${method} failed: no JSON-RPC response`);
+        if (message.error) throw rpcError(method, message.error);
+        return message.result ?? {};
+      },
+      async (method, params) => {
+        const response = await post({ method, params });
+        await response.body?.cancel();
+      },
+    );
+  } finally {
+    // Best effort: let the server drop the session
+    if (sessionId) {
+      fetch(config.url, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId, ...config.headers } }).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Connect to an MCP server and list its tools
+ * Never throws; failures are reported in the result
+ */
+export async function probeMcpServer(config: McpServerConfig, timeoutMs = DEFAULT_PROBE_TIMEOUT_MS): Promise<McpProbeResult> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const startedAt = performance.now();
+
+  try {
+    const discovered = config.type === 'stdio'
+      ? await probeStdio(config, controller.signal)
+      : await probeHttp(config, controller.signal);
+
+    return { status: 'ok', latencyMs: Math.round(performance.now() - startedAt), ...discovered };
+  } catch (error) {
+    const message = controller.signal.aborted
+      ? `Timed out after ${timeoutMs}ms`
+      : error instanceof Error ? error.message : String(error);
+
+    return { status: 'error', latencyMs: Math.round(performance.now() - startedAt), tools: [], error: message };
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "bun:test";
+import { interpolateEnv, resolveMcpServers, validateMcpServerName, type McpServerDefinition } from "./mcpServers";
+
+describe("interpolateEnv", () => {
+  it("should replace ${VAR} references and blank out unset variables", () => {
+    const env = { API_KEY: "secret" };
+    expect(interpolateEnv("Bearer ${API_KEY}", env)).toBe("Bearer secret");
+    expect(interpolateEnv("${MISSING}-x", env)).toBe("-x");
+    expect(interpolateEnv("$API_KEY", env)).toBe("$API_KEY");
+  });
+});
+
+describe("resolveMcpServers", () => {
+  const definitions: Record<string, McpServerDefinition> = {
+    shared: { type: "http", url: "https://mcp.example.com", headers: { Authorization: "Bearer ${TOKEN}" } },
+    zai: { type: "stdio", command: "npx", args: ["-y", "zai"], env: { KEY: "${TOKEN}" }, providers: ["z-ai"] },
+    coderOnly: { type: "stdio", command: "internal-mcp", modes: ["coder"] },
+    disabled: { type: "http", url: "https://off.example.com", enabled: false },
+  };
+
+  it("should filter by enabled flag, provider and mode", () => {
+    expect(Object.keys(resolveMcpServers(definitions, "anthropic", "general", {}))).toEqual(["shared"]);
+    expect(Object.keys(resolveMcpServers(definitions, "z-ai", "coder", {}))).toEqual(["shared", "zai", "coderOnly"]);
+  });
+
+  it("should interpolate secrets and strip scope fields", () => {
+    const servers = resolveMcpServers(definitions, "z-ai", "general", { TOKEN: "t0k" });
+    expect(servers.shared).toEqual({ type: "http", url: "https://mcp.example.com", headers: { Authorization: "Bearer t0k" } });
+    expect(servers.zai).toEqual({ type: "stdio", command: "npx", args: ["-y", "zai"], env: { KEY: "t0k" } });
+  });
+});
+
+describe("validateMcpServerName", () => {
+  it("should reject names that can't be used in tool IDs or are reserved", () => {
+    expect(validateMcpServerName("internal_docs-2")).toBeNull();
+    expect(validateMcpServerName("bad name")).not.toBeNull();
+    expect(validateMcpServerName("ask-user-question")).not.toBeNull();
+  });
+});
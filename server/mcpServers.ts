@@ -18,162 +18,303 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { z } from 'zod';
 import type { ProviderType } from '../client/config/models';
+import { getAppDataDirectory } from './directoryUtils';
+import { probeMcpServer, type McpProbeResult } from './mcp/probe';
 
-interface McpHttpServerConfig {
+export interface McpHttpServerConfig {
   type: 'http';
   url: string;
   headers?: Record<string, string>;
 }
 
-interface McpStdioServerConfig {
+export interface McpStdioServerConfig {
   type: 'stdio';
   command: string;
   args?: string[];
   env?: Record<string, string>;
 }
 
-type McpServerConfig = McpHttpServerConfig | McpStdioServerConfig;
+export type McpServerConfig = McpHttpServerConfig | McpStdioServerConfig;
 
 /**
- * MCP servers configuration for different providers
+ * A server entry as stored in mcp-servers.json
+ * - enabled: disabled servers are kept in the file but never started
+ * - providers/modes: restrict the server to these providers/chat modes (omit for all)
+ * - String values may reference environment variables as ${VAR_NAME}, so secrets
+ *   don't have to be written into the file
+ */
+export type McpServerDefinition = McpServerConfig & {
+  enabled?: boolean;
+  description?: string;
+  providers?: ProviderType[];
+  modes?: string[];
+};
+
+/**
+ * Names reserved for servers the app registers itself
+ */
+const RESERVED_SERVER_NAMES = ['ask-user-question'];
+
+const SERVER_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+const stringRecord = z.record(z.string(), z.string());
+
+const scopeFields = {
+  enabled: z.boolean().optional(),
+  description: z.string().optional(),
+  providers: z.array(z.string().min(1)).optional(),
+  modes: z.array(z.string()).optional(),
+};
+
+export const mcpServerDefinitionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('http'),
+    url: z.string().min(1, 'URL is required'),
+    headers: stringRecord.optional(),
+    ...scopeFields,
+  }),
+  z.object({
+    type: z.literal('stdio'),
+    command: z.string().min(1, 'Command is required'),
+    args: z.array(z.string()).optional(),
+    env: stringRecord.optional(),
+    ...scopeFields,
+  }),
+]);
+
+const mcpServersFileSchema = z.object({
+  servers: z.record(z.string(), mcpServerDefinitionSchema),
+});
+
+/**
+ * Servers written to mcp-servers.json the first time it is created
  * - Shared MCP servers (grep.app): Available to all providers
  * - Provider-specific MCP servers: Z.AI has additional web-search and media analysis tools
  */
-export const MCP_SERVERS_BY_PROVIDER: Record<ProviderType, Record<string, McpServerConfig>> = {
-  'anthropic': {
-    // Grep.app MCP - code search across public GitHub repositories
-    'grep': {
-      type: 'http',
-      url: 'https://mcp.grep.app',
-    },
-    // Instagram MCP - Instagram data and analytics
-    'instagram': {
-      type: 'stdio',
-      command: 'npx',
-      args: ['-y', 'instagram-mcp'],
-      env: {
-        'RAPIDAPI_KEY': process.env.RAPIDAPI_KEY || '',
-      },
-    },
+export const DEFAULT_MCP_SERVERS: Record<string, McpServerDefinition> = {
+  // Grep.app MCP - code search across public GitHub repositories
+  'grep': {
+    type: 'http',
+    url: 'https://mcp.grep.app',
+    description: 'Code search across public GitHub repositories',
   },
-  'z-ai': {
-    // Grep.app MCP - code search across public GitHub repositories
-    'grep': {
-      type: 'http',
-      url: 'https://mcp.grep.app',
-    },
-    // Instagram MCP - Instagram data and analytics
-    'instagram': {
-      type: 'stdio',
-      command: 'npx',
-      args: ['-y', 'instagram-mcp'],
-      env: {
-        'RAPIDAPI_KEY': process.env.RAPIDAPI_KEY || '',
-      },
+  // Instagram MCP - Instagram data and analytics
+  'instagram': {
+    type: 'stdio',
+    command: 'npx',
+    args: ['-y', 'instagram-mcp'],
+    env: {
+      'RAPIDAPI_KEY': '${RAPIDAPI_KEY}',
     },
-    // GLM models use Z.AI MCP servers
-    'web-search-prime': {
-      type: 'http',
-      url: 'https://api.z.ai/api/mcp/web_search_prime/mcp',
-      headers: {
-        'Authorization': `Bearer ${process.env.ZAI_API_KEY || ''}`,
-      },
-    },
-    'zai-mcp-server': {
-      type: 'stdio',
-      command: 'npx',
-      args: ['-y', '@z_ai/mcp-server'],
-      env: {
-        'Z_AI_API_KEY': process.env.ZAI_API_KEY || '',
-        'Z_AI_MODE': 'ZAI',
-      },
+    description: 'Instagram data and analytics',
+    providers: ['anthropic', 'z-ai'],
+  },
+  // GLM models use Z.AI MCP servers
+  'web-search-prime': {
+    type: 'http',
+    url: 'https://api.z.ai/api/mcp/web_search_prime/mcp',
+    headers: {
+      'Authorization': 'Bearer ${ZAI_API_KEY}',
     },
+    description: 'Z.AI web search',
+    providers: ['z-ai'],
   },
-  'moonshot': {
-    // Grep.app MCP - code search across public GitHub repositories
-    'grep': {
-      type: 'http',
-      url: 'https://mcp.grep.app',
+  'zai-mcp-server': {
+    type: 'stdio',
+    command: 'npx',
+    args: ['-y', '@z_ai/mcp-server'],
+    env: {
+      'Z_AI_API_KEY': '${ZAI_API_KEY}',
+      'Z_AI_MODE': 'ZAI',
     },
+    description: 'Z.AI image and video analysis',
+    providers: ['z-ai'],
   },
 };
 
+/**
+ * Get config file path (lazy evaluation to ensure correct path)
+ */
+export function getMcpConfigPath(): string {
+  return join(getAppDataDirectory(), 'mcp-servers.json');
+}
+
+/**
+ * Load MCP server definitions from disk
+ * Creates the file with the default servers on first run. If the file is
+ * invalid, no servers are loaded and the error is returned for display.
+ */
+export function loadMcpServerDefinitions(): { servers: Record<string, McpServerDefinition>; error?: string } {
+  const configPath = getMcpConfigPath();
+
+  if (!existsSync(configPath)) {
+    saveMcpServerDefinitions(DEFAULT_MCP_SERVERS);
+    console.log('📁 Created MCP server config:', configPath);
+    return { servers: { ...DEFAULT_MCP_SERVERS } };
+  }
+
+  try {
+    const content = readFileSync(configPath, 'utf-8').trim();
+    const result = mcpServersFileSchema.safeParse(content === '' ? { servers: {} } : JSON.parse(content));
+
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      const error = `Invalid MCP server config at ${issue.path.join('.') || '(root)'}: ${issue.message}`;
+      console.error(`❌ ${error}`);
+      console.error(`   Path: ${configPath}`);
+      return { servers: {}, error };
+    }
+
+    return { servers: result.data.servers };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('❌ Failed to load MCP server config:', errorMessage);
+    console.error(`   Path: ${configPath}`);
+    return { servers: {}, error: `Failed to read MCP server config: ${errorMessage}` };
+  }
+}
+
+/**
+ * Save MCP server definitions to disk
+ */
+export function saveMcpServerDefinitions(servers: Record<string, McpServerDefinition>): void {
+  const configPath = getMcpConfigPath();
+  const configDir = getAppDataDirectory();
+  if (!existsSync(configDir)) {
+    mkdirSync(configDir, { recursive: true });
+  }
+
+  try {
+    writeFileSync(configPath, JSON.stringify({ servers }, null, 2), 'utf-8');
+  } catch (error) {
+    console.error('Failed to save MCP server config:', error);
+    throw error;
+  }
+}
+
+/**
+ * Validate a server name for use as a key in mcp-servers.json
+ * Names become part of tool IDs (mcp__<name>__<tool>), so they are restricted
+ */
+export function validateMcpServerName(name: string): string | null {
+  if (!SERVER_NAME_PATTERN.test(name)) {
+    return 'Server name may only contain letters, numbers, hyphens and underscores';
+  }
+  if (RESERVED_SERVER_NAMES.includes(name)) {
+    return `"${name}" is reserved`;
+  }
+  return null;
+}
+
+/**
+ * Replace ${VAR_NAME} references with values from the environment
+ * Unset variables become empty strings
+ */
+export function interpolateEnv(value: string, env: Record<string, string | undefined> = process.env): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_match, name: string) => env[name] ?? '');
+}
+
+function interpolateRecord(record: Record<string, string> | undefined, env: Record<string, string | undefined>) {
+  if (!record) return undefined;
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, interpolateEnv(value, env)]));
+}
+
+/**
+ * Turn a stored definition into the config passed to the SDK
+ * (scope fields stripped, environment variables interpolated)
+ */
+export function toServerConfig(definition: McpServerDefinition, env: Record<string, string | undefined>): McpServerConfig {
+  if (definition.type === 'http') {
+    return {
+      type: 'http',
+      url: interpolateEnv(definition.url, env),
+      ...(definition.headers && { headers: interpolateRecord(definition.headers, env) }),
+    };
+  }
+
+  return {
+    type: 'stdio',
+    command: interpolateEnv(definition.command, env),
+    ...(definition.args && { args: definition.args.map(arg => interpolateEnv(arg, env)) }),
+    ...(definition.env && { env: interpolateRecord(definition.env, env) }),
+  };
+}
+
+/**
+ * Select the enabled servers that apply to a provider/mode
+ */
+export function resolveMcpServers(
+  definitions: Record<string, McpServerDefinition>,
+  provider: ProviderType,
+  mode?: string,
+  env: Record<string, string | undefined> = process.env,
+): Record<string, McpServerConfig> {
+  const servers: Record<string, McpServerConfig> = {};
+
+  for (const [name, definition] of Object.entries(definitions)) {
+    if (definition.enabled === false) continue;
+    if (definition.providers && !definition.providers.includes(provider)) continue;
+    if (mode && definition.modes && !definition.modes.includes(mode)) continue;
+
+    servers[name] = toServerConfig(definition, env);
+  }
+
+  return servers;
+}
+
 /**
  * Get MCP servers for a specific provider
  *
  * @param provider - The provider type
  * @param _modelId - Optional model ID for model-specific MCP server restrictions
+ * @param mode - Optional chat mode, for servers scoped to specific modes
  */
-export function getMcpServers(provider: ProviderType, _modelId?: string): Record<string, McpServerConfig> {
-  const servers = MCP_SERVERS_BY_PROVIDER[provider] || {};
-  return servers;
+export function getMcpServers(provider: ProviderType, _modelId?: string, mode?: string): Record<string, McpServerConfig> {
+  const { servers } = loadMcpServerDefinitions();
+  return resolveMcpServers(servers, provider, mode);
+}
+
+export interface McpServerStatus extends McpProbeResult {
+  name: string;
+  type: McpServerConfig['type'];
+  checkedAt: string;
 }
 
+// Probe results are cached per server; the key changes when the definition is edited
+const STATUS_TTL_MS = 5 * 60 * 1000;
+const statusCache = new Map<string, { key: string; checkedAt: number; status: McpServerStatus }>();
+
 /**
- * Get allowed tools for a provider's MCP servers
- *
- * @param provider - The provider type
- * @param _modelId - Optional model ID for model-specific tool restrictions
+ * Probe every enabled server (in parallel) and report health and tools
+ * Cached results younger than STATUS_TTL_MS are reused unless refresh is set.
+ * Disabled servers are not started and are omitted.
  */
-export function getAllowedMcpTools(provider: ProviderType, _modelId?: string): string[] {
-  // Grep.app MCP tools - available to all providers
-  const grepTools = [
-    'mcp__grep__searchGitHub',
-  ];
-
-  // Instagram MCP tools - available to all providers
-  const instagramTools = [
-    'mcp__instagram__search_user',
-    'mcp__instagram__get_user_posts',
-    'mcp__instagram__get_user_followers',
-    'mcp__instagram__get_user_followings',
-    'mcp__instagram__get_user_reels',
-    'mcp__instagram__get_user_stories',
-    'mcp__instagram__get_user_tagged_posts',
-    'mcp__instagram__get_user_highlights',
-    'mcp__instagram__get_user_about',
-    'mcp__instagram__get_similar_accounts',
-    'mcp__instagram__get_basic_profile',
-    'mcp__instagram__search_hashtag',
-    'mcp__instagram__get_highlight_stories',
-    'mcp__instagram__get_media_data',
-    'mcp__instagram__get_post_comments',
-    'mcp__instagram__get_comment_replies',
-    'mcp__instagram__get_post_likers',
-    'mcp__instagram__get_reel_title',
-    'mcp__instagram__get_media_id',
-    'mcp__instagram__analyze_content_strategy',
-    'mcp__instagram__compare_competitors',
-    'mcp__instagram__discover_trending_content',
-    'mcp__instagram__analyze_hashtag_performance',
-    'mcp__instagram__audit_content_quality',
-    'mcp__instagram__identify_growth_opportunities',
-    'mcp__instagram__engagement_deep_dive',
-  ];
-
-  if (provider === 'anthropic') {
-    return [
-      ...grepTools,
-      ...instagramTools,
-    ];
-  }
+export async function getMcpServerStatuses(options: { refresh?: boolean } = {}): Promise<McpServerStatus[]> {
+  const { servers } = loadMcpServerDefinitions();
 
-  if (provider === 'z-ai') {
-    return [
-      ...grepTools,
-      ...instagramTools,
-      'mcp__web-search-prime__search',
-      'mcp__zai-mcp-server__image_analysis',
-      'mcp__zai-mcp-server__video_analysis',
-    ];
-  }
+  const enabled = Object.entries(servers).filter(([, definition]) => definition.enabled !== false);
 
-  if (provider === 'moonshot') {
-    return [
-      ...grepTools,
-    ];
-  }
+  return Promise.all(enabled.map(async ([name, definition]) => {
+    const config = toServerConfig(definition, process.env);
+    const key = JSON.stringify(config);
+    const cached = statusCache.get(name);
+
+    if (!options.refresh && cached && cached.key === key && Date.now() - cached.checkedAt < STATUS_TTL_MS) {
+      return cached.status;
+    }
+
+    const result = await probeMcpServer(config);
+    const status: McpServerStatus = { name, type: config.type, checkedAt: new Date().toISOString(), ...result };
+    statusCache.set(name, { key, checkedAt: Date.now(), status });
+
+    if (result.status === 'error') {
+      console.warn(`⚠️  MCP server "${name}" failed health check: ${result.error}`);
+    }
 
-  return [];
+    return status;
+  }));
 }
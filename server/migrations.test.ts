@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { runMigrations, getSchemaVersion, LATEST_SCHEMA_VERSION, MIGRATIONS, type Migration } from "./migrations";
+
+/**
+ * Schema shapes that shipped before versioned migrations existed.
+ * Each step is what the corresponding ad-hoc migrateXxx() produced;
+ * all of these databases report user_version 0.
+ */
+const LEGACY_STEPS: { name: string; sql: string[] }[] = [
+  {
+    name: 'original tables',
+    sql: [
+      "CREATE TABLE sessions (id TEXT PRIMARY KEY, title TEXT NOT NULL, created_at TEXT NOT NULL, updated_at TEXT NOT NULL)",
+      "CREATE TABLE messages (id TEXT PRIMARY KEY, session_id TEXT NOT NULL, type TEXT NOT NULL, content TEXT NOT NULL, timestamp TEXT NOT NULL, FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE)",
+      "CREATE INDEX idx_messages_session_id ON messages(session_id)",
+    ],
+  },
+  { name: 'working_directory', sql: ["ALTER TABLE sessions ADD COLUMN working_directory TEXT NOT NULL DEFAULT ''"] },
+  { name: 'permission_mode', sql: ["ALTER TABLE sessions ADD COLUMN permission_mode TEXT NOT NULL DEFAULT 'bypassPermissions'"] },
+  { name: 'mode', sql: ["ALTER TABLE sessions ADD COLUMN mode TEXT NOT NULL DEFAULT 'general'"] },
+  { name: 'sdk_session_id', sql: ["ALTER TABLE sessions ADD COLUMN sdk_session_id TEXT"] },
+  {
+    name: 'context usage',
+    sql: [
+      "ALTER TABLE sessions ADD COLUMN context_input_tokens INTEGER",
+      "ALTER TABLE sessions ADD COLUMN context_window INTEGER",
+      "ALTER TABLE sessions ADD COLUMN context_percentage REAL",
+    ],
+  },
+  {
+    name: 'message search',
+    sql: [
+      "CREATE VIRTUAL TABLE messages_fts USING fts5(text, tokenize = 'unicode61 remove_diacritics 2')",
+      "CREATE TRIGGER messages_fts_delete AFTER DELETE ON messages BEGIN DELETE FROM messages_fts WHERE rowid = old.rowid; END",
+    ],
+  },
+  {
+    name: 'fork lineage',
+    sql: [
+      "ALTER TABLE sessions ADD COLUMN parent_session_id TEXT",
+      "ALTER TABLE sessions ADD COLUMN forked_from_message_id TEXT",
+    ],
+  },
+];
+
+function createLegacyFixture(dbPath: string, stepCount: number): Database {
+  const db = new Database(dbPath, { create: true });
+  for (const step of LEGACY_STEPS.slice(0, stepCount)) {
+    step.sql.forEach(sql => db.run(sql));
+  }
+
+  // Seed a row using only the columns this shape has
+  db.run("INSERT INTO sessions (id, title, created_at, updated_at) VALUES ('s1', 'Legacy chat', '2025-01-01', '2025-01-01')");
+  db.run("INSERT INTO messages (id, session_id, type, content, timestamp) VALUES ('m1', 's1', 'user', 'hello legacy world', '2025-01-01')");
+  return db;
+}
+
+function describeSchema(db: Database) {
+  const columns = db.query<{ name: string }, []>("PRAGMA table_info(sessions)").all().map(col => col.name).sort();
+  const objects = db.query<{ name: string }, []>(
+    "SELECT name FROM sqlite_master WHERE type IN ('table', 'index', 'trigger') AND name NOT LIKE 'sqlite_%' AND name NOT LIKE 'messages_fts_%' ORDER BY name"
+  ).all().map(row => row.name);
+  return { columns, objects };
+}
+
+describe("runMigrations", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-llama-migrations-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should create the latest schema on a fresh database without a backup", () => {
+    const dbPath = path.join(tempDir, 'sessions.db');
+    const db = new Database(dbPath, { create: true });
+
+    const result = runMigrations(db, { dbPath });
+
+    expect(result.fromVersion).toBe(0);
+    expect(result.toVersion).toBe(LATEST_SCHEMA_VERSION);
+    expect(result.backupPath).toBeUndefined();
+    expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+    db.close();
+  });
+
+  for (let stepCount = 1; stepCount <= LEGACY_STEPS.length; stepCount++) {
+    const shape = LEGACY_STEPS[stepCount - 1].name;
+
+    it(`should upgrade a legacy database ending at "${shape}" to the latest schema`, () => {
+      const fresh = new Database(':memory:');
+      runMigrations(fresh);
+      const expected = describeSchema(fresh);
+      fresh.close();
+
+      const dbPath = path.join(tempDir, 'sessions.db');
+      const db = createLegacyFixture(dbPath, stepCount);
+
+      const result = runMigrations(db, { dbPath });
+
+      expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+      expect(describeSchema(db)).toEqual(expected);
+
+      // Data survives and is searchable
+      const session = db.query<{ title: string; working_directory: string; mode: string }, []>(
+        "SELECT title, working_directory, mode FROM sessions WHERE id = 's1'"
+      ).get();
+      expect(session?.title).toBe('Legacy chat');
+      expect(session?.mode).toBe('general');
+      expect(db.query("SELECT rowid FROM messages_fts WHERE messages_fts MATCH 'legacy'").all()).toHaveLength(1);
+
+      // A snapshot of the pre-migration database was taken
+      expect(result.backupPath).toBeDefined();
+      const backup = new Database(result.backupPath!, { readonly: true });
+      expect(getSchemaVersion(backup)).toBe(0);
+      expect(backup.query("SELECT id FROM messages").all()).toHaveLength(1);
+      backup.close();
+
+      db.close();
+    });
+  }
+
+  it("should apply only pending migrations to a versioned database", () => {
+    const dbPath = path.join(tempDir, 'sessions.db');
+    const db = new Database(dbPath, { create: true });
+    runMigrations(db, { dbPath, migrations: MIGRATIONS.slice(0, -1) });
+
+    const result = runMigrations(db, { dbPath });
+
+    expect(result.fromVersion).toBe(LATEST_SCHEMA_VERSION - 1);
+    expect(result.applied).toEqual([MIGRATIONS[MIGRATIONS.length - 1].name]);
+    expect(result.backupPath).toContain(`.v${LATEST_SCHEMA_VERSION - 1}.`);
+    db.close();
+  });
+
+  it("should be a no-op on an up-to-date database", () => {
+    const dbPath = path.join(tempDir, 'sessions.db');
+    const db = new Database(dbPath, { create: true });
+    runMigrations(db, { dbPath });
+
+    const result = runMigrations(db, { dbPath });
+
+    expect(result.applied).toHaveLength(0);
+    expect(result.backupPath).toBeUndefined();
+    db.close();
+  });
+
+  it("should roll back a failing migration and keep the last applied version", () => {
+    const db = new Database(':memory:');
+    const migrations: Migration[] = [
+      { version: 1, name: 'create table', up: (d) => d.run("CREATE TABLE t (id TEXT)") },
+      {
+        version: 2,
+        name: 'broken',
+        up: (d) => {
+          d.run("ALTER TABLE t ADD COLUMN extra TEXT");
+          throw new Error('boom');
+        },
+      },
+    ];
+
+    expect(() => runMigrations(db, { migrations })).toThrow('boom');
+    expect(getSchemaVersion(db)).toBe(1);
+    const columns = db.query<{ name: string }, []>("PRAGMA table_info(t)").all().map(col => col.name);
+    expect(columns).toEqual(['id']);
+    db.close();
+  });
+
+  it("should refuse to open a database from a newer build", () => {
+    const db = new Database(':memory:');
+    db.run(`PRAGMA user_version = ${LATEST_SCHEMA_VERSION + 1}`);
+
+    expect(() => runMigrations(db)).toThrow('newer than this build supports');
+    db.close();
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Schema Migrations
+ *
+ * The schema version is tracked in `PRAGMA user_version`. Each migration runs
+ * in its own transaction together with the version bump, so a failure leaves
+ * the database at the last fully applied version.
+ *
+ * Databases created before versioning was introduced report version 0 no
+ * matter which ad-hoc migrations they already went through, so every
+ * migration must be idempotent (use addColumnIfMissing / IF NOT EXISTS).
+ *
+ * To change the schema, append a migration with the next version number.
+ * Never edit or reorder migrations that have already shipped.
+ */
+
+import type { Database } from "bun:sqlite";
+import { getDefaultWorkingDirectory } from "./directoryUtils";
+import { extractSearchableText } from "./utils/messageText";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database) => void;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+  backupPath?: string;
+}
+
+function hasColumn(db: Database, table: string, column: string): boolean {
+  const columns = db.query<{ name: string }, []>(`PRAGMA table_info(${table})`).all();
+  return columns.some(col => col.name === column);
+}
+
+/**
+ * Add a column unless an earlier ad-hoc migration already added it
+ * Returns true if the column was added
+ */
+function addColumnIfMissing(db: Database, table: string, column: string, definition: string): boolean {
+  if (hasColumn(db, table, column)) {
+    return false;
+  }
+  db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'Create sessions and messages tables',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS messages (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          type TEXT NOT NULL,
+          content TEXT NOT NULL,
+          timestamp TEXT NOT NULL,
+          FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+        )
+      `);
+
+      db.run(`
+        CREATE INDEX IF NOT EXISTS idx_messages_session_id
+        ON messages(session_id)
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'Add working_directory to sessions',
+    up: (db) => {
+      if (addColumnIfMissing(db, 'sessions', 'working_directory', "TEXT NOT NULL DEFAULT ''")) {
+        const hasSessions = db.query<{ count: number }, []>("SELECT COUNT(*) as count FROM sessions").get()?.count;
+        if (hasSessions) {
+          // Existing sessions predate per-chat directories; point them at the default one
+          db.run("UPDATE sessions SET working_directory = ? WHERE working_directory = ''", [getDefaultWorkingDirectory()]);
+        }
+      }
+    },
+  },
+  {
+    version: 3,
+    name: 'Add permission_mode to sessions',
+    up: (db) => {
+      addColumnIfMissing(db, 'sessions', 'permission_mode', "TEXT NOT NULL DEFAULT 'bypassPermissions'");
+    },
+  },
+  {
+    version: 4,
+    name: 'Add mode to sessions',
+    up: (db) => {
+      addColumnIfMissing(db, 'sessions', 'mode', "TEXT NOT NULL DEFAULT 'general'");
+    },
+  },
+  {
+    version: 5,
+    name: 'Add sdk_session_id to sessions',
+    up: (db) => {
+      // Nullable, as it's only set after the first message
+      addColumnIfMissing(db, 'sessions', 'sdk_session_id', 'TEXT');
+    },
+  },
+  {
+    version: 6,
+    name: 'Add context usage columns to sessions',
+    up: (db) => {
+      // Some early databases have context_percentage as INTEGER; SQLite stores
+      // decimals in it anyway, so it is left as is
+      addColumnIfMissing(db, 'sessions', 'context_input_tokens', 'INTEGER');
+      addColumnIfMissing(db, 'sessions', 'context_window', 'INTEGER');
+      addColumnIfMissing(db, 'sessions', 'context_percentage', 'REAL');
+    },
+  },
+  {
+    version: 7,
+    name: 'Create full-text search index over messages',
+    up: (db) => {
+      // FTS rows share the rowid of their message so updates/deletes are cheap lookups
+      db.run(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts
+        USING fts5(text, tokenize = 'unicode61 remove_diacritics 2')
+      `);
+
+      db.run(`
+        CREATE TRIGGER IF NOT EXISTS messages_fts_delete
+        AFTER DELETE ON messages
+        BEGIN
+          DELETE FROM messages_fts WHERE rowid = old.rowid;
+        END
+      `);
+
+      // Backfill (or repair a partially built index)
+      const rows = db.query<{ rowid: number; content: string }, []>("SELECT rowid, content FROM messages").all();
+      const insert = db.prepare("INSERT INTO messages_fts (rowid, text) VALUES (?, ?)");
+      db.run("DELETE FROM messages_fts");
+      for (const row of rows) {
+        insert.run(row.rowid, extractSearchableText(row.content));
+      }
+    },
+  },
+  {
+    version: 8,
+    name: 'Add fork lineage columns to sessions',
+    up: (db) => {
+      // Nullable, only set for forked sessions
+      addColumnIfMissing(db, 'sessions', 'parent_session_id', 'TEXT');
+      addColumnIfMissing(db, 'sessions', 'forked_from_message_id', 'TEXT');
+    },
+  },
+  {
+    version: 9,
+    name: 'Add tool_policy to sessions',
+    up: (db) => {
+      // JSON-encoded SessionToolPolicy; NULL means everything enabled
+      addColumnIfMissing(db, 'sessions', 'tool_policy', 'TEXT');
+    },
+  },
+  {
+    version: 10,
+    name: 'Create usage_events ledger',
+    up: (db) => {
+      // One row per completed turn. No foreign key: spend on deleted chats still counts.
+      db.run(`
+        CREATE TABLE IF NOT EXISTS usage_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL,
+          model_id TEXT NOT NULL,
+          api_model_id TEXT NOT NULL,
+          provider TEXT NOT NULL,
+          input_tokens INTEGER NOT NULL DEFAULT 0,
+          output_tokens INTEGER NOT NULL DEFAULT 0,
+          cache_creation_input_tokens INTEGER NOT NULL DEFAULT 0,
+          cache_read_input_tokens INTEGER NOT NULL DEFAULT 0,
+          cost_usd REAL,
+          duration_ms INTEGER,
+          created_at TEXT NOT NULL
+        )
+      `);
+      db.run("CREATE INDEX IF NOT EXISTS idx_usage_events_created_at ON usage_events(created_at)");
+      db.run("CREATE INDEX IF NOT EXISTS idx_usage_events_session_id ON usage_events(session_id)");
+    },
+  },
+  {
+    version: 11,
+    name: 'Create tool_events audit log',
+    up: (db) => {
+      // One row per tool call, written from the PreToolUse/PostToolUse hooks.
+      // No foreign key: the audit trail outlives deleted chats.
+      db.run(`
+        CREATE TABLE IF NOT EXISTS tool_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL,
+          tool_use_id TEXT NOT NULL,
+          parent_tool_use_id TEXT,
+          tool_name TEXT NOT NULL,
+          input TEXT NOT NULL,
+          result TEXT,
+          result_size INTEGER,
+          status TEXT NOT NULL,
+          working_directory TEXT NOT NULL,
+          started_at TEXT NOT NULL,
+          duration_ms INTEGER
+        )
+      `);
+      db.run("CREATE INDEX IF NOT EXISTS idx_tool_events_session_id ON tool_events(session_id, started_at)");
+      db.run("CREATE INDEX IF NOT EXISTS idx_tool_events_started_at ON tool_events(started_at)");
+      db.run("CREATE INDEX IF NOT EXISTS idx_tool_events_tool_use_id ON tool_events(tool_use_id)");
+    },
+  },
+  {
+    version: 12,
+    name: 'Create tool_results table',
+    up: (db) => {
+      // Full tool output behind the preview kept in the assistant message JSON
+      db.run(`
+        CREATE TABLE IF NOT EXISTS tool_results (
+          tool_use_id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          content TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          is_error INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL
+        )
+      `);
+      db.run("CREATE INDEX IF NOT EXISTS idx_tool_results_session_id ON tool_results(session_id)");
+    },
+  },
+  {
+    version: 13,
+    name: 'Create file_checkpoints table',
+    up: (db) => {
+      // Content of each file before a turn first edited it (NULL: the file didn't exist)
+      db.run(`
+        CREATE TABLE IF NOT EXISTS file_checkpoints (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL,
+          turn_id TEXT NOT NULL,
+          file_path TEXT NOT NULL,
+          content BLOB,
+          created_at TEXT NOT NULL,
+          UNIQUE (session_id, turn_id, file_path)
+        )
+      `);
+      db.run("CREATE INDEX IF NOT EXISTS idx_file_checkpoints_session_id ON file_checkpoints(session_id, created_at)");
+    },
+  },
+  {
+    version: 14,
+    name: 'Add git_settings to sessions',
+    up: (db) => {
+      // JSON-encoded SessionGitSettings; NULL means no git automation
+      addColumnIfMissing(db, 'sessions', 'git_settings', 'TEXT');
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function getSchemaVersion(db: Database): number {
+  return db.query<{ user_version: number }, []>("PRAGMA user_version").get()?.user_version ?? 0;
+}
+
+function isEmptyDatabase(db: Database): boolean {
+  const row = db.query<{ count: number }, []>(
+    "SELECT COUNT(*) as count FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'"
+  ).get();
+  return (row?.count ?? 0) === 0;
+}
+
+/**
+ * Snapshot the database before migrating it
+ * VACUUM INTO produces a consistent copy even with pending WAL pages
+ */
+export function backupDatabase(db: Database, dbPath: string, fromVersion: number): string {
+  const backupPath = `${dbPath}.v${fromVersion}.${Date.now()}.bak`;
+  db.run("VACUUM INTO ?", [backupPath]);
+  return backupPath;
+}
+
+/**
+ * Bring the database up to LATEST_SCHEMA_VERSION
+ * When dbPath is given, a backup is taken before touching an existing database.
+ */
+export function runMigrations(db: Database, options: { dbPath?: string; migrations?: Migration[] } = {}): MigrationResult {
+  const migrations = options.migrations ?? MIGRATIONS;
+  const fromVersion = getSchemaVersion(db);
+  const latestVersion = migrations[migrations.length - 1]?.version ?? 0;
+
+  if (fromVersion > latestVersion) {
+    throw new Error(`Database schema version ${fromVersion} is newer than this build supports (${latestVersion}). Please update Agent Llama.`);
+  }
+
+  const pending = migrations.filter(migration => migration.version > fromVersion);
+  const result: MigrationResult = { fromVersion, toVersion: fromVersion, applied: [] };
+
+  if (pending.length === 0) {
+    console.log(`✅ Database schema is up to date (v${fromVersion})`);
+    return result;
+  }
+
+  if (options.dbPath && options.dbPath !== ':memory:' && !isEmptyDatabase(db)) {
+    result.backupPath = backupDatabase(db, options.dbPath, fromVersion);
+    console.log(`📦 Backed up database before migrating: ${result.backupPath}`);
+  }
+
+  for (const migration of pending) {
+    console.log(`📦 Migrating database to v${migration.version}: ${migration.name}`);
+    try {
+      db.transaction(() => {
+        migration.up(db);
+        // PRAGMA doesn't accept bound parameters; version is a trusted integer
+        db.run(`PRAGMA user_version = ${migration.version}`);
+      })();
+    } catch (error) {
+      console.error(`❌ Database migration v${migration.version} failed:`, error);
+      throw error;
+    }
+    result.toVersion = migration.version;
+    result.applied.push(migration.name);
+  }
+
+  console.log(`✅ Database migrated from v${fromVersion} to v${result.toVersion}`);
+  return result;
+}
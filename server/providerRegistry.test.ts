@@ -0,0 +1,55 @@
+import { describe, it, expect } from "bun:test";
+import { AVAILABLE_MODELS } from "../client/config/models";
+import { mergeProviderRegistry, resolveModel } from "./providerRegistry";
+
+describe("mergeProviderRegistry", () => {
+  it("should add custom providers and models alongside the built-ins", () => {
+    const registry = mergeProviderRegistry({
+      providers: {
+        gateway: { name: "Gateway", baseUrl: "https://llm.example.com/anthropic", apiKeyEnv: "GATEWAY_KEY" },
+      },
+      models: [{ id: "gw-sonnet", name: "Sonnet (Gateway)", apiModelId: "claude-sonnet-4-5", provider: "gateway" }],
+    });
+
+    expect(registry.error).toBeUndefined();
+    expect(registry.providers.gateway).toEqual({
+      id: "gateway",
+      name: "Gateway",
+      baseUrl: "https://llm.example.com/anthropic",
+      apiKeyEnv: "GATEWAY_KEY",
+      authType: "bearer",
+      supportsThinking: false,
+      supportsContextUsage: true,
+    });
+    expect(registry.providers.anthropic).toBeDefined();
+    expect(registry.models).toHaveLength(AVAILABLE_MODELS.length + 1);
+    expect(resolveModel("gw-sonnet", registry).provider.id).toBe("gateway");
+  });
+
+  it("should let entries override built-ins and skip models with unknown providers", () => {
+    const registry = mergeProviderRegistry({
+      providers: { "z-ai": { name: "Z.AI (proxy)", baseUrl: "http://localhost:9000", apiKeyEnv: "ZAI_API_KEY", supportsThinking: true } },
+      models: [
+        { id: "sonnet", name: "Sonnet Custom", apiModelId: "claude-sonnet-custom", provider: "anthropic" },
+        { id: "orphan", name: "Orphan", apiModelId: "x", provider: "nowhere" },
+      ],
+    });
+
+    expect(registry.providers["z-ai"].baseUrl).toBe("http://localhost:9000");
+    expect(registry.providers["z-ai"].supportsThinking).toBe(true);
+    expect(registry.models).toHaveLength(AVAILABLE_MODELS.length);
+    expect(registry.models.find(m => m.id === "sonnet")?.apiModelId).toBe("claude-sonnet-custom");
+    expect(registry.models.some(m => m.id === "orphan")).toBe(false);
+  });
+
+  it("should keep the built-ins and report an error for an invalid file", () => {
+    const registry = mergeProviderRegistry({ providers: { bad: { name: "Bad", apiKeyEnv: "not a var" } } });
+
+    expect(registry.error).toContain("providers.bad.apiKeyEnv");
+    expect(registry.models).toEqual(AVAILABLE_MODELS);
+  });
+
+  it("should fall back to the default model for unknown IDs", () => {
+    expect(resolveModel("does-not-exist", mergeProviderRegistry({})).model.id).toBe("sonnet");
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Provider Registry
+ *
+ * Merges the built-in providers and models with user declarations from
+ * providers.json in the app data directory, e.g. an internal
+ * Anthropic-compatible gateway or a local proxy:
+ *
+ *   {
+ *     "providers": {
+ *       "gateway": { "name": "Internal Gateway", "baseUrl": "https://llm.internal/anthropic",
+ *                    "apiKeyEnv": "GATEWAY_API_KEY", "authType": "bearer", "supportsThinking": true }
+ *     },
+ *     "models": [
+ *       { "id": "gateway-sonnet", "name": "Sonnet (Gateway)", "apiModelId": "claude-sonnet-4-5",
+ *         "provider": "gateway", "description": "Sonnet through the internal gateway" }
+ *     ]
+ *   }
+ *
+ * Entries with a built-in ID replace the built-in definition.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { z } from 'zod';
+import {
+  AVAILABLE_MODELS,
+  BUILT_IN_PROVIDERS,
+  type ModelConfig,
+  type ProviderDefinition,
+} from '../client/config/models';
+import { getAppDataDirectory } from './directoryUtils';
+
+export interface ProviderRegistry {
+  providers: Record<string, ProviderDefinition>;
+  models: ModelConfig[];
+  error?: string;
+}
+
+const providerSchema = z.object({
+  name: z.string().min(1),
+  baseUrl: z.string().url().optional(),
+  apiKeyEnv: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'must be an environment variable name'),
+  authType: z.enum(['api-key', 'bearer']).default('bearer'),
+  supportsThinking: z.boolean().default(false),
+  supportsContextUsage: z.boolean().default(true),
+  keyInstructions: z.string().optional(),
+});
+
+const modelSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().default(''),
+  apiModelId: z.string().min(1),
+  provider: z.string().min(1),
+  pricing: z.object({
+    input: z.number().nonnegative(),
+    output: z.number().nonnegative(),
+    cacheWrite: z.number().nonnegative(),
+    cacheRead: z.number().nonnegative(),
+  }).optional(),
+});
+
+const registryFileSchema = z.object({
+  providers: z.record(z.string(), providerSchema).default({}),
+  models: z.array(modelSchema).default([]),
+});
+
+/**
+ * Get config file path (lazy evaluation to ensure correct path)
+ */
+export function getProviderConfigPath(): string {
+  return join(getAppDataDirectory(), 'providers.json');
+}
+
+function builtInRegistry(): ProviderRegistry {
+  return { providers: { ...BUILT_IN_PROVIDERS }, models: [...AVAILABLE_MODELS] };
+}
+
+/**
+ * Merge validated file contents over the built-in registry
+ * Models referencing an unknown provider are dropped with a warning.
+ */
+export function mergeProviderRegistry(data: unknown): ProviderRegistry {
+  const registry = builtInRegistry();
+
+  const result = registryFileSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { ...registry, error: `Invalid provider config at ${issue.path.join('.') || '(root)'}: ${issue.message}` };
+  }
+
+  for (const [id, provider] of Object.entries(result.data.providers)) {
+    registry.providers[id] = { id, ...provider };
+  }
+
+  for (const model of result.data.models) {
+    if (!registry.providers[model.provider]) {
+      console.warn(`⚠️  Skipping model "${model.id}": unknown provider "${model.provider}"`);
+      continue;
+    }
+    const existing = registry.models.findIndex(m => m.id === model.id);
+    if (existing >= 0) {
+      registry.models[existing] = model;
+    } else {
+      registry.models.push(model);
+    }
+  }
+
+  return registry;
+}
+
+/**
+ * Load the provider registry (built-ins plus providers.json, if present)
+ * An invalid file is reported but doesn't hide the built-in providers.
+ */
+export function loadProviderRegistry(): ProviderRegistry {
+  const configPath = getProviderConfigPath();
+  if (!existsSync(configPath)) {
+    return builtInRegistry();
+  }
+
+  try {
+    const content = readFileSync(configPath, 'utf-8').trim();
+    const registry = mergeProviderRegistry(content === '' ? {} : JSON.parse(content));
+    if (registry.error) {
+      console.error(`❌ ${registry.error}`);
+      console.error(`   Path: ${configPath}`);
+    }
+    return registry;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('❌ Failed to load provider config:', errorMessage);
+    console.error(`   Path: ${configPath}`);
+    return { ...builtInRegistry(), error: `Failed to read provider config: ${errorMessage}` };
+  }
+}
+
+/**
+ * Resolve a model ID to its model and provider definitions
+ * Falls back to the default model for unknown IDs
+ */
+export function resolveModel(modelId: string | undefined, registry: ProviderRegistry = loadProviderRegistry()): { model: ModelConfig; provider: ProviderDefinition } {
+  const model = registry.models.find(m => m.id === modelId)
+    ?? registry.models.find(m => m.id === 'sonnet')
+    ?? registry.models[0];
+
+  return { model, provider: registry.providers[model.provider] };
+}
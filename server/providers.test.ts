@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { query } from "@anthropic-ai/claude-agent-sdk";
+import type { Server } from "bun";
+import { BUILT_IN_PROVIDERS, type ProviderDefinition } from "../client/config/models";
+import { buildProviderEnv, type ProviderConfig } from "./providers";
+import type { OAuthTokens } from "./oauth";
+
+function providerConfig(definition: ProviderDefinition, overrides: Partial<ProviderConfig> = {}): ProviderConfig {
+  return { baseUrl: definition.baseUrl, apiKey: "test-key", name: definition.name, oauthTokens: null, definition, ...overrides };
+}
+
+describe("buildProviderEnv", () => {
+  it("should set provider credentials on a copy of the base env", () => {
+    const baseEnv = { PATH: "/usr/bin", ANTHROPIC_API_KEY: "server-key", ANTHROPIC_BASE_URL: "https://stale.example.com" };
+
+    const anthropic = buildProviderEnv(providerConfig(BUILT_IN_PROVIDERS.anthropic, { apiKey: "sk-ant" }), baseEnv);
+    expect(anthropic).toEqual({ PATH: "/usr/bin", ANTHROPIC_API_KEY: "sk-ant" });
+
+    const zai = buildProviderEnv(providerConfig(BUILT_IN_PROVIDERS["z-ai"], { apiKey: "zai-key" }), baseEnv);
+    expect(zai).toEqual({ PATH: "/usr/bin", ANTHROPIC_BASE_URL: "https://api.z.ai/api/anthropic", ANTHROPIC_AUTH_TOKEN: "zai-key", ANTHROPIC_API_KEY: "" });
+
+    expect(baseEnv).toEqual({ PATH: "/usr/bin", ANTHROPIC_API_KEY: "server-key", ANTHROPIC_BASE_URL: "https://stale.example.com" });
+  });
+
+  it("should prefer valid OAuth tokens and fall back to the API key when expired", () => {
+    const tokens: OAuthTokens = { type: "oauth", accessToken: "oauth-token", refreshToken: "refresh", expiresAt: Date.now() + 3600_000 };
+    const withOAuth = buildProviderEnv(providerConfig(BUILT_IN_PROVIDERS.anthropic, { apiKey: "", oauthTokens: tokens }), {});
+    expect(withOAuth).toEqual({ CLAUDE_CODE_OAUTH_TOKEN: "oauth-token" });
+
+    const expired = { ...tokens, expiresAt: Date.now() - 1000 };
+    const withExpired = buildProviderEnv(providerConfig(BUILT_IN_PROVIDERS.anthropic, { apiKey: "sk-ant", oauthTokens: expired }), {});
+    expect(withExpired).toEqual({ ANTHROPIC_API_KEY: "sk-ant" });
+  });
+
+  it("should throw a helpful error when the API key is missing", () => {
+    expect(() => buildProviderEnv(providerConfig(BUILT_IN_PROVIDERS.moonshot, { apiKey: "" }), {})).toThrow("MOONSHOT_API_KEY");
+  });
+});
+
+/**
+ * Minimal Anthropic Messages API stub that answers with the route prefix
+ * it was called on and records the credentials each request carried
+ */
+function startMessagesStub(requests: { prefix: string; apiKey: string | null; authorization: string | null }[]): Server<undefined> {
+  return Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      const prefix = url.pathname.split("/")[1];
+      requests.push({ prefix, apiKey: req.headers.get("x-api-key"), authorization: req.headers.get("authorization") });
+
+      if (!url.pathname.endsWith("/v1/messages")) {
+        return Response.json({});
+      }
+
+      const body = await req.json() as { model: string; stream?: boolean };
+      const text = `reply from ${prefix}`;
+      const message = {
+        id: "msg_stub", type: "message", role: "assistant", model: body.model, content: [],
+        stop_reason: null, stop_sequence: null, usage: { input_tokens: 1, output_tokens: 1 },
+      };
+      if (!body.stream) {
+        return Response.json({ ...message, content: [{ type: "text", text }], stop_reason: "end_turn" });
+      }
+
+      const event = (type: string, data: Record<string, unknown>) => `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+      return new Response([
+        event("message_start", { message }),
+        event("content_block_start", { index: 0, content_block: { type: "text", text: "" } }),
+        event("content_block_delta", { index: 0, delta: { type: "text_delta", text } }),
+        event("content_block_stop", { index: 0 }),
+        event("message_delta", { delta: { stop_reason: "end_turn", stop_sequence: null }, usage: { output_tokens: 1 } }),
+        event("message_stop", {}),
+      ].join(""), { headers: { "Content-Type": "text/event-stream" } });
+    },
+  });
+}
+
+describe("parallel sessions on different providers", () => {
+  const requests: { prefix: string; apiKey: string | null; authorization: string | null }[] = [];
+  let server: Server<undefined>;
+  let tempDir: string;
+
+  beforeAll(() => {
+    server = startMessagesStub(requests);
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "agent-llama-providers-"));
+  });
+
+  afterAll(() => {
+    server.stop(true);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function runSession(config: ProviderConfig): Promise<string> {
+    // Isolated HOME so the CLI doesn't pick up the developer's own settings or credentials
+    const baseEnv = { ...process.env, HOME: tempDir, CLAUDE_CODE_DISABLE_NONESSENTIAL_TRAFFIC: "1" };
+    let result = "";
+    for await (const message of query({
+      prompt: "hello",
+      options: {
+        model: "claude-sonnet-4-5",
+        env: buildProviderEnv(config, baseEnv),
+        cwd: tempDir,
+        maxTurns: 1,
+        settingSources: [],
+        permissionMode: "bypassPermissions",
+      },
+    })) {
+      if (message.type === "result" && message.subtype === "success") {
+        result = message.result;
+      }
+    }
+    return result;
+  }
+
+  it("should route each session to its own provider without touching process.env", async () => {
+    // The SDK sets a few variables of its own; only the provider auth variables matter here
+    const authVars = ["CLAUDE_CODE_OAUTH_TOKEN", "ANTHROPIC_AUTH_TOKEN", "ANTHROPIC_API_KEY", "ANTHROPIC_BASE_URL"];
+    const snapshotAuthEnv = () => authVars.map(key => process.env[key]);
+    const authEnvBefore = snapshotAuthEnv();
+    const baseUrl = `http://localhost:${server.port}`;
+
+    const apiKeyProvider: ProviderDefinition = { ...BUILT_IN_PROVIDERS.anthropic, id: "stub-a", baseUrl: `${baseUrl}/a` };
+    const bearerProvider: ProviderDefinition = { ...BUILT_IN_PROVIDERS["z-ai"], id: "stub-b", baseUrl: `${baseUrl}/b` };
+
+    const results = await Promise.all([
+      runSession(providerConfig(apiKeyProvider, { apiKey: "key-a" })),
+      runSession(providerConfig(bearerProvider, { apiKey: "token-b" })),
+    ]);
+
+    expect(results).toEqual(["reply from a", "reply from b"]);
+
+    const fromA = requests.filter(r => r.prefix === "a");
+    const fromB = requests.filter(r => r.prefix === "b");
+    expect(fromA.length).toBeGreaterThan(0);
+    expect(fromB.length).toBeGreaterThan(0);
+    expect(fromA.every(r => r.apiKey === "key-a" && r.authorization === null)).toBe(true);
+    expect(fromB.every(r => r.authorization === "Bearer token-b" && r.apiKey === null)).toBe(true);
+    expect(requests.every(r => r.prefix === "a" || r.prefix === "b")).toBe(true);
+
+    expect(snapshotAuthEnv()).toEqual(authEnvBefore);
+  }, 120000);
+});
@@ -18,158 +18,124 @@
  * along with this program. If not, see <https://www.gnu.org/licenses/>.
  */
 
-import type { ProviderType } from '../client/config/models';
+import type { ProviderType, ProviderDefinition } from '../client/config/models';
 import { getAnthropicTokens, saveTokens } from './tokenStorage';
 import { refreshAccessToken, isTokenExpired, type OAuthTokens } from './oauth';
+import { loadProviderRegistry } from './providerRegistry';
 
 export interface ProviderConfig {
   baseUrl?: string;
   apiKey: string;
   name: string;
   oauthTokens?: OAuthTokens | null;
+  definition: ProviderDefinition;
 }
 
-// Cache for API keys to avoid repeated reads from process.env
-// This cache is populated on first call to getProviders() AFTER .env is loaded
-let cachedAnthropicKey: string | null = null;
-let cachedZaiKey: string | null = null;
-let cachedMoonshotKey: string | null = null;
+/**
+ * Auth-related variables the Claude Code CLI reads; always reset per provider
+ * so nothing leaks from the server environment or another provider
+ */
+const PROVIDER_ENV_VARS = [
+  'CLAUDE_CODE_OAUTH_TOKEN',
+  'ANTHROPIC_AUTH_TOKEN',
+  'ANTHROPIC_API_KEY',
+  'ANTHROPIC_BASE_URL',
+] as const;
+
+export type ProviderEnv = Record<string, string | undefined>;
 
 /**
  * Provider configurations
- * Maps provider types to their API configurations
- * IMPORTANT: Reads API keys from process.env dynamically on first call,
- * ensuring .env has been loaded before capturing the keys
+ * Maps provider IDs (built-in and from providers.json) to their API configurations
+ * API keys are read from process.env, which is never modified per provider
  */
-export async function getProviders(): Promise<Record<ProviderType, ProviderConfig>> {
-  // Populate cache on first call (AFTER .env is loaded by initializeStartup)
-  if (cachedAnthropicKey === null) {
-    cachedAnthropicKey = process.env.ANTHROPIC_API_KEY || '';
-    cachedZaiKey = process.env.ZAI_API_KEY || '';
-    cachedMoonshotKey = process.env.MOONSHOT_API_KEY || '';
-  }
+export async function getProviders(): Promise<Record<string, ProviderConfig | undefined>> {
+  const { providers } = loadProviderRegistry();
 
   // Check for OAuth tokens for Anthropic provider
   const oauthTokens = await getAnthropicTokens();
 
-  return {
-    'anthropic': {
-      // No baseUrl = uses default Anthropic endpoint (https://api.anthropic.com)
-      apiKey: cachedAnthropicKey || '',
-      name: 'Anthropic',
-      oauthTokens,
-    },
-    'z-ai': {
-      baseUrl: 'https://api.z.ai/api/anthropic',
-      apiKey: cachedZaiKey || '',
-      name: 'Z.AI',
-      oauthTokens: null, // Z.AI doesn't support OAuth
-    },
-    'moonshot': {
-      baseUrl: 'https://api.moonshot.ai/anthropic/',
-      apiKey: cachedMoonshotKey || '',
-      name: 'Moonshot AI',
-      oauthTokens: null, // Moonshot doesn't support OAuth
-    },
-  };
+  return Object.fromEntries(Object.values(providers).map(definition => [definition.id, {
+    // No baseUrl = uses default Anthropic endpoint (https://api.anthropic.com)
+    baseUrl: definition.baseUrl,
+    apiKey: process.env[definition.apiKeyEnv] || '',
+    name: definition.name,
+    // Only Anthropic supports OAuth
+    oauthTokens: definition.id === 'anthropic' ? oauthTokens : null,
+    definition,
+  }]));
 }
 
 /**
- * Configure environment for a specific provider
- * Sets ANTHROPIC_BASE_URL and ANTHROPIC_API_KEY env vars
+ * Build the environment for an SDK subprocess talking to a provider
+ * Returns a copy of baseEnv with the provider's auth variables; baseEnv is not modified
  *
- * IMPORTANT: For Anthropic provider, prioritizes OAuth over API key
- * If OAuth tokens exist, they will be used instead of the API key
+ * IMPORTANT: Valid OAuth tokens take precedence over the API key
  */
-export async function configureProvider(provider: ProviderType): Promise<void> {
-  const providers = await getProviders();
-  const config = providers[provider];
-
-  // IMPORTANT: Clear ALL auth environment variables first
-  // This ensures clean state when switching providers
-  delete process.env.CLAUDE_CODE_OAUTH_TOKEN;
-  delete process.env.ANTHROPIC_AUTH_TOKEN;
-  delete process.env.ANTHROPIC_API_KEY;
-  delete process.env.ANTHROPIC_BASE_URL;
-
-  // Check if using OAuth for this provider
-  if (provider === 'anthropic' && config.oauthTokens) {
-    // Check if token needs refresh
-    if (isTokenExpired(config.oauthTokens.expiresAt)) {
-      console.log('⏳ OAuth token expired, refreshing...');
-      try {
-        const newTokens = await refreshAccessToken(config.oauthTokens.refreshToken);
-        await saveTokens(newTokens);
-        config.oauthTokens = newTokens;
-        console.log('✅ OAuth token refreshed successfully');
-      } catch (error) {
-        console.error('❌ Failed to refresh OAuth token:', error);
-        console.log('⚠️  Falling back to API key authentication');
-        // Fall through to API key authentication
-      }
-    }
-
-    // For OAuth, use CLAUDE_CODE_OAUTH_TOKEN which the Claude Code CLI uses
-    // This is the correct env var for OAuth authentication with the CLI subprocess
-    if (config.oauthTokens && !isTokenExpired(config.oauthTokens.expiresAt)) {
-      // Use CLAUDE_CODE_OAUTH_TOKEN for OAuth authentication
-      // The Claude Code CLI subprocess will use this for Bearer token auth
-      process.env.CLAUDE_CODE_OAUTH_TOKEN = config.oauthTokens.accessToken;
+export function buildProviderEnv(config: ProviderConfig, baseEnv: ProviderEnv = process.env): ProviderEnv {
+  const env: ProviderEnv = { ...baseEnv };
+  for (const key of PROVIDER_ENV_VARS) {
+    delete env[key];
+  }
 
-      return;
-    }
+  // For OAuth, use CLAUDE_CODE_OAUTH_TOKEN which the Claude Code CLI uses for Bearer token auth
+  if (config.oauthTokens && !isTokenExpired(config.oauthTokens.expiresAt)) {
+    env.CLAUDE_CODE_OAUTH_TOKEN = config.oauthTokens.accessToken;
+    return env;
   }
 
-  // Fall back to API key authentication
   if (!config.apiKey || config.apiKey.trim() === '') {
-    let providerName: string;
-    let keyName: string;
-    let instructions: string;
-
-    switch (provider) {
-      case 'anthropic':
-        providerName = 'Anthropic';
-        keyName = 'ANTHROPIC_API_KEY';
-        instructions = 'Get your API key from https://console.anthropic.com/ or run "bun run login" to use OAuth';
-        break;
-      case 'z-ai':
-        providerName = 'Z.AI';
-        keyName = 'ZAI_API_KEY';
-        instructions = 'Get your API key from https://z.ai';
-        break;
-      case 'moonshot':
-        providerName = 'Moonshot AI';
-        keyName = 'MOONSHOT_API_KEY';
-        instructions = 'Get your API key from https://platform.moonshot.ai/';
-        break;
-      default:
-        providerName = 'Unknown';
-        keyName = 'API_KEY';
-        instructions = 'Check provider documentation';
-    }
+    const { name, apiKeyEnv, keyInstructions } = config.definition;
 
     throw new Error(
-      `Missing ${providerName} API key. ` +
-      `Please set ${keyName} in your .env file. ` +
-      `${instructions}`
+      `Missing ${name} API key. ` +
+      `Please set ${apiKeyEnv} in your .env file. ` +
+      `${keyInstructions || 'Check provider documentation'}`
     );
   }
 
-  // Set or clear base URL
   if (config.baseUrl) {
-    process.env.ANTHROPIC_BASE_URL = config.baseUrl;
-  } else {
-    delete process.env.ANTHROPIC_BASE_URL;
+    env.ANTHROPIC_BASE_URL = config.baseUrl;
   }
 
-  // Z.AI and Moonshot use Bearer token (ANTHROPIC_AUTH_TOKEN), not x-api-key
-  if (provider === 'z-ai' || provider === 'moonshot') {
-    process.env.ANTHROPIC_AUTH_TOKEN = config.apiKey;
-    process.env.ANTHROPIC_API_KEY = '';
+  // Z.AI, Moonshot and most gateways use Bearer token (ANTHROPIC_AUTH_TOKEN), not x-api-key
+  if (config.definition.authType === 'bearer') {
+    env.ANTHROPIC_AUTH_TOKEN = config.apiKey;
+    env.ANTHROPIC_API_KEY = '';
   } else {
     // Standard Anthropic API uses x-api-key header
-    process.env.ANTHROPIC_API_KEY = config.apiKey;
+    env.ANTHROPIC_API_KEY = config.apiKey;
   }
+
+  return env;
+}
+
+/**
+ * Get the SDK subprocess environment for a provider (passed as the query's env option)
+ * Refreshes expired Anthropic OAuth tokens first, falling back to the API key if that fails
+ */
+export async function getProviderEnv(provider: ProviderType): Promise<ProviderEnv> {
+  const providers = await getProviders();
+  const config = providers[provider];
+
+  if (!config) {
+    throw new Error(`Unknown provider "${provider}". Check providers.json in the app data directory.`);
+  }
+
+  if (config.oauthTokens && isTokenExpired(config.oauthTokens.expiresAt)) {
+    console.log('⏳ OAuth token expired, refreshing...');
+    try {
+      const newTokens = await refreshAccessToken(config.oauthTokens.refreshToken);
+      await saveTokens(newTokens);
+      config.oauthTokens = newTokens;
+      console.log('✅ OAuth token refreshed successfully');
+    } catch (error) {
+      console.error('❌ Failed to refresh OAuth token:', error);
+      console.log('⚠️  Falling back to API key authentication');
+    }
+  }
+
+  return buildProviderEnv(config);
 }
 
 /**
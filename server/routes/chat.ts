@@ -0,0 +1,195 @@
+/**
+ * Headless Chat API Routes
+ * Drives chats over plain HTTP (for scripts and CI): messages go through the same
+ * pipeline as the WebSocket `chat` message, events come back as Server-Sent Events
+ */
+
+import { sessionDb } from "../database";
+import { sessionStreamManager } from "../sessionStreamManager";
+import { handleChatMessage } from "../websocket/messageHandlers";
+import { resolveToolPermission } from "../toolPermissions";
+import {
+  EventSubscriber,
+  SseSubscriber,
+  SSE_HEADERS,
+  isTurnEnd,
+  waitForTurn,
+  RequestTurn,
+  assembleAssistantMessage,
+} from "../sseSubscriber";
+import {
+  validateClientMessage,
+  encodeServerMessage,
+  TOOL_PERMISSION_DECISIONS,
+  type ClientMessageOf,
+  type ToolPermissionDecision,
+} from "../../client/config/protocol";
+
+/**
+ * Start a chat turn for an HTTP client; failures before the SDK takes over are reported as events
+ */
+function startTurn(subscriber: EventSubscriber, turn: RequestTurn, data: ClientMessageOf<'chat'>, activeQueries: Map<string, unknown>): void {
+  handleChatMessage(subscriber, data, activeQueries, (messageId) => turn.start(messageId)).catch((error) => {
+    console.error('❌ Headless chat error:', error);
+    turn.fail();
+    subscriber.send(encodeServerMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Failed to handle message',
+      sessionId: data.sessionId,
+    }));
+  });
+}
+
+/**
+ * Handle headless chat API routes
+ * Returns Response if route was handled, undefined otherwise
+ */
+export async function handleChatRoutes(
+  req: Request,
+  url: URL,
+  activeQueries: Map<string, unknown>
+): Promise<Response | undefined> {
+
+  // POST /api/sessions/:id/chat - Send a message (same payload as the `chat` WebSocket message)
+  // Streams the turn's events as SSE, or with ?wait=true returns the assembled reply as JSON
+  if (url.pathname.match(/^\/api\/sessions\/[^/]+\/chat$/) && req.method === 'POST') {
+    const sessionId = decodeURIComponent(url.pathname.split('/')[3]);
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      body = undefined;
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return new Response(JSON.stringify({ success: false, error: 'Request body must be a JSON object' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const parsed = validateClientMessage({ ...body, type: 'chat', sessionId });
+    if (!parsed.success || parsed.message.type !== 'chat') {
+      return new Response(JSON.stringify({ success: false, error: parsed.success ? 'Invalid chat message' : parsed.error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    const data = parsed.message;
+
+    if (!sessionDb.getSession(sessionId)) {
+      return new Response(JSON.stringify({ success: false, error: 'Session not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (url.searchParams.get('wait') === 'true') {
+      const turn = new RequestTurn(sessionId, id => sessionStreamManager.getCurrentTurnId(id));
+      const { subscriber, events, outcome } = waitForTurn(turn, req.signal);
+      startTurn(subscriber, turn, data, activeQueries);
+      const result = await outcome;
+      sessionStreamManager.unsubscribeAll(subscriber);
+
+      // The caller is gone; nobody reads this response
+      if (result.status === 'aborted') {
+        return new Response(null, { status: 499 });
+      }
+
+      const { content, text } = assembleAssistantMessage(events);
+      if (result.status === 'pending') {
+        return new Response(JSON.stringify({ success: true, sessionId, status: 'pending', pending: result.request, content, text }), {
+          status: 202,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      const last = result.last;
+      if (last.type === 'error' || last.type === 'budget_exceeded') {
+        return new Response(JSON.stringify({ success: false, sessionId, error: last.message, errorType: last.type === 'error' ? last.errorType : 'budget_exceeded', content, text }), {
+          status: last.type === 'budget_exceeded' ? 429 : 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      return new Response(JSON.stringify({ success: true, sessionId, stopped: last.type === 'generation_stopped', content, text }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Only this request's turn is streamed; a turn still running ahead of it is left out
+    const turn = new RequestTurn(sessionId, id => sessionStreamManager.getCurrentTurnId(id));
+    const subscriber: SseSubscriber = new SseSubscriber(
+      (message) => {
+        if (isTurnEnd(message, sessionId)) {
+          subscriber.close();
+          sessionStreamManager.unsubscribeAll(subscriber);
+        }
+      },
+      () => sessionStreamManager.unsubscribeAll(subscriber),
+      (message) => turn.owns(message),
+    );
+
+    startTurn(subscriber, turn, data, activeQueries);
+    return new Response(subscriber.stream, { headers: SSE_HEADERS });
+  }
+
+  // GET /api/sessions/:id/events - Watch a session's events as SSE until the client disconnects
+  // Resumes after Last-Event-ID (or ?lastSeq=) by replaying buffered events first
+  if (url.pathname.match(/^\/api\/sessions\/[^/]+\/events$/) && req.method === 'GET') {
+    const sessionId = decodeURIComponent(url.pathname.split('/')[3]);
+
+    if (!sessionDb.getSession(sessionId)) {
+      return new Response(JSON.stringify({ success: false, error: 'Session not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const subscriber: SseSubscriber = new SseSubscriber(undefined, () => sessionStreamManager.unsubscribeAll(subscriber));
+
+    const lastSeq = Number(req.headers.get('last-event-id') ?? url.searchParams.get('lastSeq') ?? NaN);
+    if (Number.isInteger(lastSeq) && lastSeq >= 0) {
+      const result = sessionStreamManager.resumeStream(sessionId, subscriber, lastSeq);
+      subscriber.send(encodeServerMessage({ type: 'stream_resumed', sessionId, ...result }));
+    } else {
+      sessionStreamManager.subscribe(sessionId, subscriber);
+    }
+
+    return new Response(subscriber.stream, { headers: SSE_HEADERS });
+  }
+
+  // POST /api/sessions/:id/permissions/:requestId - Answer a tool_permission_request event
+  // Body: { "decision": "allow_once" | "allow_always" | "deny" }
+  if (url.pathname.match(/^\/api\/sessions\/[^/]+\/permissions\/[^/]+$/) && req.method === 'POST') {
+    const [, , , rawSessionId, , rawRequestId] = url.pathname.split('/');
+    const sessionId = decodeURIComponent(rawSessionId);
+    const requestId = decodeURIComponent(rawRequestId);
+
+    let decision: unknown;
+    try {
+      decision = (await req.json() as { decision?: unknown }).decision;
+    } catch {
+      decision = undefined;
+    }
+    if (!TOOL_PERMISSION_DECISIONS.includes(decision as ToolPermissionDecision)) {
+      return new Response(JSON.stringify({ success: false, error: `decision must be one of: ${TOOL_PERMISSION_DECISIONS.join(', ')}` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!resolveToolPermission(sessionId, requestId, decision as ToolPermissionDecision)) {
+      return new Response(JSON.stringify({ success: false, error: 'Permission request not found or already answered' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  return undefined;
+}
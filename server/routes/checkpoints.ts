@@ -0,0 +1,114 @@
+/**
+ * Checkpoint API Routes
+ * Per-turn file diffs, per-file revert, and "rewind to before this turn"
+ */
+
+import { sessionDb } from "../database";
+import { buildFileDiff } from "../fileDiff";
+
+/**
+ * Handle checkpoint API routes
+ * Returns Response if route was handled, undefined otherwise
+ */
+export async function handleCheckpointRoutes(
+  req: Request,
+  url: URL,
+): Promise<Response | undefined> {
+  const turnMatch = url.pathname.match(/^\/api\/sessions\/([^/]+)\/turns\/([^/]+)\/(rewind|diff|revert)$/);
+  if (!turnMatch) return undefined;
+
+  const sessionId = decodeURIComponent(turnMatch[1]);
+  const turnId = decodeURIComponent(turnMatch[2]);
+  const action = turnMatch[3];
+
+  // GET /api/sessions/:id/turns/:turnId/diff - What the turn changed in each file it edited
+  if (action === 'diff' && req.method === 'GET') {
+    const changes = sessionDb.getTurnChanges(sessionId, turnId);
+    if (!changes) {
+      return new Response(JSON.stringify({ error: 'Turn not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const files = changes.map(change => buildFileDiff(change.filePath, change.before, change.after));
+    return new Response(JSON.stringify({ files }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // POST /api/sessions/:id/turns/:turnId/revert - Put one file back as it was before the turn
+  if (action === 'revert' && req.method === 'POST') {
+    let body: { filePath?: unknown };
+    try {
+      body = await req.json() as { filePath?: unknown };
+    } catch {
+      body = {};
+    }
+    if (typeof body.filePath !== 'string' || body.filePath === '') {
+      return new Response(JSON.stringify({ success: false, error: 'filePath is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    try {
+      const result = sessionDb.revertFileToTurn(sessionId, turnId, body.filePath);
+      if (!result) {
+        return new Response(JSON.stringify({ success: false, error: 'This turn did not edit that file' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      console.log(`⏪ Reverted ${body.filePath} to before turn ${turnId.substring(0, 8)} in session ${sessionId.substring(0, 8)}`);
+      return new Response(JSON.stringify({ success: true, action: result }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Failed to revert ${body.filePath}:`, errorMessage);
+      return new Response(JSON.stringify({ success: false, error: errorMessage }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  }
+
+  // GET /api/sessions/:id/turns/:turnId/rewind - Files a rewind would change
+  if (action === 'rewind' && req.method === 'GET') {
+    const files = sessionDb.getRewindPlan(sessionId, turnId);
+    if (!files) {
+      return new Response(JSON.stringify({ error: 'Turn not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ files }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // POST /api/sessions/:id/turns/:turnId/rewind - Put those files back as they were before the turn
+  if (action === 'rewind' && req.method === 'POST') {
+    const result = sessionDb.rewindToTurn(sessionId, turnId);
+    if (!result) {
+      return new Response(JSON.stringify({ success: false, error: 'Turn not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const changed = result.restored.length + result.deleted.length;
+    console.log(`⏪ Rewound ${changed} file(s) to before turn ${turnId.substring(0, 8)} in session ${sessionId.substring(0, 8)}`);
+    result.failed.forEach(({ filePath, error }) => console.error(`❌ Failed to rewind ${filePath}: ${error}`));
+
+    return new Response(JSON.stringify({ success: result.failed.length === 0, ...result }), {
+      status: result.failed.length === 0 ? 200 : 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  return undefined;
+}
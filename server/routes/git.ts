@@ -0,0 +1,96 @@
+/**
+ * Git API Routes
+ * Git status of a session's working directory and its auto-branch / auto-commit settings
+ */
+
+import { sessionDb } from "../database";
+import { applyAutoBranch, getGitStatus, getSessionBranchName } from "../git";
+
+/**
+ * Handle git API routes
+ * Returns Response if route was handled, undefined otherwise
+ */
+export async function handleGitRoutes(
+  req: Request,
+  url: URL,
+): Promise<Response | undefined> {
+  const gitMatch = url.pathname.match(/^\/api\/sessions\/([^/]+)\/git$/);
+  if (!gitMatch) return undefined;
+
+  const sessionId = decodeURIComponent(gitMatch[1]);
+  const session = sessionDb.getSession(sessionId);
+  if (!session) {
+    return new Response(JSON.stringify({ success: false, error: 'Session not found' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // GET /api/sessions/:id/git - Branch, ahead/behind and changed files (status is null outside a repository)
+  if (req.method === 'GET') {
+    const status = await getGitStatus(session.working_directory);
+
+    return new Response(JSON.stringify({
+      status,
+      settings: session.git_settings,
+      autoBranchName: session.git_settings.branch ?? getSessionBranchName(session.title, session.id),
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // PATCH /api/sessions/:id/git - Turn auto-branch / auto-commit on or off
+  // (turning auto-branch on switches to the session's branch right away)
+  if (req.method === 'PATCH') {
+    let body: { autoBranch?: unknown; autoCommit?: unknown };
+    try {
+      body = await req.json() as { autoBranch?: unknown; autoCommit?: unknown };
+    } catch {
+      body = {};
+    }
+    if ((body.autoBranch !== undefined && typeof body.autoBranch !== 'boolean') ||
+        (body.autoCommit !== undefined && typeof body.autoCommit !== 'boolean')) {
+      return new Response(JSON.stringify({ success: false, error: 'autoBranch and autoCommit must be booleans' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    let settings = {
+      ...session.git_settings,
+      autoBranch: body.autoBranch ?? session.git_settings.autoBranch,
+      autoCommit: body.autoCommit ?? session.git_settings.autoCommit,
+    };
+
+    if ((settings.autoBranch || settings.autoCommit) && !(await getGitStatus(session.working_directory))) {
+      return new Response(JSON.stringify({ success: false, error: 'The working directory is not a git repository' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (settings.autoBranch && !session.git_settings.autoBranch) {
+      const applied = await applyAutoBranch(session.working_directory, settings, session.title, session.id);
+      if (applied.result.error) {
+        return new Response(JSON.stringify({ success: false, error: applied.result.error }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      settings = applied.settings;
+    }
+
+    sessionDb.updateGitSettings(sessionId, settings);
+    console.log(`🌿 Git settings for session ${sessionId.substring(0, 8)}: auto-branch ${settings.autoBranch ? 'on' : 'off'}, auto-commit ${settings.autoCommit ? 'on' : 'off'}`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      settings,
+      status: await getGitStatus(session.working_directory),
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  return undefined;
+}
@@ -0,0 +1,178 @@
+/**
+ * MCP Server API Routes
+ * Handles listing and editing user-configured MCP servers (mcp-servers.json)
+ */
+
+import {
+  loadMcpServerDefinitions,
+  saveMcpServerDefinitions,
+  validateMcpServerName,
+  mcpServerDefinitionSchema,
+  getMcpConfigPath,
+  getMcpServerStatuses,
+  type McpServerDefinition,
+} from "../mcpServers";
+import { getAvailableModes } from "../modes";
+import { loadProviderRegistry } from "../providerRegistry";
+
+/**
+ * Parse and validate a server definition from a request body
+ */
+async function parseDefinition(req: Request): Promise<{ name?: string; definition?: McpServerDefinition; error?: string }> {
+  let body: { name?: unknown; server?: unknown };
+  try {
+    body = await req.json() as { name?: unknown; server?: unknown };
+  } catch {
+    return { error: 'Request body must be JSON' };
+  }
+
+  const result = mcpServerDefinitionSchema.safeParse(body.server);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const location = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+    return { error: `Invalid server definition: ${location}${issue.message}` };
+  }
+
+  return {
+    name: typeof body.name === 'string' ? body.name.trim() : undefined,
+    definition: result.data,
+  };
+}
+
+/**
+ * Handle MCP server-related API routes
+ * Returns Response if route was handled, undefined otherwise
+ */
+export async function handleMcpRoutes(
+  req: Request,
+  url: URL,
+): Promise<Response | undefined> {
+
+  // GET /api/mcp/servers - List configured servers (env references left uninterpolated)
+  if (url.pathname === '/api/mcp/servers' && req.method === 'GET') {
+    const { servers, error } = loadMcpServerDefinitions();
+
+    return new Response(JSON.stringify({
+      servers: Object.entries(servers).map(([name, definition]) => ({ name, ...definition })),
+      configPath: getMcpConfigPath(),
+      providers: Object.keys(loadProviderRegistry().providers),
+      modes: getAvailableModes().map(mode => ({ id: mode.id, name: mode.name })),
+      error,
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // GET /api/mcp/status - Health check enabled servers and list their tools (?refresh=true to bypass cache)
+  if (url.pathname === '/api/mcp/status' && req.method === 'GET') {
+    const statuses = await getMcpServerStatuses({ refresh: url.searchParams.get('refresh') === 'true' });
+
+    return new Response(JSON.stringify({ servers: statuses }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // POST /api/mcp/servers - Add a server
+  if (url.pathname === '/api/mcp/servers' && req.method === 'POST') {
+    const { name, definition, error } = await parseDefinition(req);
+    if (!definition) {
+      return new Response(JSON.stringify({ success: false, error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const nameError = validateMcpServerName(name ?? '');
+    if (nameError) {
+      return new Response(JSON.stringify({ success: false, error: nameError }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const config = loadMcpServerDefinitions();
+    if (config.error) {
+      return new Response(JSON.stringify({ success: false, error: config.error }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if (config.servers[name!]) {
+      return new Response(JSON.stringify({ success: false, error: `A server named "${name}" already exists` }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    saveMcpServerDefinitions({ ...config.servers, [name!]: definition });
+    console.log(`✅ Added MCP server: ${name}`);
+
+    return new Response(JSON.stringify({ success: true, server: { name, ...definition } }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // PUT /api/mcp/servers/:name - Replace a server definition (also used to enable/disable)
+  if (url.pathname.match(/^\/api\/mcp\/servers\/[^/]+$/) && req.method === 'PUT') {
+    const name = decodeURIComponent(url.pathname.split('/').pop()!);
+    const { definition, error } = await parseDefinition(req);
+    if (!definition) {
+      return new Response(JSON.stringify({ success: false, error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const config = loadMcpServerDefinitions();
+    if (config.error) {
+      return new Response(JSON.stringify({ success: false, error: config.error }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if (!config.servers[name]) {
+      return new Response(JSON.stringify({ success: false, error: 'MCP server not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    saveMcpServerDefinitions({ ...config.servers, [name]: definition });
+    console.log(`✅ Updated MCP server: ${name}`);
+
+    return new Response(JSON.stringify({ success: true, server: { name, ...definition } }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // DELETE /api/mcp/servers/:name - Remove a server
+  if (url.pathname.match(/^\/api\/mcp\/servers\/[^/]+$/) && req.method === 'DELETE') {
+    const name = decodeURIComponent(url.pathname.split('/').pop()!);
+
+    const config = loadMcpServerDefinitions();
+    if (config.error) {
+      return new Response(JSON.stringify({ success: false, error: config.error }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if (!config.servers[name]) {
+      return new Response(JSON.stringify({ success: false, error: 'MCP server not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const remaining = { ...config.servers };
+    delete remaining[name];
+    saveMcpServerDefinitions(remaining);
+    console.log(`🗑️  Removed MCP server: ${name}`);
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  return undefined;
+}
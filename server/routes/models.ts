@@ -0,0 +1,38 @@
+/**
+ * Model API Routes
+ * Handles listing models and providers from the provider registry (built-ins plus providers.json)
+ */
+
+import { loadProviderRegistry, getProviderConfigPath } from "../providerRegistry";
+
+/**
+ * Handle model-related API routes
+ * Returns Response if route was handled, undefined otherwise
+ */
+export async function handleModelRoutes(
+  req: Request,
+  url: URL,
+): Promise<Response | undefined> {
+
+  // GET /api/models - List selectable models and the features of their providers
+  if (url.pathname === '/api/models' && req.method === 'GET') {
+    const { providers, models, error } = loadProviderRegistry();
+
+    return new Response(JSON.stringify({
+      models,
+      // API key env var names and base URLs stay server-side
+      providers: Object.values(providers).map(provider => ({
+        id: provider.id,
+        name: provider.name,
+        supportsThinking: provider.supportsThinking,
+        supportsContextUsage: provider.supportsContextUsage,
+      })),
+      configPath: getProviderConfigPath(),
+      error,
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  return undefined;
+}
@@ -0,0 +1,44 @@
+/**
+ * Search API Routes
+ * Handles full-text search across all session messages
+ */
+
+import { sessionDb } from "../database";
+
+const DEFAULT_SEARCH_LIMIT = 50;
+const MAX_SEARCH_LIMIT = 200;
+
+/**
+ * Handle search-related API routes
+ * Returns Response if route was handled, undefined otherwise
+ */
+export async function handleSearchRoutes(
+  req: Request,
+  url: URL,
+): Promise<Response | undefined> {
+
+  // GET /api/search?q=...&limit=... - Search message content across all sessions
+  if (url.pathname === '/api/search' && req.method === 'GET') {
+    const query = url.searchParams.get('q')?.trim() || '';
+
+    if (!query) {
+      return new Response(JSON.stringify({ error: 'Query parameter "q" is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const requestedLimit = parseInt(url.searchParams.get('limit') || '', 10);
+    const limit = Number.isFinite(requestedLimit) && requestedLimit > 0
+      ? Math.min(requestedLimit, MAX_SEARCH_LIMIT)
+      : DEFAULT_SEARCH_LIMIT;
+
+    const results = sessionDb.searchMessages(query, limit);
+
+    return new Response(JSON.stringify({ query, results }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  return undefined;
+}
@@ -7,6 +7,10 @@ import { sessionDb } from "../database";
 import { backgroundProcessManager } from "../backgroundProcessManager";
 import { sessionStreamManager } from "../sessionStreamManager";
 import { setupSessionCommands } from "../commandSetup";
+import { parseImportBundle } from "../sessionImport";
+import type { SessionToolPolicy } from "../../client/config/tools";
+import { loadToolRules, saveToolRules, deleteSessionToolRules } from "../toolRules";
+import { exportSession, getExportContentType, getExportFilename, EXPORT_FORMATS, type ExportFormat } from "../sessionExport";
 
 /**
  * Handle session-related API routes
@@ -41,6 +45,34 @@ export async function handleSessionRoutes(
     });
   }
 
+  // POST /api/sessions/import - Recreate a session from an exported JSON bundle
+  if (url.pathname === '/api/sessions/import' && req.method === 'POST') {
+    let data: unknown;
+    try {
+      data = await req.json();
+    } catch {
+      return new Response(JSON.stringify({ success: false, error: 'Request body must be a JSON session bundle' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { bundle, error } = parseImportBundle(data);
+    if (!bundle) {
+      return new Response(JSON.stringify({ success: false, error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const result = sessionDb.importSession(bundle);
+
+    return new Response(JSON.stringify(result), {
+      status: result.success ? 200 : 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
   // GET /api/sessions/:id - Get session by ID
   if (url.pathname.match(/^\/api\/sessions\/[^/]+$/) && req.method === 'GET') {
     const sessionId = url.pathname.split('/').pop()!;
@@ -72,6 +104,9 @@ export async function handleSessionRoutes(
     activeQueries.delete(sessionId);
 
     const success = sessionDb.deleteSession(sessionId);
+    if (success) {
+      deleteSessionToolRules(sessionId);
+    }
 
     return new Response(JSON.stringify({ success }), {
       headers: { 'Content-Type': 'application/json' },
@@ -188,6 +223,131 @@ export async function handleSessionRoutes(
     }
   }
 
+  // PATCH /api/sessions/:id/tools - Update which MCP servers and tools the session may use (409 while a turn runs)
+  // (allowedTools/allowedDirectories are optional; when omitted the session's always-allow lists are kept)
+  if (url.pathname.match(/^\/api\/sessions\/[^/]+\/tools$/) && req.method === 'PATCH') {
+    const sessionId = url.pathname.split('/')[3];
+    const body = await req.json() as Partial<SessionToolPolicy>;
+
+    const isStringArray = (value: unknown): value is string[] =>
+      Array.isArray(value) && value.every(item => typeof item === 'string');
+
+    if (!isStringArray(body.disabledMcpServers) || !isStringArray(body.disallowedTools)) {
+      return new Response(JSON.stringify({ success: false, error: 'disabledMcpServers and disallowedTools must be string arrays' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if ((body.allowedTools !== undefined && !isStringArray(body.allowedTools)) ||
+        (body.allowedDirectories !== undefined && !isStringArray(body.allowedDirectories))) {
+      return new Response(JSON.stringify({ success: false, error: 'allowedTools and allowedDirectories must be string arrays' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Applying the policy respawns the SDK subprocess, which would cut off a running turn
+    if (sessionStreamManager.getCurrentTurnId(sessionId)) {
+      return new Response(JSON.stringify({ success: false, error: 'Tools can\'t be changed while a reply is generating' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const existing = sessionDb.getSession(sessionId);
+    const success = !!existing && sessionDb.updateToolPolicy(sessionId, {
+      disabledMcpServers: body.disabledMcpServers,
+      disallowedTools: body.disallowedTools,
+      allowedTools: body.allowedTools ?? existing.tool_policy.allowedTools,
+      allowedDirectories: body.allowedDirectories ?? existing.tool_policy.allowedDirectories,
+    });
+
+    if (success) {
+      // MCP servers and tool lists are fixed when the SDK subprocess spawns,
+      // so drop the stream; the next message respawns it with resume
+      sessionStreamManager.cleanupSession(sessionId, 'tool_policy_changed');
+      activeQueries.delete(sessionId);
+
+      const session = sessionDb.getSession(sessionId);
+      return new Response(JSON.stringify({ success: true, session }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } else {
+      return new Response(JSON.stringify({ success: false, error: 'Session not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  }
+
+  // POST /api/sessions/:id/fork - Fork session from a message
+  if (url.pathname.match(/^\/api\/sessions\/[^/]+\/fork$/) && req.method === 'POST') {
+    const sessionId = url.pathname.split('/')[3];
+    const body = await req.json() as { messageId?: string };
+
+    if (!body.messageId) {
+      return new Response(JSON.stringify({ success: false, error: 'messageId is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const result = sessionDb.forkSession(sessionId, body.messageId);
+
+    if (result.success) {
+      // Forks keep the parent's tool rules, like its tool policy
+      const { rules } = loadToolRules('session', sessionId);
+      if (rules.length > 0) {
+        saveToolRules('session', rules, result.session!.id);
+      }
+
+      return new Response(JSON.stringify(result), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } else {
+      return new Response(JSON.stringify(result), {
+        status: result.error === 'Session not found' ? 404 : 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  }
+
+  // GET /api/sessions/:id/export?format=md|html|json[&attachments=false] - Export session as a downloadable file
+  if (url.pathname.match(/^\/api\/sessions\/[^/]+\/export$/) && req.method === 'GET') {
+    const sessionId = url.pathname.split('/')[3];
+    const format = (url.searchParams.get('format') || 'md') as ExportFormat;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return new Response(JSON.stringify({ error: `Unsupported export format: ${format}` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const session = sessionDb.getSession(sessionId);
+    if (!session) {
+      return new Response(JSON.stringify({ error: 'Session not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const messages = sessionDb.getSessionMessages(sessionId);
+    const body = exportSession(session, messages, format, {
+      includeAttachments: url.searchParams.get('attachments') !== 'false',
+    });
+    const filename = getExportFilename(session, format);
+
+    console.log(`📤 API: Exported session ${sessionId.substring(0, 8)} as ${format} (${messages.length} messages)`);
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': getExportContentType(format),
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  }
+
   // Route not handled by this module
   return undefined;
 }
@@ -0,0 +1,65 @@
+/**
+ * Tool Event API Routes
+ * Handles querying the tool_events audit log
+ */
+
+import { sessionDb } from "../database";
+import { TOOL_EVENT_STATUSES, type ToolEventFilter, type ToolEventStatus } from "../toolEvents";
+
+/**
+ * Handle tool event API routes
+ * Returns Response if route was handled, undefined otherwise
+ */
+export async function handleToolEventRoutes(
+  req: Request,
+  url: URL,
+): Promise<Response | undefined> {
+
+  // GET /api/tool-events?sessionId=&tool=&status=&cwd=&since=&until=&before=&limit=
+  // GET /api/sessions/:id/tool-events?tool=&status=&before=&limit=
+  // Newest first, with per-tool counts for the same filter (ignoring tool and paging)
+  const sessionMatch = url.pathname.match(/^\/api\/sessions\/([^/]+)\/tool-events$/);
+  if ((url.pathname === '/api/tool-events' || sessionMatch) && req.method === 'GET') {
+    const params = url.searchParams;
+
+    const status = params.get('status') || undefined;
+    if (status && !TOOL_EVENT_STATUSES.includes(status as ToolEventStatus)) {
+      return new Response(JSON.stringify({ error: `status must be one of: ${TOOL_EVENT_STATUSES.join(', ')}` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const before = Number(params.get('before') || 0);
+    const limit = Number(params.get('limit') || 100);
+    const since = params.get('since') || undefined;
+    const until = params.get('until') || undefined;
+    if (!Number.isFinite(before) || !Number.isFinite(limit) || [since, until].some(date => date && Number.isNaN(Date.parse(date)))) {
+      return new Response(JSON.stringify({ error: 'before and limit must be numbers, since and until ISO dates' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const filter: ToolEventFilter = {
+      sessionId: sessionMatch ? decodeURIComponent(sessionMatch[1]) : params.get('sessionId') || undefined,
+      status: status as ToolEventStatus | undefined,
+      workingDirectory: params.get('cwd') || undefined,
+      since: since && new Date(since).toISOString(),
+      until: until && new Date(until).toISOString(),
+    };
+
+    const events = sessionDb.getToolEvents({
+      ...filter,
+      toolName: params.get('tool') || undefined,
+      before: before > 0 ? before : undefined,
+      limit,
+    });
+
+    return new Response(JSON.stringify({ events, tools: sessionDb.getToolEventCounts(filter) }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  return undefined;
+}
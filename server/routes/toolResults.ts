@@ -0,0 +1,35 @@
+/**
+ * Tool Result API Routes
+ * Serves full tool output when the preview saved with the tool call was truncated
+ */
+
+import { sessionDb } from "../database";
+
+/**
+ * Handle tool result API routes
+ * Returns Response if route was handled, undefined otherwise
+ */
+export async function handleToolResultRoutes(
+  req: Request,
+  url: URL,
+): Promise<Response | undefined> {
+
+  // GET /api/tool-results/:toolUseId - Full output of one tool call
+  if (url.pathname.match(/^\/api\/tool-results\/[^/]+$/) && req.method === 'GET') {
+    const toolUseId = decodeURIComponent(url.pathname.split('/').pop()!);
+    const result = sessionDb.getToolResult(toolUseId);
+
+    if (!result) {
+      return new Response(JSON.stringify({ error: 'Tool result not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ ...result, truncated: result.content.length < result.size }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  return undefined;
+}
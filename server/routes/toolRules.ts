@@ -0,0 +1,159 @@
+/**
+ * Tool Rule API Routes
+ * Handles the global allow/deny rules (tool-rules.json) and each session's own rules
+ *   /api/tool-rules[/:ruleId]
+ *   /api/sessions/:id/tool-rules[/:ruleId]
+ */
+
+import { sessionDb } from "../database";
+import {
+  loadToolRules,
+  saveToolRules,
+  parseToolRules,
+  getToolRulesPath,
+  type ToolRuleScope,
+} from "../toolRules";
+
+const RULES_PATH = /^\/api\/(?:sessions\/([^/]+)\/)?tool-rules(?:\/([^/]+))?$/;
+
+async function readBody(req: Request): Promise<Record<string, unknown> | undefined> {
+  try {
+    const body = await req.json();
+    return body && typeof body === 'object' ? body as Record<string, unknown> : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Handle tool rule API routes
+ * Returns Response if route was handled, undefined otherwise
+ */
+export async function handleToolRuleRoutes(
+  req: Request,
+  url: URL,
+): Promise<Response | undefined> {
+  const match = url.pathname.match(RULES_PATH);
+  if (!match) return undefined;
+
+  const sessionId = match[1] ? decodeURIComponent(match[1]) : undefined;
+  const ruleId = match[2] ? decodeURIComponent(match[2]) : undefined;
+  const scope: ToolRuleScope = sessionId ? 'session' : 'global';
+
+  if (sessionId && !sessionDb.getSession(sessionId)) {
+    return new Response(JSON.stringify({ success: false, error: 'Session not found' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // GET /api/tool-rules - List rules (and the file they come from)
+  if (!ruleId && req.method === 'GET') {
+    const { rules, error } = loadToolRules(scope, sessionId);
+    return new Response(JSON.stringify({ rules, scope, configPath: getToolRulesPath(scope, sessionId), error }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Editing a file that failed to load would overwrite the user's rules
+  const config = loadToolRules(scope, sessionId);
+  if (config.error && req.method !== 'GET') {
+    return new Response(JSON.stringify({ success: false, error: config.error }), {
+      status: 409,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // PUT /api/tool-rules - Replace every rule (also used to reorder)
+  if (!ruleId && req.method === 'PUT') {
+    const body = await readBody(req);
+    const { rules, error } = parseToolRules(body?.rules);
+    if (!rules) {
+      return new Response(JSON.stringify({ success: false, error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    saveToolRules(scope, rules, sessionId);
+    console.log(`✅ Saved ${rules.length} ${scope} tool rule(s)`);
+    return new Response(JSON.stringify({ success: true, rules }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // POST /api/tool-rules - Add a rule
+  if (!ruleId && req.method === 'POST') {
+    const body = await readBody(req);
+    const { rules, error } = parseToolRules([body?.rule]);
+    if (!rules) {
+      return new Response(JSON.stringify({ success: false, error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const [rule] = rules;
+    if (config.rules.some(existing => existing.id === rule.id)) {
+      return new Response(JSON.stringify({ success: false, error: `A rule named "${rule.id}" already exists` }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    saveToolRules(scope, [...config.rules, rule], sessionId);
+    console.log(`✅ Added ${scope} tool rule: ${rule.id}`);
+    return new Response(JSON.stringify({ success: true, rule }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (!ruleId) return undefined;
+
+  const index = config.rules.findIndex(rule => rule.id === ruleId);
+
+  // PUT /api/tool-rules/:ruleId - Replace a rule
+  if (req.method === 'PUT') {
+    const body = await readBody(req);
+    const { rules, error } = parseToolRules([{ ...(body?.rule as object | undefined), id: ruleId }]);
+    if (!rules) {
+      return new Response(JSON.stringify({ success: false, error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if (index === -1) {
+      return new Response(JSON.stringify({ success: false, error: 'Tool rule not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const updated = [...config.rules];
+    updated[index] = rules[0];
+    saveToolRules(scope, updated, sessionId);
+    console.log(`✅ Updated ${scope} tool rule: ${ruleId}`);
+    return new Response(JSON.stringify({ success: true, rule: rules[0] }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // DELETE /api/tool-rules/:ruleId - Remove a rule
+  if (req.method === 'DELETE') {
+    if (index === -1) {
+      return new Response(JSON.stringify({ success: false, error: 'Tool rule not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    saveToolRules(scope, config.rules.filter(rule => rule.id !== ruleId), sessionId);
+    console.log(`🗑️  Removed ${scope} tool rule: ${ruleId}`);
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  return undefined;
+}
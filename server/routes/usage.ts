@@ -0,0 +1,59 @@
+/**
+ * Usage API Routes
+ * Handles token usage and cost reporting from the usage_events ledger
+ */
+
+import { sessionDb } from "../database";
+import { loadProviderRegistry } from "../providerRegistry";
+import { USAGE_GROUP_BY, type UsageGroupBy } from "../usage";
+
+/**
+ * Handle usage-related API routes
+ * Returns Response if route was handled, undefined otherwise
+ */
+export async function handleUsageRoutes(
+  req: Request,
+  url: URL,
+): Promise<Response | undefined> {
+
+  // GET /api/usage?groupBy=day|session|model&days=30&tzOffset=120 - Aggregated usage and cost
+  if (url.pathname === '/api/usage' && req.method === 'GET') {
+    const groupBy = (url.searchParams.get('groupBy') || 'day') as UsageGroupBy;
+    if (!USAGE_GROUP_BY.includes(groupBy)) {
+      return new Response(JSON.stringify({ error: `groupBy must be one of: ${USAGE_GROUP_BY.join(', ')}` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // days omitted (or 0) = all time
+    const days = Number(url.searchParams.get('days') || 0);
+    const tzOffset = Number(url.searchParams.get('tzOffset') || 0);
+    if (!Number.isFinite(days) || days < 0 || !Number.isFinite(tzOffset)) {
+      return new Response(JSON.stringify({ error: 'days and tzOffset must be numbers' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const summary = sessionDb.getUsageSummary({
+      groupBy,
+      since: days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : undefined,
+      tzOffsetMinutes: tzOffset,
+    });
+
+    // Show model display names (falls back to the stored ID for models no longer configured)
+    if (groupBy === 'model') {
+      const { models } = loadProviderRegistry();
+      for (const group of summary.groups) {
+        group.label = models.find(m => m.id === group.key)?.name ?? group.key;
+      }
+    }
+
+    return new Response(JSON.stringify(summary), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  return undefined;
+}
@@ -48,10 +48,22 @@ import { getDefaultWorkingDirectory, ensureDirectory } from "./directoryUtils";
 import { handleStaticFile } from "./staticFileServer";
 import { initializeStartup, checkNodeAvailability } from "./startup";
 import { handleSessionRoutes } from "./routes/sessions";
+import { handleChatRoutes } from "./routes/chat";
+import { handleSearchRoutes } from "./routes/search";
 import { handleDirectoryRoutes } from "./routes/directory";
 import { handleUserConfigRoutes } from "./routes/userConfig";
 import { handleCommandRoutes } from "./routes/commands";
+import { handleMcpRoutes } from "./routes/mcp";
+import { handleToolRuleRoutes } from "./routes/toolRules";
+import { handleToolEventRoutes } from "./routes/toolEvents";
+import { handleToolResultRoutes } from "./routes/toolResults";
+import { handleCheckpointRoutes } from "./routes/checkpoints";
+import { handleGitRoutes } from "./routes/git";
+import { handleModelRoutes } from "./routes/models";
+import { handleUsageRoutes } from "./routes/usage";
 import { handleWebSocketMessage } from "./websocket/messageHandlers";
+import { sessionStreamManager } from "./sessionStreamManager";
+import { loadAccessConfig, checkAccess, canReceiveToken, getLanAccessUrls } from "./accessControl";
 import type { ServerWebSocket, Server as ServerType } from "bun";
 
 // Initialize startup configuration (loads env vars, sets up PostCSS)
@@ -60,6 +72,9 @@ const { isStandalone: IS_STANDALONE, binaryDir: BINARY_DIR, postcss, tailwindcss
 // Check Node.js availability for Claude SDK subprocess
 await checkNodeAvailability();
 
+// Bind address, access token and LAN mode (after startup so .env is loaded)
+const ACCESS = loadAccessConfig();
+
 // Initialize default working directory
 const DEFAULT_WORKING_DIR = getDefaultWorkingDirectory();
 ensureDirectory(DEFAULT_WORKING_DIR);
@@ -73,6 +88,7 @@ interface HotReloadClient {
 interface ChatWebSocketData {
   type: 'hot-reload' | 'chat';
   sessionId?: string;
+  protocolVersion?: number; // Set by a successful hello handshake
 }
 
 // Store active queries for mid-stream control
@@ -97,7 +113,8 @@ if (!IS_STANDALONE) {
 }
 
 const server = Bun.serve({
-  port: 3001,
+  hostname: ACCESS.host,
+  port: ACCESS.port,
   idleTimeout: 255, // 4.25 minutes (Bun's maximum) - keepalive messages every 30s prevent timeout
 
   websocket: {
@@ -115,8 +132,11 @@ const server = Bun.serve({
     close(ws: ServerWebSocket<ChatWebSocketData>) {
       if (ws.data?.type === 'hot-reload') {
         hotReloadClients.delete(ws);
-      } else if (ws.data?.type === 'chat' && ws.data?.sessionId) {
-        console.log(`🔌 WebSocket disconnected: session ${ws.data.sessionId.substring(0, 8)}`);
+      } else if (ws.data?.type === 'chat') {
+        sessionStreamManager.unsubscribeAll(ws);
+        if (ws.data?.sessionId) {
+          console.log(`🔌 WebSocket disconnected: session ${ws.data.sessionId.substring(0, 8)}`);
+        }
       }
     }
   },
@@ -124,6 +144,12 @@ const server = Bun.serve({
   async fetch(req: Request, server: ServerType<ChatWebSocketData>) {
     const url = new URL(req.url);
 
+    // Refuse unexpected hosts and origins, and API/WebSocket requests without the access token
+    const denied = checkAccess(req, url, ACCESS);
+    if (denied) {
+      return denied;
+    }
+
     // WebSocket endpoints
     if (url.pathname === '/hot-reload') {
       const upgraded = server.upgrade(req, { data: { type: 'hot-reload' } });
@@ -147,6 +173,18 @@ const server = Bun.serve({
       return sessionResponse;
     }
 
+    // Try headless chat routes
+    const chatResponse = await handleChatRoutes(req, url, activeQueries);
+    if (chatResponse) {
+      return chatResponse;
+    }
+
+    // Try search routes
+    const searchResponse = await handleSearchRoutes(req, url);
+    if (searchResponse) {
+      return searchResponse;
+    }
+
     // Try directory routes
     const directoryResponse = await handleDirectoryRoutes(req, url);
     if (directoryResponse) {
@@ -165,6 +203,59 @@ const server = Bun.serve({
       return commandResponse;
     }
 
+    // Try MCP server routes
+    const mcpResponse = await handleMcpRoutes(req, url);
+    if (mcpResponse) {
+      return mcpResponse;
+    }
+
+    // Try tool rule routes
+    const toolRuleResponse = await handleToolRuleRoutes(req, url);
+    if (toolRuleResponse) {
+      return toolRuleResponse;
+    }
+
+    // Try tool event routes
+    const toolEventResponse = await handleToolEventRoutes(req, url);
+    if (toolEventResponse) {
+      return toolEventResponse;
+    }
+
+    // Try tool result routes
+    const toolResultResponse = await handleToolResultRoutes(req, url);
+    if (toolResultResponse) {
+      return toolResultResponse;
+    }
+
+    // Try checkpoint routes
+    const checkpointResponse = await handleCheckpointRoutes(req, url);
+    if (checkpointResponse) {
+      return checkpointResponse;
+    }
+
+    // Try git routes
+    const gitResponse = await handleGitRoutes(req, url);
+    if (gitResponse) {
+      return gitResponse;
+    }
+
+    // Try model routes
+    const modelResponse = await handleModelRoutes(req, url);
+    if (modelResponse) {
+      return modelResponse;
+    }
+
+    // Try usage routes
+    const usageResponse = await handleUsageRoutes(req, url);
+    if (usageResponse) {
+      return usageResponse;
+    }
+
+    // index.html carries the access token: only serve it to this machine or holders of the access link
+    if (url.pathname === '/' && !canReceiveToken(req, url, ACCESS, server.requestIP(req)?.address)) {
+      return new Response('Open the access link shown in the Agent Llama server console.', { status: 401 });
+    }
+
     // Try to handle as static file
     const staticResponse = await handleStaticFile(req, {
       binaryDir: BINARY_DIR,
@@ -172,6 +263,7 @@ const server = Bun.serve({
       postcss,
       tailwindcss,
       autoprefixer,
+      accessToken: ACCESS.token,
     });
 
     if (staticResponse) {
@@ -192,6 +284,10 @@ console.log('  ███████╗███████╗██║  ██
 console.log('  ╚══════╝╚══════╝╚═╝  ╚═╝╚═╝     ╚═╝╚═╝  ╚═╝');
 console.log('\n');
 console.log(`  👉 Open here: http://localhost:${server.port}`);
+if (ACCESS.lan) {
+  console.log('\n  📡 LAN mode - open from other devices with:');
+  getLanAccessUrls(ACCESS).forEach(lanUrl => console.log(`     ${lanUrl}`));
+}
 console.log('\n');
 console.log('  ═══════════════════════════════════════════════════════════════════════════');
 console.log('\n');
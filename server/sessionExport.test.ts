@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  exportSession,
+  exportSessionAsHtml,
+  exportSessionAsJson,
+  exportSessionAsMarkdown,
+  getExportFilename,
+  EXPORT_BUNDLE_FORMAT,
+  EXPORT_BUNDLE_VERSION,
+} from "./sessionExport";
+import { parseImportBundle } from "./sessionImport";
+import { DEFAULT_TOOL_POLICY } from "../client/config/tools";
+import { DEFAULT_GIT_SETTINGS } from "../client/config/git";
+import type { Session, SessionMessage } from "./database";
+
+function session(overrides: Partial<Session> = {}): Session {
+  return {
+    id: "s1",
+    title: "Parser <fixes> & more",
+    created_at: "2025-01-01T00:00:00.000Z",
+    updated_at: "2025-01-01T00:00:00.000Z",
+    message_count: 2,
+    working_directory: "/work/project",
+    permission_mode: "default",
+    mode: "coder",
+    tool_policy: { ...DEFAULT_TOOL_POLICY },
+    git_settings: { ...DEFAULT_GIT_SETTINGS },
+    ...overrides,
+  };
+}
+
+function message(id: string, type: SessionMessage['type'], content: unknown): SessionMessage {
+  return {
+    id,
+    session_id: "s1",
+    type,
+    content: typeof content === "string" ? content : JSON.stringify(content),
+    timestamp: "2025-01-01T00:00:01.000Z",
+  };
+}
+
+const messages = [
+  message("m1", "user", "Why does <script>alert(1)</script> break the parser?"),
+  message("m2", "assistant", [
+    { type: "thinking", thinking: "Check the tokenizer" },
+    { type: "text", text: "The tokenizer sees `<script>`:\n\n```ts\nconst tag = '<b>';\n```\n\n<img src=x onerror=alert(2)>" },
+    { type: "tool_use", name: "Read", input: { file_path: "src/parse.ts" } },
+    { type: "text", text: "--- History compacted ---" },
+  ]),
+];
+
+describe("exportSessionAsMarkdown", () => {
+  it("should render messages, thinking, tool calls and dividers", () => {
+    const markdown = exportSessionAsMarkdown(session(), messages);
+    expect(markdown).toStartWith("# Parser <fixes> & more\n");
+    expect(markdown).toContain("Why does <script>alert(1)</script> break the parser?");
+    expect(markdown).toContain("<details>\n<summary>Thinking</summary>\n\nCheck the tokenizer\n\n</details>");
+    expect(markdown).toContain('**Tool: Read**\n\n```json\n{\n  "file_path": "src/parse.ts"\n}\n```');
+    expect(markdown).toContain("---\n\n*History compacted*\n\n---");
+  });
+
+  it("should fence code blocks so their content can't close them", () => {
+    const markdown = exportSessionAsMarkdown(session(), [
+      message("m1", "assistant", [{ type: "long_running_command", command: "cat notes.md", output: "````\nnested\n````", status: "completed" }]),
+    ]);
+    expect(markdown).toContain("**Command (completed):**\n\n`````console\n$ cat notes.md\n````\nnested\n````\n`````");
+  });
+});
+
+describe("exportSessionAsHtml", () => {
+  it("should escape message content, titles and tool names", () => {
+    const html = exportSessionAsHtml(session(), [
+      ...messages,
+      message("m3", "assistant", [{ type: "tool_use", name: "<b>Evil</b>", input: {} }]),
+    ]);
+
+    expect(html).toContain("<title>Parser &lt;fixes&gt; &amp; more</title>");
+    expect(html).toContain("Why does &lt;script&gt;alert(1)&lt;/script&gt; break the parser?");
+    expect(html).not.toContain("<script>alert(1)</script>");
+    expect(html).not.toContain("<img src=x");
+    expect(html).toContain("Tool: &lt;b&gt;Evil&lt;/b&gt;");
+  });
+
+  it("should highlight code blocks and render markdown", () => {
+    const html = exportSessionAsHtml(session(), messages);
+    expect(html).toContain('<code class="inline-code">&lt;script&gt;</code>');
+    expect(html).toMatch(/<div class="code-block"><pre style="[^"]+"><code class="language-ts"/);
+    expect(html).toContain('<details class="thinking"><summary>Thinking</summary>');
+    expect(html).toContain('<div class="divider"><span>History compacted</span></div>');
+    expect(html).not.toContain("mermaid.initialize");
+  });
+});
+
+describe("exportSessionAsJson", () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "agent-llama-export-"));
+    fs.mkdirSync(path.join(workDir, "pictures"));
+    fs.writeFileSync(path.join(workDir, "pictures", "map.png"), "png-bytes");
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("should bundle the session and messages, with attachments only when asked", () => {
+    const bundle = exportSessionAsJson(session({ working_directory: workDir }), messages);
+    expect(bundle).toMatchObject({
+      format: EXPORT_BUNDLE_FORMAT,
+      version: EXPORT_BUNDLE_VERSION,
+      session: { id: "s1", title: "Parser <fixes> & more", mode: "coder", working_directory: workDir },
+      messages: [{ id: "m1", type: "user", content: messages[0].content }, { id: "m2", type: "assistant", content: messages[1].content }],
+    });
+    expect(bundle.attachments).toBeUndefined();
+
+    const json = exportSession(session({ working_directory: workDir }), messages, "json");
+    const parsed = parseImportBundle(JSON.parse(json));
+    expect(parsed.bundle?.attachments).toEqual([{ folder: "pictures", name: "map.png", data: Buffer.from("png-bytes").toString("base64") }]);
+  });
+
+  it("should name exports after a filesystem-safe title", () => {
+    expect(getExportFilename(session(), "json")).toBe("Parser-fixes-more.json");
+  });
+});
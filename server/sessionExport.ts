@@ -0,0 +1,428 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Session Export
+ *
+ * Renders a session's messages as Markdown, a self-contained HTML page or a
+ * JSON bundle. Covers text, thinking, tool calls (with inputs), long-running
+ * command output and compaction/context-cleared dividers.
+ */
+
+import * as fs from "fs";
+import { createElement, type ReactNode } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { SyntaxHighlighter, vscDarkPlus } from "./utils/syntaxHighlighter";
+import type { Session, SessionMessage } from "./database";
+import { parseContentBlocks } from "./utils/messageText";
+import { readSessionAttachments, type SessionAttachment } from "./imageUtils";
+
+export type ExportFormat = 'md' | 'html' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'html', 'json'];
+
+export const EXPORT_BUNDLE_FORMAT = 'agent-llama-session';
+export const EXPORT_BUNDLE_VERSION = 1;
+
+type ContentBlock = Record<string, unknown>;
+
+const DIVIDER_PREFIXES = ['--- Context cleared', '--- Auto-compact', '--- History compacted'];
+
+/**
+ * Normalize stored content into blocks (user messages may be plain strings)
+ */
+function toBlocks(message: SessionMessage): ContentBlock[] {
+  return parseContentBlocks(message.content) ?? [{ type: 'text', text: message.content }];
+}
+
+function isDivider(text: string): boolean {
+  return DIVIDER_PREFIXES.some(prefix => text.startsWith(prefix));
+}
+
+/**
+ * Strip the surrounding dashes from a divider ("--- History compacted ---")
+ */
+function dividerLabel(text: string): string {
+  return text.replace(/^-+\s*/, '').replace(/\s*-+$/, '');
+}
+
+function describeAttachment(block: ContentBlock): string | null {
+  if (block.type === 'image') return 'Image attached';
+  if (block.type === 'document') return `File attached: ${typeof block.name === 'string' ? block.name : 'file'}`;
+  return null;
+}
+
+function safeFilename(title: string): string {
+  const cleaned = title.replace(/[^a-zA-Z0-9-_ ]/g, '').trim().replace(/\s+/g, '-').substring(0, 60);
+  return cleaned || 'chat';
+}
+
+export function getExportFilename(session: Session, format: ExportFormat): string {
+  return `${safeFilename(session.title)}.${format}`;
+}
+
+export function getExportContentType(format: ExportFormat): string {
+  switch (format) {
+    case 'md': return 'text/markdown; charset=utf-8';
+    case 'html': return 'text/html; charset=utf-8';
+    case 'json': return 'application/json';
+  }
+}
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+export interface SessionExportBundle {
+  format: typeof EXPORT_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: {
+    id: string;
+    title: string;
+    created_at: string;
+    updated_at: string;
+    mode: Session['mode'];
+    permission_mode: Session['permission_mode'];
+    working_directory: string;
+  };
+  messages: Array<{
+    id: string;
+    type: 'user' | 'assistant';
+    timestamp: string;
+    content: string;
+  }>;
+  // Contents of the session's pictures/ and files/ folders (base64)
+  attachments?: SessionAttachment[];
+}
+
+export function exportSessionAsJson(
+  session: Session,
+  messages: SessionMessage[],
+  options: { includeAttachments?: boolean } = {}
+): SessionExportBundle {
+  return {
+    format: EXPORT_BUNDLE_FORMAT,
+    version: EXPORT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: {
+      id: session.id,
+      title: session.title,
+      created_at: session.created_at,
+      updated_at: session.updated_at,
+      mode: session.mode,
+      permission_mode: session.permission_mode,
+      working_directory: session.working_directory,
+    },
+    messages: messages.map(message => ({
+      id: message.id,
+      type: message.type,
+      timestamp: message.timestamp,
+      content: message.content,
+    })),
+    ...(options.includeAttachments ? { attachments: readSessionAttachments(session.working_directory) } : {}),
+  };
+}
+
+// ============================================================================
+// Markdown
+// ============================================================================
+
+/**
+ * Pick a code fence long enough that it can't be closed by the content
+ */
+function fence(content: string): string {
+  const longestRun = Math.max(2, ...(content.match(/`+/g) || []).map(run => run.length));
+  return '`'.repeat(longestRun + 1);
+}
+
+function markdownCodeBlock(content: string, language: string = ''): string {
+  const f = fence(content);
+  return `${f}${language}\n${content}\n${f}`;
+}
+
+function blockToMarkdown(block: ContentBlock): string | null {
+  switch (block.type) {
+    case 'text': {
+      const text = typeof block.text === 'string' ? block.text : '';
+      if (isDivider(text)) {
+        return `---\n\n*${dividerLabel(text)}*\n\n---`;
+      }
+      return text;
+    }
+    case 'thinking': {
+      const thinking = typeof block.thinking === 'string' ? block.thinking : '';
+      return `<details>\n<summary>Thinking</summary>\n\n${thinking}\n\n</details>`;
+    }
+    case 'tool_use': {
+      const name = typeof block.name === 'string' ? block.name : 'Tool';
+      return `**Tool: ${name}**\n\n${markdownCodeBlock(JSON.stringify(block.input ?? {}, null, 2), 'json')}`;
+    }
+    case 'long_running_command': {
+      const command = typeof block.command === 'string' ? block.command : '';
+      const output = typeof block.output === 'string' ? block.output : '';
+      const status = typeof block.status === 'string' ? ` (${block.status})` : '';
+      return `**Command${status}:**\n\n${markdownCodeBlock(`$ ${command}\n${output}`.trimEnd(), 'console')}`;
+    }
+    default: {
+      const attachment = describeAttachment(block);
+      return attachment ? `*[${attachment}]*` : null;
+    }
+  }
+}
+
+export function exportSessionAsMarkdown(session: Session, messages: SessionMessage[]): string {
+  const lines: string[] = [
+    `# ${session.title}`,
+    '',
+    `- **Created:** ${new Date(session.created_at).toLocaleString()}`,
+    `- **Mode:** ${session.mode}`,
+    `- **Messages:** ${messages.length}`,
+    `- **Exported:** ${new Date().toLocaleString()}`,
+    '',
+  ];
+
+  for (const message of messages) {
+    const role = message.type === 'user' ? 'User' : 'Assistant';
+    const body = toBlocks(message)
+      .map(blockToMarkdown)
+      .filter((part): part is string => part !== null && part.trim().length > 0)
+      .join('\n\n');
+
+    if (!body) continue;
+
+    lines.push(`## ${role}`, '', `*${new Date(message.timestamp).toLocaleString()}*`, '', body, '');
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const CODE_BLOCK_STYLE = {
+  margin: '0.75rem 0',
+  borderRadius: '0.5rem',
+  fontSize: '0.85rem',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+};
+
+function highlightedCode(code: string, language: string): ReactNode {
+  return createElement(SyntaxHighlighter, {
+    language: language || 'text',
+    style: vscDarkPlus,
+    customStyle: CODE_BLOCK_STYLE,
+    children: code,
+  });
+}
+
+/**
+ * Render markdown to static HTML with syntax-highlighted code (inline styles)
+ * and mermaid blocks left as source for the embedded mermaid runtime
+ */
+function renderMarkdown(text: string): string {
+  return renderToStaticMarkup(
+    createElement(ReactMarkdown, {
+      remarkPlugins: [remarkGfm],
+      components: {
+        code: ({ className, children }: { className?: string; children?: ReactNode }) => {
+          const match = /language-(\w+)/.exec(className || '');
+          const language = match ? match[1] : '';
+          const code = String(children).replace(/\n$/, '');
+
+          if (!className) {
+            return createElement('code', { className: 'inline-code' }, children);
+          }
+
+          if (language === 'mermaid') {
+            return createElement('pre', { className: 'mermaid' }, code);
+          }
+
+          return highlightedCode(code, language);
+        },
+        // Highlighted blocks render their own <pre>
+        pre: ({ children }: { children?: ReactNode }) => createElement('div', { className: 'code-block' }, children),
+      },
+      children: text,
+    })
+  );
+}
+
+function blockToHtml(block: ContentBlock): string | null {
+  switch (block.type) {
+    case 'text': {
+      const text = typeof block.text === 'string' ? block.text : '';
+      if (isDivider(text)) {
+        return `<div class="divider"><span>${escapeHtml(dividerLabel(text))}</span></div>`;
+      }
+      return `<div class="markdown">${renderMarkdown(text)}</div>`;
+    }
+    case 'thinking': {
+      const thinking = typeof block.thinking === 'string' ? block.thinking : '';
+      return `<details class="thinking"><summary>Thinking</summary><div class="markdown">${renderMarkdown(thinking)}</div></details>`;
+    }
+    case 'tool_use': {
+      const name = typeof block.name === 'string' ? block.name : 'Tool';
+      const input = JSON.stringify(block.input ?? {}, null, 2);
+      return `<details class="tool"><summary>Tool: ${escapeHtml(name)}</summary>${renderToStaticMarkup(highlightedCode(input, 'json'))}</details>`;
+    }
+    case 'long_running_command': {
+      const command = typeof block.command === 'string' ? block.command : '';
+      const output = typeof block.output === 'string' ? block.output : '';
+      const status = typeof block.status === 'string' ? block.status : '';
+      return `<div class="command"><div class="command-header"><code>$ ${escapeHtml(command)}</code><span class="status">${escapeHtml(status)}</span></div><pre>${escapeHtml(output)}</pre></div>`;
+    }
+    default: {
+      const attachment = describeAttachment(block);
+      return attachment ? `<div class="attachment">${escapeHtml(attachment)}</div>` : null;
+    }
+  }
+}
+
+let mermaidRuntime: string | null | undefined;
+
+/**
+ * Load the mermaid browser bundle so exported diagrams render offline.
+ * Returns null if it isn't available (e.g. standalone binary without node_modules).
+ */
+function loadMermaidRuntime(): string | null {
+  if (mermaidRuntime !== undefined) {
+    return mermaidRuntime;
+  }
+
+  try {
+    const runtimePath = Bun.resolveSync('mermaid/dist/mermaid.min.js', process.cwd());
+    // Prevent the bundle from terminating the surrounding <script> tag
+    mermaidRuntime = fs.readFileSync(runtimePath, 'utf-8').replace(/<\/script/gi, '<\\/script');
+  } catch (error) {
+    console.warn('⚠️  Mermaid runtime not available for HTML export, diagrams will be exported as source:', error);
+    mermaidRuntime = null;
+  }
+
+  return mermaidRuntime;
+}
+
+const HTML_STYLES = `
+  :root { color-scheme: dark; }
+  body { margin: 0; background: #0f1114; color: #e6e8eb; font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; }
+  main { max-width: 52rem; margin: 0 auto; padding: 2rem 1.25rem 4rem; }
+  header h1 { margin: 0 0 0.25rem; font-size: 1.6rem; }
+  header .meta { color: #8b929a; font-size: 0.85rem; margin-bottom: 2rem; }
+  .message { margin: 1.5rem 0; }
+  .message .role { font-weight: 600; font-size: 0.85rem; color: #8b929a; margin-bottom: 0.35rem; }
+  .message .role time { font-weight: 400; margin-left: 0.5rem; }
+  .message.user .content { background: #1c1f24; border: 1px solid rgba(255,255,255,0.08); border-radius: 1rem; padding: 0.75rem 1rem; white-space: pre-wrap; }
+  .markdown p { margin: 0 0 0.75rem; }
+  .markdown p:last-child { margin-bottom: 0; }
+  .markdown a { color: #9cc7ff; }
+  .markdown table { border-collapse: collapse; margin: 0.75rem 0; }
+  .markdown th, .markdown td { border: 1px solid #3a3f46; padding: 0.35rem 0.75rem; }
+  .markdown blockquote { border-left: 3px solid #4b5563; margin: 0.75rem 0; padding-left: 1rem; color: #a9b0b8; }
+  .inline-code { background: rgba(168,199,250,0.15); color: #daeeff; border: 1px solid rgba(168,199,250,0.2); border-radius: 0.35rem; padding: 0.05rem 0.35rem; font-size: 0.9em; }
+  details { border: 1px solid rgba(255,255,255,0.1); border-radius: 0.5rem; padding: 0.5rem 0.75rem; margin: 0.75rem 0; background: #15181c; }
+  details summary { cursor: pointer; color: #a9b0b8; font-size: 0.85rem; font-weight: 600; }
+  .command { border: 1px solid rgba(255,255,255,0.1); border-radius: 0.5rem; margin: 0.75rem 0; overflow: hidden; }
+  .command-header { display: flex; justify-content: space-between; gap: 1rem; padding: 0.5rem 0.75rem; background: #1c1f24; font-size: 0.85rem; }
+  .command-header .status { color: #8b929a; }
+  .command pre { margin: 0; padding: 0.75rem; max-height: 24rem; overflow: auto; font-size: 0.8rem; background: #0c0e10; }
+  .divider { display: flex; align-items: center; gap: 0.75rem; color: #8b929a; font-size: 0.8rem; margin: 2rem 0; }
+  .divider::before, .divider::after { content: ""; flex: 1; border-top: 1px solid rgba(255,255,255,0.12); }
+  .attachment { color: #8b929a; font-size: 0.85rem; font-style: italic; }
+  pre.mermaid { background: #15181c; border-radius: 0.5rem; padding: 1rem; }
+`;
+
+export function exportSessionAsHtml(session: Session, messages: SessionMessage[]): string {
+  const renderedMessages: string[] = [];
+
+  for (const message of messages) {
+    const blocks = toBlocks(message);
+    const parts = blocks
+      .map(block => message.type === 'user' && block.type === 'text'
+        ? escapeHtml(typeof block.text === 'string' ? block.text : '')
+        : blockToHtml(block))
+      .filter((part): part is string => part !== null && part.length > 0);
+
+    if (parts.length === 0) continue;
+
+    const role = message.type === 'user' ? 'User' : 'Assistant';
+    renderedMessages.push(`<section class="message ${message.type}">
+  <div class="role">${role}<time datetime="${escapeHtml(message.timestamp)}">${escapeHtml(new Date(message.timestamp).toLocaleString())}</time></div>
+  <div class="content">${parts.join('\n')}</div>
+</section>`);
+  }
+
+  const body = renderedMessages.join('\n');
+  const mermaidScript = body.includes('class="mermaid"') ? loadMermaidRuntime() : null;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(session.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<header>
+  <h1>${escapeHtml(session.title)}</h1>
+  <div class="meta">${escapeHtml(session.mode)} mode · ${messages.length} messages · created ${escapeHtml(new Date(session.created_at).toLocaleString())} · exported from Agent Llama</div>
+</header>
+${body}
+</main>
+${mermaidScript ? `<script>${mermaidScript}</script>
+<script>mermaid.initialize({ startOnLoad: true, theme: 'dark', securityLevel: 'strict' });</script>` : ''}
+</body>
+</html>
+`;
+}
+
+/**
+ * Render a session in the requested format
+ * JSON bundles include pictures/ and files/ unless includeAttachments is false
+ */
+export function exportSession(
+  session: Session,
+  messages: SessionMessage[],
+  format: ExportFormat,
+  options: { includeAttachments?: boolean } = {}
+): string {
+  switch (format) {
+    case 'md':
+      return exportSessionAsMarkdown(session, messages);
+    case 'html':
+      return exportSessionAsHtml(session, messages);
+    case 'json':
+      return JSON.stringify(exportSessionAsJson(session, messages, {
+        includeAttachments: options.includeAttachments ?? true,
+      }), null, 2);
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { runMigrations } from "./migrations";
+import { EXPORT_BUNDLE_FORMAT, EXPORT_BUNDLE_VERSION, type SessionExportBundle } from "./sessionExport";
+import { parseImportBundle, resolveImportSessionId, rewriteAttachmentPaths, insertImportedSession } from "./sessionImport";
+
+function bundle(overrides: Partial<SessionExportBundle['session']> = {}): SessionExportBundle {
+  return {
+    format: EXPORT_BUNDLE_FORMAT,
+    version: EXPORT_BUNDLE_VERSION,
+    exportedAt: "2025-01-02T00:00:00.000Z",
+    session: {
+      id: "s1",
+      title: "Trip plans",
+      created_at: "2025-01-01T00:00:00.000Z",
+      updated_at: "2025-01-01T00:00:00.000Z",
+      mode: "general",
+      permission_mode: "bypassPermissions",
+      working_directory: "/old/chat-s1",
+      ...overrides,
+    },
+    messages: [
+      { id: "m1", type: "user", timestamp: "2025-01-01T00:00:01.000Z", content: "See /old/chat-s1/pictures/map.png and /old/chat-s1/notes.md" },
+      { id: "m2", type: "assistant", timestamp: "2025-01-01T00:00:02.000Z", content: "Saved /old/chat-s1/files/plan.pdf" },
+    ],
+  };
+}
+
+describe("parseImportBundle", () => {
+  it("should accept an exported bundle and reject newer versions", () => {
+    expect(parseImportBundle(bundle()).bundle?.session.id).toBe("s1");
+    expect(parseImportBundle({ ...bundle(), version: EXPORT_BUNDLE_VERSION + 1 }).error).toContain("newer than supported");
+    expect(parseImportBundle({ ...bundle(), messages: "none" }).error).toStartWith("Invalid session bundle at messages");
+  });
+});
+
+describe("rewriteAttachmentPaths", () => {
+  it("should only rewrite references to the original pictures and files", () => {
+    expect(rewriteAttachmentPaths("See /old/chat-s1/pictures/map.png and /old/chat-s1/notes.md", "/old/chat-s1/", "/new/chat-s1"))
+      .toBe("See /new/chat-s1/pictures/map.png and /old/chat-s1/notes.md");
+    expect(rewriteAttachmentPaths("/old/chat-s10/files/a.txt", "/old/chat-s1", "/new/chat-s1")).toBe("/old/chat-s10/files/a.txt");
+    expect(rewriteAttachmentPaths("/old (1)/files/a.txt", "/old (1)", "/new")).toBe("/new/files/a.txt");
+  });
+});
+
+describe("insertImportedSession", () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+  });
+
+  const messages = (sessionId: string) =>
+    db.query<{ id: string; content: string }, [string]>("SELECT id, content FROM messages WHERE session_id = ? ORDER BY timestamp").all(sessionId);
+
+  it("should insert the session in the default permission mode with rewritten attachment paths", () => {
+    const imported = bundle();
+    const id = resolveImportSessionId(db, imported);
+    expect(id).toBe("s1");
+
+    const result = insertImportedSession(db, imported, id, "/new/chat-s1");
+    expect(result.remappedIds).toBe(0);
+
+    const session = db.query<{ title: string; working_directory: string; permission_mode: string }, []>(
+      "SELECT title, working_directory, permission_mode FROM sessions WHERE id = 's1'"
+    ).get();
+    expect(session).toEqual({ title: "Trip plans", working_directory: "/new/chat-s1", permission_mode: "default" });
+    expect(messages("s1")).toEqual([
+      { id: "m1", content: "See /new/chat-s1/pictures/map.png and /old/chat-s1/notes.md" },
+      { id: "m2", content: "Saved /new/chat-s1/files/plan.pdf" },
+    ]);
+  });
+
+  it("should remap IDs that already exist instead of overwriting them", () => {
+    insertImportedSession(db, bundle(), "s1", "/new/chat-s1");
+
+    const again = bundle();
+    const id = resolveImportSessionId(db, again);
+    expect(id).not.toBe("s1");
+
+    const result = insertImportedSession(db, again, id, "/new/chat-2");
+    expect(result.remappedIds).toBe(3);
+    expect(result.messages.map(message => message.id)).not.toContain("m1");
+    expect(messages(id)).toHaveLength(2);
+    expect(messages("s1").map(message => message.id)).toEqual(["m1", "m2"]);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Session Import
+ *
+ * Validates JSON bundles produced by the session export endpoint and writes
+ * their rows for SessionDatabase.importSession(), which restores the
+ * attachments around them.
+ */
+
+import type { Database } from 'bun:sqlite';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { EXPORT_BUNDLE_FORMAT, EXPORT_BUNDLE_VERSION, type SessionExportBundle } from './sessionExport';
+
+const attachmentSchema = z.object({
+  folder: z.enum(['pictures', 'files']),
+  name: z.string().min(1),
+  data: z.string(),
+});
+
+const bundleSchema = z.object({
+  format: z.literal(EXPORT_BUNDLE_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  session: z.object({
+    id: z.string().min(1),
+    title: z.string(),
+    created_at: z.string(),
+    updated_at: z.string(),
+    mode: z.enum(['general', 'coder', 'intense-research', 'spark', 'instagram-strategist']).catch('general'),
+    permission_mode: z.enum(['default', 'acceptEdits', 'bypassPermissions', 'plan']).catch('bypassPermissions'),
+    working_directory: z.string(),
+  }),
+  messages: z.array(z.object({
+    id: z.string().min(1),
+    type: z.enum(['user', 'assistant']),
+    timestamp: z.string(),
+    content: z.string(),
+  })),
+  attachments: z.array(attachmentSchema).optional(),
+});
+
+/**
+ * Validate an uploaded bundle
+ * Returns the typed bundle or a human-readable error
+ */
+export function parseImportBundle(data: unknown): { bundle?: SessionExportBundle; error?: string } {
+  const result = bundleSchema.safeParse(data);
+
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const location = issue.path.length > 0 ? ` at ${issue.path.join('.')}` : '';
+    return { error: `Invalid session bundle${location}: ${issue.message}` };
+  }
+
+  if (result.data.version > EXPORT_BUNDLE_VERSION) {
+    return { error: `Bundle version ${result.data.version} is newer than supported (${EXPORT_BUNDLE_VERSION}). Please update Agent Llama.` };
+  }
+
+  return { bundle: result.data };
+}
+
+function idExists(db: Database, table: 'sessions' | 'messages', id: string): boolean {
+  return db.query<{ id: string }, [string]>(`SELECT id FROM ${table} WHERE id = ?`).get(id) !== null;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * ID for an imported session: the bundle's own, or a fresh one if it is taken
+ */
+export function resolveImportSessionId(db: Database, bundle: SessionExportBundle): string {
+  return idExists(db, 'sessions', bundle.session.id) ? randomUUID() : bundle.session.id;
+}
+
+/**
+ * Point absolute references to the original session's pictures/ and files/
+ * at the new working directory; other mentions of the old path are left alone
+ */
+export function rewriteAttachmentPaths(content: string, originalDir: string, workingDir: string): string {
+  const from = originalDir.replace(/\/+$/, '');
+  if (!from || from === workingDir) return content;
+
+  const pattern = new RegExp(`${escapeRegex(from)}/(pictures|files)/`, 'g');
+  return content.replace(pattern, (_match, folder: string) => `${workingDir}/${folder}/`);
+}
+
+/**
+ * Insert an imported session and its messages
+ * Message IDs that already exist locally are remapped, never overwritten. The
+ * session starts in the default permission mode whatever the bundle says.
+ */
+export function insertImportedSession(
+  db: Database,
+  bundle: SessionExportBundle,
+  id: string,
+  workingDir: string
+): { messages: Array<{ id: string; content: string }>; remappedIds: number } {
+  const now = new Date().toISOString();
+  let remappedIds = id === bundle.session.id ? 0 : 1;
+
+  db.run(
+    "INSERT INTO sessions (id, title, created_at, updated_at, working_directory, permission_mode, mode) VALUES (?, ?, ?, ?, ?, ?, ?)",
+    [id, bundle.session.title || 'Imported Chat', bundle.session.created_at, now, workingDir, 'default', bundle.session.mode]
+  );
+
+  const messages = bundle.messages.map(message => {
+    let messageId = message.id;
+    if (idExists(db, 'messages', messageId)) {
+      messageId = randomUUID();
+      remappedIds++;
+    }
+
+    const content = rewriteAttachmentPaths(message.content, bundle.session.working_directory, workingDir);
+    db.run(
+      "INSERT INTO messages (id, session_id, type, content, timestamp) VALUES (?, ?, ?, ?, ?)",
+      [messageId, id, message.type, content, message.timestamp]
+    );
+    return { id: messageId, content };
+  });
+
+  return { messages, remappedIds };
+}
@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import type { ServerWebSocket } from "bun";
+import { SessionStreamManager } from "./sessionStreamManager";
+
+/**
+ * Minimal stand-in for a Bun WebSocket that records what was sent
+ */
+function fakeSocket(open = true) {
+  const sent: Record<string, unknown>[] = [];
+  const ws = {
+    readyState: open ? 1 : 3,
+    send: (data: string) => {
+      sent.push(JSON.parse(data));
+    },
+  };
+  return { ws: ws as unknown as ServerWebSocket<unknown>, sent, close: () => { ws.readyState = 3; } };
+}
+
+function streamed(sent: Record<string, unknown>[]) {
+  return sent.filter(event => event.type !== "subscribers_changed");
+}
+
+function delta(text: string) {
+  return JSON.stringify({ type: "thinking_delta", content: text, sessionId: "s1" });
+}
+
+describe("SessionStreamManager event replay", () => {
+  let manager: SessionStreamManager;
+
+  beforeEach(() => {
+    manager = new SessionStreamManager();
+    manager.getOrCreateStream("s1");
+  });
+
+  afterEach(() => {
+    manager.shutdown();
+  });
+
+  it("should number events and replay exactly those missed while disconnected", () => {
+    const first = fakeSocket();
+    manager.subscribe("s1", first.ws);
+    manager.safeSend("s1", delta("a"));
+    manager.safeSend("s1", delta("b"));
+    expect(streamed(first.sent).map(e => e.seq)).toEqual([1, 2]);
+
+    first.close();
+    expect(manager.safeSend("s1", delta("c"))).toBe(false);
+    expect(manager.safeSend("s1", delta("d"))).toBe(false);
+
+    const second = fakeSocket();
+    const result = manager.resumeStream("s1", second.ws, 2);
+    expect(result).toEqual({ replayed: 2, complete: true, active: true });
+    expect(streamed(second.sent)).toEqual([
+      { seq: 3, type: "thinking_delta", content: "c", sessionId: "s1" },
+      { seq: 4, type: "thinking_delta", content: "d", sessionId: "s1" },
+    ]);
+
+    // Live events continue on the new socket
+    manager.safeSend("s1", delta("e"));
+    expect(streamed(second.sent).map(e => e.seq)).toEqual([3, 4, 5]);
+  });
+
+  it("should report an incomplete resume once missed events were evicted", () => {
+    for (let i = 0; i < 1005; i++) {
+      manager.safeSend("s1", delta(String(i)));
+    }
+
+    const { ws, sent } = fakeSocket();
+    expect(manager.resumeStream("s1", ws, 2)).toEqual({ replayed: 0, complete: false, active: true });
+    expect(streamed(sent)).toHaveLength(0);
+
+    expect(manager.resumeStream("s1", ws, 1000).replayed).toBe(5);
+  });
+
+  it("should continue numbering after a respawn and detect events lost with the old stream", () => {
+    manager.safeSend("s1", delta("a"));
+    manager.safeSend("s1", delta("b"));
+    manager.cleanupSession("s1", "test");
+
+    const { ws } = fakeSocket();
+    expect(manager.resumeStream("s1", ws, 2)).toEqual({ replayed: 0, complete: true, active: false });
+    expect(manager.resumeStream("s1", ws, 1)).toEqual({ replayed: 0, complete: false, active: false });
+
+    manager.getOrCreateStream("s1");
+    manager.subscribe("s1", ws);
+    manager.safeSend("s1", delta("c"));
+    expect(manager.resumeStream("s1", ws, 2)).toEqual({ replayed: 1, complete: true, active: true });
+    expect(manager.resumeStream("s1", ws, 1).complete).toBe(false);
+  });
+
+  it("should treat a seq from before a server restart as incomplete", () => {
+    const { ws } = fakeSocket();
+    expect(manager.resumeStream("s1", ws, 42)).toEqual({ replayed: 0, complete: false, active: true });
+  });
+});
+
+describe("SessionStreamManager subscribers", () => {
+  let manager: SessionStreamManager;
+
+  beforeEach(() => {
+    manager = new SessionStreamManager();
+    manager.getOrCreateStream("s1");
+  });
+
+  afterEach(() => {
+    manager.shutdown();
+  });
+
+  it("should broadcast every event to all subscribers", () => {
+    const laptop = fakeSocket();
+    const phone = fakeSocket();
+    manager.subscribe("s1", laptop.ws);
+    manager.subscribe("s1", phone.ws);
+
+    expect(manager.safeSend("s1", delta("a"))).toBe(true);
+    expect(streamed(laptop.sent)).toEqual([{ seq: 1, type: "thinking_delta", content: "a", sessionId: "s1" }]);
+    expect(streamed(phone.sent)).toEqual(streamed(laptop.sent));
+
+    // A closed socket is skipped without affecting the others
+    laptop.close();
+    manager.safeSend("s1", delta("b"));
+    expect(streamed(laptop.sent)).toHaveLength(1);
+    expect(streamed(phone.sent).map(e => e.seq)).toEqual([1, 2]);
+  });
+
+  it("should notify subscribers as clients come and go", () => {
+    const laptop = fakeSocket();
+    const phone = fakeSocket();
+    manager.subscribe("s1", laptop.ws);
+    manager.subscribe("s1", phone.ws);
+    manager.subscribe("s1", phone.ws); // Already subscribed: no-op
+
+    const counts = () => laptop.sent.filter(e => e.type === "subscribers_changed").map(e => e.count);
+    expect(counts()).toEqual([1, 2]);
+    expect(manager.getSubscriberCount("s1")).toBe(2);
+
+    manager.unsubscribeAll(phone.ws);
+    expect(counts()).toEqual([1, 2, 1]);
+    expect(manager.getSubscriberCount("s1")).toBe(1);
+  });
+
+  it("should replay the user message that started a turn to a reconnecting client", () => {
+    const laptop = fakeSocket();
+    manager.subscribe("s1", laptop.ws);
+    manager.safeSend("s1", JSON.stringify({ type: "user_message", message: { id: "m1", content: "hi", timestamp: "t" }, clientMessageId: "local-1", sessionId: "s1" }));
+    manager.safeSend("s1", delta("a"));
+    expect(streamed(laptop.sent).map(event => event.type)).toEqual(["user_message", "thinking_delta"]);
+
+    const { ws, sent } = fakeSocket();
+    expect(manager.resumeStream("s1", ws, 0)).toEqual({ replayed: 2, complete: true, active: true });
+    expect(streamed(sent)).toEqual([
+      { seq: 1, type: "user_message", message: { id: "m1", content: "hi", timestamp: "t" }, clientMessageId: "local-1", sessionId: "s1" },
+      { seq: 2, type: "thinking_delta", content: "a", sessionId: "s1" },
+    ]);
+  });
+
+  it("should keep subscriptions for sessions without a live stream", () => {
+    const { ws, sent } = fakeSocket();
+    manager.subscribe("idle", ws);
+
+    expect(sent).toEqual([{ type: "subscribers_changed", sessionId: "idle", count: 1, seq: 0 }]);
+  });
+
+  it("should deliver events to every subscriber after the stream is gone", () => {
+    const laptop = fakeSocket();
+    const phone = fakeSocket();
+    manager.subscribe("s1", laptop.ws);
+    manager.subscribe("s1", phone.ws);
+    manager.safeSend("s1", delta("a"));
+
+    // A failed spawn cleans the stream up before the error goes out
+    manager.cleanupSession("s1");
+    const error = JSON.stringify({ type: "error", message: "boom", sessionId: "s1" });
+    expect(manager.safeSend("s1", error)).toBe(true);
+
+    for (const { sent } of [laptop, phone]) {
+      expect(streamed(sent)).toEqual([
+        { seq: 1, type: "thinking_delta", content: "a", sessionId: "s1" },
+        { seq: 2, type: "error", message: "boom", sessionId: "s1" },
+      ]);
+    }
+
+    // It can't be replayed, so a client that missed it is told to reload
+    const late = fakeSocket();
+    expect(manager.resumeStream("s1", late.ws, 1)).toEqual({ replayed: 0, complete: false, active: false });
+    expect(manager.resumeStream("s1", fakeSocket().ws, 2)).toEqual({ replayed: 0, complete: true, active: false });
+  });
+});
+
+describe("SessionStreamManager turns", () => {
+  let manager: SessionStreamManager;
+
+  beforeEach(() => {
+    manager = new SessionStreamManager();
+    manager.getOrCreateStream("s1");
+  });
+
+  afterEach(() => {
+    manager.shutdown();
+  });
+
+  it("should keep the running turn current while later messages queue up", () => {
+    expect(manager.getCurrentTurnId("s1")).toBeNull();
+
+    manager.sendMessage("s1", "first", "t1");
+    manager.sendMessage("s1", "second", "t2");
+    expect(manager.getCurrentTurnId("s1")).toBe("t1");
+
+    expect(manager.finishTurn("s1")).toBe("t2");
+    expect(manager.getCurrentTurnId("s1")).toBe("t2");
+
+    expect(manager.finishTurn("s1")).toBeNull();
+    expect(manager.getCurrentTurnId("s1")).toBeNull();
+  });
+
+  it("should forget queued turns with the stream", () => {
+    manager.sendMessage("s1", "first", "t1");
+    manager.cleanupSession("s1");
+
+    expect(manager.getCurrentTurnId("s1")).toBeNull();
+    expect(manager.finishTurn("s1")).toBeNull();
+  });
+});
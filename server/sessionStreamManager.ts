@@ -4,8 +4,22 @@
  */
 
 import type { SDKUserMessage, Query } from "@anthropic-ai/claude-agent-sdk";
-import type { ServerWebSocket } from "bun";
 import { AsyncQueue } from "./utils/AsyncQueue";
+import { encodeServerMessage } from "../client/config/protocol";
+
+/**
+ * Anything that can receive a session's events: a Bun WebSocket, or an HTTP
+ * event stream (see SseSubscriber)
+ */
+export interface StreamSubscriber {
+  readonly readyState: number; // 1 = open, like WebSocket.OPEN
+  send(data: string): unknown;
+}
+
+interface BufferedEvent {
+  seq: number;
+  data: string;
+}
 
 interface SessionStream {
   messageQueue: AsyncQueue<string>;
@@ -14,15 +28,32 @@ interface SessionStream {
   sessionId: string;
   createdAt: number;
   lastActivityAt: number;
-  activeWebSocket: ServerWebSocket<unknown> | null;
+  eventLog: BufferedEvent[]; // Recent events for replay after a reconnect (ring buffer)
+  eventLogBytes: number;
+  eventLogStartSeq: number; // Every event with a higher seq is still in eventLog
+  turnIds: string[]; // User message of each turn sent to the SDK and not finished yet; the first is running
+}
+
+export interface ResumeResult {
+  replayed: number;
+  complete: boolean; // false = events were missed that can't be replayed; reload from the database
+  active: boolean; // Session has a live SDK stream
 }
 
 export class SessionStreamManager {
   private streams = new Map<string, SessionStream>();
   private readonly SESSION_TIMEOUT_MS = 2 * 60 * 60 * 1000; // 2 hours (SDK pre-flight checks can be slow on WSL)
   private readonly MAX_CONCURRENT_SESSIONS = 100;
+  private readonly MAX_BUFFERED_EVENTS = 1000;
+  private readonly MAX_BUFFERED_BYTES = 2 * 1024 * 1024; // Per session
   private cleanupInterval: Timer | null = null;
 
+  // Last sequence number per session; outlives streams so numbering continues after a respawn
+  private sequences = new Map<string, number>();
+
+  // Clients watching each session; outlives streams so idle sessions can be watched too
+  private subscribers = new Map<string, Set<StreamSubscriber>>();
+
   constructor() {
     // Start cleanup interval for idle sessions
     this.startCleanupInterval();
@@ -49,7 +80,10 @@ export class SessionStreamManager {
         sessionId,
         createdAt: Date.now(),
         lastActivityAt: Date.now(),
-        activeWebSocket: null,
+        eventLog: [],
+        eventLogBytes: 0,
+        eventLogStartSeq: this.sequences.get(sessionId) ?? 0,
+        turnIds: [],
       });
 
     }
@@ -59,17 +93,41 @@ export class SessionStreamManager {
 
   /**
    * Send message to session stream
+   * turnId (the stored user message) identifies the turn while the SDK works on it;
+   * messages sent mid-turn queue up behind the running one
    */
-  sendMessage(sessionId: string, content: string): void {
+  sendMessage(sessionId: string, content: string, turnId?: string): void {
     const stream = this.streams.get(sessionId);
     if (!stream) {
       throw new Error(`Session stream not found: ${sessionId}`);
     }
 
     stream.lastActivityAt = Date.now();
+    if (turnId) {
+      stream.turnIds.push(turnId);
+    }
     stream.messageQueue.enqueue(content);
   }
 
+  /**
+   * The turn the SDK is working on, or null when the session is idle
+   */
+  getCurrentTurnId(sessionId: string): string | null {
+    return this.streams.get(sessionId)?.turnIds[0] ?? null;
+  }
+
+  /**
+   * Mark the running turn as finished (on the SDK's result message)
+   * Returns the next queued turn, if any
+   */
+  finishTurn(sessionId: string): string | null {
+    const stream = this.streams.get(sessionId);
+    if (!stream) return null;
+
+    stream.turnIds.shift();
+    return stream.turnIds[0] ?? null;
+  }
+
   /**
    * Register SDK query for session
    */
@@ -81,20 +139,65 @@ export class SessionStreamManager {
   }
 
   /**
-   * Update active WebSocket for session (on reconnection or first connect)
+   * Add a client to a session's subscribers (viewing it, sending to it, or reconnecting)
+   * Every subscriber receives the session's events
    */
-  updateWebSocket(sessionId: string, ws: ServerWebSocket<unknown>): void {
-    const stream = this.streams.get(sessionId);
-    if (stream) {
-      stream.activeWebSocket = ws;
+  subscribe(sessionId: string, subscriber: StreamSubscriber): void {
+    if (subscriber.readyState !== 1) return; // Already gone, e.g. an HTTP caller that aborted mid-setup
+
+    let subscribers = this.subscribers.get(sessionId);
+    if (!subscribers) {
+      subscribers = new Set();
+      this.subscribers.set(sessionId, subscribers);
+    }
+    if (subscribers.has(subscriber)) return;
+
+    subscribers.add(subscriber);
+    this.notifySubscribersChanged(sessionId);
+  }
+
+  /**
+   * Remove a client from a session's subscribers
+   */
+  unsubscribe(sessionId: string, subscriber: StreamSubscriber): void {
+    const subscribers = this.subscribers.get(sessionId);
+    if (!subscribers?.delete(subscriber)) return;
+
+    if (subscribers.size === 0) {
+      this.subscribers.delete(sessionId);
     }
+    this.notifySubscribersChanged(sessionId);
   }
 
   /**
-   * Get active WebSocket for session
+   * Remove a client from every session (WebSocket closed or event stream ended)
    */
-  getWebSocket(sessionId: string): ServerWebSocket<unknown> | null {
-    return this.streams.get(sessionId)?.activeWebSocket || null;
+  unsubscribeAll(subscriber: StreamSubscriber): void {
+    for (const [sessionId, subscribers] of Array.from(this.subscribers.entries())) {
+      if (subscribers.has(subscriber)) {
+        this.unsubscribe(sessionId, subscriber);
+      }
+    }
+  }
+
+  /**
+   * Number of clients currently subscribed to a session
+   */
+  getSubscriberCount(sessionId: string): number {
+    return this.subscribers.get(sessionId)?.size ?? 0;
+  }
+
+  /**
+   * Tell every subscriber how many clients are watching the session
+   * Carries the session's current seq so an idle subscriber can resume from it later
+   */
+  private notifySubscribersChanged(sessionId: string): void {
+    this.broadcast(sessionId, encodeServerMessage({
+      type: 'subscribers_changed',
+      sessionId,
+      count: this.getSubscriberCount(sessionId),
+      seq: this.sequences.get(sessionId) ?? 0,
+    }));
   }
 
   /**
@@ -123,7 +226,7 @@ export class SessionStreamManager {
     stream.abortController.abort();
 
     // Send abort signal to client
-    this.safeSend(sessionId, JSON.stringify({
+    this.safeSend(sessionId, encodeServerMessage({
       type: 'generation_stopped',
       sessionId: sessionId,
     }));
@@ -132,27 +235,113 @@ export class SessionStreamManager {
   }
 
   /**
-   * Safe send to WebSocket (checks readyState)
+   * Take the session's next sequence number and splice it into the event's JSON
+   */
+  private stampEvent(sessionId: string, data: string): { seq: number; stamped: string } {
+    const seq = (this.sequences.get(sessionId) ?? 0) + 1;
+    this.sequences.set(sessionId, seq);
+
+    const stamped = data.startsWith('{') && data !== '{}' ? `{"seq":${seq},${data.slice(1)}` : data;
+    return { seq, stamped };
+  }
+
+  /**
+   * Stamp an event with the session's next sequence number and keep it for replay
+   * data must be a JSON object; the seq field is spliced in to avoid re-serializing
+   */
+  private recordEvent(stream: SessionStream, data: string): string {
+    const { seq, stamped } = this.stampEvent(stream.sessionId, data);
+    stream.eventLog.push({ seq, data: stamped });
+    stream.eventLogBytes += stamped.length;
+
+    while (
+      stream.eventLog.length > this.MAX_BUFFERED_EVENTS ||
+      (stream.eventLogBytes > this.MAX_BUFFERED_BYTES && stream.eventLog.length > 1)
+    ) {
+      const evicted = stream.eventLog.shift()!;
+      stream.eventLogBytes -= evicted.data.length;
+      stream.eventLogStartSeq = evicted.seq;
+    }
+
+    return stamped;
+  }
+
+  /**
+   * Re-subscribe a reconnected client and replay the events it missed
+   * lastSeq is the last seq the client received for this session (0 if none)
+   */
+  resumeStream(sessionId: string, subscriber: StreamSubscriber, lastSeq: number): ResumeResult {
+    const result = this.replayMissedEvents(sessionId, subscriber, lastSeq);
+    this.subscribe(sessionId, subscriber);
+    return result;
+  }
+
+  private replayMissedEvents(sessionId: string, subscriber: StreamSubscriber, lastSeq: number): ResumeResult {
+    const currentSeq = this.sequences.get(sessionId) ?? 0;
+    const stream = this.streams.get(sessionId);
+
+    // lastSeq ahead of us means the server restarted since the client last heard from it
+    if (lastSeq > currentSeq) {
+      return { replayed: 0, complete: false, active: !!stream };
+    }
+
+    if (!stream) {
+      return { replayed: 0, complete: lastSeq === currentSeq, active: false };
+    }
+
+    // Some missed events were already evicted from the ring buffer
+    if (lastSeq < stream.eventLogStartSeq) {
+      return { replayed: 0, complete: false, active: true };
+    }
+
+    const missed = stream.eventLog.filter(event => event.seq > lastSeq);
+    for (const event of missed) {
+      subscriber.send(event.data);
+    }
+
+    return { replayed: missed.length, complete: true, active: true };
+  }
+
+  /**
+   * Send a stream event to every subscriber (skips sockets that aren't open)
+   * Events are sequence-numbered and buffered even when no client is connected,
+   * so a reconnecting client can catch up with resumeStream()
+   * Without a live stream (e.g. errors after a failed spawn) the event is still
+   * numbered and delivered, but can't be replayed: a client that missed it
+   * sees a gap in the sequence and reloads the session
    */
   safeSend(sessionId: string, data: string): boolean {
     const stream = this.streams.get(sessionId);
-    if (!stream || !stream.activeWebSocket) {
+    if (!stream) {
+      return this.broadcast(sessionId, this.stampEvent(sessionId, data).stamped);
+    }
+
+    return this.broadcast(sessionId, this.recordEvent(stream, data));
+  }
+
+  /**
+   * Send to every open subscriber without recording the event for replay
+   * Returns true if at least one client received it
+   */
+  broadcast(sessionId: string, data: string): boolean {
+    const subscribers = this.subscribers.get(sessionId);
+    if (!subscribers) {
       return false;
     }
 
-    try {
-      // Check if WebSocket is open
-      if (stream.activeWebSocket.readyState === 1) { // 1 = OPEN
-        stream.activeWebSocket.send(data);
-        return true;
-      } else {
-        // Silently skip - WebSocket closed/closing is normal (user switched tabs, etc.)
-        return false;
+    let delivered = false;
+    for (const subscriber of subscribers) {
+      // Silently skip - WebSocket closed/closing is normal (user switched tabs, etc.)
+      if (subscriber.readyState !== 1) continue; // 1 = OPEN
+
+      try {
+        subscriber.send(data);
+        delivered = true;
+      } catch (error) {
+        console.error(`❌ Event send error: ${sessionId.substring(0, 8)}`, error);
       }
-    } catch (error) {
-      console.error(`❌ WebSocket send error: ${sessionId.substring(0, 8)}`, error);
-      return false;
     }
+    return delivered;
   }
 
   /**
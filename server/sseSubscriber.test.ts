@@ -0,0 +1,197 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import { SessionStreamManager } from "./sessionStreamManager";
+import { SseSubscriber, EventSubscriber, RequestTurn, isTurnEnd, waitForTurn, assembleAssistantMessage } from "./sseSubscriber";
+import type { ServerMessage } from "../client/config/protocol";
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return await new Response(stream).text();
+}
+
+describe("SseSubscriber", () => {
+  let manager: SessionStreamManager | undefined;
+
+  afterEach(() => {
+    manager?.shutdown();
+  });
+
+  it("should stream session events as SSE frames with their seq as id", async () => {
+    manager = new SessionStreamManager();
+    manager.getOrCreateStream("s1");
+
+    const subscriber: SseSubscriber = new SseSubscriber((message) => {
+      if (isTurnEnd(message, "s1")) subscriber.close();
+    });
+    manager.subscribe("s1", subscriber);
+    manager.safeSend("s1", JSON.stringify({ type: "assistant_message", content: "hi", sessionId: "s1" }));
+    manager.safeSend("s1", JSON.stringify({ type: "result", success: true, sessionId: "s1" }));
+
+    // Closed after the result: later events are dropped
+    expect(subscriber.readyState).toBe(3);
+    expect(manager.safeSend("s1", JSON.stringify({ type: "keepalive", elapsedSeconds: 30, sessionId: "s1" }))).toBe(false);
+
+    const frames = (await readAll(subscriber.stream)).split("\n\n").filter(Boolean);
+    expect(frames).toEqual([
+      'id: 0\nevent: subscribers_changed\ndata: {"type":"subscribers_changed","sessionId":"s1","count":1,"seq":0}',
+      'id: 1\nevent: assistant_message\ndata: {"seq":1,"type":"assistant_message","content":"hi","sessionId":"s1"}',
+      'id: 2\nevent: result\ndata: {"seq":2,"type":"result","success":true,"sessionId":"s1"}',
+    ]);
+  });
+
+  it("should run onCancel when the client disconnects", async () => {
+    let cancelled = false;
+    const subscriber = new SseSubscriber(undefined, () => { cancelled = true; });
+
+    await subscriber.stream.cancel();
+    expect(cancelled).toBe(true);
+    expect(subscriber.readyState).toBe(3);
+  });
+});
+
+describe("isTurnEnd", () => {
+  it("should end on completion events for the same session only", () => {
+    expect(isTurnEnd({ type: "result", success: true, sessionId: "s1" }, "s1")).toBe(true);
+    expect(isTurnEnd({ type: "result", success: true, sessionId: "s2" }, "s1")).toBe(false);
+    expect(isTurnEnd({ type: "error", message: "Session not found" }, "s1")).toBe(true);
+    expect(isTurnEnd({ type: "budget_warning", breaches: [], message: "", sessionId: "s1" }, "s1")).toBe(false);
+  });
+});
+
+describe("waitForTurn", () => {
+  // A turn in a session with nothing else running
+  const idleTurn = (sessionId: string) => new RequestTurn(sessionId, () => null);
+
+  it("should finish on the turn's result with the events before it", async () => {
+    const { subscriber, events, outcome } = waitForTurn(idleTurn("s1"), new AbortController().signal);
+    subscriber.send(JSON.stringify({ type: "assistant_message", content: "hi", sessionId: "s1" }));
+    subscriber.send(JSON.stringify({ type: "result", success: true, sessionId: "s1" }));
+
+    expect(await outcome).toEqual({ status: "finished", last: { type: "result", success: true, sessionId: "s1" } });
+    expect(events.map(event => event.type)).toEqual(["assistant_message", "result"]);
+    expect(subscriber.readyState).toBe(3);
+  });
+
+  it("should return early when the turn waits on a permission request", async () => {
+    const { subscriber, outcome } = waitForTurn(idleTurn("s1"), new AbortController().signal);
+    const request = { type: "tool_permission_request", requestId: "r1", toolName: "Bash", toolInput: { command: "rm -rf build" }, rules: [], directories: [], sessionId: "s1" };
+    subscriber.send(JSON.stringify({ ...request, sessionId: "s2" }));
+    subscriber.send(JSON.stringify(request));
+
+    expect(await outcome).toEqual({ status: "pending", request: request as ServerMessage });
+    expect(subscriber.readyState).toBe(3);
+  });
+
+  it("should settle when the caller aborts", async () => {
+    const controller = new AbortController();
+    const { subscriber, outcome } = waitForTurn(idleTurn("s1"), controller.signal);
+    controller.abort();
+
+    expect(await outcome).toEqual({ status: "aborted" });
+    expect(subscriber.readyState).toBe(3);
+
+    const alreadyAborted = waitForTurn(idleTurn("s1"), controller.signal);
+    expect(await alreadyAborted.outcome).toEqual({ status: "aborted" });
+  });
+
+  it("should not subscribe a caller that aborted before the turn started", async () => {
+    const manager = new SessionStreamManager();
+    const controller = new AbortController();
+    const { subscriber, outcome } = waitForTurn(idleTurn("s1"), controller.signal);
+    controller.abort();
+    await outcome;
+
+    manager.subscribe("s1", subscriber);
+    expect(manager.getSubscriberCount("s1")).toBe(0);
+    manager.shutdown();
+  });
+});
+
+describe("assembleAssistantMessage", () => {
+  it("should merge text deltas around tool calls and drop progress events", () => {
+    const events: ServerMessage[] = [];
+    const collector = new EventSubscriber((message) => events.push(message));
+    for (const event of [
+      { type: "thinking_delta", content: "hmm" },
+      { type: "assistant_message", content: "Let me " },
+      { type: "assistant_message", content: "check." },
+      { type: "tool_use", toolId: "t1", toolName: "Read", toolInput: { file_path: "a.ts" } },
+      { type: "token_update", outputTokens: 12 },
+      { type: "assistant_message", content: "Done." },
+    ]) {
+      collector.send(JSON.stringify(event));
+    }
+
+    expect(assembleAssistantMessage(events)).toEqual({
+      content: [
+        { type: "text", text: "Let me check." },
+        { type: "tool_use", id: "t1", name: "Read", input: { file_path: "a.ts" } },
+        { type: "text", text: "Done." },
+      ],
+      text: "Let me check.\n\nDone.",
+    });
+  });
+});
+
+describe("RequestTurn", () => {
+  let manager: SessionStreamManager | undefined;
+
+  afterEach(() => {
+    manager?.shutdown();
+  });
+
+  it("should ignore the running turn when its message was queued mid-turn", async () => {
+    manager = new SessionStreamManager();
+    manager.getOrCreateStream("s1");
+    manager.sendMessage("s1", "first", "m1");
+    const send = (event: object) => manager!.safeSend("s1", JSON.stringify({ ...event, sessionId: "s1" }));
+
+    const turn = new RequestTurn("s1", id => manager!.getCurrentTurnId(id));
+    const { subscriber, events, outcome } = waitForTurn(turn, new AbortController().signal);
+    manager.subscribe("s1", subscriber);
+    turn.start("m2");
+    manager.sendMessage("s1", "second", "m2");
+
+    // The first turn finishes while the second one waits in the queue
+    send({ type: "assistant_message", content: "First reply" });
+    send({ type: "result", success: true });
+    manager.finishTurn("s1");
+
+    send({ type: "assistant_message", content: "Second reply" });
+    send({ type: "result", success: true });
+
+    expect((await outcome).status).toBe("finished");
+    expect(assembleAssistantMessage(events).text).toBe("Second reply");
+  });
+
+  it("should own every event before its message is saved, after the stream is gone, or once it failed", () => {
+    let current: string | null = "m1";
+    const turn = new RequestTurn("s1", () => current);
+    const result: ServerMessage = { type: "result", success: true, sessionId: "s1" };
+
+    expect(turn.isEnd(result)).toBe(true);
+    turn.start("m2");
+    expect(turn.isEnd(result)).toBe(false);
+    expect(turn.isEnd({ ...result, sessionId: "s2" })).toBe(false);
+    current = null;
+    expect(turn.isEnd(result)).toBe(true);
+
+    current = "m1";
+    turn.fail();
+    expect(turn.owns({ type: "error", message: "boom", sessionId: "s1" })).toBe(true);
+  });
+
+  it("should leave other turns' events out of an SSE stream", async () => {
+    let current: string | null = "m1";
+    const turn = new RequestTurn("s1", () => current);
+    turn.start("m2");
+    const subscriber = new SseSubscriber(undefined, undefined, message => turn.owns(message));
+
+    subscriber.send(JSON.stringify({ type: "assistant_message", content: "First reply", sessionId: "s1" }));
+    current = "m2";
+    subscriber.send(JSON.stringify({ type: "assistant_message", content: "Second reply", sessionId: "s1" }));
+    subscriber.close();
+
+    const body = await readAll(subscriber.stream);
+    expect(body).not.toContain("First reply");
+    expect(body).toContain("Second reply");
+  });
+});
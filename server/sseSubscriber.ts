@@ -0,0 +1,267 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * HTTP Event Subscribers
+ *
+ * Session stream subscribers that aren't WebSockets, used by the headless chat
+ * API: EventSubscriber hands each event to a callback, SseSubscriber also writes
+ * it to a Server-Sent Events stream.
+ */
+
+import type { StreamSubscriber } from './sessionStreamManager';
+import type { ServerMessage } from '../client/config/protocol';
+
+const OPEN = 1;
+const CLOSED = 3;
+const SSE_HEARTBEAT_MS = 30000; // Keeps idle observers under Bun's 255s idle timeout
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+};
+
+/**
+ * Format an event as an SSE frame; the seq (if any) becomes the event id so
+ * clients can resume with Last-Event-ID
+ */
+export function formatSseEvent(message: ServerMessage, data: string): string {
+  const id = message.seq !== undefined ? `id: ${message.seq}\n` : '';
+  return `${id}event: ${message.type}\ndata: ${data}\n\n`;
+}
+
+/**
+ * Whether an event ends the current turn of a session
+ */
+export function isTurnEnd(message: ServerMessage, sessionId: string): boolean {
+  if (message.sessionId !== undefined && message.sessionId !== sessionId) return false;
+  return message.type === 'result' ||
+    message.type === 'error' ||
+    message.type === 'generation_stopped' ||
+    message.type === 'budget_exceeded';
+}
+
+/**
+ * Whether an event blocks the current turn of a session until the user answers it
+ */
+export function isAwaitingUser(message: ServerMessage, sessionId: string): boolean {
+  if (message.sessionId !== undefined && message.sessionId !== sessionId) return false;
+  return message.type === 'tool_permission_request' || message.type === 'ask_user_question';
+}
+
+/**
+ * The turn a headless chat request started
+ * While another turn is running the request's message is only queued, so
+ * that turn's events (and its end) don't belong to the request
+ */
+export class RequestTurn {
+  private id: string | null = null; // The turn's user message, once saved
+  private failed = false;
+
+  constructor(
+    readonly sessionId: string,
+    private readonly getCurrentTurnId: (sessionId: string) => string | null
+  ) {}
+
+  /**
+   * Record the saved user message that identifies the turn
+   */
+  start(turnId: string): void {
+    this.id = turnId;
+  }
+
+  /**
+   * Mark the request as failed: its error ends it whatever turn is running
+   */
+  fail(): void {
+    this.failed = true;
+  }
+
+  /**
+   * Whether an event belongs to this turn
+   * Before the message is saved only the request itself gets events (e.g. an
+   * unknown model); once the stream is gone, so is every queued turn
+   */
+  owns(message: ServerMessage): boolean {
+    if (message.sessionId !== undefined && message.sessionId !== this.sessionId) return false;
+    if (this.failed || this.id === null) return true;
+
+    const current = this.getCurrentTurnId(this.sessionId);
+    return current === null || current === this.id;
+  }
+
+  /**
+   * Whether an event ends this turn
+   */
+  isEnd(message: ServerMessage): boolean {
+    return this.owns(message) && isTurnEnd(message, this.sessionId);
+  }
+}
+
+export type TurnOutcome =
+  | { status: 'finished'; last: ServerMessage }
+  | { status: 'pending'; request: ServerMessage }
+  | { status: 'aborted' };
+
+/**
+ * Collect a turn's events until it ends, stops on a question for the user,
+ * or the caller aborts; the turn itself keeps running in the last two cases
+ * A question from a turn ahead in the queue also blocks this one, so it counts
+ */
+export function waitForTurn(turn: RequestTurn, signal: AbortSignal): {
+  subscriber: EventSubscriber;
+  events: ServerMessage[];
+  outcome: Promise<TurnOutcome>;
+} {
+  const events: ServerMessage[] = [];
+  const outcome = Promise.withResolvers<TurnOutcome>();
+  const subscriber = new EventSubscriber((message) => {
+    if (isAwaitingUser(message, turn.sessionId)) {
+      if (turn.owns(message)) events.push(message);
+      outcome.resolve({ status: 'pending', request: message });
+    } else if (turn.owns(message)) {
+      events.push(message);
+      if (isTurnEnd(message, turn.sessionId)) outcome.resolve({ status: 'finished', last: message });
+    }
+  });
+
+  const abort = () => outcome.resolve({ status: 'aborted' });
+  if (signal.aborted) abort();
+  else signal.addEventListener('abort', abort, { once: true });
+
+  // Later events are not needed once the outcome is known
+  outcome.promise.then(() => {
+    signal.removeEventListener('abort', abort);
+    subscriber.close();
+  });
+
+  return { subscriber, events, outcome: outcome.promise };
+}
+
+export type AssembledBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> };
+
+/**
+ * Rebuild the assistant's reply from a turn's streamed events
+ * Text deltas are merged; thinking and progress events are dropped
+ */
+export function assembleAssistantMessage(events: ServerMessage[]): { content: AssembledBlock[]; text: string } {
+  const content: AssembledBlock[] = [];
+
+  for (const event of events) {
+    if (event.type === 'assistant_message') {
+      const last = content[content.length - 1];
+      if (last?.type === 'text') {
+        last.text += event.content;
+      } else {
+        content.push({ type: 'text', text: event.content });
+      }
+    } else if (event.type === 'tool_use') {
+      content.push({ type: 'tool_use', id: event.toolId, name: event.toolName, input: event.toolInput });
+    }
+  }
+
+  const text = content
+    .filter((block): block is Extract<AssembledBlock, { type: 'text' }> => block.type === 'text')
+    .map(block => block.text)
+    .join('\n\n');
+
+  return { content, text };
+}
+
+/**
+ * Subscriber that passes every event (or those accept lets through) to a callback
+ */
+export class EventSubscriber implements StreamSubscriber {
+  readyState = OPEN;
+
+  constructor(
+    private readonly onEvent?: (message: ServerMessage) => void,
+    private readonly accept?: (message: ServerMessage) => boolean
+  ) {}
+
+  send(data: string): void {
+    if (this.readyState !== OPEN) return;
+
+    const message = JSON.parse(data) as ServerMessage;
+    if (this.accept && !this.accept(message)) return;
+    this.deliver(message, data);
+    this.onEvent?.(message);
+  }
+
+  protected deliver(_message: ServerMessage, _data: string): void {}
+
+  close(): void {
+    this.readyState = CLOSED;
+  }
+}
+
+/**
+ * Subscriber that streams events to an HTTP response as Server-Sent Events
+ * onCancel runs when the client goes away before close()
+ */
+export class SseSubscriber extends EventSubscriber {
+  readonly stream: ReadableStream<Uint8Array>;
+  private controller!: ReadableStreamDefaultController<Uint8Array>;
+  private readonly encoder = new TextEncoder();
+  private readonly heartbeat: Timer;
+
+  constructor(
+    onEvent?: (message: ServerMessage) => void,
+    onCancel?: () => void,
+    accept?: (message: ServerMessage) => boolean
+  ) {
+    super(onEvent, accept);
+
+    this.stream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this.controller = controller;
+      },
+      cancel: () => {
+        this.close();
+        onCancel?.();
+      },
+    });
+
+    this.heartbeat = setInterval(() => this.write(': keepalive\n\n'), SSE_HEARTBEAT_MS);
+  }
+
+  protected deliver(message: ServerMessage, data: string): void {
+    this.write(formatSseEvent(message, data));
+  }
+
+  private write(frame: string): void {
+    if (this.readyState !== OPEN) return;
+    this.controller.enqueue(this.encoder.encode(frame));
+  }
+
+  close(): void {
+    if (this.readyState !== OPEN) return;
+    super.close();
+    clearInterval(this.heartbeat);
+    try {
+      this.controller.close();
+    } catch {
+      // Already closed by the client
+    }
+  }
+}
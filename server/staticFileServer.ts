@@ -4,6 +4,7 @@
  */
 
 import path from 'path';
+import { injectAccessToken } from './accessControl';
 
 interface StaticFileServerOptions {
   binaryDir: string;
@@ -14,6 +15,7 @@ interface StaticFileServerOptions {
   tailwindcss: any;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   autoprefixer: any;
+  accessToken: string; // Injected into index.html for API and WebSocket requests
 }
 
 /**
@@ -24,13 +26,13 @@ export async function handleStaticFile(
   req: Request,
   options: StaticFileServerOptions
 ): Promise<Response | undefined> {
-  const { binaryDir, isStandalone, postcss, tailwindcss, autoprefixer } = options;
+  const { binaryDir, isStandalone, postcss, tailwindcss, autoprefixer, accessToken } = options;
   const url = new URL(req.url);
 
   // Serve index.html
   if (url.pathname === '/') {
     const file = Bun.file(path.join(binaryDir, 'client/index.html'));
-    let html = await file.text();
+    let html = injectAccessToken(await file.text(), accessToken);
 
     // In standalone mode, replace raw tsx with pre-built bundle
     if (isStandalone) {
@@ -40,7 +42,7 @@ export async function handleStaticFile(
       const hotReloadScript = `
         <script>
           (function() {
-            const ws = new WebSocket('ws://localhost:3001/hot-reload');
+            const ws = new WebSocket('ws://' + window.location.host + '/hot-reload');
             ws.onmessage = (event) => {
               const data = JSON.parse(event.data);
               if (data.type === 'reload') {
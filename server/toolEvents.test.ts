@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { runMigrations } from "./migrations";
+import {
+  recordToolStart,
+  recordToolEnd,
+  setToolEventParent,
+  finishRunningToolEvents,
+  queryToolEvents,
+  getToolEventCounts,
+  formatToolResult,
+  TOOL_INPUT_MAX_CHARS,
+  TOOL_RESULT_MAX_CHARS,
+} from "./toolEvents";
+
+describe("tool event log", () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+    db.run("INSERT INTO sessions (id, title, created_at, updated_at) VALUES ('s1', 'First chat', '2025-01-01', '2025-01-01')");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  const start = (toolUseId: string, toolName: string, input: unknown, startedAt: string, sessionId = "s1") =>
+    recordToolStart(db, { sessionId, toolUseId, toolName, input, workingDirectory: "/work", startedAt });
+
+  it("should record a call's result, status and duration", () => {
+    start("t1", "Bash", { command: "ls" }, "2025-03-01T10:00:00.000Z");
+    recordToolEnd(db, "t1", { status: "success", result: { stdout: "a\nb", stderr: "" }, endedAt: "2025-03-01T10:00:01.500Z" });
+
+    const [event] = queryToolEvents(db, { sessionId: "s1" });
+    expect(event).toMatchObject({
+      sessionTitle: "First chat",
+      toolName: "Bash",
+      input: { command: "ls" },
+      result: "a\nb",
+      resultSize: 3,
+      status: "success",
+      durationMs: 1500,
+      agentType: null,
+    });
+  });
+
+  it("should keep the first outcome and close out calls that never finished", () => {
+    start("t1", "Bash", { command: "rm -rf /" }, "2025-03-01T10:00:00.000Z");
+    start("t2", "Read", { file_path: "/work/a.ts" }, "2025-03-01T10:00:01.000Z");
+    recordToolEnd(db, "t1", { status: "denied", result: "Blocked by rule" });
+    recordToolEnd(db, "t1", { status: "success", result: "ran anyway" });
+    finishRunningToolEvents(db, "s1");
+
+    const events = queryToolEvents(db, { sessionId: "s1" });
+    expect(events.map(e => [e.toolUseId, e.status, e.result])).toEqual([
+      ["t2", "interrupted", null],
+      ["t1", "denied", "Blocked by rule"],
+    ]);
+  });
+
+  it("should truncate large inputs and results", () => {
+    start("t1", "Write", { file_path: "/work/big.txt", content: "x".repeat(TOOL_INPUT_MAX_CHARS + 10) }, "2025-03-01T10:00:00.000Z");
+    recordToolEnd(db, "t1", { status: "success", result: "y".repeat(TOOL_RESULT_MAX_CHARS + 5) });
+
+    const [event] = queryToolEvents(db, {});
+    expect(event.input.content).toEndWith("… [10 more characters]");
+    expect(event.result).toEndWith("… [5 more characters]");
+    expect(event.resultSize).toBe(TOOL_RESULT_MAX_CHARS + 5);
+  });
+
+  it("should attribute sub-agent calls to the agent type of their Task", () => {
+    start("task1", "Task", { subagent_type: "code-reviewer", prompt: "review" }, "2025-03-01T10:00:00.000Z");
+    start("t1", "Grep", { pattern: "TODO" }, "2025-03-01T10:00:01.000Z");
+    setToolEventParent(db, "t1", "task1");
+
+    const grep = queryToolEvents(db, { toolName: "Grep" })[0];
+    expect(grep.parentToolUseId).toBe("task1");
+    expect(grep.agentType).toBe("code-reviewer");
+  });
+
+  it("should filter by tool, time and session, page by ID and count per tool", () => {
+    start("t1", "Bash", { command: "ls" }, "2025-03-01T10:00:00.000Z");
+    start("t2", "Bash", { command: "pwd" }, "2025-03-02T10:00:00.000Z");
+    start("t3", "Read", { file_path: "/work/a.ts" }, "2025-03-02T11:00:00.000Z");
+    start("t4", "Bash", { command: "ls" }, "2025-03-02T12:00:00.000Z", "other");
+
+    expect(queryToolEvents(db, { sessionId: "s1", toolName: "Bash" }).map(e => e.toolUseId)).toEqual(["t2", "t1"]);
+    expect(queryToolEvents(db, { since: "2025-03-02T00:00:00.000Z", until: "2025-03-02T11:30:00.000Z" }).map(e => e.toolUseId)).toEqual(["t3", "t2"]);
+
+    const [newest] = queryToolEvents(db, { sessionId: "s1", limit: 1 });
+    expect(queryToolEvents(db, { sessionId: "s1", before: newest.id }).map(e => e.toolUseId)).toEqual(["t2", "t1"]);
+
+    expect(getToolEventCounts(db, { sessionId: "s1" })).toEqual([{ toolName: "Bash", count: 2 }, { toolName: "Read", count: 1 }]);
+  });
+});
+
+describe("formatToolResult", () => {
+  it("should show Bash output as text and other results as JSON", () => {
+    expect(formatToolResult({ stdout: "out", stderr: "err", interrupted: false })).toBe("out\nerr");
+    expect(formatToolResult("plain")).toBe("plain");
+    expect(formatToolResult({ filePath: "/a" })).toBe('{"filePath":"/a"}');
+  });
+});
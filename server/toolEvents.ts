@@ -0,0 +1,242 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tool Event Audit Log
+ *
+ * Records every tool call (including those made by sub-agents) in the
+ * tool_events table from the PreToolUse/PostToolUse hooks, so what the agent
+ * ran can be looked up later (GET /api/tool-events) and shown as a per-session
+ * timeline. Large inputs and results are truncated before they are stored.
+ */
+
+import type { Database } from "bun:sqlite";
+
+export const TOOL_EVENT_STATUSES = ['running', 'success', 'error', 'denied', 'interrupted'] as const;
+export type ToolEventStatus = typeof TOOL_EVENT_STATUSES[number];
+
+// Longest result kept per call, and longest string kept per input field (e.g. Write content)
+export const TOOL_RESULT_MAX_CHARS = 4000;
+export const TOOL_INPUT_MAX_CHARS = 2000;
+
+export interface ToolEventStart {
+  sessionId: string;
+  toolUseId: string;
+  toolName: string;
+  input: unknown;
+  workingDirectory: string;
+  parentToolUseId?: string | null;
+  startedAt?: string;
+}
+
+export interface ToolEventEnd {
+  status: Exclude<ToolEventStatus, 'running'>;
+  result?: unknown;
+  endedAt?: string;
+}
+
+export interface ToolEvent {
+  id: number;
+  sessionId: string;
+  sessionTitle: string | null;
+  toolUseId: string;
+  parentToolUseId: string | null;
+  agentType: string | null; // Sub-agent that made the call (from the parent Task's input)
+  toolName: string;
+  input: Record<string, unknown>;
+  result: string | null;
+  resultSize: number | null; // Length before truncation
+  status: ToolEventStatus;
+  workingDirectory: string;
+  startedAt: string;
+  durationMs: number | null;
+}
+
+export interface ToolEventFilter {
+  sessionId?: string;
+  toolName?: string;
+  status?: ToolEventStatus;
+  workingDirectory?: string;
+  since?: string; // ISO timestamp
+  until?: string; // ISO timestamp
+  before?: number; // Event ID cursor for paging
+  limit?: number;
+}
+
+type ToolEventRow = Omit<ToolEvent, 'input'> & { input: string };
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}… [${text.length - maxChars} more characters]` : text;
+}
+
+/**
+ * Shorten long string fields so one big Write doesn't bloat the log
+ */
+function truncateInput(input: unknown): string {
+  if (!input || typeof input !== 'object') return JSON.stringify(input ?? {});
+  return JSON.stringify(input, (_key, value: unknown) =>
+    typeof value === 'string' ? truncate(value, TOOL_INPUT_MAX_CHARS) : value
+  );
+}
+
+/**
+ * Readable text for a tool response (Bash responses are { stdout, stderr, ... })
+ */
+export function formatToolResult(result: unknown): string {
+  if (typeof result === 'string') return result;
+  if (result && typeof result === 'object') {
+    const { stdout, stderr } = result as { stdout?: unknown; stderr?: unknown };
+    if (typeof stdout === 'string' || typeof stderr === 'string') {
+      return [stdout, stderr].filter(part => typeof part === 'string' && part !== '').join('\n');
+    }
+  }
+  return JSON.stringify(result ?? null);
+}
+
+/**
+ * Record a tool call as it starts
+ */
+export function recordToolStart(db: Database, event: ToolEventStart): void {
+  db.run(
+    `INSERT INTO tool_events (
+      session_id, tool_use_id, parent_tool_use_id, tool_name, input, status, working_directory, started_at
+    ) VALUES (?, ?, ?, ?, ?, 'running', ?, ?)`,
+    [
+      event.sessionId,
+      event.toolUseId,
+      event.parentToolUseId ?? null,
+      event.toolName,
+      truncateInput(event.input),
+      event.workingDirectory,
+      event.startedAt ?? new Date().toISOString(),
+    ]
+  );
+}
+
+/**
+ * Record how a running tool call ended (later reports for the same call are ignored)
+ */
+export function recordToolEnd(db: Database, toolUseId: string, end: ToolEventEnd): void {
+  const endedAt = end.endedAt ?? new Date().toISOString();
+  const result = end.result === undefined ? null : formatToolResult(end.result);
+
+  db.run(
+    `UPDATE tool_events
+    SET status = ?, result = ?, result_size = ?,
+      duration_ms = MAX(0, CAST(ROUND((julianday(?) - julianday(started_at)) * 86400000) AS INTEGER))
+    WHERE tool_use_id = ? AND status = 'running'`,
+    [end.status, result === null ? null : truncate(result, TOOL_RESULT_MAX_CHARS), result?.length ?? null, endedAt, toolUseId]
+  );
+}
+
+/**
+ * Attribute a call to the sub-agent (Task tool call) that made it
+ */
+export function setToolEventParent(db: Database, toolUseId: string, parentToolUseId: string): void {
+  db.run("UPDATE tool_events SET parent_tool_use_id = ? WHERE tool_use_id = ?", [parentToolUseId, toolUseId]);
+}
+
+/**
+ * Close out calls that never reported back (turn stopped, or the call was
+ * refused before it ran)
+ */
+export function finishRunningToolEvents(db: Database, sessionId: string, status: ToolEventEnd['status'] = 'interrupted'): void {
+  const endedAt = new Date().toISOString();
+  db.run(
+    `UPDATE tool_events
+    SET status = ?, duration_ms = MAX(0, CAST(ROUND((julianday(?) - julianday(started_at)) * 86400000) AS INTEGER))
+    WHERE session_id = ? AND status = 'running'`,
+    [status, endedAt, sessionId]
+  );
+}
+
+function buildWhere(filter: ToolEventFilter): { where: string; params: (string | number)[] } {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (filter.sessionId) {
+    conditions.push('e.session_id = ?');
+    params.push(filter.sessionId);
+  }
+  if (filter.toolName) {
+    conditions.push('e.tool_name = ?');
+    params.push(filter.toolName);
+  }
+  if (filter.status) {
+    conditions.push('e.status = ?');
+    params.push(filter.status);
+  }
+  if (filter.workingDirectory) {
+    conditions.push('e.working_directory = ?');
+    params.push(filter.workingDirectory);
+  }
+  if (filter.since) {
+    conditions.push('e.started_at >= ?');
+    params.push(filter.since);
+  }
+  if (filter.until) {
+    conditions.push('e.started_at < ?');
+    params.push(filter.until);
+  }
+  if (filter.before) {
+    conditions.push('e.id < ?');
+    params.push(filter.before);
+  }
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+/**
+ * Tool calls matching a filter, newest first
+ */
+export function queryToolEvents(db: Database, filter: ToolEventFilter = {}): ToolEvent[] {
+  const { where, params } = buildWhere(filter);
+  const limit = Math.min(Math.max(Math.trunc(filter.limit ?? 100), 1), 500);
+
+  return db
+    .query<ToolEventRow, (string | number)[]>(
+      `SELECT
+        e.id, e.session_id as sessionId, s.title as sessionTitle,
+        e.tool_use_id as toolUseId, e.parent_tool_use_id as parentToolUseId,
+        json_extract(p.input, '$.subagent_type') as agentType,
+        e.tool_name as toolName, e.input, e.result, e.result_size as resultSize, e.status,
+        e.working_directory as workingDirectory, e.started_at as startedAt, e.duration_ms as durationMs
+      FROM tool_events e
+      LEFT JOIN sessions s ON s.id = e.session_id
+      LEFT JOIN tool_events p ON p.tool_use_id = e.parent_tool_use_id AND p.session_id = e.session_id
+      ${where}
+      ORDER BY e.id DESC
+      LIMIT ${limit}`
+    )
+    .all(...params)
+    .map(row => ({ ...row, input: JSON.parse(row.input) as Record<string, unknown> }));
+}
+
+/**
+ * Number of calls per tool (for the timeline's tool filter)
+ */
+export function getToolEventCounts(db: Database, filter: Omit<ToolEventFilter, 'toolName' | 'before' | 'limit'> = {}): { toolName: string; count: number }[] {
+  const { where, params } = buildWhere(filter);
+  return db
+    .query<{ toolName: string; count: number }, (string | number)[]>(
+      `SELECT e.tool_name as toolName, COUNT(*) as count FROM tool_events e ${where}
+      GROUP BY e.tool_name
+      ORDER BY count DESC, e.tool_name ASC`
+    )
+    .all(...params);
+}
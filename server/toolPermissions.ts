@@ -0,0 +1,194 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tool Permissions
+ *
+ * Interactive approval for sessions that aren't in bypassPermissions mode.
+ * The SDK calls canUseTool before running a tool its permission mode doesn't
+ * auto-approve; the request goes to every client watching the session and the
+ * tool waits until one of them answers allow once, always allow, or deny.
+ *
+ * "Always allow" rules use the SDK's permission rule syntax (Edit,
+ * Bash(npm test:*)) and are saved in the session's tool policy along with any
+ * directories outside the working directory the call needed, so they are
+ * passed back as allowedTools/additionalDirectories when the subprocess is
+ * respawned.
+ */
+
+import type { CanUseTool, PermissionResult, PermissionRuleValue, PermissionUpdate } from '@anthropic-ai/claude-agent-sdk';
+import type { ServerMessageOf, ToolPermissionDecision } from '../client/config/protocol';
+import { splitShellCommand } from './toolRules';
+
+// Provides its own question UI, so asking for permission first would prompt twice
+const ASK_USER_QUESTION_TOOL = 'mcp__ask-user-question__AskUserQuestion';
+
+export type ToolPermissionEvent =
+  | Omit<ServerMessageOf<'tool_permission_request'>, 'sessionId' | 'seq'>
+  | Omit<ServerMessageOf<'tool_permission_resolved'>, 'sessionId' | 'seq'>;
+
+export interface ToolPermissionHandlers {
+  /** Send a request or its outcome to the session's clients */
+  notify: (event: ToolPermissionEvent) => void;
+  /** Persist always-allow rules and directories; returns the session's full lists */
+  saveAlwaysAllowed: (rules: string[], directories: string[]) => { allowedTools: string[]; allowedDirectories: string[] };
+}
+
+// Requests waiting for a decision (keyed by requestId)
+const pendingPermissions = new Map<string, {
+  sessionId: string;
+  resolve: (decision: ToolPermissionDecision) => void;
+}>();
+
+/**
+ * Format a rule the way the SDK and settings files write it: Tool or Tool(content)
+ */
+export function formatPermissionRule(rule: PermissionRuleValue): string {
+  return rule.ruleContent ? `${rule.toolName}(${rule.ruleContent})` : rule.toolName;
+}
+
+/**
+ * Parse a Tool or Tool(content) rule string
+ */
+export function parsePermissionRule(rule: string): PermissionRuleValue {
+  const match = rule.match(/^([^(]+)\((.*)\)$/s);
+  return match ? { toolName: match[1], ruleContent: match[2] } : { toolName: rule };
+}
+
+/**
+ * Rules "always allow" would add for a tool call
+ * Prefers the SDK's own allow suggestions (which know how to generalize Bash
+ * commands); otherwise the exact Bash command, or the whole tool.
+ */
+export function describeAlwaysAllowRules(
+  toolName: string,
+  input: Record<string, unknown>,
+  suggestions: PermissionUpdate[] = []
+): string[] {
+  const suggested = suggestions.flatMap(update =>
+    update.type === 'addRules' && update.behavior === 'allow' ? update.rules.map(formatPermissionRule) : []
+  );
+  if (suggested.length > 0) return [...new Set(suggested)];
+
+  if (toolName === 'Bash' && typeof input.command === 'string') {
+    return [formatPermissionRule({ toolName, ruleContent: input.command })];
+  }
+  return [toolName];
+}
+
+/**
+ * Directories outside the working directory the SDK suggests granting along with the rules
+ */
+export function describeAlwaysAllowDirectories(suggestions: PermissionUpdate[] = []): string[] {
+  return [...new Set(suggestions.flatMap(update => update.type === 'addDirectories' ? update.directories : []))];
+}
+
+/**
+ * Whether a Bash command is covered by the session's always-allow rules
+ * Bash allows everything, Bash(prefix:*) matches by prefix, Bash(command) exactly.
+ * Chained commands (&&, ||, ;, |, newlines) need every part covered, and
+ * command substitution is never covered by a prefix or exact rule.
+ */
+export function isBashCommandAllowed(command: string, rules: string[]): boolean {
+  const bashRules = rules.map(parsePermissionRule).filter(rule => rule.toolName === 'Bash');
+  if (bashRules.some(rule => rule.ruleContent === undefined)) return true;
+  if (/\$\(|`/.test(command)) return false;
+
+  const segments = splitShellCommand(command);
+  return segments.length > 0 && segments.every(segment => bashRules.some(rule => {
+    if (rule.ruleContent!.endsWith(':*')) return segment.startsWith(rule.ruleContent!.slice(0, -2));
+    return segment === rule.ruleContent;
+  }));
+}
+
+/**
+ * Record a client's decision for a pending request
+ * Returns false if the request is unknown, already decided, or belongs to another session.
+ */
+export function resolveToolPermission(sessionId: string, requestId: string, decision: ToolPermissionDecision): boolean {
+  const pending = pendingPermissions.get(requestId);
+  if (!pending || pending.sessionId !== sessionId) return false;
+
+  pendingPermissions.delete(requestId);
+  pending.resolve(decision);
+  return true;
+}
+
+/**
+ * Create the canUseTool callback for a session's SDK subprocess
+ */
+export function createCanUseTool(sessionId: string, handlers: ToolPermissionHandlers): CanUseTool {
+  return async (toolName, input, { signal, suggestions, blockedPath, decisionReason, toolUseID }): Promise<PermissionResult> => {
+    if (toolName === ASK_USER_QUESTION_TOOL) {
+      return { behavior: 'allow', updatedInput: input };
+    }
+
+    // The plan itself is shown for approval from the stream; approving it switches modes
+    if (toolName === 'ExitPlanMode') {
+      return {
+        behavior: 'deny',
+        message: 'The plan was sent to the user for review. Stop here and wait for them to approve it.',
+      };
+    }
+
+    const requestId = toolUseID || `perm_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+    const rules = describeAlwaysAllowRules(toolName, input, suggestions);
+    const directories = describeAlwaysAllowDirectories(suggestions);
+    const reason = decisionReason || (blockedPath ? `Accesses ${blockedPath}` : undefined);
+
+    console.log(`🔐 Permission requested for ${toolName} in session ${sessionId.substring(0, 8)}`);
+
+    const decision = await new Promise<ToolPermissionDecision>((resolve) => {
+      if (signal.aborted) {
+        resolve('deny');
+        return;
+      }
+
+      pendingPermissions.set(requestId, { sessionId, resolve });
+      signal.addEventListener('abort', () => {
+        if (pendingPermissions.delete(requestId)) resolve('deny');
+      }, { once: true });
+
+      handlers.notify({ type: 'tool_permission_request', requestId, toolName, toolInput: input, rules, directories, reason });
+    });
+
+    const saved = decision === 'allow_always' ? handlers.saveAlwaysAllowed(rules, directories) : undefined;
+    handlers.notify({ type: 'tool_permission_resolved', requestId, decision, ...saved });
+    console.log(`🔐 ${toolName}: ${decision}`);
+
+    if (decision === 'deny') {
+      // Not interrupting lets the turn end normally with the model acknowledging the denial
+      return { behavior: 'deny', message: 'The user denied this tool call. Do not retry it; ask the user how they would like to proceed.' };
+    }
+
+    if (decision === 'allow_once') {
+      return { behavior: 'allow', updatedInput: input };
+    }
+
+    // Persisted by us, so only applied to the running subprocess (not the project's .claude settings)
+    const updatedPermissions: PermissionUpdate[] = [
+      { type: 'addRules', rules: rules.map(parsePermissionRule), behavior: 'allow', destination: 'session' },
+    ];
+    if (directories.length > 0) {
+      updatedPermissions.push({ type: 'addDirectories', directories, destination: 'session' });
+    }
+    return { behavior: 'allow', updatedInput: input, updatedPermissions };
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { runMigrations } from "./migrations";
+import {
+  getToolResultText,
+  toToolResultPreview,
+  saveToolResult,
+  getToolResult,
+  TOOL_RESULT_PREVIEW_CHARS,
+  TOOL_RESULT_MAX_CHARS,
+} from "./toolResults";
+
+describe("getToolResultText", () => {
+  it("should return string content as-is", () => {
+    expect(getToolResultText({ type: 'tool_result', tool_use_id: 't1', content: 'hello' })).toBe('hello');
+  });
+
+  it("should join text parts and note other parts", () => {
+    const text = getToolResultText({
+      type: 'tool_result',
+      tool_use_id: 't1',
+      content: [{ type: 'text', text: 'line one' }, { type: 'image' }, { type: 'text', text: 'line two' }],
+    });
+    expect(text).toBe('line one\n[image]\nline two');
+  });
+
+  it("should treat missing content as empty output", () => {
+    expect(getToolResultText({ type: 'tool_result', tool_use_id: 't1' })).toBe('');
+  });
+});
+
+describe("toToolResultPreview", () => {
+  it("should keep short output whole", () => {
+    expect(toToolResultPreview('ok', false)).toEqual({ content: 'ok', isError: false, size: 2, truncated: false });
+  });
+
+  it("should cut long output at the preview length", () => {
+    const preview = toToolResultPreview('x'.repeat(TOOL_RESULT_PREVIEW_CHARS + 5), true);
+    expect(preview.content).toHaveLength(TOOL_RESULT_PREVIEW_CHARS);
+    expect(preview.size).toBe(TOOL_RESULT_PREVIEW_CHARS + 5);
+    expect(preview.truncated).toBe(true);
+    expect(preview.isError).toBe(true);
+  });
+});
+
+describe("stored tool results", () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("should round-trip the full output", () => {
+    saveToolResult(db, 's1', 'tool-1', 'full output', true);
+    expect(getToolResult(db, 'tool-1')).toEqual({ toolUseId: 'tool-1', content: 'full output', size: 11, isError: true });
+  });
+
+  it("should cap stored output but remember its real size", () => {
+    saveToolResult(db, 's1', 'tool-1', 'y'.repeat(TOOL_RESULT_MAX_CHARS + 10), false);
+    const stored = getToolResult(db, 'tool-1');
+    expect(stored?.content).toHaveLength(TOOL_RESULT_MAX_CHARS);
+    expect(stored?.size).toBe(TOOL_RESULT_MAX_CHARS + 10);
+  });
+
+  it("should return null for unknown tool calls", () => {
+    expect(getToolResult(db, 'missing')).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tool Results
+ *
+ * The SDK reports each tool's output as a tool_result block in a user
+ * message. A preview is attached to the matching tool_use block in the
+ * assistant message (so it is saved and rendered with the call), and the
+ * full output, up to a cap, goes in the tool_results table for
+ * GET /api/tool-results/:toolUseId.
+ */
+
+import type { Database } from "bun:sqlite";
+import type { ToolResultPreview } from "../client/config/protocol";
+
+// Characters of output kept with the tool call, and the most kept at all
+export const TOOL_RESULT_PREVIEW_CHARS = 10_000;
+export const TOOL_RESULT_MAX_CHARS = 1_000_000;
+
+export interface ToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content?: string | { type: string; text?: string }[];
+  is_error?: boolean;
+}
+
+export interface StoredToolResult {
+  toolUseId: string;
+  content: string;
+  size: number; // Length before the storage cap
+  isError: boolean;
+}
+
+/**
+ * Output text of a tool_result block (text parts joined; images noted)
+ */
+export function getToolResultText(block: ToolResultBlock): string {
+  if (typeof block.content === 'string') return block.content;
+  if (!Array.isArray(block.content)) return '';
+  return block.content
+    .map(part => (part.type === 'text' ? part.text ?? '' : `[${part.type}]`))
+    .join('\n');
+}
+
+/**
+ * The preview attached to the tool call
+ */
+export function toToolResultPreview(text: string, isError: boolean): ToolResultPreview {
+  return {
+    content: text.slice(0, TOOL_RESULT_PREVIEW_CHARS),
+    isError,
+    size: text.length,
+    truncated: text.length > TOOL_RESULT_PREVIEW_CHARS,
+  };
+}
+
+/**
+ * Keep the full output (only needed when the preview is truncated)
+ */
+export function saveToolResult(db: Database, sessionId: string, toolUseId: string, text: string, isError: boolean): void {
+  db.run(
+    `INSERT OR REPLACE INTO tool_results (tool_use_id, session_id, content, size, is_error, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)`,
+    [toolUseId, sessionId, text.slice(0, TOOL_RESULT_MAX_CHARS), text.length, isError ? 1 : 0, new Date().toISOString()]
+  );
+}
+
+export function getToolResult(db: Database, toolUseId: string): StoredToolResult | null {
+  const row = db
+    .query<{ toolUseId: string; content: string; size: number; isError: number }, [string]>(
+      "SELECT tool_use_id as toolUseId, content, size, is_error as isError FROM tool_results WHERE tool_use_id = ?"
+    )
+    .get(toolUseId);
+  return row ? { ...row, isError: row.isError === 1 } : null;
+}
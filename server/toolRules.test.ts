@@ -0,0 +1,86 @@
+import { describe, it, expect } from "bun:test";
+import { evaluateToolRules, formatDenialReason, parseToolRules, rulesToEnforce, splitShellCommand, type ToolRule } from "./toolRules";
+
+function rules(...list: unknown[]): ToolRule[] {
+  const { rules, error } = parseToolRules(list);
+  if (!rules) throw new Error(error);
+  return rules;
+}
+
+describe("parseToolRules", () => {
+  it("should default the tool and input matchers", () => {
+    expect(rules({ id: "all", action: "deny" })).toEqual([{ id: "all", action: "deny", tool: "*", input: {} }]);
+  });
+
+  it("should reject bad IDs, duplicates and invalid regexes", () => {
+    expect(parseToolRules([{ id: "bad id", action: "deny" }]).error).toContain("Rule ID");
+    expect(parseToolRules([{ id: "a", action: "deny" }, { id: "a", action: "allow" }]).error).toContain('Duplicate rule ID "a"');
+    expect(parseToolRules([{ id: "a", action: "deny", input: { command: "/(unclosed/" } }]).error).toContain("Invalid regular expression");
+  });
+});
+
+describe("splitShellCommand", () => {
+  it("should split chained and piped commands", () => {
+    expect(splitShellCommand("git add . && git commit -m x; ls | wc -l")).toEqual(["git add .", "git commit -m x", "ls", "wc -l"]);
+  });
+});
+
+describe("evaluateToolRules", () => {
+  const global = rules(
+    { id: "no-rm-rf", action: "deny", tool: "Bash", input: { command: "/\\brm\\s+-(rf|fr)\\b/" }, reason: "No recursive deletes" },
+    { id: "git", action: "allow", tool: "Bash", input: { command: "git *" } },
+    { id: "stay-in-project", action: "deny", tool: "{Write,Edit,MultiEdit}", input: { file_path: "!${workingDirectory}/*" } },
+    { id: "mcp", action: "allow", tool: "mcp__*" },
+  );
+  const context = { workingDirectory: "/work/project" };
+
+  it("should match tool names and input fields with globs and regexes", () => {
+    expect(evaluateToolRules({ global, session: [] }, "Bash", { command: "rm -rf build" })?.rule.id).toBe("no-rm-rf");
+    expect(evaluateToolRules({ global, session: [] }, "Bash", { command: "git status" })?.rule.id).toBe("git");
+    expect(evaluateToolRules({ global, session: [] }, "mcp__grep__search", {})?.rule.id).toBe("mcp");
+    expect(evaluateToolRules({ global, session: [] }, "Bash", { command: "ls" })).toBeUndefined();
+  });
+
+  it("should deny if any chained command matches but allow only if all do", () => {
+    expect(evaluateToolRules({ global, session: [] }, "Bash", { command: "git pull && rm -rf /" })?.rule.id).toBe("no-rm-rf");
+    expect(evaluateToolRules({ global, session: [] }, "Bash", { command: "git add . && git commit -m wip" })?.rule.id).toBe("git");
+    expect(evaluateToolRules({ global, session: [] }, "Bash", { command: "git status; curl example.com" })).toBeUndefined();
+    expect(evaluateToolRules({ global, session: [] }, "Bash", { command: "git log $(cat x)" })).toBeUndefined();
+  });
+
+  it("should resolve paths against the working directory", () => {
+    const write = (file_path: string) => evaluateToolRules({ global, session: [] }, "Write", { file_path }, context)?.rule.id;
+    expect(write("/work/project/src/index.ts")).toBeUndefined();
+    expect(write("src/index.ts")).toBeUndefined();
+    expect(write("../other/index.ts")).toBe("stay-in-project");
+    expect(write("/etc/hosts")).toBe("stay-in-project");
+    expect(evaluateToolRules({ global, session: [] }, "Read", { file_path: "/etc/hosts" }, context)).toBeUndefined();
+  });
+
+  it("should let deny rules win and check session rules first", () => {
+    const session = rules(
+      { id: "no-push", action: "deny", tool: "Bash", input: { command: "git push*" }, reason: "Ask before pushing" },
+      { id: "rm-build", action: "allow", tool: "Bash", input: { command: "rm -rf build" } },
+    );
+    const match = evaluateToolRules({ global, session }, "Bash", { command: "git push origin main" });
+    expect(match).toEqual({ rule: session[0], scope: "session" });
+    expect(formatDenialReason(match!)).toBe('Blocked by session tool rule "no-push": Ask before pushing. Do not retry it.');
+    expect(evaluateToolRules({ global, session }, "Bash", { command: "rm -rf build" })?.rule.id).toBe("no-rm-rf");
+  });
+});
+
+describe("rulesToEnforce", () => {
+  it("should enforce a valid file's rules as they are", () => {
+    const list = rules({ id: "git", action: "allow", tool: "Bash", input: { command: "git *" } });
+    expect(rulesToEnforce({ rules: list })).toBe(list);
+  });
+
+  it("should deny every tool call when the file failed to load", () => {
+    const error = "Failed to read tool rules: JSON Parse error: Expected '}'";
+    const global = rulesToEnforce({ rules: [], error });
+    const match = evaluateToolRules({ global, session: [] }, "Bash", { command: "git status" });
+    expect(match?.rule.action).toBe("deny");
+    expect(evaluateToolRules({ global, session: [] }, "Read", { file_path: "/etc/hosts" })?.rule.action).toBe("deny");
+    expect(formatDenialReason(match!)).toContain(error);
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tool Rules
+ *
+ * Declarative allow/deny rules checked in the PreToolUse hook before every
+ * tool call, whatever the session's permission mode. Rules live in
+ * tool-rules.json (global) and tool-rules/<sessionId>.json (one session):
+ *
+ *   { "rules": [
+ *     { "id": "no-rm-rf", "action": "deny", "tool": "Bash",
+ *       "input": { "command": "/\\brm\\s+-(rf|fr)\\b/" },
+ *       "reason": "Recursive force deletes are not allowed" },
+ *     { "id": "git", "action": "allow", "tool": "Bash", "input": { "command": "git *" } },
+ *     { "id": "stay-in-project", "action": "deny", "tool": "{Write,Edit,MultiEdit}",
+ *       "input": { "file_path": "!${workingDirectory}/*" } }
+ *   ] }
+ *
+ * - tool matches the tool name; input maps input fields to patterns and every
+ *   listed field must match
+ * - Patterns are globs (* any run of characters, ? one character, {a,b}
+ *   alternatives) or /regex/flags; a leading ! negates. ${workingDirectory}
+ *   is replaced with the session's working directory, and path fields are
+ *   resolved against it before matching
+ * - Deny rules win over allow rules, session rules over global ones
+ * - Bash commands are also matched per chained command (&&, ||, ;, |): a deny
+ *   rule matches if any of them does, an allow rule only if all of them do
+ */
+
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { z } from 'zod';
+import { getAppDataDirectory } from './directoryUtils';
+
+export type ToolRuleScope = 'global' | 'session';
+
+const RULE_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+// Input fields holding a file or directory path
+const PATH_FIELDS = ['file_path', 'notebook_path', 'path'];
+
+const patternSchema = z.string().min(1, 'Pattern is required').refine(pattern => {
+  try {
+    compilePattern(pattern, {});
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid regular expression');
+
+export const toolRuleSchema = z.object({
+  id: z.string().regex(RULE_ID_PATTERN, 'Rule ID may only contain letters, numbers, hyphens and underscores'),
+  action: z.enum(['allow', 'deny']),
+  tool: patternSchema.default('*'),
+  input: z.record(z.string(), patternSchema).default({}),
+  reason: z.string().optional(),
+});
+
+export type ToolRule = z.infer<typeof toolRuleSchema>;
+
+const toolRulesFileSchema = z.object({
+  rules: z.array(toolRuleSchema),
+}).superRefine(({ rules }, ctx) => {
+  const seen = new Set<string>();
+  rules.forEach((rule, index) => {
+    if (seen.has(rule.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rules', index, 'id'], message: `Duplicate rule ID "${rule.id}"` });
+    }
+    seen.add(rule.id);
+  });
+});
+
+export interface ToolRuleMatch {
+  rule: ToolRule;
+  scope: ToolRuleScope;
+}
+
+interface PatternContext {
+  workingDirectory?: string;
+}
+
+/**
+ * Compile a glob, /regex/flags or !negated pattern into a predicate
+ */
+function compilePattern(pattern: string, context: PatternContext): (value: string) => boolean {
+  if (pattern.startsWith('!')) {
+    const matches = compilePattern(pattern.slice(1), context);
+    return value => !matches(value);
+  }
+
+  // ${workingDirectory} is inserted literally, whatever characters the path contains
+  const workingDirectory = escapeRegex((context.workingDirectory ?? '').replace(/\/+$/, ''));
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/s);
+  const source = regexMatch
+    ? regexMatch[1].split('${workingDirectory}').join(workingDirectory)
+    : `^${pattern.split('${workingDirectory}').map(globToRegexSource).join(workingDirectory)}$`;
+  const regex = new RegExp(source, regexMatch ? regexMatch[2] : 's');
+  return value => regex.test(value);
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+function globToRegexSource(glob: string): string {
+  let source = '';
+  let braceDepth = 0;
+  for (const char of glob) {
+    if (char === '*') source += '.*';
+    else if (char === '?') source += '.';
+    else if (char === '{') { source += '(?:'; braceDepth++; }
+    else if (char === '}' && braceDepth > 0) { source += ')'; braceDepth--; }
+    else if (char === ',' && braceDepth > 0) source += '|';
+    else source += escapeRegex(char);
+  }
+  return source + ')'.repeat(braceDepth);
+}
+
+/**
+ * Split a shell command on &&, ||, ; and | (quoting is not understood, which
+ * only ever makes allow rules stricter and deny rules broader)
+ */
+export function splitShellCommand(command: string): string[] {
+  return command.split(/&&|\|\||[;|\n]/).map(part => part.trim()).filter(Boolean);
+}
+
+function inputValue(toolInput: Record<string, unknown>, field: string, context: PatternContext): string | undefined {
+  const value = toolInput[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') return JSON.stringify(value);
+  if (PATH_FIELDS.includes(field) && context.workingDirectory) {
+    return resolve(context.workingDirectory, value);
+  }
+  return value;
+}
+
+function ruleMatches(rule: ToolRule, toolName: string, toolInput: Record<string, unknown>, context: PatternContext): boolean {
+  if (!compilePattern(rule.tool, context)(toolName)) return false;
+
+  return Object.entries(rule.input).every(([field, pattern]) => {
+    const value = inputValue(toolInput, field, context);
+    if (value === undefined) return false;
+
+    const matches = compilePattern(pattern, context);
+    if (toolName !== 'Bash' || field !== 'command') return matches(value);
+
+    // Command substitution can hide anything, so never auto-allow it
+    const segments = splitShellCommand(value);
+    if (rule.action === 'allow') {
+      return !/\$\(|`/.test(value) && segments.length > 0 && segments.every(matches);
+    }
+    return matches(value) || segments.some(matches);
+  });
+}
+
+/**
+ * Find the rule deciding a tool call, if any
+ */
+export function evaluateToolRules(
+  rules: { global: ToolRule[]; session: ToolRule[] },
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  context: PatternContext = {}
+): ToolRuleMatch | undefined {
+  const ordered: ToolRuleMatch[] = [
+    ...rules.session.map(rule => ({ rule, scope: 'session' as const })),
+    ...rules.global.map(rule => ({ rule, scope: 'global' as const })),
+  ];
+
+  for (const action of ['deny', 'allow'] as const) {
+    const match = ordered.find(({ rule }) => rule.action === action && ruleMatches(rule, toolName, toolInput, context));
+    if (match) return match;
+  }
+  return undefined;
+}
+
+/**
+ * Reason shown to the model (and the user) when a rule blocks a tool call
+ */
+export function formatDenialReason({ rule, scope }: ToolRuleMatch): string {
+  return `Blocked by ${scope} tool rule "${rule.id}": ${rule.reason || 'this tool call is not allowed'}. Do not retry it.`;
+}
+
+/**
+ * Get a rule file path (lazy evaluation to ensure correct path)
+ */
+export function getToolRulesPath(scope: ToolRuleScope, sessionId?: string): string {
+  if (scope === 'global') {
+    return join(getAppDataDirectory(), 'tool-rules.json');
+  }
+  if (!sessionId || !/^[a-zA-Z0-9-]+$/.test(sessionId)) {
+    throw new Error('Invalid session ID');
+  }
+  return join(getAppDataDirectory(), 'tool-rules', `${sessionId}.json`);
+}
+
+/**
+ * Load rules from disk
+ * A missing file means no rules. If the file is invalid, no rules are loaded
+ * and the error is returned for display (see rulesToEnforce).
+ */
+export function loadToolRules(scope: ToolRuleScope, sessionId?: string): { rules: ToolRule[]; error?: string } {
+  const rulesPath = getToolRulesPath(scope, sessionId);
+  if (!existsSync(rulesPath)) {
+    return { rules: [] };
+  }
+
+  try {
+    const content = readFileSync(rulesPath, 'utf-8').trim();
+    const result = toolRulesFileSchema.safeParse(content === '' ? { rules: [] } : JSON.parse(content));
+
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      const error = `Invalid tool rules at ${issue.path.join('.') || '(root)'}: ${issue.message}`;
+      console.error(`❌ ${error}`);
+      console.error(`   Path: ${rulesPath}`);
+      return { rules: [], error };
+    }
+
+    return { rules: result.data.rules };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('❌ Failed to load tool rules:', errorMessage);
+    console.error(`   Path: ${rulesPath}`);
+    return { rules: [], error: `Failed to read tool rules: ${errorMessage}` };
+  }
+}
+
+/**
+ * Rules to enforce from a loaded rule file
+ * A file that failed to load denies every tool call, with its error as the
+ * reason, so a typo can't switch off the deny rules in it
+ */
+export function rulesToEnforce({ rules, error }: { rules: ToolRule[]; error?: string }): ToolRule[] {
+  if (!error) return rules;
+  return [{ id: 'invalid-rule-file', action: 'deny', tool: '*', input: {}, reason: `${error}. Fix or remove the rule file to use tools again` }];
+}
+
+/**
+ * Load the global rules and a session's own rules for enforcement
+ */
+export function loadSessionToolRules(sessionId: string): { global: ToolRule[]; session: ToolRule[] } {
+  return {
+    global: rulesToEnforce(loadToolRules('global')),
+    session: rulesToEnforce(loadToolRules('session', sessionId)),
+  };
+}
+
+/**
+ * Save rules to disk (an empty session rule set removes the file)
+ */
+export function saveToolRules(scope: ToolRuleScope, rules: ToolRule[], sessionId?: string): void {
+  const rulesPath = getToolRulesPath(scope, sessionId);
+
+  if (scope === 'session' && rules.length === 0) {
+    deleteSessionToolRules(sessionId!);
+    return;
+  }
+
+  const rulesDir = dirname(rulesPath);
+  if (!existsSync(rulesDir)) {
+    mkdirSync(rulesDir, { recursive: true });
+  }
+
+  try {
+    writeFileSync(rulesPath, JSON.stringify({ rules }, null, 2), 'utf-8');
+  } catch (error) {
+    console.error('Failed to save tool rules:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove a session's rule file (when the session is deleted)
+ */
+export function deleteSessionToolRules(sessionId: string): void {
+  rmSync(getToolRulesPath('session', sessionId), { force: true });
+}
+
+/**
+ * Validate a list of rules from a request body
+ */
+export function parseToolRules(value: unknown): { rules?: ToolRule[]; error?: string } {
+  const result = toolRulesFileSchema.safeParse({ rules: value });
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const location = issue.path.length > 1 ? `${issue.path.slice(1).join('.')}: ` : '';
+    return { error: `Invalid tool rules: ${location}${issue.message}` };
+  }
+  return { rules: result.data.rules };
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { runMigrations } from "./migrations";
+import { recordUsageEvent, getUsageSummary } from "./usage";
+import type { ModelConfig } from "../client/config/models";
+
+const sonnet: ModelConfig = {
+  id: "sonnet",
+  name: "Sonnet",
+  description: "",
+  apiModelId: "claude-sonnet",
+  provider: "anthropic",
+  pricing: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+};
+
+const unpriced: ModelConfig = { id: "local", name: "Local", description: "", apiModelId: "local-model", provider: "gateway" };
+
+const noCache = { cacheCreationInputTokens: 0, cacheReadInputTokens: 0 };
+
+describe("usage ledger", () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    runMigrations(db);
+    db.run("INSERT INTO sessions (id, title, created_at, updated_at) VALUES ('s1', 'First chat', '2025-01-01', '2025-01-01')");
+
+    recordUsageEvent(db, { sessionId: "s1", model: sonnet, inputTokens: 1_000_000, outputTokens: 0, ...noCache, durationMs: 1000, createdAt: "2025-03-01T10:00:00.000Z" });
+    recordUsageEvent(db, {
+      sessionId: "s1", model: sonnet, inputTokens: 0, outputTokens: 100_000,
+      cacheCreationInputTokens: 0, cacheReadInputTokens: 1_000_000, durationMs: 500, createdAt: "2025-03-01T23:30:00.000Z",
+    });
+    recordUsageEvent(db, { sessionId: "gone", model: unpriced, inputTokens: 50, outputTokens: 5, ...noCache, createdAt: "2025-03-02T08:00:00.000Z" });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("should compute cost at record time and total all turns", () => {
+    const { totals } = getUsageSummary(db, { groupBy: "day" });
+
+    expect(totals.turns).toBe(3);
+    expect(totals.inputTokens).toBe(1_000_050);
+    expect(totals.cacheReadInputTokens).toBe(1_000_000);
+    expect(totals.costUsd).toBeCloseTo(3 + 1.5 + 0.3);
+    expect(totals.unpricedTurns).toBe(1);
+    expect(totals.durationMs).toBe(1500);
+  });
+
+  it("should group by day, shifted to the client's timezone", () => {
+    expect(getUsageSummary(db, { groupBy: "day" }).groups.map(g => [g.key, g.turns])).toEqual([["2025-03-01", 2], ["2025-03-02", 1]]);
+    expect(getUsageSummary(db, { groupBy: "day", tzOffsetMinutes: 60 }).groups.map(g => [g.key, g.turns])).toEqual([["2025-03-01", 1], ["2025-03-02", 2]]);
+  });
+
+  it("should group by session and model, most expensive first", () => {
+    const sessions = getUsageSummary(db, { groupBy: "session" }).groups;
+    expect(sessions.map(g => [g.key, g.label])).toEqual([["s1", "First chat"], ["gone", "Deleted chat"]]);
+
+    const models = getUsageSummary(db, { groupBy: "model" }).groups;
+    expect(models.map(g => g.key)).toEqual(["sonnet", "local"]);
+    expect(models[1].costUsd).toBe(0);
+    expect(models[1].unpricedTurns).toBe(1);
+  });
+
+  it("should only include events since the given time", () => {
+    const summary = getUsageSummary(db, { groupBy: "model", since: "2025-03-02T00:00:00.000Z" });
+    expect(summary.totals.turns).toBe(1);
+    expect(summary.groups.map(g => g.key)).toEqual(["local"]);
+  });
+});
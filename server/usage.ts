@@ -0,0 +1,187 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Usage Ledger
+ *
+ * Records token usage for every completed turn in the usage_events table
+ * and aggregates it for the usage dashboard (GET /api/usage).
+ */
+
+import type { Database } from "bun:sqlite";
+import { calculateCost, type ModelConfig, type TokenUsage } from "../client/config/models";
+
+export type UsageGroupBy = 'day' | 'session' | 'model';
+
+export const USAGE_GROUP_BY: UsageGroupBy[] = ['day', 'session', 'model'];
+
+export interface UsageEventInput extends TokenUsage {
+  sessionId: string;
+  model: ModelConfig;
+  durationMs?: number;
+  createdAt?: string;
+}
+
+export interface UsageTotals extends TokenUsage {
+  turns: number;
+  costUsd: number;
+  unpricedTurns: number; // Turns on models without pricing (not included in costUsd)
+  durationMs: number;
+}
+
+export interface UsageGroup extends UsageTotals {
+  key: string;
+  label: string;
+}
+
+export interface UsageSummary {
+  groupBy: UsageGroupBy;
+  since?: string;
+  totals: UsageTotals;
+  groups: UsageGroup[];
+}
+
+export interface UsageSummaryOptions {
+  groupBy: UsageGroupBy;
+  since?: string; // ISO timestamp; omit for all time
+  tzOffsetMinutes?: number; // Shifts day boundaries to the client's local time
+}
+
+const TOTALS_COLUMNS = `
+  COUNT(*) as turns,
+  COALESCE(SUM(input_tokens), 0) as inputTokens,
+  COALESCE(SUM(output_tokens), 0) as outputTokens,
+  COALESCE(SUM(cache_creation_input_tokens), 0) as cacheCreationInputTokens,
+  COALESCE(SUM(cache_read_input_tokens), 0) as cacheReadInputTokens,
+  COALESCE(SUM(cost_usd), 0) as costUsd,
+  COUNT(*) - COUNT(cost_usd) as unpricedTurns,
+  COALESCE(SUM(duration_ms), 0) as durationMs
+`;
+
+/**
+ * Record one turn's usage; cost is computed now from the model's pricing
+ * so later price changes don't rewrite history
+ */
+export function recordUsageEvent(db: Database, event: UsageEventInput): void {
+  const costUsd = event.model.pricing ? calculateCost(event, event.model.pricing) : null;
+
+  db.run(
+    `INSERT INTO usage_events (
+      session_id, model_id, api_model_id, provider,
+      input_tokens, output_tokens, cache_creation_input_tokens, cache_read_input_tokens,
+      cost_usd, duration_ms, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      event.sessionId,
+      event.model.id,
+      event.model.apiModelId,
+      event.model.provider,
+      event.inputTokens,
+      event.outputTokens,
+      event.cacheCreationInputTokens,
+      event.cacheReadInputTokens,
+      costUsd,
+      event.durationMs ?? null,
+      event.createdAt ?? new Date().toISOString(),
+    ]
+  );
+}
+
+export interface UsageFilter {
+  sessionId?: string;
+  provider?: string;
+  since?: string; // ISO timestamp
+}
+
+/**
+ * Total usage matching a filter (used for budget checks)
+ */
+export function getUsageTotals(db: Database, filter: UsageFilter = {}): UsageTotals {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (filter.sessionId) {
+    conditions.push('session_id = ?');
+    params.push(filter.sessionId);
+  }
+  if (filter.provider) {
+    conditions.push('provider = ?');
+    params.push(filter.provider);
+  }
+  if (filter.since) {
+    conditions.push('created_at >= ?');
+    params.push(filter.since);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  return db
+    .query<UsageTotals, string[]>(`SELECT ${TOTALS_COLUMNS} FROM usage_events ${where}`)
+    .get(...params)!;
+}
+
+/**
+ * Aggregate usage events by day, session or model
+ * Model groups are labelled with the model ID; callers can map them to display names.
+ */
+export function getUsageSummary(db: Database, options: UsageSummaryOptions): UsageSummary {
+  const where = options.since ? 'WHERE e.created_at >= ?' : '';
+  const params = options.since ? [options.since] : [];
+
+  const totals = getUsageTotals(db, { since: options.since });
+
+  let groups: UsageGroup[];
+  switch (options.groupBy) {
+    case 'day': {
+      const offset = `${Math.trunc(options.tzOffsetMinutes ?? 0)} minutes`;
+      groups = db
+        .query<UsageGroup, string[]>(
+          `SELECT date(e.created_at, ?) as key, date(e.created_at, ?) as label, ${TOTALS_COLUMNS}
+          FROM usage_events e ${where}
+          GROUP BY key
+          ORDER BY key ASC`
+        )
+        .all(offset, offset, ...params);
+      break;
+    }
+    case 'session':
+      groups = db
+        .query<UsageGroup, string[]>(
+          `SELECT e.session_id as key, COALESCE(s.title, 'Deleted chat') as label, ${TOTALS_COLUMNS}
+          FROM usage_events e
+          LEFT JOIN sessions s ON s.id = e.session_id
+          ${where}
+          GROUP BY e.session_id
+          ORDER BY costUsd DESC, inputTokens + outputTokens DESC`
+        )
+        .all(...params);
+      break;
+    case 'model':
+      groups = db
+        .query<UsageGroup, string[]>(
+          `SELECT e.model_id as key, e.model_id as label, ${TOTALS_COLUMNS}
+          FROM usage_events e ${where}
+          GROUP BY e.model_id
+          ORDER BY costUsd DESC, inputTokens + outputTokens DESC`
+        )
+        .all(...params);
+      break;
+  }
+
+  return { groupBy: options.groupBy, since: options.since, totals, groups };
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "bun:test";
+import { extractSearchableText, buildFtsQuery } from "./messageText";
+
+describe("extractSearchableText", () => {
+  it("should return plain string content unchanged", () => {
+    expect(extractSearchableText("hello world")).toBe("hello world");
+  });
+
+  it("should extract text, thinking, tool inputs and command output from assistant blocks", () => {
+    const content = JSON.stringify([
+      { type: "thinking", thinking: "considering options" },
+      { type: "text", text: "Here is the plan" },
+      { type: "tool_use", id: "t1", name: "MultiEdit", input: { file_path: "/src/app.ts", edits: [{ old_string: "foo", new_string: "bar" }] } },
+      { type: "long_running_command", bashId: "b1", command: "npm install", output: "added 12 packages" },
+    ]);
+
+    const text = extractSearchableText(content);
+    expect(text).toContain("considering options");
+    expect(text).toContain("Here is the plan");
+    expect(text).toContain("MultiEdit");
+    expect(text).toContain("/src/app.ts");
+    expect(text).toContain("bar");
+    expect(text).toContain("npm install");
+    expect(text).toContain("added 12 packages");
+  });
+
+  it("should skip image payloads but keep attached document names", () => {
+    const content = JSON.stringify([
+      { type: "text", text: "see attached" },
+      { type: "image", source: { type: "base64", media_type: "image/png", data: "iVBORw0KGgo" } },
+      { type: "document", name: "report.pdf", data: "JVBERi0x" },
+    ]);
+
+    const text = extractSearchableText(content);
+    expect(text).toContain("see attached");
+    expect(text).toContain("report.pdf");
+    expect(text).not.toContain("iVBORw0KGgo");
+    expect(text).not.toContain("JVBERi0x");
+  });
+});
+
+describe("buildFtsQuery", () => {
+  it("should quote terms and prefix-match the last one", () => {
+    expect(buildFtsQuery("react hooks")).toBe('"react" "hooks"*');
+  });
+
+  it("should neutralize FTS operators and quotes", () => {
+    expect(buildFtsQuery('foo" OR NEAR(bar')).toBe('"foo" "OR" "NEAR(bar"*');
+  });
+
+  it("should return null for empty input", () => {
+    expect(buildFtsQuery("   ")).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Agent Llama - Modern chat interface for Claude Agent SDK
+ * Copyright (C) 2025 Safastak
+ *
+ * SPDX-License-Identifier: AGPL-3.0-or-later
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Helpers for turning stored message content into plain text.
+ *
+ * User messages are stored either as a raw string or as a JSON array of
+ * content blocks (text/image/document). Assistant messages are stored as a
+ * JSON array of text, thinking, tool_use and long_running_command blocks.
+ */
+
+type ContentBlock = Record<string, unknown>;
+
+/**
+ * Parse stored message content into blocks.
+ * Returns null when the content is a plain string (not a JSON block array).
+ */
+export function parseContentBlocks(content: string): ContentBlock[] | null {
+  const trimmed = content.trim();
+  if (!trimmed.startsWith('[')) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(trimmed);
+    return Array.isArray(parsed) ? parsed as ContentBlock[] : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Flatten a tool input object into searchable text (string values only,
+ * recursing into nested objects/arrays such as MultiEdit edits or todos)
+ */
+function flattenToolInput(value: unknown, out: string[]): void {
+  if (typeof value === 'string') {
+    out.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => flattenToolInput(item, out));
+  } else if (value && typeof value === 'object') {
+    Object.values(value as Record<string, unknown>).forEach(item => flattenToolInput(item, out));
+  }
+}
+
+/**
+ * Extract all human-readable text from a stored message for indexing.
+ * Includes text, thinking, tool names + inputs and long-running command output.
+ * Image data and other binary payloads are skipped.
+ */
+export function extractSearchableText(content: string): string {
+  const blocks = parseContentBlocks(content);
+  if (!blocks) {
+    return content;
+  }
+
+  const parts: string[] = [];
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'text':
+        if (typeof block.text === 'string') parts.push(block.text);
+        break;
+      case 'thinking':
+        if (typeof block.thinking === 'string') parts.push(block.thinking);
+        break;
+      case 'tool_use':
+        if (typeof block.name === 'string') parts.push(block.name);
+        flattenToolInput(block.input, parts);
+        break;
+      case 'long_running_command':
+        if (typeof block.command === 'string') parts.push(block.command);
+        if (typeof block.output === 'string') parts.push(block.output);
+        break;
+      case 'document':
+        // Attached files: index the name, not the base64 payload
+        if (typeof block.name === 'string') parts.push(block.name);
+        break;
+    }
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * Build a safe FTS5 MATCH expression from free-form user input.
+ * Each whitespace-separated term is quoted (so operators like AND/NEAR and
+ * punctuation are treated literally) and the last term gets prefix matching
+ * so results appear while the user is still typing.
+ * Returns null if the input contains no searchable terms.
+ */
+export function buildFtsQuery(input: string): string | null {
+  const terms = input
+    .split(/\s+/)
+    .map(term => term.replace(/"/g, '').trim())
+    .filter(term => term.length > 0);
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms
+    .map((term, index) => {
+      const quoted = `"${term}"`;
+      return index === terms.length - 1 ? `${quoted}*` : quoted;
+    })
+    .join(' ');
+}
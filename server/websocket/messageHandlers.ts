@@ -9,8 +9,11 @@ import type { HookInput, SDKCompactBoundaryMessage } from "@anthropic-ai/claude-
 import { AgentQueueManager } from '../agentQueueManager';
 import { sessionDb } from "../database";
 import { getSystemPrompt, injectWorkingDirIntoAgents } from "../systemPrompt";
-import { AVAILABLE_MODELS } from "../../client/config/models";
-import { configureProvider } from "../providers";
+import { getProviderEnv, type ProviderEnv } from "../providers";
+import { resolveModel } from "../providerRegistry";
+import { checkBudgets, type BudgetUsage } from "../budgets";
+import { formatBudgetBreach } from "../../client/config/budgets";
+import { calculateCost, type TokenUsage } from "../../client/config/models";
 import { getMcpServers } from "../mcpServers";
 import { AGENT_REGISTRY } from "../agents";
 import { validateDirectory } from "../directoryUtils";
@@ -19,13 +22,28 @@ import { backgroundProcessManager } from "../backgroundProcessManager";
 import { loadUserConfig } from "../userConfig";
 import { parseApiError, getUserFriendlyMessage } from "../utils/apiErrors";
 import { TimeoutController } from "../utils/timeout";
-import { sessionStreamManager } from "../sessionStreamManager";
+import { sessionStreamManager, type StreamSubscriber } from "../sessionStreamManager";
 import { expandSlashCommand } from "../slashCommandExpander";
 import { createAskUserQuestionServer, setQuestionCallback, answerQuestion, cancelQuestion } from "../mcp/askUserQuestion";
+import { createCanUseTool, resolveToolPermission, isBashCommandAllowed } from "../toolPermissions";
+import { evaluateToolRules, formatDenialReason, loadSessionToolRules } from "../toolRules";
+import { getToolResultText, toToolResultPreview, type ToolResultBlock } from "../toolResults";
+import { getCheckpointFilePath } from "../checkpoints";
+import { applyAutoBranch, commitTurnChanges, getUncommittedChanges, type CommitResult } from "../git";
+import { extractSearchableText } from "../utils/messageText";
+import { buildForkHistoryPrompt, needsForkHistory } from "../forkHistory";
+import {
+  PROTOCOL_VERSION,
+  parseClientMessage,
+  encodeServerMessage,
+  protocolMismatchMessage,
+  type ClientMessageOf,
+} from "../../client/config/protocol";
 
 interface ChatWebSocketData {
   type: 'hot-reload' | 'chat';
   sessionId?: string;
+  protocolVersion?: number; // Set by a successful hello handshake
 }
 
 /**
@@ -42,18 +60,24 @@ function isCompactBoundaryMessage(message: unknown): message is SDKCompactBounda
   );
 }
 
-// Build model mapping from configuration
-const MODEL_MAP: Record<string, { apiModelId: string; provider: string }> = {};
-AVAILABLE_MODELS.forEach(model => {
-  MODEL_MAP[model.id] = {
-    apiModelId: model.apiModelId,
-    provider: model.provider,
-  };
-});
-
 // Agent queue manager for limiting concurrent agent execution
 const agentQueueManager = new AgentQueueManager(2); // Max 2 concurrent agents
 
+// Auto-commit: whether each turn started on a clean working tree (turn ID -> clean)
+const cleanTreeBeforeTurn = new Map<string, boolean>();
+
+/**
+ * Note whether the working tree is clean as a turn starts, for auto-commit
+ * (a dirty tree means the turn's commit would mix in the user's own work)
+ */
+async function recordTreeBeforeTurn(sessionId: string, turnId: string): Promise<void> {
+  const session = sessionDb.getSession(sessionId);
+  if (!session?.git_settings.autoCommit) return;
+
+  const changes = await getUncommittedChanges(session.working_directory);
+  cleanTreeBeforeTurn.set(turnId, changes !== null && changes.length === 0);
+}
+
 export async function handleWebSocketMessage(
   ws: ServerWebSocket<ChatWebSocketData>,
   message: string,
@@ -61,9 +85,24 @@ export async function handleWebSocketMessage(
 ): Promise<void> {
   if (ws.data?.type === 'hot-reload') return;
 
-  try {
-    const data = JSON.parse(message);
+  const parsed = parseClientMessage(message);
+  if (!parsed.success) {
+    ws.send(encodeServerMessage({ type: 'error', errorType: 'invalid_message', message: parsed.error }));
+    return;
+  }
+  const data = parsed.message;
+
+  // Every connection starts with a hello; anything else first means an outdated client
+  if (data.type === 'hello') {
+    handleHello(ws, data);
+    return;
+  }
+  if (ws.data.protocolVersion !== PROTOCOL_VERSION) {
+    ws.send(encodeServerMessage({ type: 'error', errorType: 'protocol_mismatch', message: protocolMismatchMessage(ws.data.protocolVersion) }));
+    return;
+  }
 
+  try {
     if (data.type === 'chat') {
       await handleChatMessage(ws, data, activeQueries);
     } else if (data.type === 'approve_plan') {
@@ -78,33 +117,60 @@ export async function handleWebSocketMessage(
       await handleAnswerQuestion(ws, data, activeQueries);
     } else if (data.type === 'cancel_question') {
       await handleCancelQuestion(ws, data);
+    } else if (data.type === 'respond_tool_permission') {
+      handleRespondToolPermission(ws, data);
+    } else if (data.type === 'resume_stream') {
+      handleResumeStream(ws, data);
+    } else if (data.type === 'subscribe') {
+      sessionStreamManager.subscribe(data.sessionId, ws);
+    } else if (data.type === 'unsubscribe') {
+      sessionStreamManager.unsubscribe(data.sessionId, ws);
     }
   } catch (error) {
     console.error('WebSocket message error:', error);
-    ws.send(JSON.stringify({
+    ws.send(encodeServerMessage({
       type: 'error',
-      error: error instanceof Error ? error.message : 'Invalid message format'
+      message: error instanceof Error ? error.message : 'Failed to handle message'
     }));
   }
 }
 
-async function handleChatMessage(
+/**
+ * Protocol handshake: accept the connection only if the client speaks our version
+ */
+function handleHello(
   ws: ServerWebSocket<ChatWebSocketData>,
-  data: Record<string, unknown>,
-  activeQueries: Map<string, unknown>
-): Promise<void> {
-  const { content, sessionId, model, timezone } = data;
-
-  if (!content || !sessionId) {
-    ws.send(JSON.stringify({ type: 'error', error: 'Missing content or sessionId' }));
+  data: ClientMessageOf<'hello'>
+): void {
+  if (data.protocolVersion !== PROTOCOL_VERSION) {
+    console.warn(`⚠️ Client protocol v${data.protocolVersion} doesn't match server v${PROTOCOL_VERSION}`);
+    ws.send(encodeServerMessage({ type: 'error', errorType: 'protocol_mismatch', message: protocolMismatchMessage(data.protocolVersion) }));
     return;
   }
 
+  ws.data.protocolVersion = data.protocolVersion;
+  ws.send(encodeServerMessage({ type: 'welcome', protocolVersion: PROTOCOL_VERSION }));
+}
+
+/**
+ * Run one chat turn: save the user message, then spawn or reuse the session's
+ * SDK stream. Returns once the message is queued; events follow via ws and the
+ * session's other subscribers. Also used by the headless HTTP chat API, which
+ * learns the turn's ID (the saved user message) through onMessageSaved.
+ */
+export async function handleChatMessage(
+  ws: StreamSubscriber,
+  data: ClientMessageOf<'chat'>,
+  activeQueries: Map<string, unknown>,
+  onMessageSaved?: (messageId: string) => void
+): Promise<void> {
+  const { content, sessionId, model, timezone } = data;
+
   // Get session for working directory access
   const session = sessionDb.getSession(sessionId as string);
   if (!session) {
     console.error('❌ Session not found:', sessionId);
-    ws.send(JSON.stringify({
+    ws.send(encodeServerMessage({
       type: 'error',
       message: 'Session not found'
     }));
@@ -166,7 +232,7 @@ async function handleChatMessage(
     console.log('🗜️ /compact command detected - sending loading message');
 
     // Send loading message to client
-    ws.send(JSON.stringify({
+    ws.send(encodeServerMessage({
       type: 'compact_loading',
       sessionId: sessionId,
     }));
@@ -199,13 +265,13 @@ async function handleChatMessage(
     }
 
     // Send context cleared message as assistant_message so client can render it
-    ws.send(JSON.stringify({
+    ws.send(encodeServerMessage({
       type: 'assistant_message',
       content: '--- Context cleared. The AI will not remember previous messages ---',
       sessionId: sessionId,
     }));
 
-    ws.send(JSON.stringify({
+    ws.send(encodeServerMessage({
       type: 'result',
       success: true,
       sessionId: sessionId,
@@ -214,9 +280,40 @@ async function handleChatMessage(
     return; // Don't send to SDK
   }
 
+  // Get model configuration (built-in models plus providers.json)
+  const { model: modelConfig, provider: providerDefinition } = resolveModel(model as string | undefined);
+  const { apiModelId, provider } = modelConfig;
+
+  // Refuse new messages once a budget (budgets.json) is used up
+  const budgetStatus = checkBudgets(filter => sessionDb.getUsageTotals(filter), sessionId as string, provider);
+  if (budgetStatus.exceeded.length > 0) {
+    console.warn(`💸 Budget exceeded, refusing message for session ${sessionId?.toString().substring(0, 8)}`);
+    ws.send(encodeServerMessage({
+      type: 'budget_exceeded',
+      breaches: budgetStatus.exceeded,
+      message: `${budgetStatus.exceeded.map(formatBudgetBreach).join('; ')}. Raise the limit in budgets.json or wait for it to reset.`,
+      sessionId: sessionId,
+    }));
+    return;
+  }
+
+  // The sender watches this session from now on, even if it switches away mid-turn
+  sessionStreamManager.subscribe(sessionId as string, ws);
+
   // Save user message to database (stringify if array)
   const contentForDb = typeof content === 'string' ? content : JSON.stringify(content);
-  sessionDb.addMessage(sessionId as string, 'user', contentForDb);
+  const userMessage = sessionDb.addMessage(sessionId as string, 'user', contentForDb);
+  onMessageSaved?.(userMessage.id);
+
+  // Other clients watching the session only learn about the message from us; it is
+  // recorded so a reconnecting client replays the whole turn, and the sender
+  // matches it to the message it shows through clientMessageId
+  sessionStreamManager.safeSend(sessionId as string, encodeServerMessage({
+    type: 'user_message',
+    message: userMessage,
+    clientMessageId: data.clientMessageId,
+    sessionId: sessionId,
+  }));
 
   // Expand slash commands if detected
   if (trimmedPrompt.startsWith('/')) {
@@ -239,28 +336,32 @@ async function handleChatMessage(
   // Check if this is a new session or continuing existing
   const isNewStream = !sessionStreamManager.hasStream(sessionId as string);
 
-  // Get model configuration
-  const modelConfig = MODEL_MAP[model as string] || MODEL_MAP['sonnet'];
-  const { apiModelId, provider } = modelConfig;
+  const providerType = provider;
 
-  // Configure provider (sets ANTHROPIC_BASE_URL and ANTHROPIC_API_KEY env vars)
-  const providerType = provider as 'anthropic' | 'z-ai' | 'moonshot';
-
-  // Validate API key before proceeding (OAuth takes precedence over API key)
+  // Build this session's subprocess env (base URL and credentials) without touching process.env,
+  // so concurrent sessions on different providers don't interfere
+  // Also validates the API key before proceeding (OAuth takes precedence over API key)
+  let providerEnv: ProviderEnv;
   try {
-    await configureProvider(providerType);
+    providerEnv = await getProviderEnv(providerType);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error('❌ Provider configuration error:', errorMessage);
-    ws.send(JSON.stringify({
+    ws.send(encodeServerMessage({
       type: 'error',
       message: errorMessage
     }));
     return;
   }
 
-  // Get MCP servers for this provider (model-specific filtering for GLM)
-  const mcpServers = getMcpServers(providerType, apiModelId);
+  // Get MCP servers for this provider and mode (from mcp-servers.json)
+  const mcpServers = getMcpServers(providerType, apiModelId, session.mode);
+
+  // Apply the session's tool policy (servers/tools switched off in the chat header)
+  const { disabledMcpServers, disallowedTools, allowedTools, allowedDirectories } = session.tool_policy;
+  for (const serverName of disabledMcpServers) {
+    delete mcpServers[serverName];
+  }
 
   // Minimal request logging - one line summary
   // Note: At this point we haven't checked history yet, so we use isNewStream for subprocess status
@@ -270,7 +371,7 @@ async function handleChatMessage(
   const validation = validateDirectory(workingDir);
   if (!validation.valid) {
     console.error('❌ Working directory invalid:', validation.error);
-    ws.send(JSON.stringify({
+    ws.send(encodeServerMessage({
       type: 'error',
       message: `Working directory error: ${validation.error}`
     }));
@@ -285,11 +386,40 @@ async function handleChatMessage(
     console.warn('   Move project to Linux filesystem (~/projects/) for better performance');
   }
 
-  // For existing streams: Update WebSocket, enqueue message, and return
+  // Auto-branch: put the working directory on this chat's agent/ branch before the turn runs
+  // (re-read the session: the first message has just replaced "New Chat" with a real title)
+  const gitSession = sessionDb.getSession(sessionId as string) ?? session;
+  if (gitSession.git_settings.autoBranch) {
+    const { result, settings } = await applyAutoBranch(workingDir, gitSession.git_settings, gitSession.title, sessionId as string);
+    if (settings.branch !== gitSession.git_settings.branch) {
+      sessionDb.updateGitSettings(sessionId as string, settings);
+    }
+    if (result.error) {
+      console.warn(`⚠️  Auto-branch failed for session ${sessionId?.toString().substring(0, 8)}: ${result.error}`);
+    } else if (result.switched) {
+      console.log(`🌿 Switched to ${result.created ? 'new ' : ''}branch ${result.branch} in ${workingDir}`);
+    }
+    if (result.error || result.switched) {
+      ws.send(encodeServerMessage({
+        type: 'git_auto_action',
+        action: 'branch',
+        branch: result.branch,
+        created: result.created,
+        error: result.error,
+        sessionId: sessionId,
+      }));
+    }
+  }
+
+  // A message sent mid-turn waits in the queue; its tree is checked when the running turn ends
+  if (!sessionStreamManager.getCurrentTurnId(sessionId as string)) {
+    await recordTreeBeforeTurn(sessionId as string, userMessage.id);
+  }
+
+  // For existing streams: Enqueue message and return
   // Background response loop is already running
   if (!isNewStream) {
-    sessionStreamManager.updateWebSocket(sessionId as string, ws);
-    sessionStreamManager.sendMessage(sessionId as string, promptText);
+    sessionStreamManager.sendMessage(sessionId as string, promptText, userMessage.id);
     return; // Background loop handles response
   }
 
@@ -343,16 +473,27 @@ Run bash commands with the understanding that this is your current working direc
       console.log(`⚠️ No SDK session ID stored, cannot use resume`);
     }
 
+    // Forked sessions start a fresh subprocess - seed the first prompt with the copied history
+    if (!isFirstMessage && needsForkHistory(session)) {
+      const forkHistory = buildForkHistoryPrompt(sessionMessages.slice(0, -1));
+      if (forkHistory) {
+        promptText = `${forkHistory}\n\n${promptText}`;
+        console.log(`🍴 Seeded forked session with ${sessionMessages.length - 1} prior messages`);
+      }
+    }
+
     const queryOptions: Record<string, unknown> = {
       model: apiModelId,
       systemPrompt: systemPromptWithContext,
-      permissionMode: 'bypassPermissions', // Always spawn with bypass - then switch if needed
+      permissionMode: session.permission_mode,
+      allowDangerouslySkipPermissions: true, // Lets the session switch to bypassPermissions mid-stream
       // Use SDK's internal session ID for resume (if available from previous subprocess)
       ...(isFirstMessage || !session.sdk_session_id ? {} : { resume: session.sdk_session_id }),
       includePartialMessages: true,
       agents: agentsWithWorkingDir, // Register custom agents with working dir context
       cwd: workingDir, // Set working directory for all tool executions
       settingSources: ['project'], // Load Skills from .claude/skills/ and agents from .claude/agents/
+      env: providerEnv, // Provider base URL and credentials for this session only
       // Let SDK manage its own subprocess spawning - don't override executable
       // abortController will be added after stream creation
 
@@ -395,9 +536,19 @@ Run bash commands with the understanding that this is your current working direc
       },
     };
 
-    // Enable extended thinking for Anthropic and Moonshot models
+    if (disallowedTools.length > 0) {
+      queryOptions.disallowedTools = disallowedTools;
+    }
+    if (allowedTools.length > 0) {
+      queryOptions.allowedTools = allowedTools;
+    }
+    if (allowedDirectories.length > 0) {
+      queryOptions.additionalDirectories = allowedDirectories;
+    }
+
+    // Enable extended thinking where the provider supports it
     // Z.AI's Anthropic-compatible API doesn't support maxThinkingTokens parameter
-    if (providerType === 'anthropic' || providerType === 'moonshot') {
+    if (providerDefinition.supportsThinking) {
       queryOptions.maxThinkingTokens = 10000;
       console.log('🧠 Extended thinking enabled with maxThinkingTokens:', queryOptions.maxThinkingTokens);
     } else {
@@ -416,10 +567,10 @@ Run bash commands with the understanding that this is your current working direc
     };
 
     // Set up question callback to send questions to frontend via WebSocket
-    setQuestionCallback((toolId: string, questions: unknown[], questionSessionId: string) => {
+    setQuestionCallback((toolId, questions, questionSessionId) => {
       sessionStreamManager.safeSend(
         questionSessionId,
-        JSON.stringify({
+        encodeServerMessage({
           type: 'ask_user_question',
           toolId,
           questions,
@@ -428,16 +579,114 @@ Run bash commands with the understanding that this is your current working direc
       );
     });
 
+    // Ask the session's clients before running tools the permission mode doesn't auto-approve
+    const canUseTool = createCanUseTool(sessionId as string, {
+      notify: (event) => {
+        // Time spent waiting on the user shouldn't count towards the turn timeout
+        if (event.type === 'tool_permission_resolved') {
+          timeoutController.reset();
+          if (event.decision === 'deny') {
+            sessionDb.recordToolEnd(event.requestId, { status: 'denied', result: 'Denied by the user' });
+          }
+        }
+        sessionStreamManager.safeSend(sessionId as string, encodeServerMessage({ ...event, sessionId: sessionId as string }));
+      },
+      saveAlwaysAllowed: (rules, directories) => {
+        const policy = sessionDb.getSession(sessionId as string)?.tool_policy ?? session.tool_policy;
+        const updated = {
+          allowedTools: [...new Set([...policy.allowedTools, ...rules])],
+          allowedDirectories: [...new Set([...policy.allowedDirectories, ...directories])],
+        };
+        sessionDb.updateToolPolicy(sessionId as string, { ...policy, ...updated });
+        return updated;
+      },
+    });
+    queryOptions.canUseTool = canUseTool;
+
+    // Sub-agent tool calls, by tool_use_id → the Task call that spawned the agent
+    // (from the stream's parent_tool_use_id; hook inputs don't say)
+    const toolEventParents = new Map<string, string>();
+
     // Add PreToolUse hook to intercept background Bash commands and long-running commands
     queryOptions.hooks = {
       PreToolUse: [{
-        hooks: [async (input: HookInput, toolUseID: string | undefined) => {
+        hooks: [async (input: HookInput, toolUseID: string | undefined, options: { signal: AbortSignal }) => {
           // PreToolUse hook has tool_name and tool_input properties
           type PreToolUseInput = HookInput & { tool_name: string; tool_input: Record<string, unknown> };
 
           if (input.hook_event_name !== 'PreToolUse') return {};
 
           const { tool_name, tool_input } = input as PreToolUseInput;
+          const currentSession = sessionDb.getSession(sessionId as string) ?? session;
+
+          // ===== AUDIT LOG =====
+          if (toolUseID) {
+            sessionDb.recordToolStart({
+              sessionId: sessionId as string,
+              toolUseId: toolUseID,
+              toolName: tool_name,
+              input: tool_input,
+              workingDirectory: currentSession.working_directory,
+              parentToolUseId: toolEventParents.get(toolUseID),
+            });
+          }
+          const recordDenied = (reason: string) => {
+            if (toolUseID) sessionDb.recordToolEnd(toolUseID, { status: 'denied', result: reason });
+          };
+
+          // ===== TOOL RULES =====
+          const ruleMatch = evaluateToolRules(
+            loadSessionToolRules(sessionId as string),
+            tool_name,
+            tool_input,
+            { workingDirectory: currentSession.working_directory }
+          );
+
+          if (ruleMatch?.rule.action === 'deny') {
+            const reason = formatDenialReason(ruleMatch);
+            recordDenied(reason);
+            console.log(`⛔ ${tool_name} denied by ${ruleMatch.scope} rule "${ruleMatch.rule.id}"`);
+            sessionStreamManager.safeSend(
+              sessionId as string,
+              encodeServerMessage({
+                type: 'tool_rule_denied',
+                toolId: toolUseID || '',
+                toolName: tool_name,
+                ruleId: ruleMatch.rule.id,
+                scope: ruleMatch.scope,
+                reason,
+              })
+            );
+            return {
+              hookSpecificOutput: {
+                hookEventName: 'PreToolUse',
+                permissionDecision: 'deny',
+                permissionDecisionReason: reason,
+              }
+            };
+          }
+
+          // ===== FILE CHECKPOINTS =====
+          const checkpointPath = getCheckpointFilePath(tool_name, tool_input, currentSession.working_directory);
+          const turnId = checkpointPath ? sessionStreamManager.getCurrentTurnId(sessionId as string) : null;
+          if (checkpointPath && turnId) {
+            sessionDb.saveFileCheckpoint({ sessionId: sessionId as string, turnId, filePath: checkpointPath });
+          }
+
+          // Allow rules skip the permission prompt, but never plan mode's read-only
+          // restriction or the plan review itself
+          const allowedByRule = ruleMatch?.rule.action === 'allow'
+            && currentSession.permission_mode !== 'plan'
+            && tool_name !== 'ExitPlanMode';
+          const passThrough = allowedByRule
+            ? {
+                hookSpecificOutput: {
+                  hookEventName: 'PreToolUse',
+                  permissionDecision: 'allow',
+                  permissionDecisionReason: `Allowed by ${ruleMatch.scope} tool rule "${ruleMatch.rule.id}"`,
+                }
+              }
+            : {};
 
           // ===== AGENT QUEUE MANAGEMENT =====
           if (tool_name === 'Task') {
@@ -445,7 +694,8 @@ Run bash commands with the understanding that this is your current working direc
             const subagentType = taskInput.subagent_type;
 
             if (subagentType) {
-              const status = agentQueueManager.enqueueAgent(toolUseID || `task-${Date.now()}`, {
+              const agentId = toolUseID || `task-${Date.now()}`;
+              const status = agentQueueManager.enqueueAgent(agentId, {
                 type: subagentType,
                 prompt: taskInput.prompt || '',
               });
@@ -453,9 +703,9 @@ Run bash commands with the understanding that this is your current working direc
               // Send queue status to client
               sessionStreamManager.safeSend(
                 sessionId as string,
-                JSON.stringify({
+                encodeServerMessage({
                   type: 'agent_queue_status',
-                  toolId: toolUseID,
+                  toolId: agentId,
                   status: status,
                   queueInfo: agentQueueManager.getStatus(),
                 })
@@ -464,11 +714,13 @@ Run bash commands with the understanding that this is your current working direc
               // If queued, DENY the tool to prevent spawning
               if (status === 'queued') {
                 console.log(`⏸️ Task tool denied (queued): ${subagentType} - Queue: ${agentQueueManager.getQueuedCount()}`);
+                const reason = `Agent queued. ${agentQueueManager.getRunningCount()}/${agentQueueManager.getStatus().max} slots in use. Will auto-execute when slot opens.`;
+                recordDenied(reason);
                 return {
                   hookSpecificOutput: {
                     hookEventName: 'PreToolUse',
                     permissionDecision: 'deny',
-                    permissionDecisionReason: `Agent queued. ${agentQueueManager.getRunningCount()}/${agentQueueManager.getStatus().max} slots in use. Will auto-execute when slot opens.`,
+                    permissionDecisionReason: reason,
                   }
                 };
               }
@@ -477,7 +729,7 @@ Run bash commands with the understanding that this is your current working direc
             }
           }
 
-          if (tool_name !== 'Bash') return {};
+          if (tool_name !== 'Bash') return passThrough;
 
           const bashInput = tool_input as Record<string, unknown>;
           const command = bashInput.command as string;
@@ -490,6 +742,24 @@ Run bash commands with the understanding that this is your current working direc
           const isTestCommand = /\b(npm|bun|yarn|pnpm)\s+(run\s+)?test\b/i.test(command);
           const isLongRunningCommand = isInstallCommand || isBuildCommand || isTestCommand;
 
+          // We run these ourselves (the SDK only sees a stand-in command), so ask first
+          // when the session isn't bypassing permissions
+          if (isLongRunningCommand || bashInput.run_in_background === true) {
+            const { permission_mode, tool_policy } = currentSession;
+            if (!allowedByRule && permission_mode !== 'bypassPermissions' && !isBashCommandAllowed(command, tool_policy.allowedTools)) {
+              const permission = await canUseTool(tool_name, tool_input, { signal: options.signal, toolUseID: bashId });
+              if (permission.behavior === 'deny') {
+                return {
+                  hookSpecificOutput: {
+                    hookEventName: 'PreToolUse',
+                    permissionDecision: 'deny',
+                    permissionDecisionReason: permission.message,
+                  }
+                };
+              }
+            }
+          }
+
           // Handle long-running commands with monitored background execution
           if (isLongRunningCommand && bashInput.run_in_background !== true) {
             const commandType = isInstallCommand ? 'install' : isBuildCommand ? 'build' : 'test';
@@ -515,14 +785,18 @@ Run bash commands with the understanding that this is your current working direc
             );
 
             // Notify client that long-running command started
-            ws.send(JSON.stringify({
-              type: 'long_running_command_started',
-              bashId,
-              command,
-              commandType,
-              description,
-              startedAt: Date.now(),
-            }));
+            sessionStreamManager.safeSend(
+              sessionId as string,
+              encodeServerMessage({
+                type: 'long_running_command_started',
+                bashId,
+                command,
+                commandType,
+                description,
+                startedAt: Date.now(),
+                sessionId: sessionId,
+              })
+            );
 
             let accumulatedOutput = '';
 
@@ -545,11 +819,15 @@ Run bash commands with the understanding that this is your current working direc
                   );
 
                   // Stream output to client
-                  ws.send(JSON.stringify({
-                    type: 'command_output_chunk',
-                    bashId,
-                    output: chunk,
-                  }));
+                  sessionStreamManager.safeSend(
+                    sessionId as string,
+                    encodeServerMessage({
+                      type: 'command_output_chunk',
+                      bashId,
+                      output: chunk,
+                      sessionId: sessionId,
+                    })
+                  );
                 },
               });
 
@@ -566,11 +844,15 @@ Run bash commands with the understanding that this is your current working direc
                 }])
               );
 
-              ws.send(JSON.stringify({
-                type: 'long_running_command_completed',
-                bashId,
-                exitCode: result.exitCode,
-              }));
+              sessionStreamManager.safeSend(
+                sessionId as string,
+                encodeServerMessage({
+                  type: 'long_running_command_completed',
+                  bashId,
+                  exitCode: result.exitCode,
+                  sessionId: sessionId,
+                })
+              );
 
 
               // Return the actual output to Claude
@@ -595,11 +877,15 @@ Run bash commands with the understanding that this is your current working direc
               );
 
               // Notify error
-              ws.send(JSON.stringify({
-                type: 'long_running_command_failed',
-                bashId,
-                error: error instanceof Error ? error.message : String(error),
-              }));
+              sessionStreamManager.safeSend(
+                sessionId as string,
+                encodeServerMessage({
+                  type: 'long_running_command_failed',
+                  bashId,
+                  error: error instanceof Error ? error.message : String(error),
+                  sessionId: sessionId,
+                })
+              );
 
               // Return error to Claude
               return {
@@ -643,13 +929,17 @@ Run bash commands with the understanding that this is your current working direc
             console.log(`🚀 Background process spawned (PID ${pid}): ${command.slice(0, 50)}${command.length > 50 ? '...' : ''}`);
 
             // Notify the client
-            ws.send(JSON.stringify({
-              type: 'background_process_started',
-              bashId,
-              command,
-              description,
-              startedAt: Date.now(),
-            }));
+            sessionStreamManager.safeSend(
+              sessionId as string,
+              encodeServerMessage({
+                type: 'background_process_started',
+                bashId,
+                command,
+                description,
+                startedAt: Date.now(),
+                sessionId: sessionId,
+              })
+            );
 
             // Replace the command with an echo so the SDK gets a successful result
             // This prevents the agent from retrying
@@ -663,16 +953,20 @@ Run bash commands with the understanding that this is your current working direc
           }
 
           // Not a special command, let it pass through
-          return {};
+          return passThrough;
         }],
       }],
       PostToolUse: [{
         hooks: [async (input: HookInput, toolUseID: string | undefined) => {
-          type PostToolUseInput = HookInput & { tool_name: string; tool_input: Record<string, unknown> };
+          type PostToolUseInput = HookInput & { tool_name: string; tool_input: Record<string, unknown>; tool_response: unknown };
 
           if (input.hook_event_name !== 'PostToolUse') return {};
 
-          const { tool_name } = input as PostToolUseInput;
+          const { tool_name, tool_response } = input as PostToolUseInput;
+
+          if (toolUseID) {
+            sessionDb.recordToolEnd(toolUseID, { status: 'success', result: tool_response });
+          }
 
           // Track Task tool completion
           if (tool_name === 'Task' && toolUseID) {
@@ -682,7 +976,7 @@ Run bash commands with the understanding that this is your current working direc
               // Send updated queue status to client
               sessionStreamManager.safeSend(
                 sessionId as string,
-                JSON.stringify({
+                encodeServerMessage({
                   type: 'agent_queue_status',
                   toolId: toolUseID,
                   status: 'completed',
@@ -694,6 +988,15 @@ Run bash commands with the understanding that this is your current working direc
             }
           }
 
+          return {};
+        }]
+      }],
+      PostToolUseFailure: [{
+        hooks: [async (input: HookInput, toolUseID: string | undefined) => {
+          if (input.hook_event_name !== 'PostToolUseFailure' || !toolUseID) return {};
+
+          const { error, is_interrupt } = input;
+          sessionDb.recordToolEnd(toolUseID, { status: is_interrupt ? 'interrupted' : 'error', result: error });
           return {};
         }]
       }]
@@ -708,7 +1011,7 @@ Run bash commands with the understanding that this is your current working direc
         // Send warning notification to client (use safeSend for WebSocket lifecycle safety)
         sessionStreamManager.safeSend(
           sessionId as string,
-          JSON.stringify({
+          encodeServerMessage({
             type: 'timeout_warning',
             message: 'AI is taking longer than usual...',
             elapsedSeconds: 60,
@@ -726,7 +1029,7 @@ Run bash commands with the understanding that this is your current working direc
           // Send timeout error to client
           sessionStreamManager.safeSend(
             sessionId as string,
-            JSON.stringify({
+            encodeServerMessage({
               type: 'error',
               message: 'Task timed out after 10 minutes. Please try breaking down your request into smaller steps.',
               errorType: 'timeout',
@@ -766,10 +1069,14 @@ Run bash commands with the understanding that this is your current working direc
         const abortController = sessionStreamManager.getAbortController(sessionId as string);
         if (!abortController) {
           console.error('❌ No AbortController found for session:', sessionId);
-          ws.send(JSON.stringify({
-            type: 'error',
-            message: 'Session initialization error'
-          }));
+          sessionStreamManager.safeSend(
+            sessionId as string,
+            encodeServerMessage({
+              type: 'error',
+              message: 'Session initialization error',
+              sessionId: sessionId,
+            })
+          );
           return;
         }
 
@@ -790,24 +1097,8 @@ Run bash commands with the understanding that this is your current working direc
         sessionStreamManager.registerQuery(sessionId as string, result);
         activeQueries.set(sessionId as string, result);
 
-        // Set active WebSocket for this session
-        sessionStreamManager.updateWebSocket(sessionId as string, ws);
-
         // Enqueue current message (SDK loads history via resume option)
-        sessionStreamManager.sendMessage(sessionId as string, promptText);
-
-        // If session is in plan mode, immediately switch after spawn
-        // (SDK always spawns with bypassPermissions to allow bidirectional mode switching)
-        if (session.permission_mode === 'plan') {
-          try {
-            console.log('🔄 Switching to plan mode');
-            await result.setPermissionMode('plan');
-          } catch (error) {
-            console.error('❌ Failed to set permission mode to plan:', error);
-            // Continue with bypassPermissions as fallback
-            console.warn('⚠️  Continuing with bypassPermissions mode');
-          }
-        }
+        sessionStreamManager.sendMessage(sessionId as string, promptText, userMessage.id);
 
         // Note: We don't fetch commands from SDK here because supportedCommands()
         // only returns built-in SDK commands, not custom .md files from .claude/commands/
@@ -823,6 +1114,25 @@ Run bash commands with the understanding that this is your current working direc
           let currentMessageId: string | null = null; // Track DB message ID for incremental saves
           let exitPlanModeSentThisTurn = false; // Prevent duplicate plan modals
           let toolUseCount = 0; // Track number of tools executed (for hang detection logging)
+          const turnApiUsage = new Map<string, TokenUsage>(); // Usage per API call so far (keyed by message ID)
+          let stoppedForBudget = false; // Turn aborted because a budget ran out
+
+          // Usage of the turn in progress, estimated from the assistant messages seen so far
+          const getTurnUsage = (): TokenUsage => {
+            const total: TokenUsage = { inputTokens: 0, outputTokens: 0, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 };
+            for (const usage of turnApiUsage.values()) {
+              total.inputTokens += usage.inputTokens;
+              total.outputTokens += usage.outputTokens;
+              total.cacheCreationInputTokens += usage.cacheCreationInputTokens;
+              total.cacheReadInputTokens += usage.cacheReadInputTokens;
+            }
+            return total;
+          };
+
+          const toBudgetUsage = (usage: TokenUsage): BudgetUsage => ({
+            costUsd: modelConfig.pricing ? calculateCost(usage, modelConfig.pricing) : 0,
+            tokens: usage.inputTokens + usage.outputTokens + usage.cacheCreationInputTokens + usage.cacheReadInputTokens,
+          });
 
           // Heartbeat every 30 seconds to prevent WebSocket idle timeout
           const heartbeatInterval = setInterval(() => {
@@ -831,7 +1141,7 @@ Run bash commands with the understanding that this is your current working direc
             // Send keepalive through WebSocket to prevent Bun's idleTimeout from closing the connection
             sessionStreamManager.safeSend(
               sessionId as string,
-              JSON.stringify({
+              encodeServerMessage({
                 type: 'keepalive',
                 elapsedSeconds: elapsed,
                 sessionId: sessionId,
@@ -882,7 +1192,7 @@ Run bash commands with the understanding that this is your current working direc
                   // Claude will continue responding after compaction completes
                   sessionStreamManager.safeSend(
                     sessionId as string,
-                    JSON.stringify({
+                    encodeServerMessage({
                       type: 'compact_start',
                       trigger: 'auto',
                       preTokens: preTokens,
@@ -905,7 +1215,7 @@ Run bash commands with the understanding that this is your current working direc
                   // For manual compact: send completion message to replace loading state
                   sessionStreamManager.safeSend(
                     sessionId as string,
-                    JSON.stringify({
+                    encodeServerMessage({
                       type: 'compact_complete',
                       preTokens: preTokens,
                       sessionId: sessionId,
@@ -919,6 +1229,7 @@ Run bash commands with the understanding that this is your current working direc
               // Handle turn completion
               if (message.type === 'result') {
                 console.log(`✅ Turn completed: ${message.subtype}`);
+                sessionDb.finishRunningToolEvents(sessionId as string);
 
                 // Reset timeout on turn completion (meaningful progress)
                 timeoutController.reset();
@@ -934,6 +1245,7 @@ Run bash commands with the understanding that this is your current working direc
 
                 // Extract usage data from result message
                 const resultMessage = message as {
+                  duration_ms?: number;
                   usage?: {
                     input_tokens?: number;
                     output_tokens?: number;
@@ -947,6 +1259,44 @@ Run bash commands with the understanding that this is your current working direc
                   }>;
                 };
 
+                // Record this turn in the usage ledger (tokens, cost, duration)
+                // (already recorded as an estimate if the turn was stopped for budget)
+                if (resultMessage.usage && !stoppedForBudget) {
+                  sessionDb.recordUsage({
+                    sessionId: sessionId as string,
+                    model: modelConfig,
+                    inputTokens: resultMessage.usage.input_tokens || 0,
+                    outputTokens: resultMessage.usage.output_tokens || 0,
+                    cacheCreationInputTokens: resultMessage.usage.cache_creation_input_tokens || 0,
+                    cacheReadInputTokens: resultMessage.usage.cache_read_input_tokens || 0,
+                    durationMs: resultMessage.duration_ms,
+                  });
+
+                  // Let the client know when a budget is nearly or fully used (the next message will be refused)
+                  const status = checkBudgets(filter => sessionDb.getUsageTotals(filter), sessionId as string, provider);
+                  if (status.exceeded.length > 0) {
+                    sessionStreamManager.safeSend(
+                      sessionId as string,
+                      encodeServerMessage({
+                        type: 'budget_exceeded',
+                        breaches: status.exceeded,
+                        message: `${status.exceeded.map(formatBudgetBreach).join('; ')}. New messages will be refused.`,
+                        sessionId: sessionId,
+                      })
+                    );
+                  } else if (status.warnings.length > 0) {
+                    sessionStreamManager.safeSend(
+                      sessionId as string,
+                      encodeServerMessage({
+                        type: 'budget_warning',
+                        breaches: status.warnings,
+                        message: status.warnings.map(formatBudgetBreach).join('; '),
+                        sessionId: sessionId,
+                      })
+                    );
+                  }
+                }
+
                 // Send context usage to client if available
                 if (resultMessage.modelUsage) {
                   // Get usage for the current model (not first alphabetically!)
@@ -985,7 +1335,7 @@ Run bash commands with the understanding that this is your current working direc
 
                     sessionStreamManager.safeSend(
                       sessionId as string,
-                      JSON.stringify({
+                      encodeServerMessage({
                         type: 'context_usage',
                         inputTokens: totalInputTokens,
                         outputTokens: usage.outputTokens,
@@ -1017,7 +1367,7 @@ Run bash commands with the understanding that this is your current working direc
 
                   sessionStreamManager.safeSend(
                     sessionId as string,
-                    JSON.stringify({
+                    encodeServerMessage({
                       type: 'context_usage',
                       inputTokens: inputTokens,
                       outputTokens: outputTokens,
@@ -1030,22 +1380,62 @@ Run bash commands with the understanding that this is your current working direc
                   console.warn(`⚠️  Result message missing both modelUsage and usage fields - context percentage not updated`);
                 }
 
+                // Auto-commit what the turn changed, before the client hears the turn is over
+                // (skipped for turns that started before auto-commit was switched on)
+                const gitSettings = sessionDb.getSession(sessionId as string)?.git_settings;
+                const finishedTurnId = sessionStreamManager.getCurrentTurnId(sessionId as string);
+                const startedClean = finishedTurnId ? cleanTreeBeforeTurn.get(finishedTurnId) : undefined;
+                if (finishedTurnId) cleanTreeBeforeTurn.delete(finishedTurnId);
+                if (message.subtype === 'success' && gitSettings?.autoCommit && finishedTurnId && startedClean !== undefined) {
+                  let commit: CommitResult;
+                  if (startedClean) {
+                    const turnMessage = sessionDb.getMessage(finishedTurnId);
+                    commit = await commitTurnChanges(workingDir, turnMessage ? extractSearchableText(turnMessage.content) : '');
+                  } else {
+                    commit = { committed: false, error: 'The working tree had uncommitted changes before this turn. Commit or stash them to resume auto-commits.' };
+                  }
+                  if (commit.error) {
+                    console.warn(`⚠️  Auto-commit skipped for session ${sessionId?.toString().substring(0, 8)}: ${commit.error}`);
+                  } else if (commit.committed) {
+                    console.log(`📌 Auto-committed ${commit.commit}: ${commit.subject}`);
+                  }
+                  if (commit.error || commit.committed) {
+                    sessionStreamManager.safeSend(
+                      sessionId as string,
+                      encodeServerMessage({
+                        type: 'git_auto_action',
+                        action: 'commit',
+                        commit: commit.commit,
+                        subject: commit.subject,
+                        error: commit.error,
+                        sessionId: sessionId,
+                      })
+                    );
+                  }
+                }
+
                 // Send completion signal (safe send checks WebSocket readyState)
                 sessionStreamManager.safeSend(
                   sessionId as string,
-                  JSON.stringify({ type: 'result', success: true, sessionId: sessionId })
+                  encodeServerMessage({ type: 'result', success: true, sessionId: sessionId })
                 );
 
                 // Cancel timeout for this turn (will restart on next message)
                 timeoutController.cancel();
 
                 // Reset state for next turn
+                const nextTurnId = sessionStreamManager.finishTurn(sessionId as string);
+                if (nextTurnId) {
+                  await recordTreeBeforeTurn(sessionId as string, nextTurnId);
+                }
                 currentMessageContent = [];
                 currentTextResponse = '';
                 totalCharCount = 0;
                 currentMessageId = null; // Reset message ID for next turn
                 exitPlanModeSentThisTurn = false; // Reset plan mode flag for next turn
                 toolUseCount = 0; // Reset tool counter for next turn
+                turnApiUsage.clear();
+                stoppedForBudget = false;
 
                 // Continue loop - wait for next message from stream
                 continue;
@@ -1059,7 +1449,7 @@ Run bash commands with the understanding that this is your current working direc
           if (event.content_block?.type === 'thinking') {
             sessionStreamManager.safeSend(
               sessionId as string,
-              JSON.stringify({
+              encodeServerMessage({
                 type: 'thinking_start',
                 sessionId: sessionId,
               })
@@ -1079,7 +1469,7 @@ Run bash commands with the understanding that this is your current working direc
 
             sessionStreamManager.safeSend(
               sessionId as string,
-              JSON.stringify({
+              encodeServerMessage({
                 type: 'assistant_message',
                 content: text,
                 sessionId: sessionId,
@@ -1115,7 +1505,7 @@ Run bash commands with the understanding that this is your current working direc
 
             sessionStreamManager.safeSend(
               sessionId as string,
-              JSON.stringify({
+              encodeServerMessage({
                 type: 'thinking_delta',
                 content: thinkingText,
                 sessionId: sessionId,
@@ -1137,7 +1527,7 @@ Run bash commands with the understanding that this is your current working direc
           if (deltaChars > 0) {
             sessionStreamManager.safeSend(
               sessionId as string,
-              JSON.stringify({
+              encodeServerMessage({
                 type: 'token_update',
                 outputTokens: estimatedTokens,
                 sessionId: sessionId,
@@ -1147,11 +1537,90 @@ Run bash commands with the understanding that this is your current working direc
         }
               } else if (message.type === 'user') {
                 // Tool result messages - these are responses from tool executions (including spawned agents)
-                // These messages are tool results - SDK processes them internally
+                // Attach a preview to the matching tool_use block and keep long outputs in full
+                const content = message.message.content;
+                if (Array.isArray(content)) {
+                  let attached = false;
+                  for (const block of content as { type: string }[]) {
+                    if (block.type !== 'tool_result') continue;
+
+                    const resultBlock = block as ToolResultBlock;
+                    const text = getToolResultText(resultBlock);
+                    const result = toToolResultPreview(text, resultBlock.is_error === true);
+                    if (result.truncated) {
+                      sessionDb.saveToolResult(sessionId as string, resultBlock.tool_use_id, text, result.isError);
+                    }
+
+                    const toolUse = currentMessageContent.find(
+                      (b): b is { type: 'tool_use'; id: string; result?: unknown } =>
+                        (b as { type?: string }).type === 'tool_use' && (b as { id?: string }).id === resultBlock.tool_use_id
+                    );
+                    if (toolUse) {
+                      toolUse.result = result;
+                      attached = true;
+                    }
+
+                    sessionStreamManager.safeSend(
+                      sessionId as string,
+                      encodeServerMessage({
+                        type: 'tool_result',
+                        toolUseId: resultBlock.tool_use_id,
+                        result,
+                        sessionId: sessionId,
+                      })
+                    );
+                  }
+
+                  if (attached && currentMessageId) {
+                    sessionDb.updateMessage(currentMessageId, JSON.stringify(currentMessageContent));
+                  }
+                }
                 continue; // Continue to next message
               } else if (message.type === 'assistant') {
+                // Track usage per API call (includes sub-agents) to enforce budgets mid-turn
+                const apiMessage = message.message as { id?: string; usage?: { input_tokens?: number; output_tokens?: number; cache_creation_input_tokens?: number | null; cache_read_input_tokens?: number | null } };
+                if (apiMessage.id && apiMessage.usage && !stoppedForBudget) {
+                  turnApiUsage.set(apiMessage.id, {
+                    inputTokens: apiMessage.usage.input_tokens || 0,
+                    outputTokens: apiMessage.usage.output_tokens || 0,
+                    cacheCreationInputTokens: apiMessage.usage.cache_creation_input_tokens || 0,
+                    cacheReadInputTokens: apiMessage.usage.cache_read_input_tokens || 0,
+                  });
+
+                  const inFlight = getTurnUsage();
+                  const status = checkBudgets(filter => sessionDb.getUsageTotals(filter), sessionId as string, provider, toBudgetUsage(inFlight));
+                  if (status.exceeded.length > 0) {
+                    stoppedForBudget = true;
+                    console.warn(`💸 Budget exceeded mid-turn, stopping session ${sessionId.toString().substring(0, 8)}`);
+
+                    // The result message (and its usage) won't arrive after an abort, so record the estimate now
+                    sessionDb.recordUsage({ sessionId: sessionId as string, model: modelConfig, ...inFlight });
+
+                    sessionStreamManager.safeSend(
+                      sessionId as string,
+                      encodeServerMessage({
+                        type: 'budget_exceeded',
+                        breaches: status.exceeded,
+                        message: `${status.exceeded.map(formatBudgetBreach).join('; ')}. Generation was stopped.`,
+                        sessionId: sessionId,
+                      })
+                    );
+                    sessionStreamManager.abortSession(sessionId as string);
+                  }
+                }
+
                 // Capture full message content structure for database storage
                 const content = message.message.content;
+
+                // Attribute sub-agent tool calls in the audit log
+                if (message.parent_tool_use_id && Array.isArray(content)) {
+                  for (const block of content) {
+                    if (block.type === 'tool_use') {
+                      toolEventParents.set(block.id, message.parent_tool_use_id);
+                      sessionDb.setToolEventParent(block.id, message.parent_tool_use_id);
+                    }
+                  }
+                }
                 if (Array.isArray(content)) {
                   // Append blocks instead of replacing (SDK may send multiple assistant messages)
                   currentMessageContent.push(...content);
@@ -1187,9 +1656,9 @@ Run bash commands with the understanding that this is your current working direc
                 exitPlanModeSentThisTurn = true; // Mark as sent
                 sessionStreamManager.safeSend(
                   sessionId as string,
-                  JSON.stringify({
+                  encodeServerMessage({
                     type: 'exit_plan_mode',
-                    plan: (block.input as Record<string, unknown>)?.plan || 'No plan provided',
+                    plan: String((block.input as Record<string, unknown>)?.plan || 'No plan provided'),
                     sessionId: sessionId,
                   })
                 );
@@ -1212,7 +1681,7 @@ Run bash commands with the understanding that this is your current working direc
 
               sessionStreamManager.safeSend(
                 sessionId as string,
-                JSON.stringify({
+                encodeServerMessage({
                   type: 'tool_use',
                   toolId: block.id,
                   toolName: block.name,
@@ -1246,7 +1715,7 @@ Run bash commands with the understanding that this is your current working direc
               // Send completion signal to client
               sessionStreamManager.safeSend(
                 sessionId as string,
-                JSON.stringify({ type: 'result', success: true, sessionId: sessionId })
+                encodeServerMessage({ type: 'result', success: true, sessionId: sessionId })
               );
 
               // Cancel timeout
@@ -1271,7 +1740,7 @@ Run bash commands with the understanding that this is your current working direc
             // Send error to client
             sessionStreamManager.safeSend(
               sessionId as string,
-              JSON.stringify({
+              encodeServerMessage({
                 type: 'error',
                 message: errorMessage || 'Response processing error',
                 sessionId: sessionId,
@@ -1279,6 +1748,7 @@ Run bash commands with the understanding that this is your current working direc
             );
           } finally {
             clearInterval(heartbeatInterval);
+            sessionDb.finishRunningToolEvents(sessionId as string);
           }
         })(); // Execute async IIFE immediately (non-blocking)
 
@@ -1307,13 +1777,16 @@ Run bash commands with the understanding that this is your current working direc
           console.error('❌ Non-retryable error, aborting:', parsedError.type);
 
           // Send error to client with specific error type
-          ws.send(JSON.stringify({
-            type: 'error',
-            errorType: parsedError.type,
-            message: getUserFriendlyMessage(parsedError),
-            requestId: parsedError.requestId,
-            sessionId: sessionId,
-          }));
+          sessionStreamManager.safeSend(
+            sessionId as string,
+            encodeServerMessage({
+              type: 'error',
+              errorType: parsedError.type,
+              message: getUserFriendlyMessage(parsedError),
+              requestId: parsedError.requestId,
+              sessionId: sessionId,
+            })
+          );
 
           // Clean up
           timeoutController.cancel();
@@ -1325,13 +1798,16 @@ Run bash commands with the understanding that this is your current working direc
           console.error('❌ Max retries reached, giving up');
 
           // Send final error to client
-          ws.send(JSON.stringify({
-            type: 'error',
-            errorType: parsedError.type,
-            message: getUserFriendlyMessage(parsedError),
-            requestId: parsedError.requestId,
-            sessionId: sessionId,
-          }));
+          sessionStreamManager.safeSend(
+            sessionId as string,
+            encodeServerMessage({
+              type: 'error',
+              errorType: parsedError.type,
+              message: getUserFriendlyMessage(parsedError),
+              requestId: parsedError.requestId,
+              sessionId: sessionId,
+            })
+          );
 
           // Clean up
           timeoutController.cancel();
@@ -1350,15 +1826,18 @@ Run bash commands with the understanding that this is your current working direc
         delayMs = Math.min(delayMs, 16000);
 
         // Notify client of retry
-        ws.send(JSON.stringify({
-          type: 'retry_attempt',
-          attempt: attemptNumber,
-          maxAttempts: MAX_RETRIES,
-          delayMs: delayMs,
-          errorType: parsedError.type,
-          message: `Retrying... (attempt ${attemptNumber}/${MAX_RETRIES})`,
-          sessionId: sessionId,
-        }));
+        sessionStreamManager.safeSend(
+          sessionId as string,
+          encodeServerMessage({
+            type: 'retry_attempt',
+            attempt: attemptNumber,
+            maxAttempts: MAX_RETRIES,
+            delayMs: delayMs,
+            errorType: parsedError.type,
+            message: `Retrying... (attempt ${attemptNumber}/${MAX_RETRIES})`,
+            sessionId: sessionId,
+          })
+        );
 
         // Wait before retrying
         console.log(`⏳ Waiting ${delayMs}ms before retry ${attemptNumber + 1}...`);
@@ -1373,75 +1852,68 @@ Run bash commands with the understanding that this is your current working direc
     console.error('WebSocket handler error:', error);
     // No stderr context available here since this is before SDK initialization
     const parsedError = parseApiError(error);
-    ws.send(JSON.stringify({
-      type: 'error',
-      errorType: parsedError.type,
-      message: getUserFriendlyMessage(parsedError),
-      sessionId: sessionId,
-    }));
+    sessionStreamManager.safeSend(
+      sessionId as string,
+      encodeServerMessage({
+        type: 'error',
+        errorType: parsedError.type,
+        message: getUserFriendlyMessage(parsedError),
+        sessionId: sessionId,
+      })
+    );
   }
 }
 
 async function handleApprovePlan(
   ws: ServerWebSocket<ChatWebSocketData>,
-  data: Record<string, unknown>,
+  data: ClientMessageOf<'approve_plan'>,
   activeQueries: Map<string, unknown>
 ): Promise<void> {
-  const { sessionId } = data;
-
-  if (!sessionId) {
-    ws.send(JSON.stringify({ type: 'error', error: 'Missing sessionId' }));
-    return;
-  }
+  const { sessionId, mode = 'bypassPermissions' } = data;
 
   const activeQuery = activeQueries.get(sessionId as string);
 
   try {
-    console.log('✅ Plan approved, switching to bypassPermissions mode');
+    console.log(`✅ Plan approved, switching to ${mode} mode`);
 
-    // Switch SDK back to bypassPermissions (was in plan mode)
+    // Switch SDK out of plan mode
     if (activeQuery) {
-      console.log(`🔄 Switching SDK permission mode: plan → bypassPermissions`);
-      await (activeQuery as { setPermissionMode: (mode: string) => Promise<void> }).setPermissionMode('bypassPermissions');
+      console.log(`🔄 Switching SDK permission mode: plan → ${mode}`);
+      await (activeQuery as { setPermissionMode: (mode: string) => Promise<void> }).setPermissionMode(mode);
     }
 
-    // Update database to bypassPermissions mode
-    sessionDb.updatePermissionMode(sessionId as string, 'bypassPermissions');
+    // Update database to the execution mode
+    sessionDb.updatePermissionMode(sessionId as string, mode);
 
     // Send confirmation to client
-    ws.send(JSON.stringify({
+    ws.send(encodeServerMessage({
       type: 'permission_mode_changed',
-      mode: 'bypassPermissions'
+      mode
     }));
 
     // Send a continuation message to the user to trigger execution
-    ws.send(JSON.stringify({
+    ws.send(encodeServerMessage({
       type: 'plan_approved_continue',
       message: 'Plan approved. Proceeding with implementation...'
     }));
 
-    console.log('✅ Plan approved, SDK switched to bypassPermissions');
+    console.log(`✅ Plan approved, SDK switched to ${mode}`);
   } catch (error) {
     console.error('Failed to handle plan approval:', error);
-    ws.send(JSON.stringify({
+    ws.send(encodeServerMessage({
       type: 'error',
-      error: 'Failed to approve plan'
+      message: 'Failed to approve plan'
     }));
   }
 }
 
 async function handleSetPermissionMode(
   ws: ServerWebSocket<ChatWebSocketData>,
-  data: Record<string, unknown>,
+  data: ClientMessageOf<'set_permission_mode'>,
   activeQueries: Map<string, unknown>
 ): Promise<void> {
   const { sessionId, mode } = data;
 
-  if (!sessionId || !mode) {
-    ws.send(JSON.stringify({ type: 'error', error: 'Missing sessionId or mode' }));
-    return;
-  }
-
   const activeQuery = activeQueries.get(sessionId as string);
 
   try {
@@ -1454,66 +1926,75 @@ async function handleSetPermissionMode(
     // Always update database
     sessionDb.updatePermissionMode(sessionId as string, mode as 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan');
 
-    ws.send(JSON.stringify({
+    ws.send(encodeServerMessage({
       type: 'permission_mode_changed',
       mode
     }));
   } catch (error) {
     console.error('Failed to update permission mode:', error);
-    ws.send(JSON.stringify({
+    ws.send(encodeServerMessage({
       type: 'error',
-      error: 'Failed to update permission mode'
+      message: 'Failed to update permission mode'
     }));
   }
 }
 
 async function handleKillBackgroundProcess(
   ws: ServerWebSocket<ChatWebSocketData>,
-  data: Record<string, unknown>
+  data: ClientMessageOf<'kill_background_process'>
 ): Promise<void> {
   const { bashId } = data;
 
-  if (!bashId) {
-    ws.send(JSON.stringify({ type: 'error', error: 'Missing bashId' }));
-    return;
-  }
-
   try {
     console.log(`🛑 Killing background process: ${bashId}`);
 
     const success = await backgroundProcessManager.kill(bashId as string);
 
     if (success) {
-      ws.send(JSON.stringify({
+      ws.send(encodeServerMessage({
         type: 'background_process_killed',
         bashId
       }));
     } else {
-      ws.send(JSON.stringify({
+      ws.send(encodeServerMessage({
         type: 'error',
-        error: 'Process not found'
+        message: 'Process not found'
       }));
     }
   } catch (error) {
     console.error('Failed to kill background process:', error);
-    ws.send(JSON.stringify({
+    ws.send(encodeServerMessage({
       type: 'error',
-      error: error instanceof Error ? error.message : 'Failed to kill background process'
+      message: error instanceof Error ? error.message : 'Failed to kill background process'
     }));
   }
 }
 
+/**
+ * Reconnected client catching up on a session: replay buffered events after lastSeq
+ */
+function handleResumeStream(
+  ws: ServerWebSocket<ChatWebSocketData>,
+  data: ClientMessageOf<'resume_stream'>
+): void {
+  const { sessionId, lastSeq } = data;
+
+  const result = sessionStreamManager.resumeStream(sessionId, ws, lastSeq);
+  console.log(`🔁 Resumed session ${sessionId.substring(0, 8)} after seq ${lastSeq}: ${result.replayed} events replayed${result.complete ? '' : ' (incomplete, client will reload)'}`);
+
+  ws.send(encodeServerMessage({
+    type: 'stream_resumed',
+    sessionId,
+    ...result,
+  }));
+}
+
 async function handleStopGeneration(
   ws: ServerWebSocket<ChatWebSocketData>,
-  data: Record<string, unknown>
+  data: ClientMessageOf<'stop_generation'>
 ): Promise<void> {
   const { sessionId } = data;
 
-  if (!sessionId) {
-    ws.send(JSON.stringify({ type: 'error', error: 'Missing sessionId' }));
-    return;
-  }
-
   try {
     console.log(`🛑 Stop generation requested for session: ${sessionId.toString().substring(0, 8)}`);
 
@@ -1521,38 +2002,33 @@ async function handleStopGeneration(
 
     if (success) {
       console.log(`✅ Generation stopped successfully: ${sessionId.toString().substring(0, 8)}`);
-      ws.send(JSON.stringify({
+      ws.send(encodeServerMessage({
         type: 'generation_stopped',
         sessionId: sessionId
       }));
     } else {
       console.warn(`⚠️ Failed to stop generation (session not found): ${sessionId.toString().substring(0, 8)}`);
-      ws.send(JSON.stringify({
+      ws.send(encodeServerMessage({
         type: 'error',
-        error: 'Session not found or already stopped'
+        message: 'Session not found or already stopped'
       }));
     }
   } catch (error) {
     console.error('❌ Error stopping generation:', error);
-    ws.send(JSON.stringify({
+    ws.send(encodeServerMessage({
       type: 'error',
-      error: error instanceof Error ? error.message : 'Failed to stop generation'
+      message: error instanceof Error ? error.message : 'Failed to stop generation'
     }));
   }
 }
 
 async function handleAnswerQuestion(
   ws: ServerWebSocket<ChatWebSocketData>,
-  data: Record<string, unknown>,
+  data: ClientMessageOf<'answer_question'>,
   _activeQueries: Map<string, unknown>
 ): Promise<void> {
   const { sessionId, toolId, answers } = data;
 
-  if (!sessionId || !toolId || !answers) {
-    ws.send(JSON.stringify({ type: 'error', error: 'Missing sessionId, toolId, or answers' }));
-    return;
-  }
-
   try {
     console.log(`❓ User answered question (toolId: ${toolId}) for session: ${sessionId.toString().substring(0, 8)}`);
     console.log('📝 Answers:', answers);
@@ -1563,39 +2039,34 @@ async function handleAnswerQuestion(
 
     if (answered) {
       // Confirm to client
-      ws.send(JSON.stringify({
+      ws.send(encodeServerMessage({
         type: 'question_answered',
         toolId: toolId,
         sessionId: sessionId
       }));
     } else {
       console.warn(`⚠️ No pending question found for toolId: ${toolId}`);
-      ws.send(JSON.stringify({
+      ws.send(encodeServerMessage({
         type: 'error',
-        error: 'Question not found or already answered'
+        message: 'Question not found or already answered'
       }));
     }
 
   } catch (error) {
     console.error('❌ Error handling question answer:', error);
-    ws.send(JSON.stringify({
+    ws.send(encodeServerMessage({
       type: 'error',
-      error: error instanceof Error ? error.message : 'Failed to process answer'
+      message: error instanceof Error ? error.message : 'Failed to process answer'
     }));
   }
 }
 
 async function handleCancelQuestion(
   ws: ServerWebSocket<ChatWebSocketData>,
-  data: Record<string, unknown>
+  data: ClientMessageOf<'cancel_question'>
 ): Promise<void> {
   const { sessionId, toolId } = data;
 
-  if (!sessionId || !toolId) {
-    ws.send(JSON.stringify({ type: 'error', error: 'Missing sessionId or toolId' }));
-    return;
-  }
-
   try {
     console.log(`❌ User cancelled question (toolId: ${toolId}) for session: ${sessionId.toString().substring(0, 8)}`);
 
@@ -1603,7 +2074,7 @@ async function handleCancelQuestion(
     const cancelled = cancelQuestion(toolId as string);
 
     if (cancelled) {
-      ws.send(JSON.stringify({
+      ws.send(encodeServerMessage({
         type: 'question_cancelled',
         toolId: toolId,
         sessionId: sessionId
@@ -1614,9 +2085,29 @@ async function handleCancelQuestion(
 
   } catch (error) {
     console.error('❌ Error cancelling question:', error);
-    ws.send(JSON.stringify({
+    ws.send(encodeServerMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Failed to cancel question'
+    }));
+  }
+}
+
+/**
+ * A client answered a tool permission request; every client is told the
+ * outcome via tool_permission_resolved once the tool call continues
+ */
+function handleRespondToolPermission(
+  ws: ServerWebSocket<ChatWebSocketData>,
+  data: ClientMessageOf<'respond_tool_permission'>
+): void {
+  const { sessionId, requestId, decision } = data;
+
+  if (!resolveToolPermission(sessionId, requestId, decision)) {
+    console.warn(`⚠️ No pending permission request found for requestId: ${requestId}`);
+    ws.send(encodeServerMessage({
       type: 'error',
-      error: error instanceof Error ? error.message : 'Failed to cancel question'
+      message: 'Permission request not found or already answered',
+      sessionId,
     }));
   }
 }